@@ -0,0 +1,19 @@
+import { logger } from "../../../../../lib/logger";
+import { NextResponse } from "next/server";
+import { createSiwfNonce } from "../../../../../lib/farcasterAuth";
+
+// Every request needs a fresh nonce
+export const dynamic = "force-dynamic";
+
+// Nonce for a Sign In With Farcaster message, checked by POST /api/auth/farcaster
+export async function GET() {
+  try {
+    return NextResponse.json({ nonce: createSiwfNonce() });
+  } catch (error) {
+    logger.error("Error creating sign-in nonce:", error);
+    return NextResponse.json(
+      { error: "Failed to create nonce" },
+      { status: 500 }
+    );
+  }
+}
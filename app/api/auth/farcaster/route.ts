@@ -1,40 +1,49 @@
 import { logger } from "../../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateFarcasterUser } from "../../../../lib/auth";
+import { authenticateFarcasterUser, type FarcasterCredential } from "../../../../lib/auth";
+import { resolveFarcasterAuthDomain } from "../../../../lib/farcasterAuth";
+import { getSessionDevice } from "../../../../lib/sessions";
 
 export async function POST(request: NextRequest) {
   try {
-    const { fid, username, displayName, pfpUrl } = await request.json();
+    const { fid, username, displayName, pfpUrl, message, signature } = await request.json();
 
     console.log('📨 [API /auth/farcaster] Received auth request:', {
       fid,
       username,
       displayName,
-      pfpUrl
+      pfpUrl,
+      siwf: Boolean(message)
     });
 
-    if (!fid) {
-      return NextResponse.json(
-        { success: false, message: "Farcaster FID is required" },
-        { status: 400 }
-      );
-    }
-
-    // Optional: Verify the Farcaster token if provided
+    // Quick Auth token from the mini app SDK, or a Sign In With Farcaster
+    // message outside a mini app - the FID is taken from whichever verifies
     const farcasterToken = request.headers.get('X-Farcaster-Token');
+    let credential: FarcasterCredential;
     if (farcasterToken) {
-      console.log('🔑 [API /auth/farcaster] Farcaster Quick Auth token provided');
-      // In production, you could verify this token with Farcaster's auth server
-      // For now, we trust the context from the miniapp SDK
+      credential = { type: 'quick_auth', token: farcasterToken };
+    } else if (typeof message === 'string' && typeof signature === 'string') {
+      credential = { type: 'siwf', message, signature };
+    } else {
+      return NextResponse.json(
+        { success: false, message: "A Quick Auth token (X-Farcaster-Token) or a signed Sign In With Farcaster message is required" },
+        { status: 401 }
+      );
     }
 
-    const result = await authenticateFarcasterUser(fid, username, displayName, pfpUrl);
+    const domain = resolveFarcasterAuthDomain(request.headers.get('host'));
+    const result = await authenticateFarcasterUser(credential, domain, {
+      fid: fid !== undefined && fid !== null ? String(fid) : undefined,
+      username,
+      displayName,
+      pfpUrl,
+    }, getSessionDevice(request));
     
     if (!result.success) {
       console.log('❌ [API /auth/farcaster] Auth failed:', result.error);
       return NextResponse.json(
         { success: false, message: result.error },
-        { status: 500 }
+        { status: result.status }
       );
     }
     
@@ -57,4 +66,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
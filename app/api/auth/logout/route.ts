@@ -0,0 +1,30 @@
+import { logger } from "../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "../../../../lib/auth";
+import { deleteSessionById } from "../../../../lib/database";
+
+// POST /api/auth/logout - Revoke the session this request was made with
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (user.sessionId) {
+      await deleteSessionById(user.sessionId, user.id);
+      logger.log(`🚪 Revoked session ${user.sessionId} for user ${user.id}`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Failed to log out" },
+      { status: 500 }
+    );
+  }
+}
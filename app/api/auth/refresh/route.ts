@@ -0,0 +1,38 @@
+import { logger } from "../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { refreshSession, getSessionDevice, SessionError } from "../../../../lib/sessions";
+
+// POST /api/auth/refresh - Trade a refresh token for a new access/refresh pair
+export async function POST(request: NextRequest) {
+  try {
+    const { refreshToken } = await request.json().catch(() => ({}));
+
+    if (typeof refreshToken !== "string" || !refreshToken) {
+      return NextResponse.json(
+        { error: "Missing refresh token" },
+        { status: 400 }
+      );
+    }
+
+    const session = await refreshSession(refreshToken, getSessionDevice(request));
+
+    return NextResponse.json({
+      success: true,
+      sessionToken: session.sessionToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.expiresAt.toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      );
+    }
+    logger.error("Session refresh error:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { deleteSessionById } from "../../../../../lib/database";
+
+// DELETE /api/auth/sessions/[sessionId] - Sign one of the user's devices out
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    // Scoped to the caller, so another user's session id just isn't found
+    const revoked = await deleteSessionById(sessionId, user.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, current: sessionId === user.sessionId });
+  } catch (error) {
+    logger.error("Error revoking session:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { logger } from "../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "../../../../lib/auth";
+import { getUserSessions, deleteUserSessions } from "../../../../lib/database";
+
+// GET /api/auth/sessions - Devices the user is signed in on
+export async function GET(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await getUserSessions(user.id);
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === user.sessionId,
+      })),
+    });
+  } catch (error) {
+    logger.error("Error listing sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to list sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/auth/sessions - Sign out everywhere, including this device
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await deleteUserSessions(user.id);
+    logger.log(`🚪 Signed user ${user.id} out everywhere (${revoked} session(s))`);
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    logger.error("Error revoking sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { deletePersonalAccessToken } from "../../../../../lib/database";
+
+// DELETE /api/auth/tokens/[tokenId] - Revoke a personal access token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { tokenId } = await params;
+
+    // Scoped to the caller, so another user's token id just isn't found
+    const revoked = await deletePersonalAccessToken(tokenId, user.id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Access token not found" },
+        { status: 404 }
+      );
+    }
+
+    logger.log(`🔑 Revoked access token ${tokenId} for user ${user.id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error("Error revoking access token:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke access token" },
+      { status: 500 }
+    );
+  }
+}
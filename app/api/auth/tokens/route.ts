@@ -0,0 +1,82 @@
+import { logger } from "../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "../../../../lib/auth";
+import { getPersonalAccessTokens } from "../../../../lib/database";
+import { createAccessToken, isAccessTokenScope, ACCESS_TOKEN_SCOPES } from "../../../../lib/accessTokens";
+
+const MAX_TOKEN_NAME_LENGTH = 100;
+const MAX_EXPIRES_IN_DAYS = 365;
+
+// GET /api/auth/tokens - The user's personal access tokens (never the tokens themselves)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const tokens = await getPersonalAccessTokens(user.id);
+
+    return NextResponse.json({ success: true, tokens, scopes: ACCESS_TOKEN_SCOPES });
+  } catch (error) {
+    logger.error("Error listing access tokens:", error);
+    return NextResponse.json(
+      { error: "Failed to list access tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/tokens - Create a token; the response is the only time it is shown
+export async function POST(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { name, scopes, expiresInDays } = await request.json();
+
+    if (typeof name !== "string" || !name.trim() || name.trim().length > MAX_TOKEN_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `name must be 1-${MAX_TOKEN_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isAccessTokenScope)) {
+      return NextResponse.json(
+        { error: `scopes must be a non-empty list of: ${ACCESS_TOKEN_SCOPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (expiresInDays !== undefined && expiresInDays !== null &&
+        (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRES_IN_DAYS)) {
+      return NextResponse.json(
+        { error: `expiresInDays must be a whole number from 1 to ${MAX_EXPIRES_IN_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const { token, accessToken } = await createAccessToken(user.id, name.trim(), scopes, expiresAt);
+
+    return NextResponse.json({ success: true, token, accessToken }, { status: 201 });
+  } catch (error) {
+    logger.error("Error creating access token:", error);
+    return NextResponse.json(
+      { error: "Failed to create access token" },
+      { status: 500 }
+    );
+  }
+}
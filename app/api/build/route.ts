@@ -1,8 +1,7 @@
 import { logger } from "../../../lib/logger";
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateRequest } from '../../../lib/auth';
-import { db, projects, projectDeployments } from '../../../db';
-import { eq } from 'drizzle-orm';
+import { withProjectAccess, projectIdFromBody } from '../../../lib/projectAccess';
+import { db, projectDeployments } from '../../../db';
 import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs-extra';
@@ -12,32 +11,19 @@ import fs from 'fs-extra';
  * Trigger build and collect logs
  * 
  * This endpoint:
- * 1. Validates user owns the project
+ * 1. Requires editor access to the project (withProjectAccess)
  * 2. Runs `npm run build` in the project directory
  * 3. Captures stdout/stderr
  * 4. Stores deployment info in database
  * 5. Returns build status and logs
  */
-export async function POST(req: NextRequest) {
+export const POST = withProjectAccess('editor', async (req: NextRequest, _context, { user, project }) => {
   try {
     logger.log('\n========================================');
     logger.log('🔨 BUILD API REQUEST RECEIVED');
     logger.log('========================================');
 
-    // 1. Authenticate request
-    const authResult = await authenticateRequest(req);
-    if (!authResult.isAuthorized || !authResult.user) {
-      logger.error('❌ Authentication failed:', authResult.error || 'No valid session');
-      return NextResponse.json(
-        { success: false, error: authResult.error || 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    const user = authResult.user;
-    logger.log('✅ User authenticated:', user.id);
-
-    // 2. Parse request body
+    // 1. Parse request body
     let requestBody;
     try {
       requestBody = await req.json();
@@ -53,44 +39,9 @@ export async function POST(req: NextRequest) {
     const { projectId } = requestBody;
 
     logger.log('📦 Request data:', { projectId });
+    logger.log('✅ Project access verified for user:', user.id);
 
-    // 3. Validate projectId
-    if (!projectId) {
-      logger.error('❌ Validation failed: Missing projectId');
-      return NextResponse.json(
-        { success: false, error: 'Missing required field: projectId' },
-        { status: 400 }
-      );
-    }
-
-    // 4. Check if project exists and belongs to user
-    const projectRecords = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.id, projectId))
-      .limit(1);
-
-    if (projectRecords.length === 0) {
-      logger.error('❌ Project not found:', projectId);
-      return NextResponse.json(
-        { success: false, error: 'Project not found' },
-        { status: 404 }
-      );
-    }
-
-    const project = projectRecords[0];
-
-    if (project.userId !== user.id) {
-      logger.error('❌ Unauthorized: Project does not belong to user');
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized: Project does not belong to user' },
-        { status: 403 }
-      );
-    }
-
-    logger.log('✅ Project ownership verified');
-
-    // 5. Get project directory
+    // 2. Get project directory
     const projectDir = path.join(process.cwd(), 'generated', projectId);
 
     // Check if directory exists
@@ -104,7 +55,7 @@ export async function POST(req: NextRequest) {
 
     logger.log('📂 Project directory:', projectDir);
 
-    // 6. Run build
+    // 3. Run build
     logger.log('🔨 Starting build process...');
     
     const buildResult = await runBuild(projectDir);
@@ -115,7 +66,7 @@ export async function POST(req: NextRequest) {
       duration: buildResult.executionTime
     });
 
-    // 7. Save deployment info to database
+    // 4. Save deployment info to database
     if (buildResult.success) {
       try {
         await db.insert(projectDeployments).values({
@@ -133,7 +84,7 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // 8. Return result
+    // 5. Return result
     logger.log('✅ Build request completed');
     logger.log('========================================\n');
 
@@ -159,7 +110,7 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromBody });
 
 /**
  * Run npm build command in project directory
@@ -2,6 +2,13 @@ import { logger } from "../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
 import { saveChatMessage, createProject, migrateChatMessages } from "../../../lib/database";
 import { authenticateRequest } from "../../../lib/auth";
+import { callStageLLM } from "../../../lib/llmProviders";
+import { recordLLMUsage, type LLMUsageScope } from "../../../lib/llmUsage";
+import {
+  withProjectAccess,
+  projectIdFromQuery,
+  requireProjectRole,
+} from "../../../lib/projectAccess";
 import { db, chatMessages } from "../../../db";
 import { eq } from "drizzle-orm";
 
@@ -133,45 +140,17 @@ Requirements gathered: {requirements}
 
 After providing this summary, end with: "Perfect! I'll now proceed to build your miniapp. This will take a moment while I create all the necessary files and set up the project structure. You'll see the preview appear shortly."`;
 
-async function callClaude(
+// Conversational replies go through the provider layer (which owns retries) and are
+// recorded in the usage ledger against the chat's user and project
+async function callChatLLM(
+  usageScope: LLMUsageScope,
   systemPrompt: string,
   userMessage: string,
-  stream: boolean = false
-): Promise<string | ReadableStream> {
-  const apiKey = process.env.CLAUDE_API_KEY;
-  // logger.log("Claude API key:", apiKey);
-  if (!apiKey) throw new Error("Claude API key not set");
-
-  const requestBody = {
-    model: "claude-3-5-haiku-20241022",
-    max_tokens: 4000,
-    temperature: 0.2,
-    system: systemPrompt,
-    messages: [{ role: "user", content: userMessage }],
-    stream: stream,
-  };
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-      "content-type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${errorText}`);
-  }
-
-  if (stream) {
-    return response.body as ReadableStream;
-  } else {
-    const data = await response.json();
-    return data.content[0]?.text || "";
-  }
+  stageName: string
+): Promise<string> {
+  const result = await callStageLLM(systemPrompt, userMessage, stageName, "CHAT_ASSISTANT");
+  await recordLLMUsage(usageScope, result);
+  return result.text;
 }
 
 export async function POST(request: NextRequest) {
@@ -194,6 +173,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // projectId is optional here (a draft project is created without one),
+    // so this can't use withProjectAccess, but an existing project needs editor access
+    if (projectId) {
+      const access = await requireProjectRole(projectId, user, 'editor');
+      if (access instanceof Response) {
+        return access;
+      }
+    }
+
     // SERVER-SIDE CREDIT VALIDATION
     // Import at runtime to avoid issues if module doesn't exist yet
     const { validateCredits, trackCredits, captureCredits } = await import('../../../lib/creditValidation');
@@ -226,37 +214,6 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Add exponential backoff retry logic for Claude API calls
-    const maxRetries = 5; // Increased retries
-    const baseDelay = 1000; // 1 second base delay
-    
-    async function retryClaudeCall(systemPrompt: string, message: string, stream: boolean) {
-      let lastError;
-      
-      for (let i = 0; i < maxRetries; i++) {
-        try {
-          return await callClaude(systemPrompt, message, stream);
-        } catch (error) {
-          lastError = error;
-          
-          // Check if error is due to overload
-          if (error instanceof Error && error.message.includes('overloaded_error')) {
-            const exponentialDelay = baseDelay * Math.pow(2, i); // Exponential backoff
-            const jitter = Math.random() * 1000; // Add random jitter up to 1 second
-            const totalDelay = exponentialDelay + jitter;
-            
-            logger.log(`Claude API overloaded, retry attempt ${i + 1} of ${maxRetries}. Waiting ${totalDelay}ms`);
-            await new Promise(resolve => setTimeout(resolve, totalDelay));
-            continue;
-          }
-          
-          throw error; // Throw non-overload errors immediately
-        }
-      }
-      
-      throw new Error(`Failed after ${maxRetries} retries: ${lastError}`);
-    }
-
     // Determine the project ID to use
     let currentProjectId = projectId;
     
@@ -302,6 +259,8 @@ export async function POST(request: NextRequest) {
       logger.log(`Loaded ${existingMessages.length} messages from DB for project ${currentProjectId}`);
     }
 
+    const usageScope: LLMUsageScope = { userId: user.id, projectId: currentProjectId };
+
     // Save user message to database and update cache
     await saveMessageToDBAndCache(
       currentProjectId, 
@@ -324,16 +283,16 @@ export async function POST(request: NextRequest) {
               conversationHistory
             );
 
-      const streamResponse = await retryClaudeCall(systemPrompt, message, true) as ReadableStream;
+      // The provider layer returns whole completions, so the reply is sent as a single chunk
+      const aiResponse = await callChatLLM(usageScope, systemPrompt, message, "Chat: Streamed Reply");
 
       if (action === "confirm_project") {
         session.projectConfirmed = true;
       }
 
-      return new Response(streamResponse, {
+      return new Response(aiResponse, {
         headers: {
           "Content-Type": "text/plain; charset=utf-8",
-          "Transfer-Encoding": "chunked",
         },
       });
     } else {
@@ -359,7 +318,7 @@ export async function POST(request: NextRequest) {
           "{requirements}",
           requirements
         );
-        aiResponse = await retryClaudeCall(systemPrompt, message, false) as string;
+        aiResponse = await callChatLLM(usageScope, systemPrompt, message, "Chat: Project Confirmation");
         session.projectConfirmed = true;
       } else {
         const conversationHistory = session.messages
@@ -369,7 +328,7 @@ export async function POST(request: NextRequest) {
           "{conversationHistory}",
           conversationHistory
         );
-        aiResponse = await retryClaudeCall(systemPrompt, message, false) as string;
+        aiResponse = await callChatLLM(usageScope, systemPrompt, message, "Chat: Requirements Gathering");
       }
 
       // Save AI message to database and update cache
@@ -406,14 +365,11 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withProjectAccess('viewer', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
-    const projectId = searchParams.get("projectId");
-
-    if (!projectId) {
-      return NextResponse.json({ error: "Missing projectId" }, { status: 400 });
-    }
+    // Guaranteed by withProjectAccess
+    const projectId = searchParams.get("projectId")!;
 
     // Load messages from database
     const messages = await loadChatMessagesFromDB(projectId);
@@ -439,27 +395,24 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromQuery });
 
 // Migration endpoint for chat messages
-export async function PUT(request: NextRequest) {
+export const PUT = withProjectAccess('editor', async (request: NextRequest, _context, { user }) => {
   try {
     const { fromProjectId, toProjectId } = await request.json();
 
-    if (!fromProjectId || !toProjectId) {
+    if (!fromProjectId) {
       return NextResponse.json(
-        { error: "Missing fromProjectId or toProjectId" },
+        { error: "Missing fromProjectId" },
         { status: 400 }
       );
     }
 
-    // Authenticate the user
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
+    // The guard checked the target project; the source needs editor access too
+    const fromAccess = await requireProjectRole(fromProjectId, user, 'editor');
+    if (fromAccess instanceof Response) {
+      return fromAccess;
     }
 
     // Migrate chat messages
@@ -481,4 +434,9 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, {
+  resolveProjectId: async (request) => {
+    const body = await request.clone().json().catch(() => null);
+    return typeof body?.toProjectId === "string" ? body.toProjectId : null;
+  },
+});
@@ -1,6 +1,6 @@
 import { logger } from "../../../lib/logger";
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateRequest } from '../../../lib/auth';
+import { withProjectAccess, projectIdFromBody } from '../../../lib/projectAccess';
 
 /**
  * POST /api/execute
@@ -13,26 +13,15 @@ import { authenticateRequest } from '../../../lib/auth';
  * Used by the LLM during Stage 0 (Context Gathering) to inspect
  * project files and understand the codebase.
  */
-export async function POST(req: NextRequest) {
+export const POST = withProjectAccess('viewer', async (req: NextRequest, _context, { user }) => {
   try {
     logger.log('\n========================================');
     logger.log('🔧 EXECUTE API REQUEST RECEIVED');
     logger.log('========================================');
 
-    // 1. Authenticate request
-    const authResult = await authenticateRequest(req);
-    if (!authResult.isAuthorized || !authResult.user) {
-      logger.error('❌ Authentication failed:', authResult.error || 'No valid session');
-      return NextResponse.json(
-        { success: false, error: authResult.error || 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    const user = authResult.user;
     logger.log('✅ User authenticated:', user.farcasterFid);
 
-    // 2. Parse request body
+    // 1. Parse request body
     let requestBody;
     try {
       requestBody = await req.json();
@@ -54,15 +43,7 @@ export async function POST(req: NextRequest) {
       workingDirectory: workingDirectory || 'default'
     });
 
-    // 3. Validate required fields
-    if (!projectId) {
-      logger.error('❌ Validation failed: Missing projectId');
-      return NextResponse.json(
-        { success: false, error: 'Missing required field: projectId' },
-        { status: 400 }
-      );
-    }
-
+    // 2. Validate required fields
     if (!command) {
       logger.error('❌ Validation failed: Missing command');
       return NextResponse.json(
@@ -71,7 +52,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 4. Get preview host configuration
+    // 3. Get preview host configuration
     const previewApiBase = process.env.PREVIEW_API_BASE;
     const previewAuthToken = process.env.PREVIEW_AUTH_TOKEN;
 
@@ -93,7 +74,7 @@ export async function POST(req: NextRequest) {
 
     logger.log('🔗 Forwarding to preview host:', `${previewApiBase}/previews/${projectId}/execute`);
 
-    // 5. Forward request to preview host
+    // 4. Forward request to preview host
     const previewUrl = `${previewApiBase}/previews/${projectId}/execute`;
     
     let response;
@@ -126,7 +107,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 6. Parse response
+    // 5. Parse response
     let result;
     try {
       result = await response.json();
@@ -145,7 +126,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // 7. Return result
+    // 6. Return result
     logger.log('✅ Execute request completed successfully');
     logger.log('========================================\n');
     
@@ -164,7 +145,7 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromBody });
 
 /**
  * GET /api/execute
@@ -8,30 +8,28 @@ import {
   listGeneratedFiles,
   updateGeneratedFile,
   deleteGeneratedFile,
+  getPreviewAccessToken,
 } from "../../../lib/previewManager";
 import { getProjectFiles } from "../../../lib/database";
-import { headers } from "next/headers";
+import {
+  withProjectAccess,
+  projectIdFromBody,
+  projectIdFromQuery,
+} from "../../../lib/projectAccess";
 
 // GET: List files or fetch file content from generated directory
-export async function GET(request: NextRequest) {
+export const GET = withProjectAccess('viewer', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const filePath = searchParams.get("file");
-    const projectId = searchParams.get("projectId");
+    // Guaranteed by withProjectAccess
+    const projectId = searchParams.get("projectId")!;
     const listFiles = searchParams.get("listFiles") === "true";
 
     logger.log(
       `🔍 FILES GET request - projectId: ${projectId}, filePath: ${filePath}, listFiles: ${listFiles}`
     );
 
-    if (!projectId) {
-      logger.log(`❌ Missing project ID`);
-      return NextResponse.json(
-        { error: "Missing project ID" },
-        { status: 400 }
-      );
-    }
-
     // Handle file listing request
     if (listFiles) {
       logger.log(
@@ -141,31 +139,21 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromQuery });
 
 // PUT: Save file content to both local and container
-export async function PUT(request: NextRequest) {
+export const PUT = withProjectAccess('editor', async (request: NextRequest) => {
   try {
     const { projectId, filename, content } = await request.json();
-    const accessToken = (await headers())
-      .get("authorization")
-      ?.replace("Bearer ", "");
-
-    if (!accessToken) {
-      return NextResponse.json(
-        { error: "Missing access token" },
-        { status: 401 }
-      );
-    }
 
     logger.log(
       `💾 PUT request - projectId: ${projectId}, filename: ${filename}`
     );
 
-    if (!projectId || !filename || content === undefined) {
+    if (!filename || content === undefined) {
       logger.log(`❌ Missing required fields`);
       return NextResponse.json(
-        { error: "Missing projectId, filename, or content" },
+        { error: "Missing filename or content" },
         { status: 400 }
       );
     }
@@ -187,6 +175,10 @@ export async function PUT(request: NextRequest) {
 
     // Update the preview with the new file (optional - may not be supported on Railway)
     try {
+      const accessToken = getPreviewAccessToken();
+      if (!accessToken) {
+        throw new Error("Missing preview auth token");
+      }
       await updatePreviewFiles(projectId, [{ filename, content }], accessToken);
       logger.log(`✅ Preview updated with file: ${filename}`);
     } catch (error) {
@@ -205,23 +197,24 @@ export async function PUT(request: NextRequest) {
     logger.error("❌ Error saving file:", error);
     return NextResponse.json({ error: "Failed to save file" }, { status: 500 });
   }
-}
+}, { resolveProjectId: projectIdFromBody });
 
 // DELETE: Delete a file from both local and container
-export async function DELETE(request: NextRequest) {
+export const DELETE = withProjectAccess('editor', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
-    const projectId = searchParams.get("projectId");
+    // Guaranteed by withProjectAccess
+    const projectId = searchParams.get("projectId")!;
     const filename = searchParams.get("filename");
 
     logger.log(
       `🗑️ DELETE request - projectId: ${projectId}, filename: ${filename}`
     );
 
-    if (!projectId || !filename) {
-      logger.log(`❌ Missing projectId or filename`);
+    if (!filename) {
+      logger.log(`❌ Missing filename`);
       return NextResponse.json(
-        { error: "Missing projectId or filename" },
+        { error: "Missing filename" },
         { status: 400 }
       );
     }
@@ -273,4 +266,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromQuery });
@@ -0,0 +1,80 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobById, requestGenerationJobCancellation } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { emitJobEvent } from "../../../../../lib/jobEvents";
+
+/**
+ * POST /api/jobs/[id]/cancel
+ * Stop a generation job. Pending jobs are cancelled immediately; a running job
+ * stops at the worker's next checkpoint without touching the project files.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const authResult = await authenticateRequest(request);
+    if (!authResult.isAuthorized || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const job = await getGenerationJobById(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.userId !== authResult.user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized - Job belongs to different user" },
+        { status: 403 }
+      );
+    }
+
+    const updated = await requestGenerationJobCancellation(jobId);
+
+    if (!updated) {
+      const current = await getGenerationJobById(jobId);
+      return NextResponse.json(
+        { error: `Job is already ${current?.status || job.status}` },
+        { status: 409 }
+      );
+    }
+
+    logger.log(`⏹️ Cancellation requested for job ${jobId} (${updated.status})`);
+
+    if (updated.status === "cancelled") {
+      // Never picked up by a worker, so nobody else will report it
+      await emitJobEvent(jobId, {
+        type: "job_cancelled",
+        message: "Generation stopped",
+      });
+    }
+
+    return NextResponse.json({
+      id: updated.id,
+      status: updated.status,
+      cancelRequested: true,
+      message: updated.status === "cancelled"
+        ? "Job cancelled"
+        : "Cancellation requested - the job will stop at its next checkpoint",
+    }, { status: updated.status === "cancelled" ? 200 : 202 });
+  } catch (error) {
+    logger.error("❌ Error cancelling job:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to cancel job",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { getGenerationJobById, getGenerationJobEvents } from "../../../../../lib/database";
+import { authenticateRequest } from "../../../../../lib/auth";
+import { TERMINAL_JOB_EVENTS, type JobEventRecord, type JobEventType } from "../../../../../lib/jobEvents";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 600; // Same budget as the job worker
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/jobs/[id]/events
+ * Server-Sent Events stream of structured progress events for a generation job.
+ * Resumable with the Last-Event-ID header (or ?after=<eventId>); the stream
+ * ends with an `end` event once the job has completed, failed, been dead-lettered or cancelled.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const authResult = await authenticateRequest(request);
+    if (!authResult.isAuthorized || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const job = await getGenerationJobById(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (job.userId !== authResult.user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized - Job belongs to different user" },
+        { status: 403 }
+      );
+    }
+
+    const resumeFrom = request.headers.get("Last-Event-ID") || request.nextUrl.searchParams.get("after");
+    let lastEventId = resumeFrom ? parseInt(resumeFrom, 10) || 0 : 0;
+
+    const encoder = new TextEncoder();
+    const signal = request.signal;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+        let lastWrite = Date.now();
+
+        // Tell EventSource-style clients how long to wait before reconnecting
+        send(`retry: 3000\n\n`);
+
+        let sawTerminalEvent = false;
+        let finishedPolls = 0;
+
+        try {
+          while (!signal.aborted) {
+            const events = await getGenerationJobEvents(jobId, lastEventId);
+
+            for (const event of events) {
+              const record: JobEventRecord = {
+                id: event.id,
+                jobId: event.jobId,
+                type: event.type as JobEventType,
+                stage: event.stage || undefined,
+                message: event.message,
+                data: (event.data as Record<string, unknown>) || undefined,
+                createdAt: event.createdAt.toISOString(),
+              };
+              send(`id: ${record.id}\nevent: ${record.type}\ndata: ${JSON.stringify(record)}\n\n`);
+              lastEventId = event.id;
+              lastWrite = Date.now();
+              sawTerminalEvent = sawTerminalEvent || TERMINAL_JOB_EVENTS.includes(record.type);
+            }
+
+            if (events.length === 0) {
+              // The job status is written just before the terminal event, so give
+              // a finished job a couple of polls to flush its last events
+              const currentJob = await getGenerationJobById(jobId);
+              const jobFinished = !currentJob || ["completed", "failed", "dead_letter", "cancelled"].includes(currentJob.status);
+              finishedPolls = jobFinished ? finishedPolls + 1 : 0;
+
+              if (sawTerminalEvent || finishedPolls >= 3) {
+                send(`event: end\ndata: ${JSON.stringify({ status: currentJob?.status || "completed" })}\n\n`);
+                break;
+              }
+            }
+
+            if (Date.now() - lastWrite > HEARTBEAT_INTERVAL_MS) {
+              send(`: heartbeat\n\n`);
+              lastWrite = Date.now();
+            }
+
+            if (events.length === 0) {
+              await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+            }
+          }
+        } catch (error) {
+          logger.error(`❌ Job event stream for ${jobId} failed:`, error);
+          send(`event: error\ndata: ${JSON.stringify({ error: "Event stream failed" })}\n\n`);
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Client already disconnected
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    logger.error("❌ Error opening job event stream:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to open job event stream",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
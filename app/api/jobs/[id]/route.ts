@@ -1,6 +1,6 @@
 import { logger } from "../../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
-import { getGenerationJobById, getUserByFarcasterFid } from "../../../../lib/database";
+import { getGenerationJobById, getJobLLMUsage } from "../../../../lib/database";
 import { authenticateRequest } from "../../../../lib/auth";
 
 /**
@@ -16,37 +16,18 @@ export async function GET(
     // Await params (required in Next.js 15)
     const { id: jobId } = await params;
 
-    // Check for auth bypass (testing only)
-    const bypassAuth = request.headers.get("X-Bypass-Auth") === "true";
-    const testUserId = request.headers.get("X-Test-User-Id");
+    // Authenticate the request
+    const authResult = await authenticateRequest(request);
 
-    let user;
-
-    if (bypassAuth && testUserId) {
-      // For testing: Look up database user ID from farcaster_fid
-      // (testUserId is the farcaster_fid, but we need the actual database user.id)
-      const dbUser = await getUserByFarcasterFid(testUserId);
-      if (!dbUser) {
-        return NextResponse.json(
-          { error: "Test user not found in database" },
-          { status: 404 }
-        );
-      }
-      user = { id: dbUser.id };
-    } else {
-      // Authenticate the request
-      const authResult = await authenticateRequest(request);
-
-      if (!authResult.isAuthorized || !authResult.user) {
-        return NextResponse.json(
-          { error: authResult.error || "Authentication required" },
-          { status: 401 }
-        );
-      }
-
-      user = authResult.user;
+    if (!authResult.isAuthorized || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || "Authentication required" },
+        { status: 401 }
+      );
     }
 
+    const user = authResult.user;
+
     if (!jobId) {
       return NextResponse.json(
         { error: "Missing job ID" },
@@ -72,6 +53,9 @@ export async function GET(
       );
     }
 
+    // LLM tokens and cost spent on this job so far
+    const usage = await getJobLLMUsage(job.id);
+
     // Return job status
     const response = {
       id: job.id,
@@ -81,6 +65,14 @@ export async function GET(
       completedAt: job.completedAt,
       result: job.result,
       error: job.error,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lastError: job.lastError,
+      // Set while a failed attempt is waiting out its backoff
+      nextAttemptAt: job.status === "pending" && job.attempts > 0 ? job.availableAt : null,
+      deadLetter: job.status === "dead_letter",
+      cancelRequested: !!job.cancelRequestedAt,
+      usage: { ...usage.totals, byStage: usage.byStage },
     };
 
     // Add cache headers to prevent aggressive caching during polling
@@ -1,7 +1,9 @@
 import { logger } from "../../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
-import { getGenerationJobById, updateGenerationJobStatus, getPendingGenerationJobs } from "../../../../lib/database";
+import { getGenerationJobById, getPendingGenerationJobs, getDeadLetterGenerationJobs } from "../../../../lib/database";
 import { executeGenerationJob } from "../../../../lib/generationWorker";
+import { claimNextJob, createWorkerId, requeueExpiredJobs } from "../../../../lib/jobQueue";
+import { sweepExpiredSessions } from "../../../../lib/sessions";
 
 // Extend function timeout to 5 minutes (max for Vercel Pro)
 // This allows long-running generation jobs to complete
@@ -10,7 +12,9 @@ export const maxDuration = 600; // 10 minutes in seconds
 /**
  * Background worker endpoint for processing generation jobs
  * This endpoint should be called periodically (e.g., via a cron job or polling)
- * to process pending generation jobs
+ * to process pending generation jobs. Each call first re-queues jobs whose lease
+ * expired (and periodically sweeps expired sessions), then claims one job (the
+ * given jobId, or the next claimable one).
  */
 export async function POST(request: NextRequest) {
   try {
@@ -28,80 +32,84 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { jobId } = await request.json();
+    const { jobId } = await request.json().catch(() => ({}));
+
+    const requeued = await requeueExpiredJobs();
+    if (requeued > 0) {
+      logger.log(`🔁 Re-queued ${requeued} job(s) with expired leases`);
+    }
+
+    // Housekeeping must never stop jobs from being processed
+    await sweepExpiredSessions().catch((error) => {
+      logger.warn("⚠️ Expired session sweep failed:", error);
+    });
+
+    const workerId = createWorkerId();
 
     if (jobId) {
-      // Process specific job
       logger.log(`🔧 Processing specific job: ${jobId}`);
-      const job = await getGenerationJobById(jobId);
+    } else {
+      logger.log("🔧 Checking for pending jobs...");
+    }
+
+    const job = await claimNextJob(workerId, jobId);
 
-      if (!job) {
+    if (!job) {
+      if (!jobId) {
+        return NextResponse.json({
+          success: true,
+          message: "No pending jobs",
+        });
+      }
+
+      const existing = await getGenerationJobById(jobId);
+
+      if (!existing) {
         return NextResponse.json(
           { error: "Job not found" },
           { status: 404 }
         );
       }
 
-      if (job.status !== "pending") {
+      if (existing.status !== "pending") {
         return NextResponse.json(
-          { error: `Job is already ${job.status}` },
+          { error: `Job is already ${existing.status}` },
           { status: 400 }
         );
       }
 
-      // Mark as processing
-      await updateGenerationJobStatus(jobId, "processing");
-
-      // Return immediately and process in background
-      // This prevents timeout errors when the caller uses fire-and-forget pattern
-      const response = NextResponse.json({
-        success: true,
-        jobId,
-        status: "processing",
-        message: "Job processing started",
-      });
-
-      // Execute the job in background (fire and forget)
-      logger.log(`🔥 Starting background processing for job ${jobId}...`);
-      executeGenerationJob(jobId).catch(error => {
-        logger.error(`❌ Background job ${jobId} failed:`, error);
-      });
-
-      return response;
-    } else {
-      // Process next pending job from queue
-      logger.log("🔧 Checking for pending jobs...");
-      const pendingJobs = await getPendingGenerationJobs(1);
-
-      if (pendingJobs.length === 0) {
-        return NextResponse.json({
-          success: true,
-          message: "No pending jobs",
-        });
-      }
-
-      const job = pendingJobs[0];
-      logger.log(`🔧 Processing job: ${job.id}`);
-
-      // Mark as processing
-      await updateGenerationJobStatus(job.id, "processing");
+      // Still pending: backing off after a failed attempt, or the user is at
+      // their concurrency limit. A later poll will pick it up.
+      return NextResponse.json(
+        {
+          success: false,
+          jobId,
+          status: existing.status,
+          availableAt: existing.availableAt,
+          message: "Job is queued and will be processed when a slot is available",
+        },
+        { status: 409 }
+      );
+    }
 
-      // Return immediately and process in background
-      const response = NextResponse.json({
-        success: true,
-        jobId: job.id,
-        status: "processing",
-        message: "Job processing started",
-      });
+    // Return immediately and process in background
+    // This prevents timeout errors when the caller uses fire-and-forget pattern
+    const response = NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: "processing",
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      message: "Job processing started",
+    });
 
-      // Execute the job in background (fire and forget)
-      logger.log(`🔥 Starting background processing for job ${job.id}...`);
-      executeGenerationJob(job.id).catch(error => {
-        logger.error(`❌ Background job ${job.id} failed:`, error);
-      });
+    // Execute the job in background (fire and forget)
+    logger.log(`🔥 Starting background processing for job ${job.id}...`);
+    executeGenerationJob(job.id, workerId).catch(error => {
+      logger.error(`❌ Background job ${job.id} failed:`, error);
+    });
 
-      return response;
-    }
+    return response;
   } catch (error) {
     logger.error("❌ Error processing job:", error);
     return NextResponse.json(
@@ -130,6 +138,7 @@ export async function GET(request: NextRequest) {
     }
 
     const pendingJobs = await getPendingGenerationJobs(10);
+    const deadLetterJobs = await getDeadLetterGenerationJobs(10);
 
     return NextResponse.json({
       pendingCount: pendingJobs.length,
@@ -137,8 +146,18 @@ export async function GET(request: NextRequest) {
         id: job.id,
         userId: job.userId,
         status: job.status,
+        attempts: job.attempts,
+        availableAt: job.availableAt,
         createdAt: job.createdAt,
       })),
+      deadLetterCount: deadLetterJobs.length,
+      deadLetterJobs: deadLetterJobs.map(job => ({
+        id: job.id,
+        userId: job.userId,
+        attempts: job.attempts,
+        lastError: job.lastError,
+        completedAt: job.completedAt,
+      })),
     });
   } catch (error) {
     logger.error("❌ Error fetching job status:", error);
@@ -5,23 +5,14 @@ import {
   getProjectChatMessages,
   clearProjectChatMessages
 } from "../../../../../lib/database";
-import { authenticateRequest } from "../../../../../lib/auth";
+import { withProjectAccess } from "../../../../../lib/projectAccess";
 
 // GET /api/projects/[projectId]/chat - Get chat messages for a project
-export async function GET(
+export const GET = withProjectAccess('viewer', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
     const chatMessages = await getProjectChatMessages(projectId);
 
@@ -36,23 +27,14 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/projects/[projectId]/chat - Save a chat message
-export async function POST(
+export const POST = withProjectAccess('editor', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
     const { role, content, phase, changedFiles } = await request.json();
 
@@ -82,23 +64,14 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/projects/[projectId]/chat - Clear all chat messages for a project
-export async function DELETE(
+export const DELETE = withProjectAccess('editor', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
     await clearProjectChatMessages(projectId);
 
@@ -113,4 +86,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
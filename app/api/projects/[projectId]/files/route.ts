@@ -1,7 +1,9 @@
 import { logger } from "../../../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateRequest } from "@/lib/auth";
-import { createPreview } from "@/lib/previewManager";
+import { withProjectAccess } from "@/lib/projectAccess";
+import { createPreview, getPreviewAccessToken } from "@/lib/previewManager";
+import { getProjectFile, upsertProjectFile } from "@/lib/database";
+import { mergeThreeWay } from "@/lib/threeWayMerge";
 import fs from "fs-extra";
 import path from "path";
 
@@ -11,19 +13,15 @@ function getProjectBaseDir(projectId: string): string {
     : path.join(process.cwd(), "generated", projectId);
 }
 
-export async function POST(
+export const POST = withProjectAccess('editor', async (
   req: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    // Verify authentication
-    const auth = await authenticateRequest(req);
-    if (!auth.isAuthorized || !auth.user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     const { projectId } = await params;
-    const { filePath, content, redeploy } = await req.json();
+    // baseContent is the version the editor loaded; when present, saves made
+    // on top of an older version are merged instead of overwriting newer changes
+    const { filePath, content, baseContent, redeploy } = await req.json();
 
     if (!filePath || content === undefined) {
       return NextResponse.json(
@@ -47,13 +45,43 @@ export async function POST(
       );
     }
 
+    // Three-way merge when the file changed since the editor loaded it,
+    // e.g. a follow-up job finished while the user was editing
+    let savedContent: string = content;
+    let conflicts = 0;
+    const currentFile = await getProjectFile(projectId, filePath);
+    if (typeof baseContent === "string" && currentFile && currentFile.content !== baseContent) {
+      const merge = mergeThreeWay(baseContent, content, currentFile.content, {
+        local: "your edits",
+        incoming: "latest saved version",
+      });
+      savedContent = merge.content;
+      conflicts = merge.conflicts;
+      logger.log(`🔀 ${filePath} changed since it was opened, merged with ${conflicts} conflict(s)`);
+    }
+
     // Create directory if it doesn't exist
     await fs.ensureDir(path.dirname(fullFilePath));
 
-    // Write the updated content
-    await fs.writeFile(fullFilePath, content, "utf-8");
+    // Write the updated content to disk and the database (which bumps the
+    // file version, so running follow-up jobs merge instead of overwriting)
+    await fs.writeFile(fullFilePath, savedContent, "utf-8");
+    await upsertProjectFile(projectId, filePath, savedContent);
     logger.log(`✅ File updated: ${filePath}`);
 
+    if (conflicts > 0) {
+      return NextResponse.json({
+        success: true,
+        message: redeploy
+          ? "File saved with merge conflicts; resolve them before redeploying"
+          : "File saved with merge conflicts",
+        filePath,
+        content: savedContent,
+        merged: true,
+        conflicts,
+      });
+    }
+
     // If redeploy is requested, trigger a new deployment
     if (redeploy) {
       logger.log(`🚀 Triggering redeployment for project: ${projectId}`);
@@ -97,7 +125,7 @@ export async function POST(
 
         // Use PREVIEW_AUTH_TOKEN to authenticate with orchestrator
         // NOT the user's session token
-        const previewAuthToken = process.env.PREVIEW_AUTH_TOKEN || '';
+        const previewAuthToken = getPreviewAccessToken() || '';
 
         // Trigger deployment
         const previewData = await createPreview(
@@ -115,6 +143,8 @@ export async function POST(
           success: true,
           message: "File updated and redeployment triggered",
           filePath,
+          content: savedContent,
+          merged: savedContent !== content,
           deploymentUrl: previewData.previewUrl || previewData.vercelUrl,
           status: previewData.status
         });
@@ -132,7 +162,10 @@ export async function POST(
     return NextResponse.json({
       success: true,
       message: "File updated successfully",
-      filePath
+      filePath,
+      content: savedContent,
+      merged: savedContent !== content,
+      conflicts: 0
     });
   } catch (error) {
     logger.error("Error updating file:", error);
@@ -141,4 +174,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
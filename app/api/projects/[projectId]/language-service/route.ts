@@ -0,0 +1,72 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { withProjectAccess } from "../../../../../lib/projectAccess";
+import { getProjectLanguageService } from "../../../../../lib/projectLanguageService";
+
+const ACTIONS = ['diagnostics', 'completions', 'hover', 'definition', 'rename'] as const;
+type LanguageServiceAction = typeof ACTIONS[number];
+
+// POST /api/projects/[projectId]/language-service - TypeScript language features for CodeEditor
+export const POST = withProjectAccess('viewer', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { projectId } = await params;
+    const { action, filename, content, offset, newName } = await request.json() as {
+      action: LanguageServiceAction;
+      filename: string;
+      content?: string; // Unsaved editor buffer, if any
+      offset?: number;
+      newName?: string;
+    };
+
+    if (!ACTIONS.includes(action) || typeof filename !== 'string' || !filename) {
+      return NextResponse.json(
+        { error: `action (one of ${ACTIONS.join(', ')}) and filename are required` },
+        { status: 400 }
+      );
+    }
+    if (action !== 'diagnostics' && typeof offset !== 'number') {
+      return NextResponse.json(
+        { error: "offset is required" },
+        { status: 400 }
+      );
+    }
+    if (action === 'rename' && (typeof newName !== 'string' || !newName.trim())) {
+      return NextResponse.json(
+        { error: "newName is required" },
+        { status: 400 }
+      );
+    }
+
+    const service = await getProjectLanguageService(projectId);
+    if (typeof content === 'string') {
+      service.setFile(filename, content);
+    }
+
+    switch (action) {
+      case 'diagnostics':
+        return NextResponse.json({ diagnostics: service.getDiagnostics(filename) });
+      case 'completions':
+        return NextResponse.json({ completions: service.getCompletions(filename, offset!) });
+      case 'hover':
+        return NextResponse.json({ hover: service.getHover(filename, offset!) });
+      case 'definition':
+        return NextResponse.json({ definitions: service.getDefinitions(filename, offset!) });
+      case 'rename': {
+        const result = service.getRenameEdits(filename, offset!, newName!.trim());
+        if ('error' in result) {
+          return NextResponse.json({ error: result.error }, { status: 422 });
+        }
+        return NextResponse.json(result);
+      }
+    }
+  } catch (error) {
+    logger.error("Error running language service:", error);
+    return NextResponse.json(
+      { error: "Failed to run language service" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,80 @@
+import { logger } from "../../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { removeProjectMember, updateProjectMemberRole } from "../../../../../../lib/database";
+import { withProjectAccess, hasProjectRole, isProjectRole } from "../../../../../../lib/projectAccess";
+
+type MemberParams = { projectId: string; userId: string };
+
+// PATCH /api/projects/[projectId]/members/[userId] - Change a member's role
+export const PATCH = withProjectAccess<MemberParams>('owner', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { projectId, userId } = await params;
+    const { role } = await request.json();
+
+    if (!isProjectRole(role)) {
+      return NextResponse.json(
+        { error: "Role must be owner, editor or viewer" },
+        { status: 400 }
+      );
+    }
+
+    const member = await updateProjectMemberRole(projectId, userId, role);
+    if (!member) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, member });
+  } catch (err) {
+    logger.error("Error updating project member:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to update project member",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/projects/[projectId]/members/[userId] - Remove a member, or leave the project
+export const DELETE = withProjectAccess<MemberParams>('viewer', async (
+  request: NextRequest,
+  { params },
+  { user, role }
+) => {
+  try {
+    const { projectId, userId } = await params;
+
+    if (userId !== user.id && !hasProjectRole(role, 'owner')) {
+      return NextResponse.json(
+        { error: "Access denied" },
+        { status: 403 }
+      );
+    }
+
+    const removed = await removeProjectMember(projectId, userId);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    logger.error("Error removing project member:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to remove project member",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
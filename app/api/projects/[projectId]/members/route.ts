@@ -0,0 +1,131 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addProjectMember,
+  createUser,
+  getProjectMembers,
+  getUserByFarcasterFid,
+  getUserById,
+  getUserByUsername,
+} from "../../../../../lib/database";
+import { withProjectAccess, isProjectRole } from "../../../../../lib/projectAccess";
+
+// GET /api/projects/[projectId]/members - The owner and everyone invited to the project
+export const GET = withProjectAccess('viewer', async (
+  request: NextRequest,
+  { params },
+  { project, role }
+) => {
+  try {
+    const { projectId } = await params;
+
+    const creator = await getUserById(project.userId);
+    const members = await getProjectMembers(projectId);
+
+    return NextResponse.json({
+      success: true,
+      role,
+      members: [
+        {
+          userId: project.userId,
+          role: 'owner',
+          invitedBy: null,
+          createdAt: project.createdAt,
+          farcasterFid: creator?.farcasterFid ?? null,
+          username: creator?.username ?? null,
+          displayName: creator?.displayName ?? null,
+          pfpUrl: creator?.pfpUrl ?? null,
+          isCreator: true,
+        },
+        ...members.map(member => ({ ...member, isCreator: false })),
+      ],
+    });
+  } catch (err) {
+    logger.error("Error fetching project members:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch project members",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/projects/[projectId]/members - Invite a user by Farcaster username or FID
+export const POST = withProjectAccess('owner', async (
+  request: NextRequest,
+  { params },
+  { user, project }
+) => {
+  try {
+    const { projectId } = await params;
+    const { username, fid, role = 'editor' } = await request.json();
+
+    if (!isProjectRole(role)) {
+      return NextResponse.json(
+        { error: "Role must be owner, editor or viewer" },
+        { status: 400 }
+      );
+    }
+
+    if (!username && !fid) {
+      return NextResponse.json(
+        { error: "Provide a Farcaster username or fid" },
+        { status: 400 }
+      );
+    }
+
+    let invitee;
+    if (fid) {
+      const farcasterFid = String(fid).trim();
+      if (!/^\d+$/.test(farcasterFid)) {
+        return NextResponse.json(
+          { error: "Invalid fid" },
+          { status: 400 }
+        );
+      }
+      // Someone who hasn't signed in yet gets a bare user row; their first
+      // Farcaster sign-in finds it by fid and fills in the profile
+      invitee = await getUserByFarcasterFid(farcasterFid) ?? await createUser(farcasterFid);
+    } else {
+      invitee = await getUserByUsername(String(username).trim().replace(/^@/, ""));
+      if (!invitee) {
+        return NextResponse.json(
+          { error: `No minidev user named ${username}; invite them by fid instead` },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (invitee.id === project.userId) {
+      return NextResponse.json(
+        { error: "User already owns this project" },
+        { status: 409 }
+      );
+    }
+
+    const member = await addProjectMember(projectId, invitee.id, role, user.id);
+    logger.log(`👥 ${user.id} added ${invitee.id} to project ${projectId} as ${role}`);
+
+    return NextResponse.json({
+      success: true,
+      member: {
+        ...member,
+        farcasterFid: invitee.farcasterFid,
+        username: invitee.username,
+        displayName: invitee.displayName,
+        pfpUrl: invitee.pfpUrl,
+      },
+    });
+  } catch (err) {
+    logger.error("Error inviting project member:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to invite project member",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
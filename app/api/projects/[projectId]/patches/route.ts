@@ -1,30 +1,23 @@
 import { logger } from "../../../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
-import { getProjectPatches, revertPatch } from "../../../../../lib/database";
-import { authenticateRequest } from "../../../../../lib/auth";
+import {
+  getProjectFiles,
+  getProjectPatches,
+  getProjectPatchById,
+  revertPatch,
+  saveProjectFiles,
+  updateProject,
+} from "../../../../../lib/database";
+import { withProjectAccess } from "../../../../../lib/projectAccess";
+import { planPatchRevert, type StoredPatchData } from "../../../../../lib/patchReverter";
+import { redeployToVercel, syncGeneratedFiles, getPreviewAccessToken } from "../../../../../lib/previewManager";
 
-export async function GET(
+export const GET = withProjectAccess('viewer', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
-
-    if (!projectId) {
-      return NextResponse.json(
-        { error: "Project ID is required" },
-        { status: 400 }
-      );
-    }
-
     const patches = await getProjectPatches(projectId);
 
     return NextResponse.json({
@@ -42,22 +35,14 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(
+export const POST = withProjectAccess('editor', async (
   request: NextRequest,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
+    const { projectId } = await params;
     const { patchId, action } = await request.json();
 
     if (!patchId || !action) {
@@ -68,14 +53,92 @@ export async function POST(
     }
 
     if (action === "revert") {
-      const patch = await revertPatch(patchId);
+      const patch = await getProjectPatchById(patchId);
+      if (!patch || patch.projectId !== projectId) {
+        return NextResponse.json(
+          { error: "Patch not found" },
+          { status: 404 }
+        );
+      }
+
+      if (patch.revertedAt) {
+        return NextResponse.json(
+          { error: "Patch has already been reverted" },
+          { status: 400 }
+        );
+      }
+
+      // Patches applied after this one may have edited the same lines
+      const laterPatches = (await getProjectPatches(projectId))
+        .filter(p => p.id !== patch.id && !p.revertedAt && p.appliedAt > patch.appliedAt)
+        .map(p => ({ id: p.id, patchData: p.patchData as StoredPatchData }));
+
+      const currentFiles = (await getProjectFiles(projectId)).map(f => ({
+        filename: f.filename,
+        content: f.content,
+      }));
+
+      const plan = planPatchRevert(patch.patchData as StoredPatchData, currentFiles, laterPatches);
+
+      if (plan.conflicts.length > 0) {
+        logger.warn(`⚠️ Cannot revert patch ${patchId}: ${plan.conflicts.length} conflicting file(s)`);
+        return NextResponse.json(
+          {
+            error: "Patch cannot be reverted cleanly",
+            conflicts: plan.conflicts,
+          },
+          { status: 409 }
+        );
+      }
+
+      const hasChanges = plan.changedFiles.length > 0 || plan.deletedFiles.length > 0;
+
+      if (hasChanges) {
+        await saveProjectFiles(projectId, plan.files);
+        await syncGeneratedFiles(
+          projectId,
+          plan.files.filter(f => plan.changedFiles.includes(f.filename)),
+          plan.deletedFiles
+        );
+      }
+
+      const revertedPatch = await revertPatch(patchId);
+
+      // Redeploy so the preview matches the reverted files
+      let previewUrl: string | undefined;
+      let redeployError: string | undefined;
+      const accessToken = getPreviewAccessToken();
+
+      if (hasChanges && accessToken) {
+        try {
+          const isWeb3 = plan.files.some(f =>
+            f.filename.startsWith('contracts/') && f.filename.endsWith('.sol')
+          );
+          const previewData = await redeployToVercel(projectId, plan.files, accessToken, isWeb3);
+          previewUrl = previewData.vercelUrl || previewData.url || undefined;
 
-      // TODO: Implement actual file reversion logic here
-      // This should apply the inverse of the patch to restore previous state
+          if (previewData.vercelUrl) {
+            await updateProject(projectId, {
+              previewUrl: previewData.vercelUrl,
+              vercelUrl: previewData.vercelUrl,
+            });
+          }
+        } catch (deployError) {
+          logger.error("❌ Redeploy after revert failed:", deployError);
+          redeployError = deployError instanceof Error ? deployError.message : String(deployError);
+        }
+      } else if (hasChanges) {
+        redeployError = "Missing preview auth token";
+      }
 
       return NextResponse.json({
         success: true,
-        patch,
+        patch: revertedPatch,
+        changedFiles: plan.changedFiles,
+        deletedFiles: plan.deletedFiles,
+        redeployed: hasChanges && !redeployError,
+        previewUrl,
+        redeployError,
         message: "Patch reverted successfully",
       });
     }
@@ -94,4 +157,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
@@ -1,7 +1,6 @@
 import { logger } from "../../../../lib/logger";
 import { NextRequest, NextResponse } from "next/server";
 import { 
-  getProjectById,
   updateProject,
   deleteProject,
   getProjectFiles,
@@ -9,47 +8,16 @@ import {
   getProjectDeployments,
   getProjectChatMessages
 } from "../../../../lib/database";
-import { authenticateRequest } from "../../../../lib/auth";
+import { withProjectAccess, projectUpdatesForRole } from "../../../../lib/projectAccess";
 
 // GET /api/projects/[projectId] - Get a specific project
-export async function GET(
+export const GET = withProjectAccess('viewer', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params },
+  { project, role }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
-    logger.log('🔍 GET /api/projects/[projectId] - projectId:', projectId, 'user.id:', user.id);
-
-    const project = await getProjectById(projectId);
-    logger.log('🔍 getProjectById result:', project ? 'found' : 'not found');
-    
-    if (!project) {
-      logger.log('🔍 Project not found in database');
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
-    }
-
-    logger.log('🔍 Project found - userId:', project.userId, 'matches current user:', project.userId === user.id);
-
-    // Check if user owns this project
-    if (project.userId !== user.id) {
-      logger.log('🔍 Access denied - user does not own project');
-      return NextResponse.json(
-        { error: "Access denied" },
-        { status: 403 }
-      );
-    }
 
     // Get project files
     const files = await getProjectFiles(projectId);
@@ -67,6 +35,7 @@ export async function GET(
       success: true,
       project: {
         ...project,
+        role,
         files,
         patches,
         deployments,
@@ -80,42 +49,17 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // PUT /api/projects/[projectId] - Update a specific project
-export async function PUT(
+export const PUT = withProjectAccess('editor', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params },
+  { role }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
-    const updates = await request.json();
-
-    const project = await getProjectById(projectId);
-    
-    if (!project) {
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
-    }
-
-    // Check if user owns this project
-    if (project.userId !== user.id) {
-      return NextResponse.json(
-        { error: "Access denied" },
-        { status: 403 }
-      );
-    }
+    const updates = projectUpdatesForRole(await request.json(), role);
 
     const updatedProject = await updateProject(projectId, updates);
     
@@ -130,42 +74,16 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/projects/[projectId] - Delete a specific project
-export async function DELETE(
+export const DELETE = withProjectAccess('owner', async (
   request: NextRequest,
-  { params }: { params: Promise<{ projectId: string }> }
-) {
+  { params }
+) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await params;
 
-    const project = await getProjectById(projectId);
-    
-    if (!project) {
-      return NextResponse.json(
-        { error: "Project not found" },
-        { status: 404 }
-      );
-    }
-
-    // Check if user owns this project
-    if (project.userId !== user.id) {
-      return NextResponse.json(
-        { error: "Access denied" },
-        { status: 403 }
-      );
-    }
-
     await deleteProject(projectId);
     
     return NextResponse.json({
@@ -179,4 +97,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
@@ -0,0 +1,81 @@
+import { logger } from "../../../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getProjectFiles,
+  getProjectSnapshotById,
+  getSnapshotBlobs,
+} from "../../../../../../../lib/database";
+import { withProjectAccess } from "../../../../../../../lib/projectAccess";
+import {
+  buildSnapshotTree,
+  diffSnapshotTrees,
+  type SnapshotTree,
+} from "../../../../../../../lib/snapshotUtils";
+
+/**
+ * Diff a snapshot against another snapshot (?against=<snapshotId>)
+ * or, by default, against the project's current files
+ */
+export const GET = withProjectAccess<{ projectId: string; snapshotId: string }>('viewer', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { projectId, snapshotId } = await params;
+    const against = request.nextUrl.searchParams.get("against") || "current";
+
+    const snapshot = await getProjectSnapshotById(snapshotId);
+    if (!snapshot || snapshot.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    const blobContents = new Map<string, string>();
+    let targetTree: SnapshotTree;
+
+    if (against === "current") {
+      const currentFiles = await getProjectFiles(projectId);
+      const build = buildSnapshotTree(currentFiles);
+      targetTree = build.tree;
+      build.blobs.forEach(blob => blobContents.set(blob.hash, blob.content));
+    } else {
+      const otherSnapshot = await getProjectSnapshotById(against);
+      if (!otherSnapshot || otherSnapshot.projectId !== projectId) {
+        return NextResponse.json(
+          { error: "Comparison snapshot not found" },
+          { status: 404 }
+        );
+      }
+      targetTree = otherSnapshot.tree as SnapshotTree;
+    }
+
+    const baseTree = snapshot.tree as SnapshotTree;
+
+    // Only load the blobs we don't already have in memory
+    const missingHashes = Array.from(new Set([...Object.values(baseTree), ...Object.values(targetTree)]))
+      .filter(hash => !blobContents.has(hash));
+    const storedBlobs = await getSnapshotBlobs(missingHashes);
+    storedBlobs.forEach((content, hash) => blobContents.set(hash, content));
+
+    const changes = diffSnapshotTrees(baseTree, targetTree, blobContents);
+
+    return NextResponse.json({
+      success: true,
+      snapshotId,
+      against,
+      changes,
+      total: changes.length,
+    });
+  } catch (err) {
+    logger.error("Error diffing project snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to diff project snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,71 @@
+import { logger } from "../../../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createProject,
+  createProjectSnapshot,
+  getProjectSnapshotById,
+  getSnapshotFiles,
+  saveProjectFiles,
+} from "../../../../../../../lib/database";
+import { withProjectAccess } from "../../../../../../../lib/projectAccess";
+
+/**
+ * Create a new project from the files of a snapshot.
+ * The fork is not deployed; its preview is created on the next generation.
+ * Needs editor access: a fork copies the whole project out of the owner's control.
+ */
+export const POST = withProjectAccess<{ projectId: string; snapshotId: string }>('editor', async (
+  request: NextRequest,
+  { params },
+  { user, project }
+) => {
+  try {
+    const { projectId, snapshotId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const snapshot = await getProjectSnapshotById(snapshotId);
+    if (!snapshot || snapshot.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    const snapshotFiles = await getSnapshotFiles(snapshot);
+
+    const forkName = typeof body.name === "string" && body.name.trim()
+      ? body.name.trim()
+      : `${project.name} (fork)`;
+    const forkedProject = await createProject(
+      user.id,
+      forkName,
+      project.description || undefined
+    );
+
+    await saveProjectFiles(forkedProject.id, snapshotFiles);
+    const forkSnapshot = await createProjectSnapshot(forkedProject.id, snapshotFiles, {
+      source: 'fork',
+      description: `Forked from ${project.name} @ ${snapshotId.substring(0, 8)}`,
+      parentSnapshotId: null,
+    });
+
+    logger.log(`🍴 Forked project ${projectId} at snapshot ${snapshotId} into ${forkedProject.id}`);
+
+    return NextResponse.json({
+      success: true,
+      project: forkedProject,
+      snapshot: forkSnapshot,
+      fileCount: snapshotFiles.length,
+      message: "Project forked successfully",
+    });
+  } catch (err) {
+    logger.error("Error forking project snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to fork project snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
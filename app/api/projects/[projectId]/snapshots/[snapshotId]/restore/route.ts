@@ -0,0 +1,100 @@
+import { logger } from "../../../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createProjectSnapshot,
+  getProjectFiles,
+  getProjectSnapshotById,
+  getSnapshotFiles,
+  saveProjectFiles,
+  updateProject,
+} from "../../../../../../../lib/database";
+import { withProjectAccess } from "../../../../../../../lib/projectAccess";
+import { redeployToVercel, syncGeneratedFiles, getPreviewAccessToken } from "../../../../../../../lib/previewManager";
+
+export const POST = withProjectAccess<{ projectId: string; snapshotId: string }>('editor', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { projectId, snapshotId } = await params;
+
+    const snapshot = await getProjectSnapshotById(snapshotId);
+    if (!snapshot || snapshot.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    const snapshotFiles = await getSnapshotFiles(snapshot);
+    const currentFiles = await getProjectFiles(projectId);
+    const currentContent = new Map(currentFiles.map(f => [f.filename, f.content]));
+    const snapshotFilenames = new Set(snapshotFiles.map(f => f.filename));
+
+    const changedFiles = snapshotFiles.filter(f => currentContent.get(f.filename) !== f.content);
+    const deletedFiles = currentFiles
+      .map(f => f.filename)
+      .filter(filename => !snapshotFilenames.has(filename));
+    const hasChanges = changedFiles.length > 0 || deletedFiles.length > 0;
+
+    logger.log(`⏪ Restoring snapshot ${snapshotId}: ${changedFiles.length} changed, ${deletedFiles.length} deleted`);
+
+    if (hasChanges) {
+      await saveProjectFiles(projectId, snapshotFiles);
+      await syncGeneratedFiles(projectId, changedFiles, deletedFiles);
+    }
+
+    // Restoring is itself a new point in history, so it can be undone too
+    const restoredSnapshot = await createProjectSnapshot(projectId, snapshotFiles, {
+      source: 'restore',
+      description: `Restored snapshot ${snapshotId.substring(0, 8)}`,
+    });
+
+    // Redeploy so the preview matches the restored files
+    let previewUrl: string | undefined;
+    let redeployError: string | undefined;
+    const accessToken = getPreviewAccessToken();
+
+    if (hasChanges && accessToken) {
+      try {
+        const isWeb3 = snapshotFiles.some(f =>
+          f.filename.startsWith('contracts/') && f.filename.endsWith('.sol')
+        );
+        const previewData = await redeployToVercel(projectId, snapshotFiles, accessToken, isWeb3);
+        previewUrl = previewData.vercelUrl || previewData.url || undefined;
+
+        if (previewData.vercelUrl) {
+          await updateProject(projectId, {
+            previewUrl: previewData.vercelUrl,
+            vercelUrl: previewData.vercelUrl,
+          });
+        }
+      } catch (deployError) {
+        logger.error("❌ Redeploy after restore failed:", deployError);
+        redeployError = deployError instanceof Error ? deployError.message : String(deployError);
+      }
+    } else if (hasChanges) {
+      redeployError = "Missing preview auth token";
+    }
+
+    return NextResponse.json({
+      success: true,
+      snapshot: restoredSnapshot,
+      changedFiles: changedFiles.map(f => f.filename),
+      deletedFiles,
+      redeployed: hasChanges && !redeployError,
+      previewUrl,
+      redeployError,
+      message: "Snapshot restored successfully",
+    });
+  } catch (err) {
+    logger.error("Error restoring project snapshot:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to restore project snapshot",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
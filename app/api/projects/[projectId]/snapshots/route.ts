@@ -0,0 +1,30 @@
+import { logger } from "../../../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { getProjectSnapshots } from "../../../../../lib/database";
+import { withProjectAccess } from "../../../../../lib/projectAccess";
+
+export const GET = withProjectAccess('viewer', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { projectId } = await params;
+
+    const snapshots = await getProjectSnapshots(projectId);
+
+    return NextResponse.json({
+      success: true,
+      snapshots,
+      total: snapshots.length,
+    });
+  } catch (err) {
+    logger.error("Error fetching project snapshots:", err);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch project snapshots",
+        details: err instanceof Error ? err.message : String(err),
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -3,11 +3,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { 
   createProject, 
   getProjectsByUserId, 
-  getProjectById,
   updateProject,
   deleteProject,
   saveProjectFiles} from "../../../lib/database";
 import { authenticateRequest } from "../../../lib/auth";
+import { withProjectAccess, projectIdFromBody, projectUpdatesForRole } from "../../../lib/projectAccess";
 
 // GET /api/projects - Get all projects for a user
 export async function GET(request: NextRequest) {
@@ -77,35 +77,11 @@ export async function POST(request: NextRequest) {
 }
 
 // PUT /api/projects - Update a project
-export async function PUT(request: NextRequest) {
+export const PUT = withProjectAccess('editor', async (request: NextRequest, _context, { role }) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId, ...updates } = await request.json();
 
-    if (!projectId) {
-      return NextResponse.json(
-        { error: "Project ID is required" },
-        { status: 400 }
-      );
-    }
-
-    // Check if user owns this project
-    const project = await getProjectById(projectId);
-    if (!project || project.userId !== user.id) {
-      return NextResponse.json(
-        { error: "Project not found or access denied" },
-        { status: 404 }
-      );
-    }
-
-    const updatedProject = await updateProject(projectId, updates);
+    const updatedProject = await updateProject(projectId, projectUpdatesForRole(updates, role));
     
     return NextResponse.json({
       success: true,
@@ -118,37 +94,13 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromBody });
 
 // DELETE /api/projects - Delete a project
-export async function DELETE(request: NextRequest) {
+export const DELETE = withProjectAccess('owner', async (request: NextRequest) => {
   try {
-    const { user, isAuthorized, error } = await authenticateRequest(request);
-    if (!isAuthorized || !user) {
-      return NextResponse.json(
-        { error: error || "Authentication required" },
-        { status: 401 }
-      );
-    }
-
     const { projectId } = await request.json();
 
-    if (!projectId) {
-      return NextResponse.json(
-        { error: "Project ID is required" },
-        { status: 400 }
-      );
-    }
-
-    // Check if user owns this project
-    const project = await getProjectById(projectId);
-    if (!project || project.userId !== user.id) {
-      return NextResponse.json(
-        { error: "Project not found or access denied" },
-        { status: 404 }
-      );
-    }
-
     await deleteProject(projectId);
     
     return NextResponse.json({
@@ -162,4 +114,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromBody });
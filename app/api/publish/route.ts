@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { updateGeneratedFile } from '../../../lib/previewManager';
 import { db, projects } from '../../../db';
 import { eq } from 'drizzle-orm';
-import { getUserBySessionToken } from '../../../lib/database';
+import { withProjectAccess, projectIdFromBody } from '../../../lib/projectAccess';
 import { config } from '../../../lib/config';
 import fs from 'fs/promises';
 import path from 'path';
@@ -62,7 +62,7 @@ function validateManifest(manifest: unknown): { valid: boolean; error?: string }
 }
 
 // POST: Publish manifest
-export async function POST(req: NextRequest) {
+export const POST = withProjectAccess('owner', async (req: NextRequest, _context, { user, project }) => {
   try {
     logger.log('\n========================================');
     logger.log('📤 PUBLISH API REQUEST RECEIVED');
@@ -88,14 +88,6 @@ export async function POST(req: NextRequest) {
       manifestKeys: manifest ? Object.keys(manifest) : []
     });
 
-    // Validate required fields
-    if (!projectId) {
-      return NextResponse.json(
-        { success: false, error: 'Missing projectId' },
-        { status: 400 }
-      );
-    }
-
     if (!manifest) {
       return NextResponse.json(
         { success: false, error: 'Missing manifest' },
@@ -103,39 +95,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Verify session token
-    const authHeader = req.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '');
-
-    if (!sessionToken) {
-      return NextResponse.json(
-        { success: false, error: 'Missing authorization token' },
-        { status: 401 }
-      );
-    }
-
-    // Verify session token and get user
-    const user = await getUserBySessionToken(sessionToken);
-
-    if (!user) {
-      logger.error('❌ Session verification failed: Invalid or expired token');
-      return NextResponse.json(
-        { success: false, error: 'Invalid or expired session' },
-        { status: 401 }
-      );
-    }
-
-    // Check if session is expired
-    if (user.expiresAt && new Date() > new Date(user.expiresAt)) {
-      logger.error('❌ Session expired');
-      return NextResponse.json(
-        { success: false, error: 'Session expired' },
-        { status: 401 }
-      );
-    }
-
-    const userId = user.id;
-    logger.log('✅ Session verified for user:', userId);
+    logger.log('✅ Session verified for user:', user.id);
 
     // Validate manifest structure
     const validation = validateManifest(manifest);
@@ -149,31 +109,6 @@ export async function POST(req: NextRequest) {
 
     logger.log('✅ Manifest validation passed');
 
-    // Check if project exists and belongs to user
-    const projectRecords = await db
-      .select()
-      .from(projects)
-      .where(eq(projects.id, projectId))
-      .limit(1);
-
-    if (projectRecords.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'Project not found' },
-        { status: 404 }
-      );
-    }
-
-    const project = projectRecords[0];
-
-    if (project.userId !== userId) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized: Project does not belong to user' },
-        { status: 403 }
-      );
-    }
-
-    logger.log('✅ Project ownership verified');
-
     // Create farcaster.json content
     const farcasterJsonContent = JSON.stringify(manifest, null, 2);
     const filename = 'public/.well-known/farcaster.json';
@@ -348,4 +283,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { resolveProjectId: projectIdFromBody });
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { listTemplates, summarizeTemplate } from "../../../lib/templateCatalog";
+
+/**
+ * GET /api/templates
+ * Template catalog for the picker on the home screen (file names only, no contents)
+ */
+export async function GET() {
+  return NextResponse.json({
+    templates: listTemplates().map(summarizeTemplate),
+  });
+}
@@ -0,0 +1,57 @@
+import { logger } from "../../../lib/logger";
+import { NextRequest, NextResponse } from "next/server";
+import { getLLMUsageSummary } from "../../../lib/database";
+import { authenticateRequest } from "../../../lib/auth";
+import { requireProjectRole } from "../../../lib/projectAccess";
+
+// GET /api/usage?projectId=&days= - LLM tokens and cost for the current user,
+// broken down by project, stage and model
+export async function GET(request: NextRequest) {
+  try {
+    const { user, isAuthorized, error } = await authenticateRequest(request);
+    if (!isAuthorized || !user) {
+      return NextResponse.json(
+        { error: error || "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId") || undefined;
+    const daysParam = searchParams.get("days");
+
+    let since: Date | undefined;
+    if (daysParam) {
+      const days = parseInt(daysParam, 10);
+      if (isNaN(days) || days <= 0) {
+        return NextResponse.json(
+          { error: "days must be a positive integer" },
+          { status: 400 }
+        );
+      }
+      since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    }
+
+    // Any member of a shared project may see their own usage on it
+    if (projectId) {
+      const access = await requireProjectRole(projectId, user, 'viewer');
+      if (access instanceof Response) {
+        return access;
+      }
+    }
+
+    const usage = await getLLMUsageSummary(user.id, { projectId, since });
+
+    return NextResponse.json({
+      success: true,
+      since: since?.toISOString() || null,
+      ...usage,
+    });
+  } catch (error) {
+    logger.error("Error fetching LLM usage:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch usage" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+"use client";
+import { logger } from "@/lib/logger";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { Button } from "./ui/button";
+
+interface AccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface AccessTokensModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  "projects:read": "Read projects and files",
+  generate: "Generate and edit apps",
+  publish: "Publish apps",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null },
+];
+
+function formatDate(value: string | null, fallback: string): string {
+  return value ? new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" }) : fallback;
+}
+
+/**
+ * Personal access tokens for scripts, managed via /api/auth/tokens
+ */
+export function AccessTokensModal({ isOpen, onClose }: AccessTokensModalProps) {
+  const { sessionToken } = useAuthContext();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>(["generate"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading } = useQuery<{ tokens: AccessToken[]; scopes: string[] }>({
+    queryKey: ["accessTokens"],
+    queryFn: async () => {
+      const response = await fetch("/api/auth/tokens", {
+        headers: { Authorization: `Bearer ${sessionToken}` },
+      });
+      if (!response.ok) throw new Error(`Failed to fetch access tokens: ${response.status}`);
+      return response.json();
+    },
+    enabled: isOpen && !!sessionToken,
+  });
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const toggleScope = (scope: string) => {
+    setScopes(current => current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]);
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/auth/tokens", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({ name, scopes, expiresInDays }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Failed to create token");
+        return;
+      }
+      setCreatedToken(result.token);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["accessTokens"] });
+    } catch (createError) {
+      logger.error("Failed to create access token:", createError);
+      setError("Failed to create token");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: AccessToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    try {
+      const response = await fetch(`/api/auth/tokens/${token.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${sessionToken}` },
+      });
+      if (!response.ok) throw new Error(`Failed to revoke access token: ${response.status}`);
+      queryClient.invalidateQueries({ queryKey: ["accessTokens"] });
+    } catch (revokeError) {
+      logger.error("Failed to revoke access token:", revokeError);
+      setError("Failed to revoke token");
+    }
+  };
+
+  const handleClose = () => {
+    setCreatedToken(null);
+    setError(null);
+    onClose();
+  };
+
+  const availableScopes = data?.scopes ?? Object.keys(SCOPE_LABELS);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-funnel-display font-semibold text-black">API tokens</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Use a token as <code className="text-xs">Authorization: Bearer &lt;token&gt;</code> from scripts
+            </p>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Newly created token, shown once */}
+          {createdToken && (
+            <div className="rounded-lg border border-green-200 bg-green-50 p-3">
+              <p className="text-sm font-medium text-green-800">Copy your token now. It won&apos;t be shown again.</p>
+              <div className="mt-2 flex items-center gap-2">
+                <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs text-gray-800 border border-green-200">
+                  {createdToken}
+                </code>
+                <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(createdToken)}>
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* New token form */}
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Token name, e.g. CI generation script"
+              maxLength={100}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-black"
+            />
+            <div className="space-y-1.5">
+              {availableScopes.map(scope => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                  <span className="font-mono text-xs">{scope}</span>
+                  <span className="text-gray-500">{SCOPE_LABELS[scope]}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <span>Expires</span>
+              <select
+                value={expiresInDays ?? ""}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                className="rounded border border-gray-300 px-2 py-1 text-sm"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.label} value={option.days ?? ""}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button onClick={handleCreate} disabled={isSaving || !name.trim() || scopes.length === 0}>
+              {isSaving ? "Creating..." : "Create token"}
+            </Button>
+          </div>
+
+          {/* Existing tokens */}
+          <div>
+            <h3 className="text-sm font-medium text-black mb-2">Your tokens</h3>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : !data?.tokens.length ? (
+              <p className="text-sm text-gray-500">No tokens yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {data.tokens.map(token => (
+                  <li key={token.id} className="flex items-center justify-between gap-3 px-3 py-2.5">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-black truncate">{token.name}</p>
+                      <p className="text-xs text-gray-500">
+                        <span className="font-mono">{token.tokenPrefix}…</span> · {token.scopes.join(", ")}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Last used {formatDate(token.lastUsedAt, "never")} · Expires {formatDate(token.expiresAt, "never")}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(token)}
+                      className="text-xs font-medium text-red-600 hover:text-red-700 shrink-0"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { toast } from "react-hot-toast";
 import { TextShimmer } from "./text-shimmer";
 import { Button } from "./ui/button";
 import sdk from "@farcaster/miniapp-sdk";
+import { subscribeToJobEvents } from "@/hooks/useJobEvents";
+import { useProjectStore } from "@/store/useProjectStore";
 
 interface GeneratedProject {
   projectId: string;
@@ -41,6 +43,9 @@ interface ChatMessage {
   phase?: "requirements" | "building" | "editing";
 }
 
+// Rejection message pollJobStatus uses when the user stops a job
+const JOB_CANCELLED_MESSAGE = "Job cancelled";
+
 interface ChatInterfaceProps {
   currentProject: GeneratedProject | null;
   onProjectGenerated: (project: GeneratedProject | null) => void;
@@ -69,6 +74,10 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const { sessionToken, user, isAuthenticated, isInMiniApp } = useAuthContext();
     const queryClient = useQueryClient();
+    const activeJobId = useProjectStore((state) => state.activeJobId);
+    const setActiveJobId = useProjectStore((state) => state.setActiveJobId);
+    const selectedTemplateId = useProjectStore((state) => state.selectedTemplateId);
+    const [isStopping, setIsStopping] = useState(false);
 
     // Get wallet address from Farcaster SDK
     useEffect(() => {
@@ -423,8 +432,22 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                 return newChat;
               });
 
-              // Poll for job completion
-              const result = await pollJobStatus(jobData.jobId);
+              // Wait for job completion, showing live stage progress
+              const result = await pollJobStatus(jobData.jobId, (message) => {
+                setChat((prev) => {
+                  const newChat = [...prev];
+                  if (
+                    newChat.length > 0 &&
+                    newChat[newChat.length - 1].role === "ai"
+                  ) {
+                    newChat[newChat.length - 1] = {
+                      ...newChat[newChat.length - 1],
+                      content: message,
+                    };
+                  }
+                  return newChat;
+                });
+              });
               logger.log("✅ Edit job completed:", result);
 
               // Update project with new URLs and timestamp to trigger iframe refresh
@@ -568,10 +591,16 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
               throw new Error(errorData.error || "Failed to apply changes");
             }
           } catch (updateError) {
-            logger.error("Failed to apply changes:", updateError);
+            const wasCancelled =
+              updateError instanceof Error &&
+              updateError.message === JOB_CANCELLED_MESSAGE;
+            if (!wasCancelled) {
+              logger.error("Failed to apply changes:", updateError);
+            }
 
-            const errorContent =
-              "❌ Sorry, I encountered an error while applying the changes. Please try again.";
+            const errorContent = wasCancelled
+              ? "⏹️ Stopped. Your project files were left unchanged."
+              : "❌ Sorry, I encountered an error while applying the changes. Please try again.";
 
             // Update the last AI message with error
             setChat((prev) => {
@@ -734,17 +763,33 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       }
     };
 
-    // Polling function for async job status
-    const pollJobStatus = async (jobId: string): Promise<GeneratedProject> => {
+    // Wait for an async job to finish. Live stage events stream over SSE; the
+    // slow status poll is only a fallback in case the stream drops.
+    const pollJobStatus = async (
+      jobId: string,
+      onProgress?: (message: string) => void
+    ): Promise<GeneratedProject> => {
       const maxAttempts = 80; // Poll for up to ~20 minutes (80 * 15 seconds)
       let attempt = 0;
 
       logger.log(`🔄 Starting to poll job ${jobId}...`);
+      setActiveJobId(jobId);
 
       return new Promise((resolve, reject) => {
-        const pollInterval = setInterval(async () => {
-          attempt++;
+        let settled = false;
+        let unsubscribe: () => void = () => {};
+
+        const finish = (error: Error | null, project?: GeneratedProject) => {
+          if (settled) return;
+          settled = true;
+          clearInterval(pollInterval);
+          unsubscribe();
+          setActiveJobId(null);
+          if (error) reject(error);
+          else resolve(project!);
+        };
 
+        const checkJob = async () => {
           try {
             logger.log(
               `🔄 Polling job ${jobId} (attempt ${attempt}/${maxAttempts})...`
@@ -757,10 +802,7 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             });
 
             if (!response.ok) {
-              clearInterval(pollInterval);
-              reject(
-                new Error(`Failed to fetch job status: ${response.status}`)
-              );
+              finish(new Error(`Failed to fetch job status: ${response.status}`));
               return;
             }
 
@@ -768,7 +810,6 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
             logger.log(`📊 Job status:`, job.status);
 
             if (job.status === "completed") {
-              clearInterval(pollInterval);
               logger.log("✅ Job completed successfully!", job.result);
 
               // Transform job result to GeneratedProject format
@@ -781,9 +822,11 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                 vercelUrl: job.result.vercelUrl,
               };
 
-              resolve(project);
-            } else if (job.status === "failed") {
-              clearInterval(pollInterval);
+              finish(null, project);
+            } else if (job.status === "cancelled") {
+              logger.log("⏹️ Job cancelled");
+              finish(new Error(JOB_CANCELLED_MESSAGE));
+            } else if (job.status === "failed" || job.status === "dead_letter") {
               logger.log("❌ Job failed, details:", {
                 error: job.error,
                 result: job.result,
@@ -794,20 +837,33 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
               // Try to extract detailed error message from result
               const errorMessage =
                 job.result?.deploymentError || job.error || "Job failed";
-              reject(new Error(errorMessage));
+              finish(new Error(errorMessage));
             } else if (attempt >= maxAttempts) {
-              clearInterval(pollInterval);
-              reject(
+              finish(
                 new Error("Job polling timeout - generation is taking too long")
               );
             }
             // Otherwise, job is still pending or processing, continue polling
           } catch (error) {
             logger.error("❌ Error polling job:", error);
-            clearInterval(pollInterval);
-            reject(error);
+            finish(error instanceof Error ? error : new Error(String(error)));
           }
+        };
+
+        const pollInterval = setInterval(() => {
+          attempt++;
+          checkJob();
         }, 15000); // Poll every 15 seconds
+
+        if (sessionToken) {
+          unsubscribe = subscribeToJobEvents(jobId, sessionToken, {
+            onEvent: (event) => onProgress?.(event.message),
+            // The stream ends as soon as the job does - fetch the result right away
+            onEnd: () => checkJob(),
+            onError: (error) =>
+              logger.warn("⚠️ Job event stream failed, falling back to polling:", error),
+          });
+        }
       });
     };
 
@@ -866,12 +922,14 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
           body: JSON.stringify({
             prompt: generationPrompt,
             projectId: chatProjectId || undefined, // Pass existing project ID for chat preservation
+            templateId: selectedTemplateId || undefined,
           }),
         });
 
         logger.log("📤 Sent /api/generate request with:", {
           hasChatProjectId: !!chatProjectId,
           chatProjectId,
+          templateId: selectedTemplateId,
           useAsyncProcessing,
         });
 
@@ -1020,6 +1078,19 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
         const errorMessage =
           err instanceof Error ? err.message : "An error occurred";
 
+        if (errorMessage === JOB_CANCELLED_MESSAGE) {
+          setChat((prev) => [
+            ...prev,
+            {
+              role: "ai",
+              content: "⏹️ Generation stopped. Nothing was deployed.",
+              phase: "building",
+              timestamp: Date.now(),
+            },
+          ]);
+          return;
+        }
+
         logger.error("Generation failed:", errorMessage);
 
         // Format deployment errors more clearly
@@ -1060,6 +1131,35 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
       }
     };
 
+    // Ask the worker to stop the running job; pollJobStatus reports the outcome
+    const handleStopJob = async () => {
+      if (!activeJobId || !sessionToken || isStopping) return;
+
+      setIsStopping(true);
+      try {
+        const response = await fetch(`/api/jobs/${activeJobId}/cancel`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${sessionToken}`,
+          },
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || "Failed to stop generation");
+        }
+      } catch (error) {
+        logger.error("Failed to stop job:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to stop generation");
+        setIsStopping(false);
+      }
+    };
+
+    // Reset once the stopped job has settled
+    useEffect(() => {
+      if (!activeJobId) setIsStopping(false);
+    }, [activeJobId]);
+
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     const adjustTextareaHeight = () => {
@@ -1345,45 +1445,63 @@ export const ChatInterface = forwardRef<ChatInterfaceRef, ChatInterfaceProps>(
                 }
               }}
             />
-            <Button
-              variant="default"
-              size="icon"
-              type="submit"
-              className="disabled:opacity-50 rounded-full ml-auto disabled:cursor-not-allowed"
-              disabled={
-                aiLoading || isGenerating || !prompt.trim() || shouldBlockChat
-              }
-              title={
-                shouldBlockChat
-                  ? "Insufficient credits - Please top up"
-                  : "Send message"
-              }
-            >
-              {aiLoading ? (
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              ) : (
-                <svg
-                  width="12"
-                  height="12"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  xmlns="http://www.w3.org/2000/svg"
-                >
-                  <path
-                    d="M4.2503 11.5713L12 3.82156L19.7498 11.5713"
-                    stroke="white"
-                    strokeWidth="2.78195"
-                    strokeLinecap="round"
-                  />
-                  <path
-                    d="M12 3.82185L12 20.1777"
-                    stroke="white"
-                    strokeWidth="2.78195"
-                    strokeLinecap="round"
-                  />
-                </svg>
-              )}
-            </Button>
+            {activeJobId ? (
+              <Button
+                variant="default"
+                size="icon"
+                type="button"
+                onClick={handleStopJob}
+                className="disabled:opacity-50 rounded-full ml-auto disabled:cursor-not-allowed"
+                disabled={isStopping}
+                title={isStopping ? "Stopping..." : "Stop generation"}
+              >
+                {isStopping ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <div className="w-3 h-3 bg-white rounded-sm"></div>
+                )}
+              </Button>
+            ) : (
+              <Button
+                variant="default"
+                size="icon"
+                type="submit"
+                className="disabled:opacity-50 rounded-full ml-auto disabled:cursor-not-allowed"
+                disabled={
+                  aiLoading || isGenerating || !prompt.trim() || shouldBlockChat
+                }
+                title={
+                  shouldBlockChat
+                    ? "Insufficient credits - Please top up"
+                    : "Send message"
+                }
+              >
+                {aiLoading ? (
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                  <svg
+                    width="12"
+                    height="12"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    xmlns="http://www.w3.org/2000/svg"
+                  >
+                    <path
+                      d="M4.2503 11.5713L12 3.82156L19.7498 11.5713"
+                      stroke="white"
+                      strokeWidth="2.78195"
+                      strokeLinecap="round"
+                    />
+                    <path
+                      d="M12 3.82185L12 20.1777"
+                      stroke="white"
+                      strokeWidth="2.78195"
+                      strokeLinecap="round"
+                    />
+                  </svg>
+                )}
+              </Button>
+            )}
           </form>
           <p className="text-xs text-gray-400 text-center">
             Outputs are auto-generated — please review before deploying.
@@ -2,9 +2,13 @@
 import { logger } from '@/lib/logger';
 
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import dynamic from 'next/dynamic';
 import { useAuthContext } from '@/contexts/AuthContext';
+import { parseConflictBlocks, resolveConflict, type ConflictBlock, type ConflictResolution } from '@/lib/threeWayMerge';
+import { useProjectLanguageService, toModelPath, type RenamedFile } from '@/hooks/useProjectLanguageService';
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, IPosition } from 'monaco-editor';
 
 // Monaco Editor (dynamically loaded for SSR)
 const MonacoEditor = dynamic(() => import('@monaco-editor/react'), { 
@@ -308,6 +312,58 @@ function FileTreeView({ nodes, selectedFile, onFileSelect }: FileTreeViewProps)
     );
 }
 
+interface ConflictPanelProps {
+    blocks: ConflictBlock[];
+    onResolve: (blockIndex: number, resolution: ConflictResolution) => void;
+}
+
+// Lists merge conflicts left by a follow-up job or a stale save, one block per conflict
+function ConflictPanel({ blocks, onResolve }: ConflictPanelProps) {
+    return (
+        <div className="border-b border-black-10 bg-orange-50 p-3 max-h-72 overflow-y-auto">
+            <div className="text-xs font-semibold text-orange-700 mb-2">
+                ⚠️ {blocks.length} merge conflict{blocks.length === 1 ? '' : 's'}: choose which version to keep
+            </div>
+            <div className="space-y-3">
+                {blocks.map(block => (
+                    <div key={block.index} className="rounded border border-orange-200 bg-white">
+                        <div className="grid grid-cols-2 divide-x divide-orange-100">
+                            <div className="p-2 min-w-0">
+                                <div className="text-[10px] uppercase text-black-60 mb-1">{block.localLabel || 'Yours'}</div>
+                                <pre className="text-xs font-mono whitespace-pre-wrap break-all">{block.local.join('\n') || '(empty)'}</pre>
+                            </div>
+                            <div className="p-2 min-w-0">
+                                <div className="text-[10px] uppercase text-black-60 mb-1">{block.incomingLabel || 'Theirs'}</div>
+                                <pre className="text-xs font-mono whitespace-pre-wrap break-all">{block.incoming.join('\n') || '(empty)'}</pre>
+                            </div>
+                        </div>
+                        <div className="flex gap-2 p-2 border-t border-orange-100">
+                            <button
+                                onClick={() => onResolve(block.index, 'local')}
+                                className="text-xs px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+                            >
+                                Keep {block.localLabel || 'yours'}
+                            </button>
+                            <button
+                                onClick={() => onResolve(block.index, 'incoming')}
+                                className="text-xs px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+                            >
+                                Keep {block.incomingLabel || 'theirs'}
+                            </button>
+                            <button
+                                onClick={() => onResolve(block.index, 'both')}
+                                className="text-xs px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 transition-colors"
+                            >
+                                Keep both
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
 export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
     const [selectedFile, setSelectedFile] = useState<string>('');
     const [fileContent, setFileContent] = useState<string>('');
@@ -322,6 +378,74 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
     const [isDeploying, setIsDeploying] = useState(false);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
     const [deploymentStatus, setDeploymentStatus] = useState<string>('');
+    const conflictBlocks = useMemo(() => parseConflictBlocks(fileContent), [fileContent]);
+    const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+    const pendingRevealRef = useRef<{ filename: string; position: IPosition } | null>(null);
+
+    const revealPosition = (position: IPosition) => {
+        editorRef.current?.setPosition(position);
+        editorRef.current?.revealPositionInCenter(position);
+        editorRef.current?.focus();
+    };
+
+    // Rename edits in files other than the open one are saved straight away
+    const saveRenamedFiles = async (files: RenamedFile[]) => {
+        if (!currentProject?.projectId || !sessionToken) return;
+
+        for (const file of files) {
+            try {
+                const response = await fetch(`/api/projects/${currentProject.projectId}/files`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Authorization': `Bearer ${sessionToken}`
+                    },
+                    body: JSON.stringify({
+                        filePath: file.filename,
+                        content: file.content,
+                        baseContent: file.baseContent,
+                        redeploy: false
+                    })
+                });
+                if (!response.ok) {
+                    throw new Error(`Failed to save file: ${response.status}`);
+                }
+                logger.log(`✅ Saved rename in ${file.filename}`);
+            } catch (error) {
+                logger.error(`❌ Error saving rename in ${file.filename}:`, error);
+            }
+        }
+    };
+
+    const { configureMonaco, refreshDiagnostics } = useProjectLanguageService(currentProject?.projectId, sessionToken, {
+        onOpenFile: (filename, position) => {
+            if (filename === selectedFile) {
+                if (position) revealPosition(position);
+                return;
+            }
+            pendingRevealRef.current = position ? { filename, position } : null;
+            setSelectedFile(filename);
+        },
+        onFilesRenamed: saveRenamedFiles,
+    });
+
+    const handleEditorMount = (editorInstance: editor.IStandaloneCodeEditor, monaco: Monaco) => {
+        editorRef.current = editorInstance;
+
+        // Models outlive the editor (go-to-definition creates them too), so make sure it shows the loaded content
+        const model = editorInstance.getModel();
+        if (model && model.getValue() !== fileContent) {
+            model.setValue(fileContent);
+        }
+
+        if (pendingRevealRef.current?.filename === selectedFile) {
+            revealPosition(pendingRevealRef.current.position);
+            pendingRevealRef.current = null;
+        }
+
+        refreshDiagnostics(monaco, model);
+        editorInstance.onDidChangeModelContent(() => refreshDiagnostics(monaco, editorInstance.getModel()));
+    };
 
     // Global error handler for Monaco Editor
     useEffect(() => {
@@ -481,6 +605,8 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                         logger.log(`📄 File system content for ${selectedFile}:`, fileSystemContent.substring(0, 100) + '...');
                         logger.log(`✅ Setting file content from file system: ${fileSystemContent.length} characters`);
                         setFileContent(fileSystemContent);
+                        setOriginalContent(fileSystemContent);
+                        setHasUnsavedChanges(false);
                         setIsLoadingContent(false);
                     });
                 }
@@ -508,6 +634,22 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
         }
     };
 
+    const handleResolveConflict = (blockIndex: number, resolution: ConflictResolution) => {
+        handleFileChange(resolveConflict(fileContent, blockIndex, resolution));
+    };
+
+    // The server merges saves made on top of an outdated version; show what it stored
+    const applySavedContent = (data: { content?: string; conflicts?: number }) => {
+        const savedContent = typeof data.content === 'string' ? data.content : fileContent;
+        if (savedContent !== fileContent) {
+            logger.log(`🔀 File was merged with newer changes (${data.conflicts || 0} conflicts)`);
+            setFileContent(savedContent);
+            onFileChange?.(selectedFile, savedContent);
+        }
+        setOriginalContent(savedContent);
+        setHasUnsavedChanges(false);
+    };
+
     const handleSaveFile = async () => {
         if (!selectedFile || !currentProject?.projectId) return;
         
@@ -528,6 +670,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                 body: JSON.stringify({
                     filePath: selectedFile,
                     content: fileContent,
+                    baseContent: originalContent,
                     redeploy: false
                 })
             });
@@ -537,8 +680,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                 throw new Error(errorData.error || `Failed to save file: ${response.status}`);
             }
 
-            setOriginalContent(fileContent);
-            setHasUnsavedChanges(false);
+            applySavedContent(await response.json());
             logger.log('✅ File saved successfully');
         } catch (error) {
             logger.error('❌ Error saving file:', error);
@@ -570,6 +712,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                 body: JSON.stringify({
                     filePath: selectedFile,
                     content: fileContent,
+                    baseContent: originalContent,
                     redeploy: true
                 })
             });
@@ -580,8 +723,12 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                 throw new Error(data.error || 'Failed to save and redeploy');
             }
 
-            setOriginalContent(fileContent);
-            setHasUnsavedChanges(false);
+            applySavedContent(data);
+            if (data.conflicts > 0) {
+                setDeploymentStatus('⚠️ Saved with merge conflicts - resolve them to redeploy');
+                setTimeout(() => setDeploymentStatus(''), 5000);
+                return;
+            }
             setDeploymentStatus('✅ Deployed successfully!');
             logger.log('✅ File saved and redeployed:', data.deploymentUrl);
             
@@ -654,7 +801,8 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                                 </button>
                                 <button
                                     onClick={handleSaveAndRedeploy}
-                                    disabled={isDeploying}
+                                    disabled={isDeploying || conflictBlocks.length > 0}
+                                    title={conflictBlocks.length > 0 ? 'Resolve merge conflicts before redeploying' : undefined}
                                     className="text-xs px-3 py-1.5 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                                 >
                                     {isDeploying ? 'Deploying...' : '🚀 Save & Redeploy'}
@@ -663,6 +811,10 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                         )}
                     </div>
 
+                    {conflictBlocks.length > 0 && !isLoadingContent && (
+                        <ConflictPanel blocks={conflictBlocks} onResolve={handleResolveConflict} />
+                    )}
+
                     {/* Monaco Editor */}
                     <div className="flex-1">
                         {selectedFile ? (
@@ -679,6 +831,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                                             <MonacoEditor
                                                 height="100%"
                                                 language={getLanguage(selectedFile)}
+                                                path={toModelPath(selectedFile)}
                                                 value={fileContent}
                                                 onChange={handleFileChange}
                                                 loading={
@@ -699,6 +852,7 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                                                         clearTimeout(monacoTimeoutRef.current);
                                                         monacoTimeoutRef.current = null;
                                                     }
+                                                    handleEditorMount(editor, monaco);
                                                 }}
                                                 onValidate={(markers) => {
                                                     logger.log('📊 Monaco validation markers:', markers.length);
@@ -714,8 +868,10 @@ export function CodeEditor({ currentProject, onFileChange }: CodeEditorProps) {
                                                         noEmit: true,
                                                         esModuleInterop: true,
                                                         allowJs: true,
-                                                        typeRoots: ["node_modules/@types"]
+                                                        jsx: monaco.languages.typescript.JsxEmit.Preserve
                                                     });
+                                                    // Project-aware language features come from the server
+                                                    configureMonaco(monaco);
                                                 } catch (error) {
                                                     logger.error('❌ Monaco Editor configuration error:', error);
                                                     setMonacoError(true);
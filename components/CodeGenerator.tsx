@@ -12,6 +12,7 @@ import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
 import { Button } from "./ui/button";
 import { Rocket } from "lucide-react";
 import BalanceDisplay from "./BalanceDisplay";
+import UsagePanel from "./UsagePanel";
 import sdk from "@farcaster/miniapp-sdk";
 
 interface GeneratedProject {
@@ -230,6 +231,7 @@ export function CodeGenerator({
             activeAgent={activeAgent || (undefined as unknown as EarnKit)}
             feeModelType={feeModelType || "credit-based"}
           />
+          <UsagePanel projectId={currentProject?.projectId} />
           {currentProject?.url && (
             <div className="flex items-center gap-2 bg-gray-100 rounded-lg px-3 py-2">
               {/* Link Icon */}
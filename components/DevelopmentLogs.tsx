@@ -1,6 +1,9 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { useProjectStore } from '@/store/useProjectStore';
+import { useJobEvents } from '@/hooks/useJobEvents';
+import type { JobEventRecord } from '@/lib/jobEvents';
 
 interface DevelopmentLogsProps {
     onComplete: () => void;
@@ -18,6 +21,38 @@ const BUILDING_STAGES = [
     { text: 'Finalizing deployment config...', icon: '🚀', duration: 30 },
 ];
 
+// Rough share of total job time reached when a stage starts
+const STAGE_PROGRESS: Record<string, number> = {
+    STAGE_0_CONTEXT_GATHERER: 5,
+    STAGE_1_INTENT_PARSER: 10,
+    STAGE_2_PATCH_PLANNER: 20,
+    STAGE_3_CODE_GENERATOR: 35,
+    STAGE_4_VALIDATOR: 60,
+    CONTRACTS: 70,
+    VALIDATION: 75,
+    DEPLOYMENT: 80,
+};
+
+const EVENT_ICONS: Record<string, string> = {
+    job_started: '🔍',
+    stage_started: '💻',
+    stage_completed: '✅',
+    stage_failed: '⚠️',
+    files_planned: '📁',
+    validation_errors: '🧪',
+    deploy_status: '🚀',
+    fix_attempt: '🔧',
+    job_retry_scheduled: '🔁',
+    job_completed: '🎉',
+    job_failed: '❌',
+    job_cancelled: '⏹️',
+};
+
+function getEventProgress(event: JobEventRecord): number {
+    if (event.type === 'job_completed') return 100;
+    return event.stage ? STAGE_PROGRESS[event.stage] || 0 : 0;
+}
+
 const TIPS = [
     {
         title: "Setting things up",
@@ -41,6 +76,14 @@ export function DevelopmentLogs({ onComplete }: DevelopmentLogsProps) {
     const [currentStage, setCurrentStage] = useState(0);
     const [progress, setProgress] = useState(0);
     const [currentTipIndex, setCurrentTipIndex] = useState(0);
+    const activeJobId = useProjectStore((state) => state.activeJobId);
+    const { events, latestEvent } = useJobEvents(activeJobId);
+
+    // Real stage events (when the job streams them) take over from the timed stages
+    const liveProgress = events.reduce((max, event) => Math.max(max, getEventProgress(event)), 0);
+    const displayProgress = latestEvent ? Math.max(progress, liveProgress) : progress;
+    const stageIcon = latestEvent ? EVENT_ICONS[latestEvent.type] || '🚀' : BUILDING_STAGES[currentStage]?.icon || '🚀';
+    const stageText = latestEvent ? latestEvent.message : BUILDING_STAGES[currentStage]?.text || 'Finalizing your project...';
 
     useEffect(() => {
         // Loading screen for 10 minutes - let actual generation happen in background
@@ -89,7 +132,7 @@ export function DevelopmentLogs({ onComplete }: DevelopmentLogsProps) {
 
     // Calculate circular progress stroke
     const circumference = 2 * Math.PI * 45; // radius = 45
-    const strokeDashoffset = circumference - (progress / 100) * circumference;
+    const strokeDashoffset = circumference - (displayProgress / 100) * circumference;
 
     return (
         <div className="flex-1 flex items-center justify-center p-8 bg-gradient-to-br from-gray-50 to-white">
@@ -135,26 +178,40 @@ export function DevelopmentLogs({ onComplete }: DevelopmentLogsProps) {
                     <div className="w-full bg-gray-200 rounded-full h-3 mb-3 shadow-inner overflow-hidden">
                         <div
                             className="bg-gradient-to-r from-blue-500 to-blue-600 h-3 rounded-full transition-all duration-500 ease-out shadow-lg relative overflow-hidden"
-                            style={{ width: `${progress}%` }}
+                            style={{ width: `${displayProgress}%` }}
                         >
                             {/* Shine animation */}
                             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white to-transparent opacity-30 animate-shimmer"></div>
                         </div>
                     </div>
-                    <p className="text-base font-semibold text-gray-600">{Math.round(progress)}% complete</p>
+                    <p className="text-base font-semibold text-gray-600">{Math.round(displayProgress)}% complete</p>
                 </div>
 
                 {/* Current Stage */}
                 <div className="mb-8">
                     <p className="text-2xl font-bold text-gray-900 mb-2 flex items-center justify-center gap-2">
-                        <span className="animate-pulse">{BUILDING_STAGES[currentStage]?.icon || '🚀'}</span>
-                        <span>{BUILDING_STAGES[currentStage]?.text || 'Finalizing your project...'}</span>
+                        <span className="animate-pulse">{stageIcon}</span>
+                        <span>{stageText}</span>
                     </p>
                     <p className="text-lg text-gray-600">
                         Minidev is crafting your project with care
                     </p>
                 </div>
 
+                {/* Live stage log */}
+                {events.length > 0 && (
+                    <div className="mb-6 text-left bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+                        <ul className="space-y-1">
+                            {events.slice(-5).map((event) => (
+                                <li key={event.id} className="text-sm text-gray-600 flex items-center gap-2">
+                                    <span>{EVENT_ICONS[event.type] || '•'}</span>
+                                    <span className="truncate">{event.message}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
                 {/* Rotating Tips with fade animation */}
                 <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl p-5 mb-6 shadow-md min-h-[120px] relative overflow-hidden">
                     <div className="absolute inset-0 bg-gradient-to-br from-blue-100/20 to-transparent"></div>
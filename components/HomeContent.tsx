@@ -7,6 +7,7 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { CodeGenerator } from '@/components/CodeGenerator';
 import { ChatInterface, ChatInterfaceRef } from '@/components/ChatInterface';
 import { UserProfileHeader } from '@/components/UserProfileHeader';
+import { TemplatePicker } from '@/components/TemplatePicker';
 import { useAuthContext } from '../contexts/AuthContext';
 import { useApiUtils } from '@/lib/apiUtils';
 import { EarnKit } from '@earnkit/earn';
@@ -270,6 +271,8 @@ export default function HomeContent() {
       >
         <UserProfileHeader />
 
+        {!currentProject && !selectedProjectId && !isGenerating && <TemplatePicker />}
+
         <ChatInterface
           ref={chatInterfaceRef}
           currentProject={currentProject}
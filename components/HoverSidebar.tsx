@@ -9,6 +9,8 @@ import { Button } from "./ui/button";
 
 interface Project {
   id: string;
+  userId: string;
+  role: "owner" | "editor" | "viewer";
   name: string;
   description?: string;
   previewUrl?: string;
@@ -34,7 +36,7 @@ export const HoverSidebar = forwardRef<HoverSidebarRef, HoverSidebarProps>(
     { onProjectSelect, onNewProject, isOpen, onToggle },
     ref
   ) {
-    const { sessionToken } = useAuthContext();
+    const { sessionToken, user } = useAuthContext();
     const [projects, setProjects] = useState<Project[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const router = useRouter();
@@ -135,7 +137,11 @@ export const HoverSidebar = forwardRef<HoverSidebarRef, HoverSidebarProps>(
                         <p className="text-sm font-medium text-gray-900 truncate">
                           {project.name}
                         </p>
-                        {project.description && (
+                        {project.userId !== user?.id ? (
+                          <p className="text-xs text-gray-500 truncate">
+                            Shared · {project.role}
+                          </p>
+                        ) : project.description && (
                           <p className="text-xs text-gray-500 truncate">
                             {project.description}
                           </p>
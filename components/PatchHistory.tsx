@@ -12,9 +12,8 @@ interface Patch {
     prompt: string;
     diffs: Array<{
       filename: string;
-      oldContent: string;
-      newContent: string;
       hunks: unknown[];
+      unifiedDiff: string;
     }>;
     changedFiles: string[];
     timestamp: string;
@@ -91,10 +90,25 @@ export function PatchHistory({ projectId, onPatchSelect }: PatchHistoryProps) {
         body: JSON.stringify({ patchId, action: 'revert' }),
       });
 
+      if (response.status === 409) {
+        const data = await response.json();
+        const conflicts = (data.conflicts || []) as Array<{ filename: string; reason: string }>;
+        alert(
+          `This change can't be reverted cleanly because later edits touched the same code:\n\n` +
+          conflicts.map(c => `• ${c.filename}: ${c.reason}`).join('\n')
+        );
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`Failed to revert patch: ${response.status} ${response.statusText}`);
       }
 
+      const data = await response.json();
+      if (data.redeployError) {
+        logger.warn('Patch reverted but preview redeploy failed:', data.redeployError);
+      }
+
       // Refresh patches
       await fetchPatches();
     } catch (err) {
@@ -8,6 +8,8 @@ import { useApiUtils } from '@/lib/apiUtils';
 
 interface Project {
   id: string;
+  userId: string;
+  role: 'owner' | 'editor' | 'viewer';
   name: string;
   description?: string;
   previewUrl?: string;
@@ -22,7 +24,7 @@ interface ProjectListProps {
 }
 
 export function ProjectList({ onProjectSelect, onNewProject }: ProjectListProps) {
-  const { isAuthenticated, sessionToken } = useAuthContext();
+  const { isAuthenticated, sessionToken, user } = useAuthContext();
   const { apiCall } = useApiUtils();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
@@ -70,6 +72,42 @@ export function ProjectList({ onProjectSelect, onNewProject }: ProjectListProps)
     return project.previewUrl || project.vercelUrl || '#';
   };
 
+  // Projects someone else created and invited this user to
+  const ownProjects = projects.filter((project) => project.userId === user?.id);
+  const sharedProjects = projects.filter((project) => project.userId !== user?.id);
+
+  const renderProject = (project: Project) => (
+    <div
+      key={project.id}
+      className="border border-black-10 rounded-lg p-3 hover:border-black-20 hover:bg-black-5 transition-all cursor-pointer group"
+      onClick={() => onProjectSelect(project)}
+    >
+      <div className="flex flex-col items-start">
+        <h3 className="font-medium text-black text-sm truncate w-full group-hover:text-black-80">
+          {project.name}
+        </h3>
+        <div className="flex items-center gap-2 mt-1.5 text-xs text-black-40">
+          <span>Updated {formatDate(project.updatedAt)}</span>
+          {getProjectUrl(project) !== '#' && (
+            <>
+              <span>•</span>
+              <span className="flex items-center gap-1">
+                <div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>
+                Live
+              </span>
+            </>
+          )}
+          {project.userId !== user?.id && (
+            <>
+              <span>•</span>
+              <span className="capitalize">{project.role}</span>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="h-full flex flex-col bg-white rounded-lg">
@@ -130,7 +168,10 @@ export function ProjectList({ onProjectSelect, onNewProject }: ProjectListProps)
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-lg font-semibold text-black">Your Projects</h2>
-            <p className="text-sm text-black-60">{projects.length} project{projects.length !== 1 ? 's' : ''}</p>
+            <p className="text-sm text-black-60">
+              {ownProjects.length} project{ownProjects.length !== 1 ? 's' : ''}
+              {sharedProjects.length > 0 && `, ${sharedProjects.length} shared with you`}
+            </p>
           </div>
           <button
             onClick={() => {
@@ -146,32 +187,17 @@ export function ProjectList({ onProjectSelect, onNewProject }: ProjectListProps)
       {/* Projects List */}
       <div className="flex-1 overflow-y-auto p-4">
         <div className="space-y-2">
-          {projects.map((project) => (
-            <div
-              key={project.id}
-              className="border border-black-10 rounded-lg p-3 hover:border-black-20 hover:bg-black-5 transition-all cursor-pointer group"
-              onClick={() => onProjectSelect(project)}
-            >
-              <div className="flex flex-col items-start">
-                <h3 className="font-medium text-black text-sm truncate w-full group-hover:text-black-80">
-                  {project.name}
-                </h3>
-                <div className="flex items-center gap-2 mt-1.5 text-xs text-black-40">
-                  <span>Updated {formatDate(project.updatedAt)}</span>
-                  {getProjectUrl(project) !== '#' && (
-                    <>
-                      <span>•</span>
-                      <span className="flex items-center gap-1">
-                        <div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>
-                        Live
-                      </span>
-                    </>
-                  )}
-                </div>
-              </div>
-            </div>
-          ))}
+          {ownProjects.map(renderProject)}
         </div>
+
+        {sharedProjects.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-black-40 mb-2">Shared with you</h3>
+            <div className="space-y-2">
+              {sharedProjects.map(renderProject)}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
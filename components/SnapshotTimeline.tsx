@@ -0,0 +1,317 @@
+'use client';
+import { logger } from "@/lib/logger";
+
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthContext } from '@/contexts/AuthContext';
+
+interface Snapshot {
+  id: string;
+  projectId: string;
+  parentSnapshotId?: string | null;
+  jobId?: string | null;
+  source: 'generation' | 'follow_up' | 'restore' | 'fork';
+  description?: string | null;
+  treeHash: string;
+  fileCount: number;
+  createdAt: string;
+}
+
+interface SnapshotFileChange {
+  filename: string;
+  status: 'added' | 'removed' | 'modified';
+  additions: number;
+  deletions: number;
+  unifiedDiff?: string;
+}
+
+interface SnapshotTimelineProps {
+  projectId: string;
+  onRestored?: () => void;
+  onForked?: (projectId: string) => void;
+}
+
+const SOURCE_LABELS: Record<Snapshot['source'], string> = {
+  generation: 'Generated',
+  follow_up: 'Edit',
+  restore: 'Restore',
+  fork: 'Fork',
+};
+
+export function SnapshotTimeline({ projectId, onRestored, onForked }: SnapshotTimelineProps) {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedSnapshotId, setExpandedSnapshotId] = useState<string | null>(null);
+  const [changes, setChanges] = useState<Record<string, SnapshotFileChange[]>>({});
+  const [busySnapshotId, setBusySnapshotId] = useState<string | null>(null);
+  const { sessionToken } = useAuthContext();
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!sessionToken) {
+      setError('Authentication required');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/projects/${projectId}/snapshots`, {
+        headers: {
+          'Authorization': `Bearer ${sessionToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch snapshots: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setSnapshots(data.snapshots || []);
+      setChanges({});
+    } catch (err) {
+      logger.error('Error fetching snapshots:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch snapshots');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, sessionToken]);
+
+  useEffect(() => {
+    if (projectId) {
+      fetchSnapshots();
+    }
+  }, [projectId, fetchSnapshots]);
+
+  const fetchChanges = async (snapshotId: string) => {
+    if (!sessionToken || changes[snapshotId]) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/snapshots/${snapshotId}/diff`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to diff snapshot: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setChanges(prev => ({ ...prev, [snapshotId]: data.changes || [] }));
+    } catch (err) {
+      logger.error('Error diffing snapshot:', err);
+    }
+  };
+
+  const handleRestore = async (snapshotId: string) => {
+    if (!sessionToken) {
+      alert('Authentication required');
+      return;
+    }
+
+    try {
+      setBusySnapshotId(snapshotId);
+      const response = await fetch(`/api/projects/${projectId}/snapshots/${snapshotId}/restore`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${sessionToken}` },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to restore snapshot: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (data.redeployError) {
+        logger.warn('Snapshot restored but preview redeploy failed:', data.redeployError);
+      }
+
+      await fetchSnapshots();
+      onRestored?.();
+    } catch (err) {
+      logger.error('Error restoring snapshot:', err);
+      alert('Failed to restore snapshot');
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  const handleFork = async (snapshotId: string) => {
+    if (!sessionToken) {
+      alert('Authentication required');
+      return;
+    }
+
+    try {
+      setBusySnapshotId(snapshotId);
+      const response = await fetch(`/api/projects/${projectId}/snapshots/${snapshotId}/fork`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fork snapshot: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      onForked?.(data.project.id);
+    } catch (err) {
+      logger.error('Error forking snapshot:', err);
+      alert('Failed to fork snapshot');
+    } finally {
+      setBusySnapshotId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+    if (diffInSeconds < 60) return 'just now';
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+    if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d ago`;
+
+    return date.toLocaleDateString();
+  };
+
+  const toggleExpand = (snapshotId: string) => {
+    if (expandedSnapshotId === snapshotId) {
+      setExpandedSnapshotId(null);
+      return;
+    }
+    setExpandedSnapshotId(snapshotId);
+    fetchChanges(snapshotId);
+  };
+
+  if (loading) {
+    return (
+      <div className="p-4 text-gray-400 text-sm">
+        Loading snapshots...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 text-red-400 text-sm">
+        Error: {error}
+      </div>
+    );
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="p-4 text-gray-400 text-sm">
+        No snapshots yet. A snapshot is saved after every generation.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-200">Timeline</h3>
+        <p className="text-xs text-gray-400 mt-1">{snapshots.length} snapshot{snapshots.length !== 1 ? 's' : ''}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {snapshots.map((snapshot, index) => (
+          <div
+            key={snapshot.id}
+            className="border-b border-gray-700 hover:bg-gray-800/50 transition-colors"
+          >
+            <div
+              className="p-3 cursor-pointer"
+              onClick={() => toggleExpand(snapshot.id)}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono text-gray-400">
+                      {snapshot.id.substring(0, 8)}
+                    </span>
+                    <span className="text-xs px-1.5 py-0.5 bg-gray-700 text-gray-300 rounded">
+                      {SOURCE_LABELS[snapshot.source] || snapshot.source}
+                    </span>
+                    {index === 0 && (
+                      <span className="text-xs px-1.5 py-0.5 bg-green-500/20 text-green-400 rounded">
+                        Latest
+                      </span>
+                    )}
+                  </div>
+                  {snapshot.description && (
+                    <p className="text-sm text-gray-200 mt-1 truncate">
+                      {snapshot.description}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
+                    <span>{formatDate(snapshot.createdAt)}</span>
+                    <span>{snapshot.fileCount} file{snapshot.fileCount !== 1 ? 's' : ''}</span>
+                  </div>
+                </div>
+              </div>
+
+              {expandedSnapshotId === snapshot.id && (
+                <div className="mt-3 pt-3 border-t border-gray-700">
+                  <p className="text-xs text-gray-400 mb-1">Differences from current files:</p>
+                  {!changes[snapshot.id] ? (
+                    <p className="text-xs text-gray-500">Loading diff...</p>
+                  ) : changes[snapshot.id].length === 0 ? (
+                    <p className="text-xs text-gray-500">Identical to current files</p>
+                  ) : (
+                    <ul className="space-y-1 mb-3">
+                      {changes[snapshot.id].map(change => (
+                        <li key={change.filename} className="text-xs font-mono flex items-center gap-2">
+                          <span className={
+                            change.status === 'added' ? 'text-green-400' :
+                            change.status === 'removed' ? 'text-red-400' : 'text-yellow-400'
+                          }>
+                            {change.status === 'added' ? 'A' : change.status === 'removed' ? 'D' : 'M'}
+                          </span>
+                          <span className="text-gray-200 truncate">{change.filename}</span>
+                          <span className="text-gray-500">+{change.additions} -{change.deletions}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      disabled={busySnapshotId !== null}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm('Restore the project to this snapshot?')) {
+                          handleRestore(snapshot.id);
+                        }
+                      }}
+                      className="text-xs px-3 py-1.5 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 rounded transition-colors disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      disabled={busySnapshotId !== null}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleFork(snapshot.id);
+                      }}
+                      className="text-xs px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+                    >
+                      Fork
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+import { logger } from "@/lib/logger";
+
+import { useState, useEffect } from 'react';
+import { useProjectStore } from '@/store/useProjectStore';
+
+interface TemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  contractTemplates: string[];
+  examplePrompt?: string;
+}
+
+/**
+ * Starting template for a new project. The choice is sent with the next
+ * /api/generate request; with no choice Stage 1 picks one from the prompt.
+ */
+export function TemplatePicker() {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const selectedTemplateId = useProjectStore((state) => state.selectedTemplateId);
+  const setSelectedTemplateId = useProjectStore((state) => state.setSelectedTemplateId);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch('/api/templates');
+        if (!response.ok) {
+          throw new Error(`Failed to fetch templates: ${response.status} ${response.statusText}`);
+        }
+        const data = await response.json();
+        setTemplates(data.templates || []);
+      } catch (err) {
+        logger.error('Error fetching templates:', err);
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const handleSelect = (template: TemplateSummary) => {
+    if (template.id === selectedTemplateId) {
+      setSelectedTemplateId(null);
+      return;
+    }
+
+    setSelectedTemplateId(template.id);
+    if (template.examplePrompt) {
+      // ChatInterface fills its input from this event
+      window.dispatchEvent(new CustomEvent('templateSelect', { detail: template.examplePrompt }));
+    }
+  };
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-4 pt-3">
+      <p className="text-xs text-gray-500 mb-2">
+        Start from a template {selectedTemplateId ? '' : '(or let us pick one from your prompt)'}
+      </p>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {templates.map((template) => {
+          const isSelected = template.id === selectedTemplateId;
+          return (
+            <button
+              key={template.id}
+              type="button"
+              title={template.description}
+              onClick={() => handleSelect(template)}
+              className={`shrink-0 rounded-full border px-3 py-1.5 text-xs transition-colors ${
+                isSelected
+                  ? 'border-black bg-black text-white'
+                  : 'border-gray-200 bg-white text-gray-700 hover:border-gray-400'
+              }`}
+            >
+              {template.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuthContext } from "@/contexts/AuthContext";
+import { Button } from "./ui/button";
+
+interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+}
+
+interface UsageSummary {
+    totals: UsageTotals;
+    byStage: (UsageTotals & { stageType: string })[];
+    byModel: (UsageTotals & { model: string })[];
+}
+
+interface UsagePanelProps {
+    projectId?: string;
+}
+
+function formatCost(costUsd: number): string {
+    return costUsd < 0.01 && costUsd > 0 ? "<$0.01" : `$${costUsd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+    return tokens >= 1000000 ? `${(tokens / 1000000).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+}
+
+/**
+ * LLM spend for the open project (or all projects), from /api/usage
+ */
+export default function UsagePanel({ projectId }: UsagePanelProps) {
+    const { sessionToken, isAuthenticated } = useAuthContext();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const { data: usage, isLoading } = useQuery<UsageSummary>({
+        queryKey: ["usage", projectId ?? "all"],
+        queryFn: async () => {
+            const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : "";
+            const response = await fetch(`/api/usage${query}`, {
+                headers: { Authorization: `Bearer ${sessionToken}` },
+            });
+            if (!response.ok) throw new Error(`Failed to fetch usage: ${response.status}`);
+            return response.json();
+        },
+        enabled: isAuthenticated && !!sessionToken,
+        staleTime: 1000 * 30,
+        refetchInterval: 1000 * 60,
+    });
+
+    if (!isAuthenticated) {
+        return null;
+    }
+
+    const totals = usage?.totals;
+
+    return (
+        <div className="relative">
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsOpen(open => !open)}
+                title={projectId ? "LLM cost for this project" : "LLM cost for all projects"}
+                className="px-3 py-1.5 text-xs font-medium border-black-20 text-black-60 hover:text-black hover:border-black-30 hover:bg-black-5 transition-colors cursor-pointer"
+            >
+                Usage: {isLoading || !totals ? "..." : formatCost(totals.costUsd)}
+            </Button>
+
+            {isOpen && totals && (
+                <div className="absolute right-0 top-full mt-2 w-72 rounded-lg border border-gray-200 bg-white p-3 shadow-lg z-50 text-xs text-gray-700">
+                    <div className="flex justify-between font-medium text-black">
+                        <span>{projectId ? "This project" : "All projects"}</span>
+                        <span>{formatCost(totals.costUsd)}</span>
+                    </div>
+                    <div className="mt-1 text-gray-500">
+                        {totals.calls} calls · {formatTokens(totals.inputTokens)} in · {formatTokens(totals.outputTokens)} out
+                    </div>
+
+                    {usage.byStage.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                            <div className="font-medium text-black">By stage</div>
+                            {usage.byStage.map(stage => (
+                                <div key={stage.stageType} className="flex justify-between">
+                                    <span className="truncate">{stage.stageType}</span>
+                                    <span>{formatCost(stage.costUsd)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {usage.byModel.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                            <div className="font-medium text-black">By model</div>
+                            {usage.byModel.map(model => (
+                                <div key={model.model} className="flex justify-between">
+                                    <span className="truncate">{model.model}</span>
+                                    <span>{formatCost(model.costUsd)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,18 +1,56 @@
 "use client";
+import { logger } from "@/lib/logger";
 
 import { useState, useRef, useEffect } from "react";
 import Image from "next/image";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { useSidebarContext } from "@/components/SidebarContext";
 import { Button } from "./ui/button";
+import { AccessTokensModal } from "./AccessTokensModal";
 
 interface UserProfileHeaderProps {
   onOpenSidebar?: () => void;
 }
 
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// "Safari on iOS" from a user agent string, good enough for telling devices apart
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    /Warpcast|Farcaster/i.test(userAgent) ? "Farcaster" : "Browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Linux/.test(userAgent) ? "Linux" : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function formatLastSeen(lastSeenAt: string): string {
+  const minutes = Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / 60000);
+  if (minutes < 5) return "Active now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
 export function UserProfileHeader({ onOpenSidebar }: UserProfileHeaderProps) {
-  const { user, logout, isInMiniApp } = useAuthContext();
+  const { user, logout, logoutEverywhere, isInMiniApp, sessionToken } = useAuthContext();
   const [showDropdown, setShowDropdown] = useState(false);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [signingOutEverywhere, setSigningOutEverywhere] = useState(false);
+  const [showAccessTokens, setShowAccessTokens] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const { toggleSidebar } = useSidebarContext();
 
@@ -36,6 +74,25 @@ export function UserProfileHeader({ onOpenSidebar }: UserProfileHeaderProps) {
     };
   }, [showDropdown]);
 
+  // Load the signed-in devices whenever the menu opens
+  useEffect(() => {
+    if (!showDropdown || !sessionToken) return;
+
+    let cancelled = false;
+    fetch("/api/auth/sessions", {
+      headers: { Authorization: `Bearer ${sessionToken}` },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.sessions) setSessions(data.sessions);
+      })
+      .catch((error) => logger.error("Failed to load sessions:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showDropdown, sessionToken]);
+
   // Get user display name
   const getUserDisplay = () => {
     if (user?.displayName) return user.displayName;
@@ -53,6 +110,18 @@ export function UserProfileHeader({ onOpenSidebar }: UserProfileHeaderProps) {
     setShowDropdown(false);
   };
 
+  const handleLogoutEverywhere = async () => {
+    setSigningOutEverywhere(true);
+    try {
+      await logoutEverywhere();
+      setShowDropdown(false);
+    } catch (error) {
+      logger.error("Failed to sign out everywhere:", error);
+    } finally {
+      setSigningOutEverywhere(false);
+    }
+  };
+
   return (
     <div className="sticky h-[65px] top-0 left-0 bg-white border-b border-gray-200 px-4 py-2 flex items-center justify-between z-20">
       <div className="flex items-center">
@@ -154,6 +223,52 @@ export function UserProfileHeader({ onOpenSidebar }: UserProfileHeaderProps) {
                 </div>
               )}
 
+              {/* Signed-in Devices */}
+              {sessions.length > 0 && (
+                <div className="px-4 py-2.5 border-b border-gray-100">
+                  <span className="text-xs text-gray-500">
+                    Signed in on {sessions.length} device{sessions.length !== 1 ? "s" : ""}
+                  </span>
+                  <ul className="mt-1.5 space-y-1">
+                    {sessions.slice(0, 5).map((session) => (
+                      <li key={session.id} className="flex items-center justify-between text-xs">
+                        <span className="text-gray-700 truncate">
+                          {describeDevice(session.userAgent)}
+                          {session.current && <span className="text-gray-400"> · this device</span>}
+                        </span>
+                        <span className="text-gray-400 shrink-0 ml-2">
+                          {formatLastSeen(session.lastSeenAt)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* API Tokens Option */}
+              <button
+                onClick={() => {
+                  setShowAccessTokens(true);
+                  setShowDropdown(false);
+                }}
+                className="w-full px-4 py-2.5 flex items-center gap-3 hover:bg-gray-50 transition-colors text-left"
+              >
+                <svg
+                  className="w-5 h-5 text-gray-600"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+                  />
+                </svg>
+                <span className="text-sm font-medium text-gray-700">API tokens</span>
+              </button>
+
               {/* Logout Option */}
               <button
                 onClick={handleLogout}
@@ -174,6 +289,30 @@ export function UserProfileHeader({ onOpenSidebar }: UserProfileHeaderProps) {
                 </svg>
                 <span className="text-sm font-medium text-red-600">Logout</span>
               </button>
+
+              {/* Sign Out Everywhere Option */}
+              <button
+                onClick={handleLogoutEverywhere}
+                disabled={signingOutEverywhere}
+                className="w-full px-4 py-2.5 flex items-center gap-3 hover:bg-red-50 transition-colors text-left disabled:opacity-50"
+              >
+                <svg
+                  className="w-5 h-5 text-red-600"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                  />
+                </svg>
+                <span className="text-sm font-medium text-red-600">
+                  {signingOutEverywhere ? "Signing out..." : "Sign out everywhere"}
+                </span>
+              </button>
             </div>
           )}
         </div>
@@ -192,6 +331,11 @@ export function UserProfileHeader({ onOpenSidebar }: UserProfileHeaderProps) {
           <span className="text-xs font-medium text-purple-700">Miniapp</span>
         </div>
       )}
+
+      <AccessTokensModal
+        isOpen={showAccessTokens}
+        onClose={() => setShowAccessTokens(false)}
+      />
     </div>
   );
 }
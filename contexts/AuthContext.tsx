@@ -16,7 +16,9 @@ interface AuthContextType {
   isLoading: boolean;
   isInMiniApp: boolean;
   handleSessionExpired: () => Promise<void>;
+  refreshSession: () => Promise<string | null>;
   logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS "snapshot_blobs" (
+	"hash" text PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "project_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"parent_snapshot_id" uuid,
+	"job_id" uuid,
+	"source" text NOT NULL,
+	"description" text,
+	"tree" jsonb NOT NULL,
+	"tree_hash" text NOT NULL,
+	"file_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_snapshots" ADD CONSTRAINT "project_snapshots_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_snapshots" ADD CONSTRAINT "project_snapshots_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "generation_jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_project_snapshots_project_created" ON "project_snapshots" ("project_id", "created_at");
@@ -0,0 +1,15 @@
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "attempts" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "max_attempts" integer DEFAULT 3 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "available_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "lease_owner" text;
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "lease_expires_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "last_error" text;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_generation_jobs_claimable" ON "generation_jobs" ("status", "available_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_generation_jobs_user_status" ON "generation_jobs" ("user_id", "status");
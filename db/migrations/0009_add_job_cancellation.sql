@@ -0,0 +1 @@
+ALTER TABLE "generation_jobs" ADD COLUMN IF NOT EXISTS "cancel_requested_at" timestamp;
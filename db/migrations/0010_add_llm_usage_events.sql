@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS "llm_usage_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"project_id" uuid,
+	"job_id" uuid,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"stage_name" text NOT NULL,
+	"stage_type" text NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_usd" double precision DEFAULT 0 NOT NULL,
+	"duration_ms" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_usage_events" ADD CONSTRAINT "llm_usage_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "llm_usage_events" ADD CONSTRAINT "llm_usage_events_job_id_generation_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "generation_jobs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_events_user_id" ON "llm_usage_events" ("user_id", "created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_events_project_id" ON "llm_usage_events" ("project_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_events_job_id" ON "llm_usage_events" ("job_id");
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "project_file_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"filename" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"symbol" text,
+	"kind" text NOT NULL,
+	"start_line" integer NOT NULL,
+	"end_line" integer NOT NULL,
+	"terms" jsonb NOT NULL,
+	"length" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_file_chunks" ADD CONSTRAINT "project_file_chunks_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_project_file_chunks_project_file" ON "project_file_chunks" ("project_id", "filename");
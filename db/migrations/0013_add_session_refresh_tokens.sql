@@ -0,0 +1,28 @@
+ALTER TABLE "user_sessions" ADD COLUMN IF NOT EXISTS "refresh_token_hash" text;
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD COLUMN IF NOT EXISTS "previous_refresh_token_hash" text;
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD COLUMN IF NOT EXISTS "refresh_expires_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD COLUMN IF NOT EXISTS "user_agent" text;
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD COLUMN IF NOT EXISTS "ip_address" text;
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD COLUMN IF NOT EXISTS "last_seen_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+-- Sessions issued before refresh tokens can't be refreshed, so they end with their access token
+UPDATE "user_sessions" SET "refresh_expires_at" = "expires_at" WHERE "refresh_expires_at" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ALTER COLUMN "refresh_expires_at" SET NOT NULL;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_refresh_token_hash_unique" UNIQUE("refresh_token_hash");
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_user_sessions_previous_refresh_token_hash" ON "user_sessions" ("previous_refresh_token_hash");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_user_sessions_user_id" ON "user_sessions" ("user_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_user_sessions_refresh_expires_at" ON "user_sessions" ("refresh_expires_at");
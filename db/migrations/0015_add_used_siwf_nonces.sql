@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS "used_siwf_nonces" (
+	"nonce" text PRIMARY KEY NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_used_siwf_nonces_expires_at" ON "used_siwf_nonces" ("expires_at");
@@ -1,4 +1,4 @@
-import { pgTable, uuid, text, timestamp, integer, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, integer, jsonb, boolean, serial, doublePrecision } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Users table (linked to Farcaster)
@@ -28,6 +28,17 @@ export const projects = pgTable('projects', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Project members table - collaborators beyond the owner in projects.user_id
+export const projectMembers = pgTable('project_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  role: text('role').notNull(), // 'owner', 'editor', 'viewer'
+  invitedBy: uuid('invited_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Project files table
 export const projectFiles = pgTable('project_files', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -62,15 +73,41 @@ export const projectDeployments = pgTable('project_deployments', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
-// User sessions table (for Farcaster integration)
+// User sessions table (for Farcaster integration) - one row per signed-in device
 export const userSessions = pgTable('user_sessions', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
-  sessionToken: text('session_token').unique().notNull(),
-  expiresAt: timestamp('expires_at').notNull(),
+  sessionToken: text('session_token').unique().notNull(), // Short-lived access token
+  expiresAt: timestamp('expires_at').notNull(), // Access token expiry
+  refreshTokenHash: text('refresh_token_hash').unique(), // sha256 of the current refresh token
+  previousRefreshTokenHash: text('previous_refresh_token_hash'), // Last rotated-out token, to detect replay
+  refreshExpiresAt: timestamp('refresh_expires_at').notNull(), // The session is gone after this
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Personal access tokens - scoped, long-lived Bearer tokens for scripts
+export const personalAccessTokens = pgTable('personal_access_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').unique().notNull(), // sha256 of the token; the token itself is shown once
+  tokenPrefix: text('token_prefix').notNull(), // First characters, to tell tokens apart in the UI
+  scopes: jsonb('scopes').notNull(), // e.g. ['projects:read', 'generate']
+  expiresAt: timestamp('expires_at'), // null = never expires
+  lastUsedAt: timestamp('last_used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Sign In With Farcaster nonces already signed in with, kept until they expire
+export const usedSiwfNonces = pgTable('used_siwf_nonces', {
+  nonce: text('nonce').primaryKey(),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at').defaultNow().notNull(),
+});
+
 // Chat messages table (for project-specific conversations)
 export const chatMessages = pgTable('chat_messages', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -87,7 +124,7 @@ export const generationJobs = pgTable('generation_jobs', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
   projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }),
-  status: text('status').default('pending').notNull(), // 'pending', 'processing', 'completed', 'failed'
+  status: text('status').default('pending').notNull(), // 'pending', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled'
   prompt: text('prompt').notNull(),
   context: jsonb('context').notNull(), // Chat history, project info, etc.
   result: jsonb('result'), // Generation result when completed
@@ -96,13 +133,89 @@ export const generationJobs = pgTable('generation_jobs', {
   startedAt: timestamp('started_at'),
   completedAt: timestamp('completed_at'),
   expiresAt: timestamp('expires_at').notNull(), // 24 hours from creation
+  // Queue bookkeeping (see lib/jobQueue.ts)
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(3).notNull(),
+  availableAt: timestamp('available_at').defaultNow().notNull(), // Not claimable before this (retry backoff)
+  leaseOwner: text('lease_owner'), // Worker currently holding the job
+  leaseExpiresAt: timestamp('lease_expires_at'), // Re-queued if the worker stops heartbeating
+  lastError: text('last_error'), // Error from the most recent failed attempt
+  cancelRequestedAt: timestamp('cancel_requested_at'), // Set by /api/jobs/[id]/cancel; the worker stops at its next checkpoint
+});
+
+// Snapshot blobs table (content-addressed file contents shared by all snapshots)
+export const snapshotBlobs = pgTable('snapshot_blobs', {
+  hash: text('hash').primaryKey(), // sha256 of content
+  content: text('content').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Project snapshots table (immutable file trees recorded after each completed job)
+export const projectSnapshots = pgTable('project_snapshots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  parentSnapshotId: uuid('parent_snapshot_id'), // Previous snapshot in this project's timeline
+  jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'set null' }),
+  source: text('source').notNull(), // 'generation', 'follow_up', 'restore', 'fork'
+  description: text('description'),
+  tree: jsonb('tree').notNull(), // { [filename]: blobHash }
+  treeHash: text('tree_hash').notNull(), // sha256 of the sorted tree
+  fileCount: integer('file_count').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Generation job events table - structured progress stream for a job (served over SSE)
+export const generationJobEvents = pgTable('generation_job_events', {
+  id: serial('id').primaryKey(), // Monotonic, used as the SSE event id
+  jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'cascade' }).notNull(),
+  type: text('type').notNull(), // 'stage_started', 'stage_completed', 'files_planned', 'deploy_status', ...
+  stage: text('stage'),
+  message: text('message').notNull(),
+  data: jsonb('data'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// LLM usage ledger - one row per model call, for cost reporting per user, project and job
+export const llmUsageEvents = pgTable('llm_usage_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  projectId: uuid('project_id'), // No FK: initial generation spends tokens before the project row exists
+  jobId: uuid('job_id').references(() => generationJobs.id, { onDelete: 'set null' }), // Kept after the job expires
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  stageName: text('stage_name').notNull(),
+  stageType: text('stage_type').notNull(),
+  inputTokens: integer('input_tokens').default(0).notNull(),
+  outputTokens: integer('output_tokens').default(0).notNull(),
+  costUsd: doublePrecision('cost_usd').default(0).notNull(),
+  durationMs: integer('duration_ms').default(0).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Project file chunk index - BM25 terms per component/function chunk, rebuilt on saveProjectFiles
+export const projectFileChunks = pgTable('project_file_chunks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  filename: text('filename').notNull(),
+  contentHash: text('content_hash').notNull(), // sha256 of the file content the chunk was cut from
+  chunkIndex: integer('chunk_index').notNull(),
+  symbol: text('symbol'), // Declaration name, null for module/text chunks
+  kind: text('kind').notNull(), // 'module', 'component', 'hook', 'function', 'class', 'type', 'variable', 'text'
+  startLine: integer('start_line').notNull(),
+  endLine: integer('end_line').notNull(),
+  terms: jsonb('terms').notNull(), // { [term]: frequency }
+  length: integer('length').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
 // Define relations
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
+  memberships: many(projectMembers),
   sessions: many(userSessions),
+  accessTokens: many(personalAccessTokens),
   generationJobs: many(generationJobs),
+  llmUsageEvents: many(llmUsageEvents),
 }));
 
 export const projectsRelations = relations(projects, ({ one, many }) => ({
@@ -110,10 +223,24 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     fields: [projects.userId],
     references: [users.id],
   }),
+  members: many(projectMembers),
   files: many(projectFiles),
   patches: many(projectPatches),
   deployments: many(projectDeployments),
   chatMessages: many(chatMessages),
+  snapshots: many(projectSnapshots),
+  fileChunks: many(projectFileChunks),
+}));
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [projectMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const projectFilesRelations = relations(projectFiles, ({ one }) => ({
@@ -144,6 +271,13 @@ export const userSessionsRelations = relations(userSessions, ({ one }) => ({
   }),
 }));
 
+export const personalAccessTokensRelations = relations(personalAccessTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [personalAccessTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   project: one(projects, {
     fields: [chatMessages.projectId],
@@ -151,7 +285,7 @@ export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
   }),
 }));
 
-export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
+export const generationJobsRelations = relations(generationJobs, ({ one, many }) => ({
   user: one(users, {
     fields: [generationJobs.userId],
     references: [users.id],
@@ -160,4 +294,41 @@ export const generationJobsRelations = relations(generationJobs, ({ one }) => ({
     fields: [generationJobs.projectId],
     references: [projects.id],
   }),
+  events: many(generationJobEvents),
+}));
+
+export const projectSnapshotsRelations = relations(projectSnapshots, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectSnapshots.projectId],
+    references: [projects.id],
+  }),
+  job: one(generationJobs, {
+    fields: [projectSnapshots.jobId],
+    references: [generationJobs.id],
+  }),
+}));
+
+export const generationJobEventsRelations = relations(generationJobEvents, ({ one }) => ({
+  job: one(generationJobs, {
+    fields: [generationJobEvents.jobId],
+    references: [generationJobs.id],
+  }),
+}));
+
+export const llmUsageEventsRelations = relations(llmUsageEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [llmUsageEvents.userId],
+    references: [users.id],
+  }),
+  job: one(generationJobs, {
+    fields: [llmUsageEvents.jobId],
+    references: [generationJobs.id],
+  }),
+}));
+
+export const projectFileChunksRelations = relations(projectFileChunks, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectFileChunks.projectId],
+    references: [projects.id],
+  }),
 }));
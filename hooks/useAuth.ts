@@ -30,36 +30,107 @@ export function useAuth() {
   });
   const hasInitialized = useRef(false);
   const initializationPromise = useRef<Promise<void> | null>(null);
+  // Kept out of state: nothing renders from it, and it rotates on every refresh
+  const refreshToken = useRef<string | null>(null);
+  const refreshPromise = useRef<Promise<string | null> | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
 
-  // Function to handle session expiration
-  const handleSessionExpired = useCallback(async () => {
-    logger.log('🔄 Session expired, clearing session');
+  const clearSession = useCallback(() => {
     setAuthState({
       isAuthenticated: false,
       sessionToken: null,
       user: null,
       isLoading: false,
     });
+    refreshToken.current = null;
+    setExpiresAt(null);
     hasInitialized.current = false;
     initializationPromise.current = null;
+  }, []);
+
+  // Function to handle session expiration
+  const handleSessionExpired = useCallback(async () => {
+    logger.log('🔄 Session expired, clearing session');
+    clearSession();
     
     // Redirect to home page
     router.push('/');
-  }, [router]);
+  }, [router, clearSession]);
+
+  // Trade the refresh token for a new access token; concurrent callers share one request
+  const refreshSession = useCallback(async (): Promise<string | null> => {
+    if (!refreshToken.current) return null;
+    if (refreshPromise.current) return refreshPromise.current;
 
-  // Logout function
+    refreshPromise.current = (async () => {
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken: refreshToken.current }),
+        });
+        if (!response.ok) {
+          logger.warn('⚠️ Session refresh rejected:', response.status);
+          return null;
+        }
+        const data = await response.json();
+        refreshToken.current = data.refreshToken;
+        setExpiresAt(new Date(data.expiresAt).getTime());
+        setAuthState(prev => ({ ...prev, sessionToken: data.sessionToken }));
+        return data.sessionToken as string;
+      } catch (error) {
+        logger.error('Session refresh error:', error);
+        return null;
+      } finally {
+        refreshPromise.current = null;
+      }
+    })();
+
+    return refreshPromise.current;
+  }, []);
+
+  // Refresh a minute before the access token runs out
+  useEffect(() => {
+    if (!expiresAt || !authState.isAuthenticated) return;
+
+    const delay = Math.max(expiresAt - Date.now() - 60 * 1000, 0);
+    const timer = setTimeout(async () => {
+      if (!(await refreshSession())) {
+        await handleSessionExpired();
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [expiresAt, authState.isAuthenticated, refreshSession, handleSessionExpired]);
+
+  // Logout function - revokes this device's session on the server
   const logout = useCallback(async () => {
     logger.log('🚪 Logging out...');
-    setAuthState({
-      isAuthenticated: false,
-      sessionToken: null,
-      user: null,
-      isLoading: false,
-    });
-    hasInitialized.current = false;
-    initializationPromise.current = null;
+    if (authState.sessionToken) {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${authState.sessionToken}` },
+      }).catch(error => logger.warn('⚠️ Server-side logout failed:', error));
+    }
+    clearSession();
     router.push('/');
-  }, [router]);
+  }, [router, authState.sessionToken, clearSession]);
+
+  // Revoke every session this user has, on all devices
+  const logoutEverywhere = useCallback(async () => {
+    logger.log('🚪 Signing out everywhere...');
+    if (authState.sessionToken) {
+      const response = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${authState.sessionToken}` },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to sign out other sessions');
+      }
+    }
+    clearSession();
+    router.push('/');
+  }, [router, authState.sessionToken, clearSession]);
 
   useEffect(() => {
     const initializeAuth = async () => {
@@ -117,22 +188,16 @@ export function useAuth() {
       // Create a new initialization promise
       initializationPromise.current = (async () => {
         try {
-          // Get Quick Auth token for authenticated API calls
-          let authToken: string | undefined;
-          try {
-            const tokenResult = await quickAuth.getToken();
-            authToken = tokenResult.token;
-            console.log('🔑 [useAuth] Got Quick Auth token');
-          } catch (tokenError) {
-            console.log('⚠️ [useAuth] Quick Auth not available, using fid-based auth');
-          }
+          // Quick Auth token proves the FID to the backend
+          const { token: authToken } = await quickAuth.getToken();
+          console.log('🔑 [useAuth] Got Quick Auth token');
 
           // Create or get user in our backend system
           const response = await fetch('/api/auth/farcaster', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
-              ...(authToken ? { 'X-Farcaster-Token': authToken } : {}),
+              'X-Farcaster-Token': authToken,
             },
             body: JSON.stringify({
               fid,
@@ -149,6 +214,8 @@ export function useAuth() {
               hasSessionToken: !!data.sessionToken
             });
             
+            refreshToken.current = data.refreshToken ?? null;
+            setExpiresAt(data.expiresAt ? new Date(data.expiresAt).getTime() : null);
             setAuthState({
               isAuthenticated: true,
               sessionToken: data.sessionToken,
@@ -190,7 +257,9 @@ export function useAuth() {
   return {
     ...authState,
     handleSessionExpired,
+    refreshSession,
     logout,
+    logoutEverywhere,
     isInMiniApp,
   };
 }
@@ -0,0 +1,132 @@
+'use client';
+import { logger } from "@/lib/logger";
+
+import { useEffect, useState } from 'react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import type { JobEventRecord } from '@/lib/jobEvents';
+
+interface JobEventHandlers {
+  onEvent?: (event: JobEventRecord) => void;
+  onEnd?: (status: string) => void;
+  onError?: (error: Error) => void;
+}
+
+const MAX_RECONNECTS = 5;
+
+/**
+ * Subscribe to /api/jobs/[id]/events. Uses fetch instead of EventSource so the
+ * session token can be sent as a header. Reconnects with Last-Event-ID.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToJobEvents(
+  jobId: string,
+  sessionToken: string,
+  { onEvent, onEnd, onError }: JobEventHandlers
+): () => void {
+  const controller = new AbortController();
+  let lastEventId: string | null = null;
+  let reconnects = 0;
+  let ended = false;
+
+  const handleBlock = (block: string) => {
+    let eventType = 'message';
+    let data = '';
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('id:')) lastEventId = line.slice(3).trim();
+      else if (line.startsWith('event:')) eventType = line.slice(6).trim();
+      else if (line.startsWith('data:')) data += line.slice(5).trim();
+    }
+
+    if (!data) return;
+
+    if (eventType === 'end') {
+      ended = true;
+      onEnd?.(JSON.parse(data).status);
+    } else if (eventType === 'error') {
+      onError?.(new Error(JSON.parse(data).error || 'Event stream failed'));
+    } else {
+      onEvent?.(JSON.parse(data) as JobEventRecord);
+    }
+  };
+
+  const connect = async (): Promise<void> => {
+    const headers: Record<string, string> = { Authorization: `Bearer ${sessionToken}` };
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+    const response = await fetch(`/api/jobs/${jobId}/events`, {
+      headers,
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to open job event stream: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+      blocks.forEach(handleBlock);
+    }
+  };
+
+  const run = async () => {
+    while (!ended && !controller.signal.aborted) {
+      try {
+        await connect();
+        reconnects = 0;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        reconnects++;
+        logger.warn(`⚠️ Job event stream dropped (attempt ${reconnects}/${MAX_RECONNECTS}):`, error);
+        if (reconnects >= MAX_RECONNECTS) {
+          onError?.(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+      }
+      if (!ended && !controller.signal.aborted) {
+        await new Promise(resolve => setTimeout(resolve, 3000));
+      }
+    }
+  };
+
+  run();
+
+  return () => controller.abort();
+}
+
+/**
+ * Live progress events for a job (empty while jobId is null)
+ */
+export function useJobEvents(jobId: string | null) {
+  const { sessionToken } = useAuthContext();
+  const [events, setEvents] = useState<JobEventRecord[]>([]);
+  const [isFinished, setIsFinished] = useState(false);
+
+  useEffect(() => {
+    setEvents([]);
+    setIsFinished(false);
+
+    if (!jobId || !sessionToken) return;
+
+    return subscribeToJobEvents(jobId, sessionToken, {
+      onEvent: (event) => setEvents(prev => [...prev, event]),
+      onEnd: () => setIsFinished(true),
+      onError: (error) => logger.error('Job event stream failed:', error),
+    });
+  }, [jobId, sessionToken]);
+
+  return {
+    events,
+    latestEvent: events.length > 0 ? events[events.length - 1] : null,
+    isFinished,
+  };
+}
@@ -0,0 +1,275 @@
+'use client';
+import { logger } from "@/lib/logger";
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { Monaco } from '@monaco-editor/react';
+import type { editor, languages, IDisposable, IRange, IPosition } from 'monaco-editor';
+import type {
+  EditorCompletion,
+  EditorDiagnostic,
+  EditorFileEdits,
+  EditorHover,
+  EditorLocation,
+} from '@/lib/projectLanguageService';
+
+export interface RenamedFile {
+  filename: string;
+  content: string;
+  baseContent: string;
+}
+
+interface LanguageServiceHandlers {
+  onOpenFile: (filename: string, position?: IPosition) => void;
+  onFilesRenamed?: (files: RenamedFile[]) => void;
+}
+
+const MARKER_OWNER = 'project-typescript';
+const DIAGNOSTICS_DEBOUNCE_MS = 600;
+const TYPESCRIPT_FILE = /\.(ts|tsx)$/;
+
+export function toModelPath(filename: string): string {
+  return `file:///${filename}`;
+}
+
+function toFilename(uri: { path: string }): string {
+  return uri.path.replace(/^\//, '');
+}
+
+function toCompletionKind(monaco: Monaco, kind: string): languages.CompletionItemKind {
+  const kinds = monaco.languages.CompletionItemKind;
+  switch (kind) {
+    case 'method': return kinds.Method;
+    case 'function':
+    case 'local function': return kinds.Function;
+    case 'constructor': return kinds.Constructor;
+    case 'property':
+    case 'getter':
+    case 'setter': return kinds.Property;
+    case 'var':
+    case 'let':
+    case 'local var':
+    case 'parameter': return kinds.Variable;
+    case 'const': return kinds.Constant;
+    case 'class':
+    case 'local class': return kinds.Class;
+    case 'interface': return kinds.Interface;
+    case 'type':
+    case 'type parameter': return kinds.TypeParameter;
+    case 'enum': return kinds.Enum;
+    case 'enum member': return kinds.EnumMember;
+    case 'module':
+    case 'external module name': return kinds.Module;
+    case 'keyword': return kinds.Keyword;
+    case 'directory': return kinds.Folder;
+    case 'script': return kinds.File;
+    default: return kinds.Text;
+  }
+}
+
+/**
+ * Monaco providers backed by /api/projects/[projectId]/language-service, so the
+ * editor sees the whole project and its dependency types. Monaco's built-in
+ * TypeScript worker only knows the open file, so its overlapping features are
+ * turned off.
+ */
+export function useProjectLanguageService(
+  projectId: string | undefined,
+  sessionToken: string | null | undefined,
+  handlers: LanguageServiceHandlers
+) {
+  const targetRef = useRef({ projectId, sessionToken });
+  const handlersRef = useRef(handlers);
+  const disposablesRef = useRef<IDisposable[]>([]);
+  const diagnosticsTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  targetRef.current = { projectId, sessionToken };
+  handlersRef.current = handlers;
+
+  useEffect(() => () => {
+    disposablesRef.current.forEach(disposable => disposable.dispose());
+    disposablesRef.current = [];
+    if (diagnosticsTimerRef.current) clearTimeout(diagnosticsTimerRef.current);
+  }, []);
+
+  const request = useCallback(async <T,>(body: Record<string, unknown>): Promise<T | null> => {
+    const { projectId, sessionToken } = targetRef.current;
+    if (!projectId || !sessionToken) return null;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/language-service`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionToken}`
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok && response.status !== 422) {
+        logger.warn(`⚠️ Language service ${body.action} failed: ${data.error || response.status}`);
+        return null;
+      }
+      return data as T;
+    } catch (error) {
+      logger.warn(`⚠️ Language service ${body.action} request failed:`, error);
+      return null;
+    }
+  }, []);
+
+  const getOrCreateModel = (monaco: Monaco, filename: string, content: string): editor.ITextModel => {
+    const uri = monaco.Uri.parse(toModelPath(filename));
+    return monaco.editor.getModel(uri) ?? monaco.editor.createModel(content, undefined, uri);
+  };
+
+  const configureMonaco = useCallback((monaco: Monaco) => {
+    if (disposablesRef.current.length > 0) return;
+
+    const defaults = monaco.languages.typescript.typescriptDefaults;
+    defaults.setDiagnosticsOptions({ noSemanticValidation: true, noSyntaxValidation: true });
+    defaults.setModeConfiguration({
+      completionItems: false,
+      hovers: false,
+      definitions: false,
+      references: false,
+      rename: false,
+      diagnostics: false,
+      signatureHelp: false,
+      codeActions: false,
+      inlayHints: false,
+      documentSymbols: true,
+      documentHighlights: true,
+      documentRangeFormattingEdits: true,
+      onTypeFormattingEdits: true,
+    });
+
+    const fileRequest = (model: editor.ITextModel, position: IPosition, extra: Record<string, unknown> = {}) => ({
+      filename: toFilename(model.uri),
+      content: model.getValue(),
+      offset: model.getOffsetAt(position),
+      ...extra,
+    });
+
+    disposablesRef.current.push(
+      monaco.languages.registerCompletionItemProvider('typescript', {
+        triggerCharacters: ['.', '"', "'", '/', '@', '<'],
+        provideCompletionItems: async (model, position) => {
+          const data = await request<{ completions: EditorCompletion[] }>({ action: 'completions', ...fileRequest(model, position) });
+          const word = model.getWordUntilPosition(position);
+          const defaultRange: IRange = {
+            startLineNumber: position.lineNumber,
+            startColumn: word.startColumn,
+            endLineNumber: position.lineNumber,
+            endColumn: word.endColumn,
+          };
+          return {
+            suggestions: (data?.completions || []).map(completion => ({
+              label: completion.name,
+              kind: toCompletionKind(monaco, completion.kind),
+              sortText: completion.sortText,
+              insertText: completion.insertText ?? completion.name,
+              range: completion.range ?? defaultRange,
+            })),
+          };
+        },
+      }),
+
+      monaco.languages.registerHoverProvider('typescript', {
+        provideHover: async (model, position) => {
+          const data = await request<{ hover: EditorHover | null }>({ action: 'hover', ...fileRequest(model, position) });
+          if (!data?.hover) return null;
+          return {
+            range: data.hover.range,
+            contents: [
+              { value: '```typescript\n' + data.hover.text + '\n```' },
+              ...(data.hover.documentation ? [{ value: data.hover.documentation }] : []),
+            ],
+          };
+        },
+      }),
+
+      monaco.languages.registerDefinitionProvider('typescript', {
+        provideDefinition: async (model, position) => {
+          const data = await request<{ definitions: EditorLocation[] }>({ action: 'definition', ...fileRequest(model, position) });
+          return (data?.definitions || []).map(location => ({
+            uri: getOrCreateModel(monaco, location.filename, location.content).uri,
+            range: location.range,
+          }));
+        },
+      }),
+
+      monaco.languages.registerRenameProvider('typescript', {
+        provideRenameEdits: async (model, position, newName) => {
+          const data = await request<{ edits?: EditorFileEdits[]; error?: string }>({ action: 'rename', ...fileRequest(model, position, { newName }) });
+          if (!data?.edits) {
+            return { edits: [], rejectReason: data?.error || 'Rename is not available here' };
+          }
+
+          // Other files are edited here and handed back to be saved; Monaco only applies the open file's edits
+          const currentFile = toFilename(model.uri);
+          const renamedFiles: RenamedFile[] = [];
+          for (const fileEdits of data.edits.filter(f => f.filename !== currentFile)) {
+            const otherModel = getOrCreateModel(monaco, fileEdits.filename, fileEdits.content);
+            otherModel.setValue(fileEdits.content);
+            otherModel.applyEdits(fileEdits.edits.map(edit => ({ range: edit.range, text: edit.text })));
+            renamedFiles.push({ filename: fileEdits.filename, content: otherModel.getValue(), baseContent: fileEdits.content });
+          }
+          if (renamedFiles.length > 0) handlersRef.current.onFilesRenamed?.(renamedFiles);
+
+          return {
+            edits: (data.edits.find(f => f.filename === currentFile)?.edits || []).map(edit => ({
+              resource: model.uri,
+              versionId: undefined,
+              textEdit: { range: edit.range, text: edit.text },
+            })),
+          };
+        },
+      }),
+
+      // Go-to-definition into another file switches the editor to it
+      monaco.editor.registerEditorOpener({
+        openCodeEditor: (_source, resource, selectionOrPosition) => {
+          const position = selectionOrPosition && 'startLineNumber' in selectionOrPosition
+            ? { lineNumber: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+            : selectionOrPosition;
+          handlersRef.current.onOpenFile(toFilename(resource), position);
+          return true;
+        },
+      })
+    );
+  }, [request]);
+
+  /**
+   * Fetch diagnostics for the model's current content (debounced) and show them as markers
+   */
+  const refreshDiagnostics = useCallback((monaco: Monaco, model: editor.ITextModel | null) => {
+    if (diagnosticsTimerRef.current) clearTimeout(diagnosticsTimerRef.current);
+    if (!model) return;
+
+    const filename = toFilename(model.uri);
+    if (!TYPESCRIPT_FILE.test(filename)) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+      return;
+    }
+
+    diagnosticsTimerRef.current = setTimeout(async () => {
+      const versionId = model.getVersionId();
+      const data = await request<{ diagnostics: EditorDiagnostic[] }>({ action: 'diagnostics', filename, content: model.getValue() });
+      if (!data || model.isDisposed() || model.getVersionId() !== versionId) return;
+
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, data.diagnostics.map(diagnostic => ({
+        startLineNumber: diagnostic.line,
+        startColumn: diagnostic.column,
+        endLineNumber: diagnostic.endLine,
+        endColumn: Math.max(diagnostic.endColumn, diagnostic.column + 1),
+        message: diagnostic.message,
+        code: diagnostic.code,
+        source: 'ts',
+        severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error
+          : diagnostic.severity === 'warning' ? monaco.MarkerSeverity.Warning
+          : monaco.MarkerSeverity.Info,
+      })));
+    }, DIAGNOSTICS_DEBOUNCE_MS);
+  }, [request]);
+
+  return { configureMonaco, refreshDiagnostics };
+}
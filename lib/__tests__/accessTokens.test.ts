@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+type Row = Record<string, unknown>;
+
+const mockCreatePersonalAccessToken = jest.fn(async (userId: string, token: Row) => ({
+  id: 'token-1', userId, name: token.name, tokenPrefix: token.tokenPrefix, scopes: token.scopes,
+}));
+const mockGetUserByPersonalAccessTokenHash = jest.fn<(hash: string) => Promise<Row | null>>();
+const mockTouchPersonalAccessToken = jest.fn<(id: string) => Promise<void>>(async () => undefined);
+const mockGetUserBySessionToken = jest.fn<(token: string) => Promise<Row | null>>();
+const mockGetGenerationJobById = jest.fn<(id: string) => Promise<Row | null>>();
+
+jest.mock('../database', () => ({
+  createPersonalAccessToken: (userId: string, token: Row) => mockCreatePersonalAccessToken(userId, token),
+  getUserByPersonalAccessTokenHash: (hash: string) => mockGetUserByPersonalAccessTokenHash(hash),
+  touchPersonalAccessToken: (id: string) => mockTouchPersonalAccessToken(id),
+  getUserBySessionToken: (token: string) => mockGetUserBySessionToken(token),
+  touchUserSession: jest.fn(async () => undefined),
+  getGenerationJobById: (id: string) => mockGetGenerationJobById(id),
+  getJobLLMUsage: jest.fn(async () => ({ totals: {}, byStage: [] })),
+}));
+
+import { createAccessToken, requiredScopeFor, ACCESS_TOKEN_PREFIX } from '../accessTokens';
+import { authenticateRequest } from '../auth';
+import { hashToken } from '../sessions';
+import * as jobRoute from '@/app/api/jobs/[id]/route';
+
+const BASE = 'http://localhost:3000';
+const TOKEN = `${ACCESS_TOKEN_PREFIX}example-token`;
+
+function tokenUser(overrides: Row = {}): Row {
+  return {
+    id: 'user-1',
+    farcasterFid: '1',
+    username: 'alice',
+    tokenId: 'token-1',
+    scopes: ['generate'],
+    expiresAt: null,
+    lastUsedAt: null,
+    ...overrides,
+  };
+}
+
+function request(method: string, path: string, headers: Record<string, string> = {}) {
+  return new NextRequest(`${BASE}${path}`, { method, headers });
+}
+
+describe('personal access tokens', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('maps requests to the scope they need, and denies everything else', () => {
+    expect(requiredScopeFor('GET', '/api/projects')).toBe('projects:read');
+    expect(requiredScopeFor('GET', '/api/projects/abc/snapshots/def/diff')).toBe('projects:read');
+    expect(requiredScopeFor('PATCH', '/api/generate')).toBe('generate');
+    expect(requiredScopeFor('GET', '/api/jobs/job-1/events')).toBe('generate');
+    expect(requiredScopeFor('POST', '/api/publish')).toBe('publish');
+
+    expect(requiredScopeFor('DELETE', '/api/projects/abc')).toBeNull();
+    expect(requiredScopeFor('GET', '/api/projects/abc/unknown')).toBeNull();
+    expect(requiredScopeFor('POST', '/api/auth/tokens')).toBeNull();
+    expect(requiredScopeFor('DELETE', '/api/auth/sessions')).toBeNull();
+  });
+
+  it('stores only the hash and a short prefix of a new token', async () => {
+    const { token, accessToken } = await createAccessToken('user-1', 'CI', ['generate', 'generate'], null);
+
+    expect(token.startsWith(ACCESS_TOKEN_PREFIX)).toBe(true);
+    const [, stored] = mockCreatePersonalAccessToken.mock.calls[0];
+    expect(stored).toMatchObject({ tokenHash: hashToken(token), scopes: ['generate'], expiresAt: null });
+    expect(token.startsWith(stored.tokenPrefix as string)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain(token);
+    expect(accessToken).not.toHaveProperty('tokenHash');
+  });
+
+  it('authenticates a token for a route its scopes allow', async () => {
+    mockGetUserByPersonalAccessTokenHash.mockResolvedValue(tokenUser());
+
+    const result = await authenticateRequest(request('POST', '/api/generate', { Authorization: `Bearer ${TOKEN}` }));
+
+    expect(mockGetUserByPersonalAccessTokenHash).toHaveBeenCalledWith(hashToken(TOKEN));
+    expect(mockGetUserBySessionToken).not.toHaveBeenCalled();
+    expect(result.isAuthorized).toBe(true);
+    expect(result.user).toMatchObject({ id: 'user-1', accessTokenId: 'token-1' });
+    expect(result.user?.sessionId).toBeUndefined();
+    expect(mockTouchPersonalAccessToken).toHaveBeenCalledWith('token-1');
+  });
+
+  it('rejects a token missing the scope for the route', async () => {
+    mockGetUserByPersonalAccessTokenHash.mockResolvedValue(tokenUser({ scopes: ['projects:read'] }));
+
+    const result = await authenticateRequest(request('POST', '/api/publish', { Authorization: `Bearer ${TOKEN}` }));
+
+    expect(result).toEqual({ user: null, isAuthorized: false, error: "Access token is missing the 'publish' scope" });
+  });
+
+  it('rejects tokens on routes no scope covers, like managing tokens', async () => {
+    mockGetUserByPersonalAccessTokenHash.mockResolvedValue(tokenUser({ scopes: ['projects:read', 'generate', 'publish'] }));
+
+    const result = await authenticateRequest(request('POST', '/api/auth/tokens', { Authorization: `Bearer ${TOKEN}` }));
+
+    expect(result.isAuthorized).toBe(false);
+    expect(result.error).toBe('Access tokens cannot be used for this endpoint');
+  });
+
+  it('rejects unknown and expired tokens', async () => {
+    mockGetUserByPersonalAccessTokenHash.mockResolvedValueOnce(null);
+    const unknown = await authenticateRequest(request('POST', '/api/generate', { Authorization: `Bearer ${TOKEN}` }));
+    expect(unknown.error).toBe('Invalid access token');
+
+    mockGetUserByPersonalAccessTokenHash.mockResolvedValueOnce(tokenUser({ expiresAt: new Date(Date.now() - 1000) }));
+    const expired = await authenticateRequest(request('POST', '/api/generate', { Authorization: `Bearer ${TOKEN}` }));
+    expect(expired.error).toBe('Access token expired');
+  });
+
+  it('no longer lets test headers stand in for authentication', async () => {
+    mockGetGenerationJobById.mockResolvedValue({ id: 'job-1', userId: 'user-1', status: 'pending', attempts: 0 });
+
+    const bypass = await jobRoute.GET(
+      request('GET', '/api/jobs/job-1', { 'X-Bypass-Auth': 'true', 'X-Test-User-Id': '1' }),
+      { params: Promise.resolve({ id: 'job-1' }) }
+    );
+    expect(bypass.status).toBe(401);
+
+    mockGetUserByPersonalAccessTokenHash.mockResolvedValue(tokenUser());
+    const withToken = await jobRoute.GET(
+      request('GET', '/api/jobs/job-1', { Authorization: `Bearer ${TOKEN}` }),
+      { params: Promise.resolve({ id: 'job-1' }) }
+    );
+    expect(withToken.status).toBe(200);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyAstEdits, applyDiffWithAstFallback, parseAstEdits } from '../astEdits';
+import { parseUnifiedDiff } from '../diffUtils';
+
+const page = [
+  "'use client';",
+  "import { useState } from 'react';",
+  "import { Button } from '@/components/ui/Button';",
+  '',
+  'const config = {',
+  "  title: 'Votes',",
+  '  max: 3,',
+  '};',
+  '',
+  'function formatVotes(count: number) {',
+  '  return `${count} votes`;',
+  '}',
+  '',
+  'export default function HomePage() {',
+  '  const [votes, setVotes] = useState(0);',
+  '  return (',
+  '    <main>',
+  '      <h1>{config.title}</h1>',
+  '      <p>{formatVotes(votes)}</p>',
+  '      <Button onClick={() => setVotes(votes + 1)}>Vote</Button>',
+  '    </main>',
+  '  );',
+  '}',
+  '',
+].join('\n');
+
+describe('applyAstEdits', () => {
+  it('should replace a function and keep its export modifiers', () => {
+    const result = applyAstEdits('src/app/page.tsx', page, [
+      { action: 'replace', kind: 'component', name: 'HomePage', code: 'function HomePage() {\n  return <main />;\n}' },
+    ]);
+
+    expect(result.failed).toEqual([]);
+    expect(result.content).toContain('export default function HomePage() {\n  return <main />;\n}');
+    expect(result.content).toContain('function formatVotes');
+  });
+
+  it('should add and remove imports', () => {
+    const result = applyAstEdits('src/app/page.tsx', page, [
+      { action: 'insert', kind: 'import', code: "import { useAccount } from 'wagmi';" },
+      { action: 'remove', kind: 'import', name: 'react' },
+    ]);
+
+    expect(result.content.split('\n').slice(0, 3)).toEqual([
+      "'use client';",
+      "import { Button } from '@/components/ui/Button';",
+      "import { useAccount } from 'wagmi';",
+    ]);
+  });
+
+  it('should edit JSX elements by tag, enclosing component and index', () => {
+    const result = applyAstEdits('src/app/page.tsx', page, [
+      { action: 'replace', kind: 'jsx', name: 'h1', within: 'HomePage', code: '<h1>Community Votes</h1>' },
+      { action: 'insert', kind: 'jsx', name: 'main', position: 'end', code: '<footer>Thanks</footer>' },
+      { action: 'remove', kind: 'jsx', name: 'p' },
+    ]);
+
+    expect(result.failed).toEqual([]);
+    expect(result.content).toContain([
+      '    <main>',
+      '      <h1>Community Votes</h1>',
+      '      <Button onClick={() => setVotes(votes + 1)}>Vote</Button>',
+      '      <footer>Thanks</footer>',
+      '    </main>',
+    ].join('\n'));
+  });
+
+  it('should edit object literal properties', () => {
+    const result = applyAstEdits('src/app/page.tsx', page, [
+      { action: 'replace', kind: 'property', name: 'max', within: 'config', code: 'max: 5' },
+      { action: 'insert', kind: 'property', within: 'config', code: 'showTotal: true' },
+      { action: 'remove', kind: 'property', name: 'title', within: 'config' },
+    ]);
+
+    expect(result.content).toContain('const config = {\n  max: 5,\n  showTotal: true,\n};');
+  });
+
+  it('should report missing targets and reject edits that break syntax', () => {
+    const result = applyAstEdits('src/app/page.tsx', page, [
+      { action: 'replace', kind: 'function', name: 'missing', code: 'function missing() {}' },
+      { action: 'replace', kind: 'function', name: 'formatVotes', code: 'function formatVotes(count: number) {' },
+      { action: 'remove', kind: 'function', name: 'formatVotes' },
+    ]);
+
+    expect(result.failed.map(f => f.reason)).toEqual([
+      'declaration "missing" not found',
+      expect.stringContaining('invalid syntax'),
+    ]);
+    expect(result.applied).toHaveLength(1);
+    expect(result.content).not.toContain('formatVotes(count');
+  });
+});
+
+describe('parseAstEdits', () => {
+  it('should drop malformed edits', () => {
+    expect(parseAstEdits([
+      { action: 'replace', kind: 'jsx', name: 'h1', code: '<h1 />' },
+      { action: 'rename', kind: 'jsx', name: 'h1' },
+      { action: 'insert', kind: 'import' },
+      { action: 'remove', kind: 'import', name: 'react' },
+    ])).toHaveLength(2);
+    expect(parseAstEdits('not an array')).toEqual([]);
+  });
+});
+
+describe('applyDiffWithAstFallback', () => {
+  const staleDiff = parseUnifiedDiff([
+    '@@ -17,3 +17,3 @@',
+    '     <section>',
+    '-      <h1>Welcome</h1>',
+    '+      <h1>Community Votes</h1>',
+    '       <span>stale context</span>',
+  ].join('\n'));
+
+  it('should use AST edits when hunks do not apply', () => {
+    const result = applyDiffWithAstFallback('src/app/page.tsx', page, staleDiff, [
+      { action: 'replace', kind: 'jsx', name: 'h1', code: '<h1>Community Votes</h1>' },
+    ]);
+
+    expect(result.method).toBe('ast');
+    expect(result.failedHunks).toHaveLength(1);
+    expect(result.content).toContain('<h1>Community Votes</h1>');
+  });
+
+  it('should keep the hunk result when hunks apply', () => {
+    const hunks = parseUnifiedDiff([
+      '@@ -19,2 +19,2 @@',
+      '       <p>{formatVotes(votes)}</p>',
+      '-      <Button onClick={() => setVotes(votes + 1)}>Vote</Button>',
+      '+      <Button onClick={() => setVotes(votes + 1)}>Vote!</Button>',
+      '     </main>',
+    ].join('\n'));
+
+    const result = applyDiffWithAstFallback('src/app/page.tsx', page, hunks, [
+      { action: 'remove', kind: 'jsx', name: 'h1' },
+    ]);
+
+    expect(result.method).toBe('diff');
+    expect(result.content).toContain('Vote!</Button>');
+    expect(result.content).toContain('<h1>');
+  });
+
+  it('should report partial application without AST edits', () => {
+    const result = applyDiffWithAstFallback('src/app/page.tsx', page, staleDiff);
+
+    expect(result.method).toBe('partial');
+    expect(result.content).toBe(page);
+  });
+});
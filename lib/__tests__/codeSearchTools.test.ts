@@ -0,0 +1,137 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  executeCodeSearchTool,
+  formatCodeSearchResult,
+  getFileImports,
+  getFileSymbols,
+  type SearchMatch,
+  type UsageInfo,
+  type FileRead,
+  type FileListing,
+} from '../codeSearchTools';
+
+const files = [
+  {
+    filename: 'src/app/page.tsx',
+    content: [
+      "'use client';",
+      "import { useState } from 'react';",
+      "import VoteCard, { type Vote } from '../components/VoteCard';",
+      "import * as wagmi from 'wagmi';",
+      '',
+      'export default function Home() {',
+      '  const [votes, setVotes] = useState<Vote[]>([]);',
+      '  const { address } = wagmi.useAccount();',
+      '  return <VoteCard votes={votes} onSubmit={setVotes} owner={address} />;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    filename: 'src/components/VoteCard.tsx',
+    content: [
+      "import { memo } from 'react';",
+      '',
+      'export interface Vote { id: string; count: number }',
+      '',
+      'function formatCount(count: number) {',
+      '  return `${count} votes`;',
+      '}',
+      '',
+      'export const useVoteTotal = (votes: Vote[]) => votes.reduce((sum, v) => sum + v.count, 0);',
+      '',
+      'const VoteCard = memo(function VoteCard({ votes }: { votes: Vote[] }) {',
+      '  return <div>{votes.map(v => <span key={v.id}>{formatCount(v.count)}</span>)}</div>;',
+      '});',
+      '',
+      'export default VoteCard;',
+    ].join('\n'),
+  },
+  { filename: 'package.json', content: '{"name": "miniapp"}' },
+];
+
+describe('codeSearchTools', () => {
+  describe('search', () => {
+    it('should support regex alternation and return line numbers', () => {
+      const result = executeCodeSearchTool({ tool: 'search', args: ['useAccount|onSubmit', 'src'] }, files);
+
+      expect(result.success).toBe(true);
+      const matches = result.data as SearchMatch[];
+      expect(matches.map(m => [m.file, m.line])).toEqual([
+        ['src/app/page.tsx', 8],
+        ['src/app/page.tsx', 9],
+      ]);
+    });
+
+    it('should scope by glob and workingDirectory', () => {
+      const byGlob = executeCodeSearchTool({ tool: 'search', args: ['import', 'src/**/*.tsx'] }, files);
+      expect((byGlob.data as SearchMatch[]).every(m => m.file.endsWith('.tsx'))).toBe(true);
+
+      const byWorkingDirectory = executeCodeSearchTool({ tool: 'search', args: ['memo', 'components'], workingDirectory: 'src' }, files);
+      expect((byWorkingDirectory.data as SearchMatch[])[0]).toMatchObject({ file: 'src/components/VoteCard.tsx', line: 1 });
+    });
+
+    it('should report invalid patterns instead of throwing', () => {
+      const result = executeCodeSearchTool({ tool: 'search', args: ['(unclosed'] }, files);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid regex');
+    });
+  });
+
+  describe('symbols', () => {
+    it('should classify components, hooks and types', () => {
+      const symbols = getFileSymbols(files[1]);
+      const byName = Object.fromEntries(symbols.map(s => [s.name, s]));
+
+      expect(byName.Vote).toMatchObject({ kind: 'interface', exported: true, line: 3 });
+      expect(byName.formatCount).toMatchObject({ kind: 'function', exported: false });
+      expect(byName.useVoteTotal).toMatchObject({ kind: 'hook', exported: true });
+      expect(byName.VoteCard).toMatchObject({ kind: 'component', exported: true, isDefault: true, line: 11 });
+    });
+
+    it('should detect a default-exported function component', () => {
+      expect(getFileSymbols(files[0])).toEqual([
+        expect.objectContaining({ name: 'Home', kind: 'component', exported: true, isDefault: true, line: 6 }),
+      ]);
+    });
+  });
+
+  it('should list imports with their bindings', () => {
+    const imports = getFileImports(files[0]);
+
+    expect(imports).toEqual([
+      { module: 'react', line: 2, named: ['useState'], typeOnly: false },
+      { module: '../components/VoteCard', line: 3, defaultImport: 'VoteCard', named: ['Vote'], typeOnly: false },
+      { module: 'wagmi', line: 4, namespaceImport: 'wagmi', named: [], typeOnly: false },
+    ]);
+  });
+
+  it('should find usages across files, including JSX tags', () => {
+    const result = executeCodeSearchTool({ tool: 'usages', args: ['VoteCard'] }, files);
+    const usages = result.data as UsageInfo[];
+
+    expect(usages.filter(u => u.file === 'src/app/page.tsx').map(u => u.line)).toEqual([3, 9]);
+    expect(usages.find(u => u.file === 'src/app/page.tsx' && u.line === 3)?.isDeclaration).toBe(true);
+    expect(usages.find(u => u.file === 'src/components/VoteCard.tsx' && u.line === 15)?.isDeclaration).toBe(false);
+  });
+
+  it('should read a line range', () => {
+    const result = executeCodeSearchTool({ tool: 'read', args: ['components/VoteCard.tsx', '5', '7'], workingDirectory: 'src' }, files);
+    const read = result.data as FileRead;
+
+    expect(read).toMatchObject({ file: 'src/components/VoteCard.tsx', startLine: 5, endLine: 7, totalLines: 15 });
+    expect(read.content.split('\n')[0]).toBe('function formatCount(count: number) {');
+  });
+
+  it('should list files under a prefix', () => {
+    const result = executeCodeSearchTool({ tool: 'list', args: ['src/components'] }, files);
+    expect((result.data as FileListing[]).map(f => f.file)).toEqual(['src/components/VoteCard.tsx']);
+  });
+
+  it('should reject unknown tools and format failures', () => {
+    const call = { tool: 'cat', args: ['src/app/page.tsx'] };
+    const result = executeCodeSearchTool(call, files);
+
+    expect(result.success).toBe(false);
+    expect(formatCodeSearchResult(call, result)).toMatch(/^## cat src\/app\/page.tsx \(FAILED\)\nUnknown tool: cat/);
+  });
+});
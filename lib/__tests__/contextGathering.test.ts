@@ -0,0 +1,97 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../compilationValidator', () => ({}));
+
+import { runContextGatheringLoop } from '../toolExecutionService';
+
+const files = [
+  {
+    filename: 'src/app/page.tsx',
+    content: "import { VotePanel } from '../components/VotePanel';\n\nexport default function Home() {\n  return <VotePanel />;\n}",
+  },
+  {
+    filename: 'src/components/VotePanel.tsx',
+    content: "export function VotePanel() {\n  const onVote = () => {};\n  return <button onClick={onVote}>Vote</button>;\n}",
+  },
+];
+
+function scriptedLLM(responses: object[]) {
+  const calls: { userPrompt: string; stageName: string }[] = [];
+  const callLLM = jest.fn(async (_systemPrompt: string, userPrompt: string, stageName: string) => {
+    calls.push({ userPrompt, stageName });
+    const response = responses[calls.length - 1];
+    if (!response) throw new Error(`Unexpected call ${calls.length}`);
+    return JSON.stringify(response);
+  });
+  return { callLLM, calls };
+}
+
+describe('runContextGatheringLoop', () => {
+  it('should feed tool results back until the model signals contextComplete', async () => {
+    const { callLLM, calls } = scriptedLLM([
+      { needsContext: true, toolCalls: [{ tool: 'search', args: ['vote|Vote', 'src'], reason: 'find voting code' }] },
+      { needsContext: true, toolCalls: [{ tool: 'read', args: ['src/components/VotePanel.tsx'], reason: 'read the panel' }] },
+      { needsContext: true, toolCalls: [], contextComplete: true, contextSummary: 'VotePanel owns the vote button' },
+    ]);
+
+    const { contextResult, contextData, transcript } = await runContextGatheringLoop('Fix voting', files, 'test-project', callLLM);
+
+    expect(transcript.stopReason).toBe('complete');
+    expect(transcript.steps.map(s => s.toolCalls.length)).toEqual([1, 1, 0]);
+    expect(transcript.steps[0].results[0]).toMatchObject({ tool: 'search', success: true });
+    expect(calls[1].stageName).toBe('Stage 0: Context Gatherer (step 2)');
+    expect(calls[1].userPrompt).toContain('"file": "src/components/VotePanel.tsx"');
+    expect(calls[2].userPrompt).toContain('## read src/components/VotePanel.tsx');
+    expect(contextResult).toMatchObject({ needsContext: true, contextComplete: true, contextSummary: 'VotePanel owns the vote button' });
+    expect(contextResult.toolCalls).toHaveLength(2);
+    expect(contextData).toContain('## search vote|Vote src');
+  });
+
+  it('should stop after one step when no context is needed', async () => {
+    const { callLLM } = scriptedLLM([{ needsContext: false, toolCalls: [], contextSummary: 'clear request' }]);
+
+    const { contextResult, contextData, transcript } = await runContextGatheringLoop('Make the button blue', files, 'test-project', callLLM);
+
+    expect(callLLM).toHaveBeenCalledTimes(1);
+    expect(transcript.stopReason).toBe('no_context');
+    expect(contextResult.needsContext).toBe(false);
+    expect(contextData).toBe('');
+  });
+
+  it('should stop at the step budget', async () => {
+    const { callLLM } = scriptedLLM([
+      { needsContext: true, toolCalls: [{ tool: 'list', args: ['src'], reason: 'look around' }] },
+      { needsContext: true, toolCalls: [{ tool: 'symbols', args: ['src'], reason: 'look closer' }] },
+    ]);
+
+    const { transcript } = await runContextGatheringLoop('Fix voting', files, 'test-project', callLLM, { maxSteps: 2 });
+
+    expect(callLLM).toHaveBeenCalledTimes(2);
+    expect(transcript.stopReason).toBe('max_steps');
+  });
+
+  it('should not call the model past the token budget', async () => {
+    const { callLLM } = scriptedLLM([
+      { needsContext: true, toolCalls: [{ tool: 'read', args: ['src/app/page.tsx'], reason: 'read the page' }] },
+    ]);
+
+    const { transcript } = await runContextGatheringLoop('Fix voting', files, 'test-project', callLLM, { maxTokens: 1 });
+
+    expect(callLLM).not.toHaveBeenCalled();
+    expect(transcript.stopReason).toBe('token_budget');
+    expect(transcript.steps).toHaveLength(0);
+  });
+
+  it('should skip tool calls the model already made', async () => {
+    const repeated = { tool: 'list', args: ['src'], reason: 'look around' };
+    const { callLLM } = scriptedLLM([
+      { needsContext: true, toolCalls: [repeated] },
+      { needsContext: true, toolCalls: [repeated] },
+    ]);
+
+    const { transcript } = await runContextGatheringLoop('Fix voting', files, 'test-project', callLLM);
+
+    expect(transcript.steps[1].toolCalls).toHaveLength(0);
+    expect(transcript.stopReason).toBe('complete');
+  });
+});
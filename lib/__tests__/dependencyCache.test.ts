@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DependencyCache, getDependencyCacheKey } from '../dependencyCache';
+
+// setup.ts mocks fs-extra; these tests work on real temp directories
+jest.unmock('fs-extra');
+
+describe('dependencyCache', () => {
+  const packageJson = { dependencies: { next: '15.0.0', react: '19.0.0' } };
+
+  describe('getDependencyCacheKey', () => {
+    it('should include the lockfile when there is one', () => {
+      const withoutLock = getDependencyCacheKey(packageJson);
+      const withLock = getDependencyCacheKey(packageJson, '{"lockfileVersion":3}');
+
+      expect(withLock).not.toBe(withoutLock);
+      expect(getDependencyCacheKey(packageJson, '{"lockfileVersion":3}')).toBe(withLock);
+    });
+  });
+
+  describe('DependencyCache', () => {
+    let cacheDir: string;
+    let projectDir: string;
+
+    beforeEach(async () => {
+      cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dep-cache-'));
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dep-project-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(cacheDir);
+      await fs.remove(projectDir);
+    });
+
+    it('should reuse a finished install and link it into projects', async () => {
+      const key = getDependencyCacheKey(packageJson);
+      await fs.ensureDir(path.join(cacheDir, key, 'node_modules'));
+      await fs.writeFile(path.join(cacheDir, key, '.minidev-installed'), 'done');
+
+      const cache = new DependencyCache(cacheDir);
+      const { nodeModules } = await cache.ensure(packageJson);
+      await cache.link(projectDir, nodeModules);
+
+      expect(nodeModules).toBe(path.join(cacheDir, key, 'node_modules'));
+      expect(await fs.readlink(path.join(projectDir, 'node_modules'))).toBe(nodeModules);
+    });
+
+    it('should replace a project node_modules that points elsewhere', async () => {
+      await fs.ensureDir(path.join(projectDir, 'node_modules', 'stale'));
+      const target = path.join(cacheDir, 'other', 'node_modules');
+      await fs.ensureDir(target);
+
+      await new DependencyCache(cacheDir).link(projectDir, target);
+
+      expect(await fs.readlink(path.join(projectDir, 'node_modules'))).toBe(target);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCompilationErrors, getFilesToFix, formatErrorsForLLM } from '../deploymentErrorParser';
+import type { CompilationError } from '../compilationValidator';
+
+describe('parseCompilationErrors', () => {
+  const compilationErrors: CompilationError[] = [
+    {
+      file: 'src/app/page.tsx',
+      line: 12,
+      column: 5,
+      message: "TS2322: Type 'string' is not assignable to type 'number'.",
+      severity: 'error',
+      category: 'typescript',
+      code: 'TS2322',
+    },
+    {
+      file: 'src/app/page.tsx',
+      line: 3,
+      column: 10,
+      message: "@typescript-eslint/no-unused-vars: 'useEffect' is defined but never used.",
+      severity: 'warning',
+      category: 'eslint',
+      code: '@typescript-eslint/no-unused-vars',
+    },
+    {
+      file: 'build',
+      message: 'Error: Failed to collect page data for /',
+      severity: 'error',
+      category: 'build',
+    },
+  ];
+
+  it('should keep errors only and drop non-file locations', () => {
+    const parsed = parseCompilationErrors(compilationErrors);
+
+    expect(parsed.errors).toEqual([
+      expect.objectContaining({ file: 'src/app/page.tsx', line: 12, category: 'typescript', code: 'TS2322' }),
+      expect.objectContaining({ file: undefined, category: 'build' }),
+    ]);
+    expect(parsed.hasTypeScriptErrors).toBe(true);
+    expect(parsed.hasESLintErrors).toBe(false);
+    expect(parsed.summary).toBe('Local validation failed with 1 TypeScript error(s), 1 build error(s)');
+  });
+
+  it('should feed the same fix helpers as deployment errors', () => {
+    const parsed = parseCompilationErrors(compilationErrors);
+    const files = [
+      { filename: 'src/app/page.tsx', content: 'export default function Page() {}' },
+      { filename: 'src/app/layout.tsx', content: 'export default function Layout() {}' },
+    ];
+
+    expect(getFilesToFix(parsed, files).map(f => f.filename)).toEqual(['src/app/page.tsx']);
+    expect(formatErrorsForLLM(parsed)).toContain("[TYPESCRIPT] src/app/page.tsx:12:5\n  TS2322: Type 'string'");
+  });
+});
+
+describe('getFilesToFix', () => {
+  it('should include contract sources for failing contract tests', () => {
+    const parsed = parseCompilationErrors([{
+      file: 'contracts/test/Token.ts',
+      message: 'Test failed: Token burns',
+      severity: 'error',
+      category: 'solidity',
+      code: 'SOLIDITY_TEST_FAILED',
+    }]);
+    const files = [
+      { filename: 'contracts/test/Token.ts', content: 'describe("Token", () => {})' },
+      { filename: 'contracts/contracts/Token.sol', content: 'contract Token {}' },
+      { filename: 'src/app/page.tsx', content: 'export default function Page() {}' },
+    ];
+
+    expect(getFilesToFix(parsed, files).map(f => f.filename).sort()).toEqual([
+      'contracts/contracts/Token.sol',
+      'contracts/test/Token.ts',
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { privateKeyToAccount, generatePrivateKey } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import {
+  FarcasterAuthError,
+  JwksCache,
+  createSiwfNonce,
+  verifyQuickAuthToken,
+  verifySiwfMessage,
+} from '../farcasterAuth';
+
+const DOMAIN = 'minidev.example';
+const ISSUER = 'https://auth.farcaster.xyz';
+
+function makeKeyPair(kid: string) {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { kid, privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'ES256', use: 'sig' } };
+}
+
+function signToken(privateKey: KeyObject, kid: string, claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg: 'ES256', typ: 'JWT', kid })}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+describe('farcasterAuth', () => {
+  describe('verifyQuickAuthToken', () => {
+    const signingKey = makeKeyPair('key-1');
+    const now = new Date('2026-01-01T00:00:00Z');
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const claims = { sub: 1234, iss: ISSUER, aud: DOMAIN, iat: nowSeconds - 10, exp: nowSeconds + 3600 };
+
+    const stubJwks = (keys: unknown[]) => {
+      const fetchStub = jest.fn(async () => new Response(JSON.stringify({ keys })));
+      return { fetchStub, jwks: new JwksCache(`${ISSUER}/.well-known/jwks.json`, fetchStub as unknown as typeof fetch) };
+    };
+
+    it('should accept a valid token and cache the key set', async () => {
+      const { fetchStub, jwks } = stubJwks([signingKey.jwk]);
+      const token = signToken(signingKey.privateKey, signingKey.kid, claims);
+
+      await expect(verifyQuickAuthToken(token, { domain: DOMAIN, fid: '1234', jwks, now })).resolves.toEqual(
+        expect.objectContaining({ fid: '1234', method: 'quick_auth' })
+      );
+      await verifyQuickAuthToken(token, { domain: DOMAIN, jwks, now });
+      expect(fetchStub).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+      ['another audience', { ...claims, aud: 'other.example' }, 'issued for another domain'],
+      ['another issuer', { ...claims, iss: 'https://evil.example' }, 'Unexpected token issuer'],
+      ['an expired token', { ...claims, exp: nowSeconds - 3600 }, 'Token expired'],
+      ['a token without expiry', { ...claims, exp: undefined }, 'Token expired'],
+    ])('should reject %s', async (_case, tokenClaims, message) => {
+      const { jwks } = stubJwks([signingKey.jwk]);
+      const token = signToken(signingKey.privateKey, signingKey.kid, tokenClaims);
+
+      await expect(verifyQuickAuthToken(token, { domain: DOMAIN, jwks, now })).rejects.toThrow(message);
+    });
+
+    it('should reject a token for a different FID than requested', async () => {
+      const { jwks } = stubJwks([signingKey.jwk]);
+      const token = signToken(signingKey.privateKey, signingKey.kid, claims);
+
+      await expect(verifyQuickAuthToken(token, { domain: DOMAIN, fid: '99', jwks, now })).rejects.toThrow('does not match the requested FID');
+    });
+
+    it('should reject a token signed by a key outside the key set', async () => {
+      const otherKey = makeKeyPair('key-1');
+      const { jwks } = stubJwks([signingKey.jwk]);
+      const token = signToken(otherKey.privateKey, otherKey.kid, claims);
+
+      await expect(verifyQuickAuthToken(token, { domain: DOMAIN, jwks, now })).rejects.toThrow(FarcasterAuthError);
+    });
+
+    it('should reject a token with a tampered payload', async () => {
+      const { jwks } = stubJwks([signingKey.jwk]);
+      const [header, , signature] = signToken(signingKey.privateKey, signingKey.kid, claims).split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({ ...claims, sub: 1 })).toString('base64url');
+
+      await expect(verifyQuickAuthToken(`${header}.${forgedPayload}.${signature}`, { domain: DOMAIN, jwks, now }))
+        .rejects.toThrow('Invalid token signature');
+    });
+  });
+
+  describe('verifySiwfMessage', () => {
+    const custody = privateKeyToAccount(generatePrivateKey());
+    const now = new Date();
+
+    const makeMessage = (overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}) => createSiweMessage({
+      address: custody.address,
+      chainId: 10,
+      domain: DOMAIN,
+      nonce: createSiwfNonce(now),
+      uri: `https://${DOMAIN}/login`,
+      version: '1',
+      resources: ['farcaster://fid/1234'],
+      ...overrides,
+    });
+
+    // Stands in for the used-nonce table
+    const usedNonces = () => {
+      const used = new Set<string>();
+      return async (nonce: string) => !used.has(nonce) && !!used.add(nonce);
+    };
+
+    it('should accept a message signed by the FID custody address', async () => {
+      const message = makeMessage();
+      const signature = await custody.signMessage({ message });
+
+      await expect(verifySiwfMessage(message, signature, {
+        domain: DOMAIN,
+        now,
+        getCustodyAddress: async () => custody.address,
+        consumeNonce: usedNonces(),
+      })).resolves.toEqual({ fid: '1234', method: 'siwf', address: custody.address });
+    });
+
+    it('should reject a nonce the second time it is used', async () => {
+      const message = makeMessage();
+      const signature = await custody.signMessage({ message });
+      const options = { domain: DOMAIN, now, getCustodyAddress: async () => custody.address, consumeNonce: usedNonces() };
+
+      await expect(verifySiwfMessage(message, signature, options)).resolves.toMatchObject({ fid: '1234' });
+      await expect(verifySiwfMessage(message, signature, options)).rejects.toThrow('nonce was already used');
+    });
+
+    it('should keep a used nonce until it expires', async () => {
+      const message = makeMessage();
+      const signature = await custody.signMessage({ message });
+      const consumeNonce = jest.fn(async () => true);
+
+      await verifySiwfMessage(message, signature, { domain: DOMAIN, now, getCustodyAddress: async () => custody.address, consumeNonce });
+
+      const [[nonce, expiresAt]] = consumeNonce.mock.calls as unknown as [string, Date][];
+      expect(message).toContain(`Nonce: ${nonce}`);
+      expect(expiresAt.getTime()).toBe(now.getTime() + 10 * 60 * 1000);
+    });
+
+    it('should reject a signer that is not the FID custody address', async () => {
+      const message = makeMessage();
+      const signature = await custody.signMessage({ message });
+      const otherCustody = privateKeyToAccount(generatePrivateKey()).address;
+
+      await expect(verifySiwfMessage(message, signature, {
+        domain: DOMAIN,
+        now,
+        getCustodyAddress: async () => otherCustody,
+      })).rejects.toThrow("not signed by the FID's custody address");
+    });
+
+    it('should reject nonces this server did not issue', async () => {
+      const message = makeMessage({ nonce: 'abcdefgh1234567890abcdefgh12' });
+      const signature = await custody.signMessage({ message });
+
+      await expect(verifySiwfMessage(message, signature, {
+        domain: DOMAIN,
+        now,
+        getCustodyAddress: async () => custody.address,
+      })).rejects.toThrow('nonce is invalid or expired');
+    });
+
+    it('should reject messages for another domain', async () => {
+      const message = makeMessage({ domain: 'other.example' });
+      const signature = await custody.signMessage({ message });
+
+      await expect(verifySiwfMessage(message, signature, {
+        domain: DOMAIN,
+        now,
+        getCustodyAddress: async () => custody.address,
+      })).rejects.toThrow('expired or for another domain');
+    });
+  });
+});
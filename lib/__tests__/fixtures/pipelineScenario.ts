@@ -0,0 +1,163 @@
+import path from 'path';
+import { createFixtureCallLLM, type CallLLM } from '../../llmFixtures';
+
+/**
+ * Inputs and expected outputs for the recorded pipeline fixtures in ./llm:
+ * a tap counter built from the boilerplate, then follow-ups to it - one change
+ * (recorded with and without gathered context) and one new file.
+ * Stage prompts are built from these files, so editing them means re-recording.
+ */
+
+export const LLM_FIXTURES_DIR = path.join(__dirname, 'llm');
+
+/**
+ * callLLM that answers only from the recorded fixtures
+ */
+export function replayCallLLM(): CallLLM {
+  return createFixtureCallLLM(undefined, { mode: 'replay', fixturesDir: LLM_FIXTURES_DIR });
+}
+
+export const INITIAL_PROMPT = 'Build a tap counter that remembers my best score';
+
+export const FOLLOW_UP_PROMPT = 'Show how many taps are left to beat the best score';
+
+export const BOILERPLATE_FILES = [
+  {
+    filename: 'src/app/page.tsx',
+    content: `'use client';
+
+import { Tabs } from '@/components/ui/Tabs';
+import { useUser } from '@/hooks';
+
+export default function App() {
+  const { username, isLoading } = useUser();
+
+  if (isLoading) {
+    return <div className="text-white">Loading...</div>;
+  }
+
+  const tabs = [
+    { id: 'tab1', title: 'Tab1', content: <h1>Tab 1 Content</h1> },
+    { id: 'tab2', title: 'Tab2', content: <h1>Tab 2 Content</h1> },
+  ];
+
+  return (
+    <div className="miniapp-container">
+      <header className="text-center mb-8">
+        <h1 className="text-4xl font-bold text-white">Welcome{username ? \`, \${username}\` : ''}</h1>
+      </header>
+      <Tabs tabs={tabs} defaultTab="tab1" />
+    </div>
+  );
+}
+`,
+  },
+];
+
+// Files produced by the initial generation fixtures, and the input to the follow-up
+export const TAP_COUNTER_FILES = [
+  {
+    filename: 'src/app/page.tsx',
+    content: `'use client';
+
+import { useState } from 'react';
+import { useBestScore } from '@/hooks/useBestScore';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+  const { bestScore, recordScore } = useBestScore();
+
+  const tap = () => {
+    const next = count + 1;
+    setCount(next);
+    recordScore(next);
+  };
+
+  return (
+    <div className="miniapp-container">
+      <div className="container mx-auto px-4 py-8 text-center">
+        <h1 className="text-4xl font-bold text-white mb-2">Tap Counter</h1>
+        <p className="text-lg text-gray-200 mb-8">Best score: {bestScore}</p>
+        <button
+          onClick={tap}
+          className="w-48 h-48 rounded-full bg-purple-600 text-5xl font-bold text-white"
+        >
+          {count}
+        </button>
+        <div className="mt-6">
+          <button onClick={() => setCount(0)} className="text-sm text-gray-300 underline">
+            Reset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+`,
+  },
+  {
+    filename: 'src/hooks/useBestScore.ts',
+    content: `'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'tap-counter-best-score';
+
+export function useBestScore() {
+  const [bestScore, setBestScore] = useState(0);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) setBestScore(Number(stored));
+  }, []);
+
+  const recordScore = useCallback((score: number) => {
+    setBestScore(current => {
+      if (score <= current) return current;
+      window.localStorage.setItem(STORAGE_KEY, String(score));
+      return score;
+    });
+  }, []);
+
+  return { bestScore, recordScore };
+}
+`,
+  },
+];
+
+// src/app/page.tsx after the follow-up fixtures' diff is applied
+export const FOLLOW_UP_PAGE = TAP_COUNTER_FILES[0].content.replace(
+  `        <p className="text-lg text-gray-200 mb-8">Best score: {bestScore}</p>
+`,
+  `        <p className="text-lg text-gray-200 mb-2">Best score: {bestScore}</p>
+        <p className="text-sm text-gray-400 mb-8">
+          {count > 0 && count === bestScore ? 'New best!' : \`\${bestScore - count + 1} taps to beat it\`}
+        </p>
+`
+);
+
+// What the Stage 0 tool loop hands the follow-up when context gathering finds the hook
+export const FOLLOW_UP_CONTEXT = `src/hooks/useBestScore.ts exports useBestScore(): { bestScore, recordScore }.
+recordScore(score) keeps the higher of score and the stored best in localStorage.`;
+
+// A follow-up that only adds a new file
+export const CREATE_FILE_PROMPT = 'Add a reusable reset button component';
+
+export const RESET_BUTTON_FILE = {
+  filename: 'src/components/ResetButton.tsx',
+  content: `'use client';
+
+interface ResetButtonProps {
+  onReset: () => void;
+  label?: string;
+}
+
+export function ResetButton({ onReset, label = 'Reset' }: ResetButtonProps) {
+  return (
+    <button onClick={onReset} className="text-sm text-gray-300 underline">
+      {label}
+    </button>
+  );
+}
+`,
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { isGenerationJobCancellationRequested } from '../database';
+import { JobCancelledError, JobLeaseLostError, runWithJobLease, throwIfJobCancelled, withCancellation } from '../jobCancellation';
+
+jest.mock('../database', () => ({
+  isGenerationJobCancellationRequested: jest.fn(),
+}));
+
+const isCancelledMock = isGenerationJobCancellationRequested as jest.MockedFunction<typeof isGenerationJobCancellationRequested>;
+
+describe('jobCancellation', () => {
+  beforeEach(() => {
+    isCancelledMock.mockReset();
+  });
+
+  it('should call through while the job is not cancelled', async () => {
+    isCancelledMock.mockResolvedValue(false);
+    const callLLM = jest.fn(async () => 'response');
+
+    await expect(withCancellation('job-1', callLLM)('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER')).resolves.toBe('response');
+    expect(callLLM).toHaveBeenCalledWith('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER');
+  });
+
+  it('should stop before the next LLM call once the job is cancelled', async () => {
+    isCancelledMock.mockResolvedValue(true);
+    const callLLM = jest.fn(async () => 'response');
+
+    await expect(withCancellation('job-1', callLLM)('system', 'user', 'Stage 4: Fixes', 'STAGE_4_VALIDATOR'))
+      .rejects.toBeInstanceOf(JobCancelledError);
+    expect(callLLM).not.toHaveBeenCalled();
+  });
+
+  it('should stop a run that lost its lease at the next checkpoint', async () => {
+    isCancelledMock.mockResolvedValue(false);
+    const lease = { jobId: 'job-1', lost: false };
+
+    await runWithJobLease(lease, async () => {
+      await expect(throwIfJobCancelled('job-1')).resolves.toBeUndefined();
+      lease.lost = true;
+      await expect(throwIfJobCancelled('job-1')).rejects.toBeInstanceOf(JobLeaseLostError);
+    });
+  });
+
+  it('should not stop another run of the same job when one run loses its lease', async () => {
+    isCancelledMock.mockResolvedValue(false);
+    const staleLease = { jobId: 'job-1', lost: true };
+    const currentLease = { jobId: 'job-1', lost: false };
+
+    await Promise.all([
+      runWithJobLease(staleLease, () => expect(throwIfJobCancelled('job-1')).rejects.toBeInstanceOf(JobCancelledError)),
+      runWithJobLease(currentLease, () => expect(throwIfJobCancelled('job-1')).resolves.toBeUndefined()),
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { createGenerationJobEvent } from '../database';
+import { withStageEvents } from '../jobEvents';
+
+jest.mock('../database', () => ({
+  createGenerationJobEvent: jest.fn(async () => ({})),
+}));
+
+const createEventMock = createGenerationJobEvent as jest.MockedFunction<typeof createGenerationJobEvent>;
+
+describe('jobEvents', () => {
+  beforeEach(() => {
+    createEventMock.mockClear();
+  });
+
+  it('should report a stage as started and completed around the LLM call', async () => {
+    const callLLM = withStageEvents('job-1', async () => 'response');
+
+    await callLLM('system', 'user', 'Stage 2: Patch Planner', 'STAGE_2_PATCH_PLANNER');
+
+    const types = createEventMock.mock.calls.map(([, event]) => [event.type, event.stage]);
+    expect(types).toEqual([
+      ['stage_started', 'STAGE_2_PATCH_PLANNER'],
+      ['stage_completed', 'STAGE_2_PATCH_PLANNER'],
+    ]);
+  });
+
+  it('should report a failed stage and rethrow', async () => {
+    const callLLM = withStageEvents('job-1', async () => {
+      throw new Error('overloaded');
+    });
+
+    await expect(callLLM('system', 'user', 'Stage 3', 'STAGE_3_CODE_GENERATOR')).rejects.toThrow('overloaded');
+    expect(createEventMock.mock.calls[1][1]).toMatchObject({ type: 'stage_failed', data: { error: 'overloaded' } });
+  });
+
+  it('should not fail the call when events cannot be recorded', async () => {
+    createEventMock.mockRejectedValue(new Error('db down'));
+    const callLLM = withStageEvents('job-1', async () => 'response');
+
+    await expect(callLLM('system', 'user', 'Stage 1', 'STAGE_1_INTENT_PARSER')).resolves.toBe('response');
+  });
+});
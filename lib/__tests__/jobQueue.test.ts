@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { getGenerationJobById, releaseFailedGenerationJob, getExpiredGenerationJobLeases, markGenerationJobCancelled, renewGenerationJobLease } from '../database';
+import { getRetryDelayMs, handleJobAttemptFailure, requeueExpiredJobs, startLeaseHeartbeat, JOB_HEARTBEAT_MS } from '../jobQueue';
+
+jest.mock('../database', () => ({
+  getGenerationJobById: jest.fn(),
+  releaseFailedGenerationJob: jest.fn(),
+  getExpiredGenerationJobLeases: jest.fn(),
+  markGenerationJobCancelled: jest.fn(),
+  renewGenerationJobLease: jest.fn(),
+  createGenerationJobEvent: jest.fn(async () => ({})),
+}));
+
+const getJobMock = getGenerationJobById as jest.MockedFunction<typeof getGenerationJobById>;
+const releaseMock = releaseFailedGenerationJob as jest.MockedFunction<typeof releaseFailedGenerationJob>;
+const getExpiredMock = getExpiredGenerationJobLeases as jest.MockedFunction<typeof getExpiredGenerationJobLeases>;
+const cancelMock = markGenerationJobCancelled as jest.MockedFunction<typeof markGenerationJobCancelled>;
+const renewMock = renewGenerationJobLease as jest.MockedFunction<typeof renewGenerationJobLease>;
+
+type Job = NonNullable<Awaited<ReturnType<typeof getGenerationJobById>>>;
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    userId: 'user-1',
+    projectId: null,
+    status: 'processing',
+    prompt: 'make an app',
+    context: {},
+    result: null,
+    error: null,
+    createdAt: new Date(),
+    startedAt: new Date(),
+    completedAt: null,
+    expiresAt: new Date(),
+    attempts: 1,
+    maxAttempts: 3,
+    availableAt: new Date(),
+    leaseOwner: 'worker-a',
+    leaseExpiresAt: new Date(),
+    lastError: null,
+    cancelRequestedAt: null,
+    ...overrides,
+  };
+}
+
+describe('jobQueue', () => {
+  beforeEach(() => {
+    getJobMock.mockReset();
+    releaseMock.mockReset();
+    getExpiredMock.mockReset();
+    cancelMock.mockReset();
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should double the delay per attempt', () => {
+      const noJitter = () => 0;
+      expect(getRetryDelayMs(1, 1000, 60000, noJitter)).toBe(1000);
+      expect(getRetryDelayMs(2, 1000, 60000, noJitter)).toBe(2000);
+      expect(getRetryDelayMs(4, 1000, 60000, noJitter)).toBe(8000);
+    });
+
+    it('should cap the delay and add at most 20% jitter', () => {
+      expect(getRetryDelayMs(20, 1000, 60000, () => 0)).toBe(60000);
+      expect(getRetryDelayMs(20, 1000, 60000, () => 1)).toBe(72000);
+    });
+  });
+
+  describe('handleJobAttemptFailure', () => {
+    it('should schedule a retry while attempts remain', async () => {
+      getJobMock.mockResolvedValue(makeJob({ attempts: 1 }));
+      releaseMock.mockResolvedValue(makeJob({ status: 'pending' }));
+
+      await expect(handleJobAttemptFailure('job-1', 'worker-a', 'boom')).resolves.toBe('retry');
+      const [, owner, error, retryDelayMs] = releaseMock.mock.calls[0];
+      expect(owner).toBe('worker-a');
+      expect(error).toBe('boom');
+      expect(retryDelayMs).toBeGreaterThan(0);
+    });
+
+    it('should dead-letter the job once attempts are used up', async () => {
+      getJobMock.mockResolvedValue(makeJob({ attempts: 3 }));
+      releaseMock.mockResolvedValue(makeJob({ status: 'dead_letter' }));
+
+      await expect(handleJobAttemptFailure('job-1', 'worker-a', 'boom')).resolves.toBe('dead_letter');
+      expect(releaseMock.mock.calls[0][3]).toBeNull();
+    });
+
+    it('should ignore failures from a worker that lost the job', async () => {
+      getJobMock.mockResolvedValue(makeJob());
+      releaseMock.mockResolvedValue(undefined as unknown as Job);
+
+      await expect(handleJobAttemptFailure('job-1', 'worker-b', 'late')).resolves.toBe('ignored');
+    });
+
+    it('should finish a job as cancelled when the user asked to stop it', async () => {
+      getJobMock.mockResolvedValue(makeJob({ cancelRequestedAt: new Date() }));
+      cancelMock.mockResolvedValue(makeJob({ status: 'cancelled' }));
+
+      await expect(handleJobAttemptFailure('job-1', 'worker-a', 'Job job-1 was cancelled')).resolves.toBe('cancelled');
+      expect(cancelMock).toHaveBeenCalledWith('job-1', 'worker-a');
+      expect(releaseMock).not.toHaveBeenCalled();
+    });
+
+    it('should not touch jobs that are no longer processing', async () => {
+      getJobMock.mockResolvedValue(makeJob({ status: 'completed' }));
+
+      await expect(handleJobAttemptFailure('job-1', 'worker-a', 'boom')).resolves.toBe('ignored');
+      expect(releaseMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startLeaseHeartbeat', () => {
+    it('should report a lost lease once and stop renewing', async () => {
+      jest.useFakeTimers();
+      try {
+        renewMock.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+        const onLeaseLost = jest.fn();
+        const stop = startLeaseHeartbeat('job-1', 'worker-a', onLeaseLost);
+
+        await jest.advanceTimersByTimeAsync(JOB_HEARTBEAT_MS);
+        expect(onLeaseLost).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(JOB_HEARTBEAT_MS * 3);
+        expect(onLeaseLost).toHaveBeenCalledTimes(1);
+        expect(renewMock).toHaveBeenCalledTimes(2);
+        stop();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('requeueExpiredJobs', () => {
+    it('should release every job whose lease expired', async () => {
+      const expired = [makeJob({ id: 'job-1' }), makeJob({ id: 'job-2', leaseOwner: 'worker-b' })];
+      getExpiredMock.mockResolvedValue(expired);
+      getJobMock.mockImplementation(async (id) => expired.find(job => job.id === id)!);
+      releaseMock.mockResolvedValue(makeJob({ status: 'pending' }));
+
+      await expect(requeueExpiredJobs()).resolves.toBe(2);
+      expect(releaseMock.mock.calls.map(([id, owner]) => [id, owner])).toEqual([
+        ['job-1', 'worker-a'],
+        ['job-2', 'worker-b'],
+      ]);
+    });
+  });
+});
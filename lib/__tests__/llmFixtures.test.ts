@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createFixtureCallLLM, getFixturePath, hashPrompt, LLMFixtureMissError, CallLLM } from '../llmFixtures';
+
+describe('llmFixtures', () => {
+  let fixturesDir: string;
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should record a response and replay it without calling the LLM', async () => {
+    const realCallLLM = jest.fn<CallLLM>(async () => '{"feature":"counter"}');
+
+    const record = createFixtureCallLLM(realCallLLM, { mode: 'record', fixturesDir });
+    await record('system', 'build a counter', 'Stage 1: Intent Parser', 'STAGE_1_INTENT_PARSER');
+
+    const fixturePath = getFixturePath(fixturesDir, 'Stage 1: Intent Parser', 'STAGE_1_INTENT_PARSER', hashPrompt('system', 'build a counter'));
+    expect(fs.existsSync(fixturePath)).toBe(true);
+
+    const replay = createFixtureCallLLM(undefined, { mode: 'replay', fixturesDir });
+    const response = await replay('system', 'build a counter', 'Stage 1: Intent Parser', 'STAGE_1_INTENT_PARSER');
+
+    expect(response).toBe('{"feature":"counter"}');
+    expect(realCallLLM).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a miss when the prompt changed', async () => {
+    const record = createFixtureCallLLM(async () => 'ok', { mode: 'record', fixturesDir });
+    await record('system v1', 'prompt', 'Stage 2', 'STAGE_2_PATCH_PLANNER');
+
+    const replay = createFixtureCallLLM(undefined, { mode: 'replay', fixturesDir });
+
+    await expect(replay('system v2', 'prompt', 'Stage 2', 'STAGE_2_PATCH_PLANNER')).rejects.toBeInstanceOf(LLMFixtureMissError);
+  });
+
+  it('should only call through for missing fixtures in auto mode', async () => {
+    const realCallLLM = jest.fn<CallLLM>(async (_system, userPrompt) => `response to ${userPrompt}`);
+    const auto = createFixtureCallLLM(realCallLLM, { mode: 'auto', fixturesDir });
+
+    await auto('system', 'a', 'Stage 3', 'STAGE_3_CODE_GENERATOR');
+    await auto('system', 'a', 'Stage 3', 'STAGE_3_CODE_GENERATOR');
+    await auto('system', 'b', 'Stage 3', 'STAGE_3_CODE_GENERATOR');
+
+    expect(realCallLLM).toHaveBeenCalledTimes(2);
+  });
+
+  it('should key fixtures by stage type and keep retries separate', () => {
+    const hash = hashPrompt('s', 'u');
+
+    expect(getFixturePath(fixturesDir, 'Stage 3: Code Generator', 'STAGE_3_CODE_GENERATOR', hash))
+      .toBe(path.join(fixturesDir, 'STAGE_3_CODE_GENERATOR', `${hash}.json`));
+    expect(getFixturePath(fixturesDir, 'Stage 3: Code Generator (Retry)', 'STAGE_3_CODE_GENERATOR', hash))
+      .toBe(path.join(fixturesDir, 'STAGE_3_CODE_GENERATOR', `${hash}.retry.json`));
+  });
+});
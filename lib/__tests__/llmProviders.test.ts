@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  callStageLLM,
+  calculateLLMCost,
+  registerLLMProvider,
+  resetLLMProviders,
+  resolveStageProvider,
+  MockLLMProvider,
+  OpenAICompatibleProvider,
+  LLMProviderError,
+} from '../llmProviders';
+import { ANTHROPIC_MODELS } from '../llmOptimizer';
+
+// llmOptimizer pulls in the compilation validator, which needs the real child_process
+jest.mock('../compilationValidator', () => ({}));
+
+describe('llmProviders', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    resetLLMProviders();
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_PROVIDER_STAGE_1_INTENT_PARSER;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('resolveStageProvider', () => {
+    it('should default to the provider in STAGE_MODEL_CONFIG', () => {
+      expect(resolveStageProvider('STAGE_1_INTENT_PARSER')).toBe('anthropic');
+    });
+
+    it('should prefer the per-stage override over the global one', () => {
+      process.env.LLM_PROVIDER = 'local';
+      process.env.LLM_PROVIDER_STAGE_1_INTENT_PARSER = 'mock';
+
+      expect(resolveStageProvider('STAGE_1_INTENT_PARSER')).toBe('mock');
+      expect(resolveStageProvider('STAGE_2_PATCH_PLANNER')).toBe('local');
+    });
+  });
+
+  describe('callStageLLM', () => {
+    it('should route the stage to the configured provider', async () => {
+      process.env.LLM_PROVIDER = 'mock';
+      const mock = new MockLLMProvider(request => `echo: ${request.userPrompt}`);
+      registerLLMProvider('mock', mock);
+
+      const result = await callStageLLM('system', 'hello', 'Stage 1: Intent Parser', 'STAGE_1_INTENT_PARSER');
+
+      expect(result.text).toBe('echo: hello');
+      expect(result.provider).toBe('mock');
+      expect(result.usage.totalTokens).toBe(result.usage.inputTokens + result.usage.outputTokens);
+      expect(mock.requests[0].model).toBe(ANTHROPIC_MODELS.FAST);
+    });
+
+    it('should price the call by the model the provider ran', async () => {
+      process.env.LLM_PROVIDER = 'local';
+      global.fetch = jest.fn(async () => new Response(JSON.stringify({
+        model: 'llama3.1:8b',
+        choices: [{ message: { content: '{}' } }],
+        usage: { prompt_tokens: 1000000, completion_tokens: 1000000 },
+      }), { status: 200 })) as unknown as typeof fetch;
+      registerLLMProvider('local', new OpenAICompatibleProvider('local', 'http://llm.test/v1', undefined, 'llama3.1:8b'));
+
+      const result = await callStageLLM('system', 'hello', 'Stage 1: Intent Parser', 'STAGE_1_INTENT_PARSER');
+
+      expect(result.model).toBe('llama3.1:8b');
+      expect(result.costUsd).toBe(0);
+    });
+
+    it('should not retry client errors', async () => {
+      process.env.LLM_PROVIDER = 'mock';
+      const mock = new MockLLMProvider(() => {
+        throw new LLMProviderError('bad request', 'mock', 400);
+      });
+      registerLLMProvider('mock', mock);
+
+      await expect(callStageLLM('system', 'hello', 'Stage 1', 'STAGE_1_INTENT_PARSER')).rejects.toThrow('bad request');
+      expect(mock.requests).toHaveLength(1);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should normalize chat completion responses', async () => {
+      const fetchMock = jest.fn(async () => new Response(JSON.stringify({
+        model: 'gpt-test',
+        choices: [{ message: { content: 'hi there' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 },
+      }), { status: 200 }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+
+      const provider = new OpenAICompatibleProvider('openai', 'http://llm.test/v1/', 'key', 'gpt-test');
+      const response = await provider.complete({
+        model: ANTHROPIC_MODELS.FAST,
+        systemPrompt: 'system',
+        userPrompt: 'user',
+        maxTokens: 100,
+        temperature: 0,
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith('http://llm.test/v1/chat/completions', expect.anything());
+      expect(response).toEqual({
+        text: 'hi there',
+        model: 'gpt-test',
+        usage: { inputTokens: 12, outputTokens: 3, totalTokens: 15 },
+      });
+    });
+  });
+
+  describe('calculateLLMCost', () => {
+    it('should price known models and treat unknown models as free', () => {
+      expect(calculateLLMCost({ inputTokens: 1000000, outputTokens: 1000000 }, ANTHROPIC_MODELS.BALANCED)).toBe(18);
+      expect(calculateLLMCost({ inputTokens: 1000000, outputTokens: 1000000 }, 'llama3')).toBe(0);
+    });
+
+    it('should price dated variants by their longest listed prefix', () => {
+      expect(calculateLLMCost({ inputTokens: 1000000, outputTokens: 0 }, 'gpt-4o-2024-08-06')).toBe(2.5);
+      expect(calculateLLMCost({ inputTokens: 1000000, outputTokens: 0 }, 'gpt-4o-mini-2024-07-18')).toBe(0.15);
+    });
+
+    it('should apply LLM_MODEL_PRICING overrides', () => {
+      process.env.LLM_MODEL_PRICING = JSON.stringify({ llama3: { input: 1, output: 2 } });
+      try {
+        expect(calculateLLMCost({ inputTokens: 1000000, outputTokens: 1000000 }, 'llama3')).toBe(3);
+      } finally {
+        delete process.env.LLM_MODEL_PRICING;
+      }
+    });
+  });
+});
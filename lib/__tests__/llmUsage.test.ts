@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createLLMUsageEvent } from '../database';
+import { callStageLLM, type StageLLMResult } from '../llmProviders';
+import { createUsageTrackingCallLLM, recordLLMUsage } from '../llmUsage';
+import * as chatRoute from '@/app/api/chat/route';
+
+jest.mock('../database', () => ({
+  createLLMUsageEvent: jest.fn(),
+  getUserBySessionToken: jest.fn(async () => ({ id: 'user-1', farcasterFid: 1, expiresAt: null })),
+  touchUserSession: jest.fn(async () => undefined),
+  getProjectById: jest.fn(async (id: string) => ({ id, userId: 'user-1', name: 'Demo' })),
+  getProjectMember: jest.fn(async () => null),
+  saveChatMessage: jest.fn(async () => undefined),
+  createProject: jest.fn(),
+  migrateChatMessages: jest.fn(),
+}));
+
+jest.mock('../../db', () => ({
+  db: { select: () => { throw new Error('no database in tests'); } },
+  chatMessages: {},
+}));
+
+jest.mock('../llmProviders', () => ({
+  callStageLLM: jest.fn(),
+}));
+
+const createEventMock = createLLMUsageEvent as jest.MockedFunction<typeof createLLMUsageEvent>;
+const callStageLLMMock = callStageLLM as jest.MockedFunction<typeof callStageLLM>;
+
+const result: StageLLMResult = {
+  text: '{"ok":true}',
+  model: 'claude-sonnet-4-20250514',
+  usage: { inputTokens: 1200, outputTokens: 300, totalTokens: 1500 },
+  provider: 'anthropic',
+  stageName: 'Stage 1: Intent Parser',
+  stageType: 'STAGE_1_INTENT_PARSER',
+  costUsd: 0.0081,
+  durationMs: 950,
+};
+
+describe('llmUsage', () => {
+  beforeEach(() => {
+    createEventMock.mockReset();
+    callStageLLMMock.mockReset();
+  });
+
+  it('should record each call against the scope and return the text', async () => {
+    callStageLLMMock.mockResolvedValue(result);
+    const callLLM = createUsageTrackingCallLLM({ userId: 'user-1', projectId: 'project-1', jobId: 'job-1' });
+
+    await expect(callLLM('system', 'user', 'Stage 1: Intent Parser', 'STAGE_1_INTENT_PARSER')).resolves.toBe('{"ok":true}');
+    expect(createEventMock).toHaveBeenCalledWith({
+      userId: 'user-1',
+      projectId: 'project-1',
+      jobId: 'job-1',
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-20250514',
+      stageName: 'Stage 1: Intent Parser',
+      stageType: 'STAGE_1_INTENT_PARSER',
+      inputTokens: 1200,
+      outputTokens: 300,
+      costUsd: 0.0081,
+      durationMs: 950,
+    });
+  });
+
+  it('should not fail the call when the ledger write fails', async () => {
+    createEventMock.mockRejectedValue(new Error('connection refused'));
+
+    await expect(recordLLMUsage({ userId: 'user-1' }, result)).resolves.toBeUndefined();
+  });
+
+  it('should record chat replies against the user and project', async () => {
+    callStageLLMMock.mockResolvedValue({ ...result, text: 'Sounds great!', stageName: 'Chat: Requirements Gathering', stageType: 'CHAT_ASSISTANT' });
+
+    const response = await chatRoute.POST(new NextRequest('http://localhost:3000/api/chat', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer session-token' },
+      body: JSON.stringify({ sessionId: 'session-1', message: 'A tipping app', projectId: 'project-1' }),
+    }));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ response: 'Sounds great!', projectId: 'project-1' });
+    expect(callStageLLMMock).toHaveBeenCalledWith(expect.any(String), 'A tipping app', 'Chat: Requirements Gathering', 'CHAT_ASSISTANT');
+    expect(createEventMock).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      projectId: 'project-1',
+      jobId: undefined,
+      stageType: 'CHAT_ASSISTANT',
+    }));
+  });
+});
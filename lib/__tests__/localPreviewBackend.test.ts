@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { LocalPreviewBackend } from '../localPreviewBackend';
+
+// setup.ts mocks fs-extra; these tests work on real temp directories
+jest.unmock('fs-extra');
+
+describe('LocalPreviewBackend project files', () => {
+  let projectsDir: string;
+  let backend: LocalPreviewBackend;
+  const projectDir = () => path.join(projectsDir, 'project-1');
+
+  beforeEach(async () => {
+    projectsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-preview-'));
+    backend = new LocalPreviewBackend({ projectsDir });
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectsDir);
+  });
+
+  // No package.json, so no dev server is started after the files are written
+  it('should remove files that are no longer part of the project', async () => {
+    await backend.createPreview('project-1', [
+      { filename: 'src/app/page.tsx', content: 'page' },
+      { filename: 'src/components/Old.tsx', content: 'old' },
+    ]);
+    await fs.ensureDir(path.join(projectDir(), 'node_modules', 'next'));
+    await fs.writeFile(path.join(projectDir(), 'next-env.d.ts'), '');
+
+    await backend.createPreview('project-1', [{ filename: 'src/app/page.tsx', content: 'new page' }]);
+
+    expect(await fs.readFile(path.join(projectDir(), 'src/app/page.tsx'), 'utf8')).toBe('new page');
+    expect(await fs.pathExists(path.join(projectDir(), 'src/components'))).toBe(false);
+    expect(await fs.pathExists(path.join(projectDir(), 'node_modules', 'next'))).toBe(true);
+    expect(await fs.pathExists(path.join(projectDir(), 'next-env.d.ts'))).toBe(true);
+  });
+
+  it('should refuse files that resolve outside the project directory', async () => {
+    await expect(backend.redeploy('project-1', [
+      { filename: 'src/app/page.tsx', content: 'page' },
+      { filename: '../escaped.txt', content: 'nope' },
+    ])).rejects.toThrow('outside the project directory');
+
+    expect(await fs.pathExists(path.join(projectsDir, 'escaped.txt'))).toBe(false);
+    expect(await fs.pathExists(path.join(projectDir(), 'src/app/page.tsx'))).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from '@jest/globals';
+import { planPatchRevert } from '../patchReverter';
+import { generateDiff, invertDiffHunks, applyDiffHunksStrict, DiffHunk } from '../diffUtils';
+
+const original = `import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`;
+
+const patched = `import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(10);
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}`;
+
+describe('patchReverter', () => {
+  describe('invertDiffHunks', () => {
+    it('should swap additions and removals', () => {
+      const hunks: DiffHunk[] = [
+        { oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [' a', '-b', '+c'] }
+      ];
+
+      const inverted = invertDiffHunks(hunks);
+
+      expect(inverted[0].lines).toEqual([' a', '+b', '-c']);
+      expect(inverted[0].oldStart).toBe(1);
+    });
+  });
+
+  describe('applyDiffHunksStrict', () => {
+    it('should locate hunks by content even when line numbers drifted', () => {
+      const hunks: DiffHunk[] = [
+        { oldStart: 40, oldLines: 2, newStart: 40, newLines: 2, lines: [' line2', '-line3', '+line three'] }
+      ];
+
+      const { content, failedHunks } = applyDiffHunksStrict('line1\nline2\nline3', hunks);
+
+      expect(failedHunks).toHaveLength(0);
+      expect(content).toBe('line1\nline2\nline three');
+    });
+
+    it('should report hunks whose lines are not present', () => {
+      const hunks: DiffHunk[] = [
+        { oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ['-missing', '+replacement'] }
+      ];
+
+      const { content, failedHunks } = applyDiffHunksStrict('line1\nline2', hunks);
+
+      expect(failedHunks).toHaveLength(1);
+      expect(content).toBe('line1\nline2');
+    });
+  });
+
+  describe('planPatchRevert', () => {
+    it('should restore the original content of a modified file', () => {
+      const diff = generateDiff(original, patched, 'src/app/page.tsx');
+
+      const plan = planPatchRevert(
+        { diffs: [diff] },
+        [
+          { filename: 'src/app/page.tsx', content: patched },
+          { filename: 'package.json', content: '{}' }
+        ]
+      );
+
+      expect(plan.conflicts).toHaveLength(0);
+      expect(plan.changedFiles).toEqual(['src/app/page.tsx']);
+      expect(plan.files.find(f => f.filename === 'src/app/page.tsx')?.content).toBe(original);
+      expect(plan.files.find(f => f.filename === 'package.json')?.content).toBe('{}');
+    });
+
+    it('should report a conflict when a later patch edited the same lines', () => {
+      const diff = generateDiff(original, patched, 'src/app/page.tsx');
+      const later = patched.replace('useState(10)', 'useState(42)');
+      const laterDiff = generateDiff(patched, later, 'src/app/page.tsx');
+
+      const plan = planPatchRevert(
+        { diffs: [diff] },
+        [{ filename: 'src/app/page.tsx', content: later }],
+        [{ id: 'later-patch', patchData: { diffs: [laterDiff] } }]
+      );
+
+      expect(plan.conflicts).toHaveLength(1);
+      expect(plan.conflicts[0].filename).toBe('src/app/page.tsx');
+      expect(plan.conflicts[0].conflictingPatchIds).toEqual(['later-patch']);
+      expect(plan.changedFiles).toHaveLength(0);
+    });
+
+    it('should revert cleanly when a later patch touched unrelated lines', () => {
+      const diff = generateDiff(original, patched, 'src/app/page.tsx');
+      const later = `// header comment\n${patched}`;
+
+      const plan = planPatchRevert(
+        { diffs: [diff] },
+        [{ filename: 'src/app/page.tsx', content: later }]
+      );
+
+      expect(plan.conflicts).toHaveLength(0);
+      expect(plan.files[0].content).toBe(`// header comment\n${original}`);
+    });
+
+    it('should delete a file that the patch created', () => {
+      const created = 'export const x = 1;\nexport const y = 2;';
+      const diff = {
+        filename: 'src/lib/new.ts',
+        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2, lines: ['+export const x = 1;', '+export const y = 2;'] }],
+        unifiedDiff: '@@ -0,0 +1,2 @@\n+export const x = 1;\n+export const y = 2;'
+      };
+
+      const plan = planPatchRevert(
+        { diffs: [diff] },
+        [
+          { filename: 'src/lib/new.ts', content: created },
+          { filename: 'src/app/page.tsx', content: original }
+        ]
+      );
+
+      expect(plan.conflicts).toHaveLength(0);
+      expect(plan.deletedFiles).toEqual(['src/lib/new.ts']);
+      expect(plan.files.map(f => f.filename)).toEqual(['src/app/page.tsx']);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { getPreviewBackend, registerPreviewBackend, type PreviewBackend } from '../previewBackend';
+import { getDependencyCacheKey } from '../localPreviewBackend';
+
+function makeBackend(name: string): PreviewBackend {
+  return {
+    name,
+    requiresAccessToken: false,
+    createPreview: async () => ({ url: `http://${name}` }),
+    updatePreviewFiles: async () => {},
+    redeploy: async () => ({ url: `http://${name}` }),
+  };
+}
+
+describe('previewBackend', () => {
+  const originalBackend = process.env.PREVIEW_BACKEND;
+
+  afterEach(() => {
+    if (originalBackend === undefined) delete process.env.PREVIEW_BACKEND;
+    else process.env.PREVIEW_BACKEND = originalBackend;
+  });
+
+  it('should pick the backend named by PREVIEW_BACKEND', () => {
+    registerPreviewBackend(makeBackend('remote'));
+    registerPreviewBackend(makeBackend('local'));
+
+    process.env.PREVIEW_BACKEND = 'local';
+    expect(getPreviewBackend().name).toBe('local');
+
+    delete process.env.PREVIEW_BACKEND;
+    expect(getPreviewBackend().name).toBe('remote');
+  });
+
+  it('should reject an unknown backend', () => {
+    expect(() => getPreviewBackend('docker')).toThrow('Unknown preview backend "docker"');
+  });
+
+  describe('getDependencyCacheKey', () => {
+    it('should ignore dependency order and unrelated package.json fields', () => {
+      const a = getDependencyCacheKey({ dependencies: { next: '15.0.0', react: '19.0.0' } });
+      const b = getDependencyCacheKey({
+        name: 'other-app',
+        scripts: { dev: 'next dev' },
+        dependencies: { react: '19.0.0', next: '15.0.0' },
+      } as Parameters<typeof getDependencyCacheKey>[0]);
+
+      expect(a).toBe(b);
+    });
+
+    it('should change when a dependency version changes', () => {
+      const a = getDependencyCacheKey({ dependencies: { next: '15.0.0' } });
+      const b = getDependencyCacheKey({ dependencies: { next: '15.1.0' } });
+      const c = getDependencyCacheKey({ dependencies: { next: '15.0.0' }, devDependencies: { typescript: '5.0.0' } });
+
+      expect(new Set([a, b, c]).size).toBe(3);
+    });
+  });
+});
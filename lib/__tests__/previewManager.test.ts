@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+
+const mockDeploy = jest.fn<(files: { filename: string; content: string }[], options?: { rpcUrl?: string }) => Promise<unknown>>();
+const chain = { chainId: 31337, name: 'Hardhat Local', rpcUrl: 'http://localhost:4100' };
+const mockStartChain = jest.fn(async () => chain);
+const mockStopChain = jest.fn(async () => {});
+
+jest.mock('../solidityToolchain', () => ({
+  SolidityToolchain: jest.fn().mockImplementation(() => ({ deploy: mockDeploy })),
+}));
+
+jest.mock('../localPreviewBackend', () => ({
+  LocalPreviewBackend: jest.fn().mockImplementation(() => ({
+    name: 'local',
+    startChain: mockStartChain,
+    stopChain: mockStopChain,
+  })),
+}));
+
+import { deployContractsFirst, resolveContractDeployTarget } from '../previewManager';
+import { updateFilesWithContractAddresses } from '../contractAddressInjector';
+
+describe('previewManager contract deployment', () => {
+  const originalEnv = { ...process.env };
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    global.fetch = originalFetch;
+    mockDeploy.mockReset();
+    mockStartChain.mockClear();
+    mockStopChain.mockClear();
+  });
+
+  it('should default to local deployment alongside the local preview backend', () => {
+    delete process.env.CONTRACT_DEPLOY_TARGET;
+    process.env.PREVIEW_BACKEND = 'local';
+    expect(resolveContractDeployTarget()).toBe('local');
+
+    delete process.env.PREVIEW_BACKEND;
+    expect(resolveContractDeployTarget()).toBe('remote');
+
+    process.env.CONTRACT_DEPLOY_TARGET = 'devnet';
+    expect(() => resolveContractDeployTarget()).toThrow('Unknown contract deploy target "devnet"');
+  });
+
+  it('should deploy on the local chain and inject the addresses and chain', async () => {
+    process.env.CONTRACT_DEPLOY_TARGET = 'local';
+    const fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock;
+    const address = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+    mockDeploy.mockResolvedValue({ success: true, contractAddresses: { ERC20Template: address }, errors: [], durationMs: 10 });
+
+    const files = [
+      { filename: 'contracts/src/ERC20Template.sol', content: 'contract ERC20Template {}' },
+      {
+        filename: 'src/lib/contractConfig.ts',
+        content: [
+          "import { baseSepolia } from 'wagmi/chains';",
+          'export const CHAIN = baseSepolia;',
+          'export const CHAIN_ID = CHAIN.id;',
+          "export const CONTRACT_ADDRESS = '0x0000000000000000000000000000000000000000';",
+        ].join('\n'),
+      },
+    ];
+    const deployment = await deployContractsFirst('project-1', files, 'local');
+    const updated = updateFilesWithContractAddresses(files, deployment.contractAddresses, deployment.chain);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockStartChain).toHaveBeenCalledWith('project-1', files);
+    expect(mockDeploy).toHaveBeenCalledWith(files, { rpcUrl: 'http://localhost:4100' });
+    expect(deployment.chain).toEqual(chain);
+    expect(updated[1].content).toContain(`export const CONTRACT_ADDRESS = '${address}';`);
+    expect(updated[1].content).toContain('  id: 31337,');
+    expect(updated[1].content).toContain('rpcUrls: { default: { http: ["http://localhost:4100"] } }');
+    expect(updated[1].content).not.toContain('export const CHAIN = baseSepolia;');
+  });
+
+  it('should throw when the local deployment fails', async () => {
+    process.env.CONTRACT_DEPLOY_TARGET = 'local';
+    mockDeploy.mockResolvedValue({
+      success: false,
+      contractAddresses: {},
+      errors: [{ file: 'contracts/scripts/deploy.js', message: 'Deploy script failed: revert', severity: 'error', category: 'solidity' }],
+      durationMs: 10,
+    });
+
+    await expect(deployContractsFirst('project-1', [], 'local')).rejects.toThrow('Local contract deployment failed: Deploy script failed: revert');
+    expect(mockStopChain).toHaveBeenCalledWith('project-1');
+  });
+});
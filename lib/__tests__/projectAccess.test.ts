@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+type Row = Record<string, unknown>;
+
+const mockGetUserBySessionToken = jest.fn<(token: string) => Promise<Row | null>>();
+const mockGetProjectById = jest.fn<(id: string) => Promise<Row | null>>();
+const mockGetProjectMember = jest.fn<(projectId: string, userId: string) => Promise<Row | null>>();
+const mockUpdateProject = jest.fn(async (id: string, updates: Row) => ({ id, ...updates }));
+const mockGetUserByFarcasterFid = jest.fn<(fid: string) => Promise<Row | undefined>>();
+const mockCreateUser = jest.fn(async (farcasterFid: string) => ({ id: `user-${farcasterFid}`, farcasterFid }));
+const mockAddProjectMember = jest.fn(async (projectId: string, userId: string, role: string, invitedBy?: string) => ({ projectId, userId, role, invitedBy }));
+const mockRemoveProjectMember = jest.fn(async () => true);
+
+jest.mock('../database', () => ({
+  getUserBySessionToken: (token: string) => mockGetUserBySessionToken(token),
+  getProjectById: (id: string) => mockGetProjectById(id),
+  getProjectMember: (projectId: string, userId: string) => mockGetProjectMember(projectId, userId),
+  getUserById: jest.fn(async () => null),
+  getUserByFarcasterFid: (fid: string) => mockGetUserByFarcasterFid(fid),
+  getUserByUsername: jest.fn(async () => undefined),
+  createUser: (farcasterFid: string) => mockCreateUser(farcasterFid),
+  getProjectMembers: jest.fn(async () => []),
+  addProjectMember: (projectId: string, userId: string, role: string, invitedBy?: string) =>
+    mockAddProjectMember(projectId, userId, role, invitedBy),
+  updateProjectMemberRole: jest.fn(async () => null),
+  removeProjectMember: () => mockRemoveProjectMember(),
+  getProjectFiles: jest.fn(async () => []),
+  getProjectPatches: jest.fn(async () => []),
+  getProjectDeployments: jest.fn(async () => []),
+  getProjectChatMessages: jest.fn(async () => []),
+  getProjectPatchById: jest.fn(async () => null),
+  updateProject: (id: string, updates: Row) => mockUpdateProject(id, updates),
+  deleteProject: jest.fn(async () => undefined),
+  revertPatch: jest.fn(async () => null),
+  saveProjectFiles: jest.fn(async () => []),
+  getLLMUsageSummary: jest.fn(async () => ({ totals: {}, byProject: [], byStage: [], byModel: [] })),
+}));
+
+jest.mock('../previewManager', () => ({
+  listGeneratedFiles: jest.fn(async () => ['src/app/page.tsx']),
+  getGeneratedFile: jest.fn(async () => 'export default function Page() {}'),
+  updateGeneratedFile: jest.fn(async () => undefined),
+  deleteGeneratedFile: jest.fn(async () => undefined),
+  updatePreviewFiles: jest.fn(async () => undefined),
+  getPreviewAccessToken: jest.fn(() => 'local'),
+  redeployToVercel: jest.fn(),
+  syncGeneratedFiles: jest.fn(async () => undefined),
+}));
+
+import { hasProjectRole, projectUpdatesForRole } from '../projectAccess';
+import * as projectRoute from '@/app/api/projects/[projectId]/route';
+import * as projectsRoute from '@/app/api/projects/route';
+import * as patchesRoute from '@/app/api/projects/[projectId]/patches/route';
+import * as filesRoute from '@/app/api/files/route';
+import * as publishRoute from '@/app/api/publish/route';
+import * as membersRoute from '@/app/api/projects/[projectId]/members/route';
+import * as memberRoute from '@/app/api/projects/[projectId]/members/[userId]/route';
+import * as usageRoute from '@/app/api/usage/route';
+import * as forkRoute from '@/app/api/projects/[projectId]/snapshots/[snapshotId]/fork/route';
+
+const OWNER = { id: 'owner-1', farcasterFid: 1, expiresAt: null };
+const STRANGER = { id: 'stranger-1', farcasterFid: 2, expiresAt: null };
+const EDITOR = { id: 'editor-1', farcasterFid: 3, expiresAt: null };
+const VIEWER = { id: 'viewer-1', farcasterFid: 4, expiresAt: null };
+const PROJECT = { id: 'project-1', userId: OWNER.id, name: 'Demo' };
+
+type RouteHandler = (request: NextRequest, context: { params: Promise<{ projectId: string }> }) => Promise<Response>;
+
+interface RouteCase {
+  name: string;
+  handler: RouteHandler;
+  request: (projectId: string) => { url: string; method: string; body?: Row };
+  // Status once the caller gets past the guard
+  allowedStatus: number;
+}
+
+const BASE = 'http://localhost:3000';
+
+const routes: RouteCase[] = [
+  {
+    name: 'GET /api/projects/[projectId]',
+    handler: projectRoute.GET as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects/${id}`, method: 'GET' }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'PUT /api/projects/[projectId]',
+    handler: projectRoute.PUT as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects/${id}`, method: 'PUT', body: { name: 'Renamed' } }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/projects/[projectId]',
+    handler: projectRoute.DELETE as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects/${id}`, method: 'DELETE' }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'PUT /api/projects',
+    handler: projectsRoute.PUT as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects`, method: 'PUT', body: { projectId: id, name: 'Renamed' } }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/projects',
+    handler: projectsRoute.DELETE as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects`, method: 'DELETE', body: { projectId: id } }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'GET /api/projects/[projectId]/patches',
+    handler: patchesRoute.GET as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects/${id}/patches`, method: 'GET' }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'POST /api/projects/[projectId]/patches',
+    handler: patchesRoute.POST as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/projects/${id}/patches`, method: 'POST', body: { patchId: 'patch-1', action: 'revert' } }),
+    allowedStatus: 404, // the patch itself doesn't exist
+  },
+  {
+    name: 'GET /api/files',
+    handler: filesRoute.GET as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/files?projectId=${id}&listFiles=true`, method: 'GET' }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'PUT /api/files',
+    handler: filesRoute.PUT as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/files`, method: 'PUT', body: { projectId: id, filename: 'src/app/page.tsx', content: '' } }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'DELETE /api/files',
+    handler: filesRoute.DELETE as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/files?projectId=${id}&filename=src/app/page.tsx`, method: 'DELETE' }),
+    allowedStatus: 200,
+  },
+  {
+    name: 'POST /api/publish',
+    handler: publishRoute.POST as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/publish`, method: 'POST', body: { projectId: id } }),
+    allowedStatus: 400, // no manifest
+  },
+  {
+    name: 'GET /api/usage',
+    handler: usageRoute.GET as RouteHandler,
+    request: (id) => ({ url: `${BASE}/api/usage?projectId=${id}`, method: 'GET' }),
+    allowedStatus: 200,
+  },
+];
+
+function call(route: RouteCase, projectId: string, token?: string): Promise<Response> {
+  const { url, method, body } = route.request(projectId);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const request = new NextRequest(url, {
+    method,
+    headers,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return route.handler(request, { params: Promise.resolve({ projectId }) });
+}
+
+describe('projectAccess', () => {
+  beforeEach(() => {
+    mockGetUserBySessionToken.mockImplementation(async (token) => {
+      if (token === 'owner-token') return OWNER;
+      if (token === 'stranger-token') return STRANGER;
+      if (token === 'editor-token') return EDITOR;
+      if (token === 'viewer-token') return VIEWER;
+      return null;
+    });
+    mockGetProjectById.mockImplementation(async (id) => (id === PROJECT.id ? PROJECT : null));
+    mockGetProjectMember.mockImplementation(async (projectId, userId) => {
+      if (userId === EDITOR.id) return { projectId, userId, role: 'editor' };
+      if (userId === VIEWER.id) return { projectId, userId, role: 'viewer' };
+      return null;
+    });
+    mockUpdateProject.mockClear();
+    mockAddProjectMember.mockClear();
+    mockCreateUser.mockClear();
+  });
+
+  it('should rank roles viewer < editor < owner', () => {
+    expect(hasProjectRole('owner', 'editor')).toBe(true);
+    expect(hasProjectRole('editor', 'editor')).toBe(true);
+    expect(hasProjectRole('viewer', 'editor')).toBe(false);
+    expect(hasProjectRole(null, 'viewer')).toBe(false);
+  });
+
+  describe.each(routes)('$name', (route) => {
+    it('should return 401 without a session', async () => {
+      const response = await call(route, PROJECT.id);
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'No session token provided' });
+    });
+
+    it('should return 401 for an unknown session', async () => {
+      const response = await call(route, PROJECT.id, 'forged-token');
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 404 for a missing project', async () => {
+      const response = await call(route, 'missing-project', 'owner-token');
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Project not found' });
+    });
+
+    it('should return 403 to a user without access', async () => {
+      const response = await call(route, PROJECT.id, 'stranger-token');
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Access denied' });
+    });
+
+    it('should let the owner through', async () => {
+      const response = await call(route, PROJECT.id, 'owner-token');
+      expect(response.status).toBe(route.allowedStatus);
+    });
+  });
+
+  describe('members', () => {
+    const byName = (name: string) => routes.find((route) => route.name === name)!;
+
+    it('should let viewers read but not write', async () => {
+      expect((await call(byName('GET /api/projects/[projectId]'), PROJECT.id, 'viewer-token')).status).toBe(200);
+      expect((await call(byName('GET /api/files'), PROJECT.id, 'viewer-token')).status).toBe(200);
+      expect((await call(byName('GET /api/usage'), PROJECT.id, 'viewer-token')).status).toBe(200);
+      expect((await call(byName('PUT /api/files'), PROJECT.id, 'viewer-token')).status).toBe(403);
+      expect((await call(byName('POST /api/projects/[projectId]/patches'), PROJECT.id, 'viewer-token')).status).toBe(403);
+    });
+
+    it('should not let viewers fork a project out of the owner\'s control', async () => {
+      const request = new NextRequest(`${BASE}/api/projects/${PROJECT.id}/snapshots/snapshot-1/fork`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer viewer-token' },
+      });
+      const response = await forkRoute.POST(request, { params: Promise.resolve({ projectId: PROJECT.id, snapshotId: 'snapshot-1' }) });
+      expect(response.status).toBe(403);
+    });
+
+    it('should let editors write but not delete or publish', async () => {
+      expect((await call(byName('PUT /api/files'), PROJECT.id, 'editor-token')).status).toBe(200);
+      expect((await call(byName('DELETE /api/files'), PROJECT.id, 'editor-token')).status).toBe(200);
+      expect((await call(byName('DELETE /api/projects/[projectId]'), PROJECT.id, 'editor-token')).status).toBe(403);
+      expect((await call(byName('POST /api/publish'), PROJECT.id, 'editor-token')).status).toBe(403);
+    });
+
+    it('should not let editors take over a project through an update', async () => {
+      const request = new NextRequest(`${BASE}/api/projects/${PROJECT.id}`, {
+        method: 'PUT',
+        headers: { Authorization: 'Bearer editor-token' },
+        body: JSON.stringify({ name: 'Mine now', userId: EDITOR.id, status: 'deleted' }),
+      });
+      const response = await projectRoute.PUT(request, { params: Promise.resolve({ projectId: PROJECT.id }) });
+      expect(response.status).toBe(200);
+      expect(mockUpdateProject).toHaveBeenCalledWith(PROJECT.id, { name: 'Mine now' });
+    });
+
+    it('should drop server-managed fields from an editor update', async () => {
+      const request = new NextRequest(`${BASE}/api/projects`, {
+        method: 'PUT',
+        headers: { Authorization: 'Bearer editor-token' },
+        body: JSON.stringify({
+          projectId: PROJECT.id,
+          description: 'Edited',
+          previewUrl: 'https://evil.example.com',
+          vercelUrl: 'https://evil.example.com',
+          updatedAt: '2000-01-01T00:00:00Z',
+        }),
+      });
+      const response = await (projectsRoute.PUT as RouteHandler)(request, { params: Promise.resolve({ projectId: PROJECT.id }) });
+      expect(response.status).toBe(200);
+      expect(mockUpdateProject).toHaveBeenCalledWith(PROJECT.id, { description: 'Edited' });
+    });
+
+    it('should keep status changes for owners', () => {
+      expect(projectUpdatesForRole({ name: 'A', status: 'archived', id: 'x' }, 'owner')).toEqual({ name: 'A', status: 'archived' });
+      expect(projectUpdatesForRole({ name: 'A', status: 'archived' }, 'editor')).toEqual({ name: 'A' });
+      expect(projectUpdatesForRole({ name: 'A', previewUrl: 'https://x', publishedAt: null }, 'owner')).toEqual({ name: 'A' });
+    });
+
+    it('should let owners invite by fid, creating the user if needed', async () => {
+      mockGetUserByFarcasterFid.mockResolvedValue(undefined);
+      const request = new NextRequest(`${BASE}/api/projects/${PROJECT.id}/members`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer owner-token' },
+        body: JSON.stringify({ fid: 1234, role: 'viewer' }),
+      });
+      const response = await membersRoute.POST(request, { params: Promise.resolve({ projectId: PROJECT.id }) });
+      expect(response.status).toBe(200);
+      expect(mockCreateUser).toHaveBeenCalledWith('1234');
+      expect(mockAddProjectMember).toHaveBeenCalledWith(PROJECT.id, 'user-1234', 'viewer', OWNER.id);
+    });
+
+    it('should reject invitations from editors and unknown roles', async () => {
+      const invite = (token: string, role: string) => membersRoute.POST(
+        new NextRequest(`${BASE}/api/projects/${PROJECT.id}/members`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ fid: 1234, role }),
+        }),
+        { params: Promise.resolve({ projectId: PROJECT.id }) }
+      );
+      expect((await invite('editor-token', 'editor')).status).toBe(403);
+      expect((await invite('owner-token', 'admin')).status).toBe(400);
+      expect(mockAddProjectMember).not.toHaveBeenCalled();
+    });
+
+    it('should let members leave but not remove each other', async () => {
+      const remove = (token: string, userId: string) => memberRoute.DELETE(
+        new NextRequest(`${BASE}/api/projects/${PROJECT.id}/members/${userId}`, {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        { params: Promise.resolve({ projectId: PROJECT.id, userId }) }
+      );
+      expect((await remove('editor-token', VIEWER.id)).status).toBe(403);
+      expect((await remove('viewer-token', VIEWER.id)).status).toBe(200);
+      expect((await remove('owner-token', EDITOR.id)).status).toBe(200);
+    });
+  });
+
+  it('should return 400 when a body route has no projectId', async () => {
+    const request = new NextRequest(`${BASE}/api/files`, {
+      method: 'PUT',
+      headers: { Authorization: 'Bearer owner-token' },
+      body: JSON.stringify({ filename: 'a.ts', content: '' }),
+    });
+    const response = await filesRoute.PUT(request, { params: Promise.resolve({}) } as never);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Missing projectId' });
+  });
+
+  it('should expose the caller role on the project', async () => {
+    const response = await call(routes[0], PROJECT.id, 'owner-token');
+    const data = await response.json();
+    expect(data.project.role).toBe('owner');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  tokenize,
+  chunkFile,
+  buildChunkIndex,
+  rankChunks,
+  getDependencyClosure,
+  selectRelevantFiles,
+  describeOmittedFiles,
+} from '../projectIndex';
+
+const files = [
+  {
+    filename: 'src/app/page.tsx',
+    content: [
+      "'use client';",
+      "import { Leaderboard } from '@/components/Leaderboard';",
+      "import { ProfileCard } from '../components/ProfileCard';",
+      '',
+      'export default function Home() {',
+      '  return <main><ProfileCard /><Leaderboard /></main>;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    filename: 'src/components/Leaderboard.tsx',
+    content: [
+      "import { useScores } from '../hooks/useScores';",
+      '',
+      'export function Leaderboard() {',
+      '  const scores = useScores();',
+      '  return <ol>{scores.map(s => <li key={s.player}>{s.player}: {s.points}</li>)}</ol>;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    filename: 'src/hooks/useScores.ts',
+    content: [
+      "import { useState } from 'react';",
+      '',
+      'export interface Score { player: string; points: number }',
+      '',
+      'export function useScores(): Score[] {',
+      '  const [scores] = useState<Score[]>([]);',
+      '  return scores;',
+      '}',
+    ].join('\n'),
+  },
+  {
+    filename: 'src/components/ProfileCard.tsx',
+    content: [
+      'export function ProfileCard() {',
+      '  return <div className="avatar">Your profile and avatar</div>;',
+      '}',
+    ].join('\n'),
+  },
+  { filename: 'README.md', content: '# Game\n\nA miniapp with a leaderboard and profiles.' },
+];
+
+describe('projectIndex', () => {
+  it('should split identifiers into searchable terms', () => {
+    expect(tokenize('useScoreBoard')).toEqual(['usescoreboard', 'use', 'score', 'board']);
+    expect(tokenize('the players')).toEqual(['player']);
+  });
+
+  it('should chunk TS files at declarations with a leading module chunk', () => {
+    const chunks = chunkFile(files[2]);
+
+    expect(chunks.map(c => [c.kind, c.symbol, c.startLine, c.endLine])).toEqual([
+      ['module', null, 1, 1],
+      ['type', 'Score', 3, 3],
+      ['hook', 'useScores', 5, 8],
+    ]);
+  });
+
+  it('should classify components and fall back to line windows for other files', () => {
+    expect(chunkFile(files[3])[0]).toMatchObject({ kind: 'component', symbol: 'ProfileCard' });
+    expect(chunkFile(files[4])).toEqual([expect.objectContaining({ kind: 'text', startLine: 1, endLine: 3 })]);
+  });
+
+  it('should reuse stored chunks only while the content hash matches', () => {
+    const stored = chunkFile(files[3]).map(chunk => ({ ...chunk, symbol: 'FromStore' }));
+
+    expect(buildChunkIndex([files[3]], stored)[0].symbol).toBe('FromStore');
+    expect(buildChunkIndex([{ ...files[3], content: files[3].content + '\n' }], stored)[0].symbol).toBe('ProfileCard');
+  });
+
+  it('should rank the chunks that mention the query first', () => {
+    const ranked = rankChunks(buildChunkIndex(files), 'show player points on the leaderboard');
+
+    expect(ranked[0].chunk.filename).toBe('src/components/Leaderboard.tsx');
+    expect(ranked.some(r => r.chunk.filename === 'src/components/ProfileCard.tsx')).toBe(false);
+  });
+
+  it('should follow relative and @/ imports transitively', () => {
+    expect(getDependencyClosure('src/app/page.tsx', files).sort()).toEqual([
+      'src/components/Leaderboard.tsx',
+      'src/components/ProfileCard.tsx',
+      'src/hooks/useScores.ts',
+    ]);
+  });
+
+  it('should select relevant files with their dependencies within the budget', () => {
+    const selection = selectRelevantFiles(files, 'sort the leaderboard by points', buildChunkIndex(files), { maxChars: 600 });
+
+    expect(selection.files.map(f => f.filename)).toEqual(['src/components/Leaderboard.tsx', 'src/hooks/useScores.ts', 'README.md']);
+    expect(selection.omitted).toEqual(['src/app/page.tsx', 'src/components/ProfileCard.tsx']);
+  });
+
+  it('should always include pinned files', () => {
+    const selection = selectRelevantFiles(files, 'sort the leaderboard', buildChunkIndex(files), {
+      maxChars: 0,
+      pinnedFiles: ['src/components/ProfileCard.tsx'],
+    });
+
+    expect(selection.files.map(f => f.filename)).toEqual(['src/components/ProfileCard.tsx']);
+  });
+
+  it('should outline omitted files with their symbols', () => {
+    const outline = describeOmittedFiles(['src/hooks/useScores.ts', 'README.md'], buildChunkIndex(files));
+
+    expect(outline).toContain('- src/hooks/useScores.ts: Score, useScores');
+    expect(outline).toContain('- README.md');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterAll } from '@jest/globals';
+import { ProjectLanguageService } from '../projectLanguageService';
+
+const tsconfig = JSON.stringify({
+  compilerOptions: {
+    target: 'ES2017',
+    lib: ['dom', 'esnext'],
+    strict: true,
+    module: 'esnext',
+    moduleResolution: 'bundler',
+    jsx: 'preserve',
+    paths: { '@/*': ['./src/*'] },
+  },
+});
+
+const files = [
+  { filename: 'tsconfig.json', content: tsconfig },
+  {
+    filename: 'src/lib/score.ts',
+    content: [
+      'export interface Score { player: string; points: number }',
+      '',
+      'export function totalPoints(scores: Score[]): number {',
+      '  return scores.reduce((sum, s) => sum + s.points, 0);',
+      '}',
+    ].join('\n'),
+  },
+  {
+    filename: 'src/components/Total.tsx',
+    content: [
+      "import { useState } from 'react';",
+      "import { totalPoints, type Score } from '@/lib/score';",
+      '',
+      'export function Total() {',
+      '  const [scores] = useState<Score[]>([]);',
+      '  return <span>{totalPoints(scores)}</span>;',
+      '}',
+    ].join('\n'),
+  },
+];
+
+const offsetOf = (content: string, text: string) => content.indexOf(text);
+
+describe('ProjectLanguageService', () => {
+  const service = new ProjectLanguageService('test-project', files);
+  const total = files[2].content;
+
+  afterAll(() => service.dispose());
+
+  it('should resolve path aliases and dependency types without errors', () => {
+    expect(service.getDiagnostics('src/components/Total.tsx')).toEqual([]);
+  }, 30000);
+
+  it('should report type errors in the validator format, including unsaved edits', () => {
+    service.setFile('src/components/Total.tsx', total.replace('totalPoints(scores)', 'totalPoints("nope")'));
+
+    const diagnostics = service.getDiagnostics('src/components/Total.tsx');
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        file: 'src/components/Total.tsx',
+        line: 6,
+        column: 29,
+        severity: 'error',
+        category: 'typescript',
+        code: 'TS2345',
+        message: expect.stringMatching(/^TS2345: Argument of type 'string'/),
+      }),
+    ]);
+
+    service.setFile('src/components/Total.tsx', total);
+  });
+
+  it('should go to definitions in other project files', () => {
+    const definitions = service.getDefinitions('src/components/Total.tsx', offsetOf(total, 'totalPoints(scores)'));
+
+    expect(definitions).toEqual([
+      expect.objectContaining({
+        filename: 'src/lib/score.ts',
+        range: { startLineNumber: 3, startColumn: 17, endLineNumber: 3, endColumn: 28 },
+      }),
+    ]);
+  });
+
+  it('should complete members from resolved types', () => {
+    const content = total.replace('totalPoints(scores)', 'scores[0].');
+    service.setFile('src/components/Total.tsx', content);
+
+    const names = service.getCompletions('src/components/Total.tsx', offsetOf(content, 'scores[0].') + 'scores[0].'.length).map(c => c.name);
+
+    expect(names).toEqual(expect.arrayContaining(['player', 'points']));
+    service.setFile('src/components/Total.tsx', total);
+  });
+
+  it('should describe symbols on hover', () => {
+    const hover = service.getHover('src/components/Total.tsx', offsetOf(total, 'totalPoints(scores)'));
+    expect(hover?.text).toBe('(alias) totalPoints(scores: Score[]): number\nimport totalPoints');
+  });
+
+  it('should rename across files and refuse dependency symbols', () => {
+    const result = service.getRenameEdits('src/components/Total.tsx', offsetOf(total, 'totalPoints(scores)'), 'sumPoints');
+
+    expect('edits' in result && result.edits.map(e => [e.filename, e.edits.length])).toEqual([
+      ['src/components/Total.tsx', 2],
+      ['src/lib/score.ts', 1],
+    ]);
+    expect(service.getRenameEdits('src/components/Total.tsx', offsetOf(total, 'useState<'), 'useThing')).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+type Row = Record<string, unknown>;
+
+const mockCreateUserSession = jest.fn(async (userId: string, sessionToken: string, expiresAt: Date, options: Row) => ({
+  id: 'session-1', userId, sessionToken, expiresAt, ...options,
+}));
+const mockRotateUserSession = jest.fn<(oldHash: string, next: Row) => Promise<Row | null>>();
+const mockGetSessionByPreviousRefreshTokenHash = jest.fn<(hash: string) => Promise<Row | null>>();
+const mockDeleteSessionById = jest.fn<(id: string, userId: string) => Promise<boolean>>(async () => true);
+const mockTouchUserSession = jest.fn<(id: string) => Promise<void>>(async () => undefined);
+const mockDeleteExpiredSessions = jest.fn(async () => 3);
+
+jest.mock('../database', () => ({
+  createUserSession: (userId: string, sessionToken: string, expiresAt: Date, options: Row) =>
+    mockCreateUserSession(userId, sessionToken, expiresAt, options),
+  rotateUserSession: (oldHash: string, next: Row) => mockRotateUserSession(oldHash, next),
+  getSessionByPreviousRefreshTokenHash: (hash: string) => mockGetSessionByPreviousRefreshTokenHash(hash),
+  deleteSessionById: (id: string, userId: string) => mockDeleteSessionById(id, userId),
+  touchUserSession: (id: string) => mockTouchUserSession(id),
+  deleteExpiredSessions: () => mockDeleteExpiredSessions(),
+}));
+
+import {
+  hashToken,
+  issueSession,
+  markSessionSeen,
+  refreshSession,
+  sweepExpiredSessions,
+  SessionError,
+  SESSION_TTL_MS,
+  REFRESH_TOKEN_TTL_MS,
+} from '../sessions';
+
+const device = { userAgent: 'Mozilla/5.0 (iPhone)', ipAddress: '203.0.113.7' };
+
+describe('sessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('stores only the hash of a newly issued refresh token', async () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const session = await issueSession('user-1', device, now);
+
+    expect(session.sessionId).toBe('session-1');
+    expect(session.expiresAt.getTime()).toBe(now.getTime() + SESSION_TTL_MS);
+    expect(session.refreshExpiresAt.getTime()).toBe(now.getTime() + REFRESH_TOKEN_TTL_MS);
+
+    const [userId, sessionToken, , options] = mockCreateUserSession.mock.calls[0];
+    expect(userId).toBe('user-1');
+    expect(sessionToken).toBe(session.sessionToken);
+    expect(options).toMatchObject({ refreshTokenHash: hashToken(session.refreshToken), ...device });
+    expect(JSON.stringify(options)).not.toContain(session.refreshToken);
+  });
+
+  it('rotates both tokens on refresh', async () => {
+    const refreshExpiresAt = new Date('2026-02-01T00:00:00Z');
+    mockRotateUserSession.mockResolvedValue({ id: 'session-1', userId: 'user-1', refreshExpiresAt });
+
+    const session = await refreshSession('old-refresh-token', device);
+
+    const [oldHash, next] = mockRotateUserSession.mock.calls[0];
+    expect(oldHash).toBe(hashToken('old-refresh-token'));
+    expect(next).toMatchObject({ sessionToken: session.sessionToken, refreshTokenHash: hashToken(session.refreshToken) });
+    expect(session.refreshToken).not.toBe('old-refresh-token');
+    expect(session.refreshExpiresAt).toBe(refreshExpiresAt);
+  });
+
+  it('rejects an unknown refresh token without revoking anything', async () => {
+    mockRotateUserSession.mockResolvedValue(null);
+    mockGetSessionByPreviousRefreshTokenHash.mockResolvedValue(null);
+
+    await expect(refreshSession('unknown', device)).rejects.toBeInstanceOf(SessionError);
+    expect(mockDeleteSessionById).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session when a rotated-out refresh token is replayed', async () => {
+    mockRotateUserSession.mockResolvedValue(null);
+    mockGetSessionByPreviousRefreshTokenHash.mockResolvedValue({ id: 'session-1', userId: 'user-1' });
+
+    await expect(refreshSession('stolen', device)).rejects.toBeInstanceOf(SessionError);
+    expect(mockGetSessionByPreviousRefreshTokenHash).toHaveBeenCalledWith(hashToken('stolen'));
+    expect(mockDeleteSessionById).toHaveBeenCalledWith('session-1', 'user-1');
+  });
+
+  it('only records last-seen once every few minutes', async () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+
+    await markSessionSeen('session-1', new Date(now.getTime() - 60 * 1000), now);
+    expect(mockTouchUserSession).not.toHaveBeenCalled();
+
+    await markSessionSeen('session-1', new Date(now.getTime() - 10 * 60 * 1000), now);
+    expect(mockTouchUserSession).toHaveBeenCalledWith('session-1');
+
+    mockTouchUserSession.mockRejectedValueOnce(new Error('db down'));
+    await expect(markSessionSeen('session-1', null, now)).resolves.toBeUndefined();
+  });
+
+  it('sweeps expired sessions at most once per interval', async () => {
+    const now = Date.now();
+
+    await expect(sweepExpiredSessions(now)).resolves.toBe(3);
+    await expect(sweepExpiredSessions(now + 1000)).resolves.toBe(0);
+    expect(mockDeleteExpiredSessions).toHaveBeenCalledTimes(1);
+
+    await expect(sweepExpiredSessions(now + 2 * 60 * 60 * 1000)).resolves.toBe(3);
+    expect(mockDeleteExpiredSessions).toHaveBeenCalledTimes(2);
+  });
+});
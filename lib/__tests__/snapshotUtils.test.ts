@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildSnapshotTree, diffSnapshotTrees, mergeFileSets, hashContent } from '../snapshotUtils';
+
+describe('snapshotUtils', () => {
+  describe('buildSnapshotTree', () => {
+    it('should produce the same tree hash regardless of file order', () => {
+      const a = buildSnapshotTree([
+        { filename: 'a.ts', content: 'export const a = 1;' },
+        { filename: 'b.ts', content: 'export const b = 2;' },
+      ]);
+      const b = buildSnapshotTree([
+        { filename: 'b.ts', content: 'export const b = 2;' },
+        { filename: 'a.ts', content: 'export const a = 1;' },
+      ]);
+
+      expect(a.treeHash).toBe(b.treeHash);
+      expect(a.tree['a.ts']).toBe(hashContent('export const a = 1;'));
+    });
+
+    it('should store identical contents once', () => {
+      const { blobs } = buildSnapshotTree([
+        { filename: 'a.ts', content: 'same' },
+        { filename: 'b.ts', content: 'same' },
+      ]);
+
+      expect(blobs).toHaveLength(1);
+    });
+  });
+
+  describe('diffSnapshotTrees', () => {
+    it('should classify added, removed and modified files', () => {
+      const base = buildSnapshotTree([
+        { filename: 'kept.ts', content: 'kept' },
+        { filename: 'changed.ts', content: 'one\ntwo' },
+        { filename: 'removed.ts', content: 'gone' },
+      ]);
+      const target = buildSnapshotTree([
+        { filename: 'kept.ts', content: 'kept' },
+        { filename: 'changed.ts', content: 'one\nthree' },
+        { filename: 'added.ts', content: 'new' },
+      ]);
+      const blobs = new Map([...base.blobs, ...target.blobs].map(b => [b.hash, b.content]));
+
+      const changes = diffSnapshotTrees(base.tree, target.tree, blobs);
+
+      expect(changes.map(c => [c.filename, c.status])).toEqual([
+        ['added.ts', 'added'],
+        ['changed.ts', 'modified'],
+        ['removed.ts', 'removed'],
+      ]);
+    });
+  });
+
+  describe('mergeFileSets', () => {
+    it('should overlay changed files and keep untouched ones', () => {
+      const merged = mergeFileSets(
+        [
+          { filename: 'a.ts', content: 'old' },
+          { filename: 'b.ts', content: 'untouched' },
+        ],
+        [
+          { filename: 'a.ts', content: 'new' },
+          { filename: 'c.ts', content: 'created' },
+        ]
+      );
+
+      expect(merged).toEqual([
+        { filename: 'a.ts', content: 'new' },
+        { filename: 'b.ts', content: 'untouched' },
+        { filename: 'c.ts', content: 'created' },
+      ]);
+    });
+  });
+});
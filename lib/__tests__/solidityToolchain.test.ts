@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { hasContracts, parseSolidityCompileOutput, testFailuresToErrors } from '../solidityToolchain';
+
+describe('solidityToolchain', () => {
+  describe('parseSolidityCompileOutput', () => {
+    it('should map solc diagnostics to contract files', () => {
+      const output = [
+        'DeclarationError: Undeclared identifier.',
+        '  --> contracts/Token.sol:12:9:',
+        '   |',
+        '12 |         balance += amount;',
+        '',
+        'Warning: Unused local variable.',
+        '  --> contracts/Token.sol:20:5:',
+        '',
+        'Error HH600: Compilation failed',
+      ].join('\n');
+
+      const { errors, warnings } = parseSolidityCompileOutput(output);
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          file: 'contracts/contracts/Token.sol',
+          line: 12,
+          column: 9,
+          message: 'DeclarationError: Undeclared identifier.',
+          severity: 'error',
+          category: 'solidity',
+        }),
+      ]);
+      expect(warnings).toEqual([
+        expect.objectContaining({ file: 'contracts/contracts/Token.sol', line: 20, severity: 'warning' }),
+      ]);
+    });
+
+    it('should fall back to Hardhat errors without a source location', () => {
+      const output = 'Error HH404: File @openzeppelin/contracts/token/ERC20/ERC21.sol, imported from contracts/Token.sol, not found.';
+
+      const { errors } = parseSolidityCompileOutput(output);
+
+      expect(errors).toEqual([
+        expect.objectContaining({ file: 'contracts', code: 'HH404', severity: 'error' }),
+      ]);
+    });
+  });
+
+  describe('testFailuresToErrors', () => {
+    it('should report failed tests only', () => {
+      const errors = testFailuresToErrors([
+        { title: 'mints', fullTitle: 'Token mints', file: 'test/Token.ts', passed: true },
+        { title: 'burns', fullTitle: 'Token burns', file: 'test/Token.ts', passed: false, error: 'expected 0 to equal 10' },
+      ]);
+
+      expect(errors).toEqual([
+        expect.objectContaining({
+          file: 'contracts/test/Token.ts',
+          message: 'Test failed: Token burns - expected 0 to equal 10',
+          code: 'SOLIDITY_TEST_FAILED',
+        }),
+      ]);
+    });
+  });
+
+  it('should only detect Solidity sources under contracts/', () => {
+    expect(hasContracts([{ filename: 'contracts/contracts/Token.sol' }])).toBe(true);
+    expect(hasContracts([{ filename: 'contracts/hardhat.config.ts' }, { filename: 'src/app/page.tsx' }])).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_TEMPLATE_ID,
+  getTemplate,
+  listTemplates,
+  resolveTemplate,
+  applyTemplateToIntent,
+  applyTemplateFiles,
+} from '../templateCatalog';
+import type { IntentSpec } from '../llmOptimizer';
+
+function makeIntent(overrides: Partial<IntentSpec> = {}): IntentSpec {
+  return {
+    feature: 'test',
+    requirements: ['do the thing'],
+    targetFiles: ['src/app/page.tsx'],
+    dependencies: [],
+    needsChanges: true,
+    isWeb3: false,
+    storageType: 'localStorage',
+    contractTemplate: 'none',
+    ...overrides,
+  };
+}
+
+describe('templateCatalog', () => {
+  it('should ship the built-in scaffolds', () => {
+    const ids = listTemplates().map(t => t.id);
+    expect(ids).toEqual(expect.arrayContaining([DEFAULT_TEMPLATE_ID, 'game', 'poll', 'storefront', 'token-gated-feed']));
+  });
+
+  describe('resolveTemplate', () => {
+    it('should prefer the template the user picked over Stage 1', () => {
+      expect(resolveTemplate(makeIntent({ templateId: 'game' }), 'poll').id).toBe('poll');
+    });
+
+    it('should use Stage 1 when nothing was picked', () => {
+      expect(resolveTemplate(makeIntent({ templateId: 'storefront' })).id).toBe('storefront');
+    });
+
+    it('should fall back to the blank template for unknown ids', () => {
+      expect(resolveTemplate(makeIntent({ templateId: 'casino' })).id).toBe(DEFAULT_TEMPLATE_ID);
+    });
+  });
+
+  describe('applyTemplateToIntent', () => {
+    it('should keep a supported contract and prepend the template requirements', () => {
+      const intent = applyTemplateToIntent(
+        makeIntent({ isWeb3: true, storageType: 'blockchain', contractTemplate: 'ERC20' }),
+        getTemplate('storefront')!
+      );
+
+      expect(intent.templateId).toBe('storefront');
+      expect(intent.contractTemplate).toBe('ERC20');
+      expect(intent.requirements[intent.requirements.length - 1]).toBe('do the thing');
+      expect(intent.requirements.length).toBe(2);
+    });
+
+    it('should replace a contract the template does not support', () => {
+      const intent = applyTemplateToIntent(
+        makeIntent({ isWeb3: true, storageType: 'blockchain', contractTemplate: 'ERC721' }),
+        getTemplate('poll')!
+      );
+
+      expect(intent.contractTemplate).toBe('none');
+      expect(intent.isWeb3).toBe(false);
+      expect(intent.storageType).toBe('localStorage');
+    });
+
+    it('should switch to the template contract when Stage 1 chose none', () => {
+      const intent = applyTemplateToIntent(makeIntent(), getTemplate('token-gated-feed')!);
+
+      expect(intent.contractTemplate).toBe('ERC721');
+      expect(intent.isWeb3).toBe(true);
+      expect(intent.storageType).toBe('blockchain');
+    });
+  });
+
+  describe('applyTemplateFiles', () => {
+    it('should replace matching files and add the rest', () => {
+      const boilerplate = [
+        { filename: 'src/app/page.tsx', content: 'boilerplate page' },
+        { filename: 'package.json', content: '{}' },
+      ];
+      const files = applyTemplateFiles(boilerplate, getTemplate('game')!);
+
+      expect(files.find(f => f.filename === 'src/app/page.tsx')?.content).toContain('GameBoard');
+      expect(files.find(f => f.filename === 'package.json')?.content).toBe('{}');
+      expect(files.some(f => f.filename === 'src/components/game/GameBoard.tsx')).toBe(true);
+      expect(boilerplate[0].content).toBe('boilerplate page');
+    });
+
+    it('should leave the boilerplate alone for the blank template', () => {
+      const boilerplate = [{ filename: 'src/app/page.tsx', content: 'boilerplate page' }];
+      expect(applyTemplateFiles(boilerplate, getTemplate(DEFAULT_TEMPLATE_ID)!)).toBe(boilerplate);
+    });
+  });
+});
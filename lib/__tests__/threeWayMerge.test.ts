@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  mergeThreeWay,
+  mergeChangedFiles,
+  parseConflictBlocks,
+  resolveConflict,
+  hasConflictMarkers,
+} from '../threeWayMerge';
+
+const base = [
+  "import { useState } from 'react';",
+  '',
+  'export function Counter() {',
+  '  const [count, setCount] = useState(0);',
+  '  return (',
+  '    <div>',
+  '      <h1>Counter</h1>',
+  '      <button onClick={() => setCount(count + 1)}>Add</button>',
+  '    </div>',
+  '  );',
+  '}',
+].join('\n');
+
+const edit = (from: string, to: string, content = base) => {
+  expect(content).toContain(from);
+  return content.replace(from, to);
+};
+
+describe('mergeThreeWay', () => {
+  it('should take whichever side changed when only one did', () => {
+    const local = edit('<h1>Counter</h1>', '<h1>Clicks</h1>');
+
+    expect(mergeThreeWay(base, local, base)).toEqual({ content: local, conflicts: 0 });
+    expect(mergeThreeWay(base, base, local)).toEqual({ content: local, conflicts: 0 });
+  });
+
+  it('should combine changes to different lines', () => {
+    const local = edit('<h1>Counter</h1>', '<h1>Clicks</h1>');
+    const incoming = edit("import { useState } from 'react';", "import { useState } from 'react';\nimport { sdk } from '@farcaster/miniapp-sdk';");
+
+    const result = mergeThreeWay(base, local, incoming);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toContain('<h1>Clicks</h1>');
+    expect(result.content).toContain("import { sdk } from '@farcaster/miniapp-sdk';");
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const both = edit('Add</button>', 'Add one</button>');
+    expect(mergeThreeWay(base, both, both)).toEqual({ content: both, conflicts: 0 });
+  });
+
+  it('should mark overlapping changes as conflicts with local first', () => {
+    const local = edit('<h1>Counter</h1>', '<h1>Clicks</h1>');
+    const incoming = edit('<h1>Counter</h1>', '<h1 className="title">Counter</h1>');
+
+    const result = mergeThreeWay(base, local, incoming, { local: 'your edits', incoming: 'AI changes' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain([
+      '    <div>',
+      '<<<<<<< your edits',
+      '      <h1>Clicks</h1>',
+      '=======',
+      '      <h1 className="title">Counter</h1>',
+      '>>>>>>> AI changes',
+      '      <button onClick={() => setCount(count + 1)}>Add</button>',
+    ].join('\n'));
+  });
+});
+
+describe('mergeChangedFiles', () => {
+  it('should only merge files edited since the base and report conflicts', () => {
+    const baseFiles = [
+      { filename: 'src/Counter.tsx', content: base },
+      { filename: 'src/page.tsx', content: 'export default function Page() {}' },
+    ];
+    const latestFiles = [
+      { filename: 'src/Counter.tsx', content: edit('<h1>Counter</h1>', '<h1>Clicks</h1>') },
+      baseFiles[1],
+    ];
+    const jobFiles = [
+      { filename: 'src/Counter.tsx', content: edit('<h1>Counter</h1>', '<h1>Taps</h1>') },
+      { filename: 'src/page.tsx', content: 'export default function Page() { return null; }' },
+      { filename: 'src/new.ts', content: 'export const created = true;' },
+    ];
+
+    const result = mergeChangedFiles(baseFiles, latestFiles, jobFiles);
+
+    expect(result.mergedFiles).toEqual(['src/Counter.tsx']);
+    expect(result.conflictedFiles).toEqual(['src/Counter.tsx']);
+    expect(result.files.slice(1)).toEqual(jobFiles.slice(1));
+    expect(hasConflictMarkers(result.files[0].content)).toBe(true);
+  });
+
+  it('should merge again onto edits saved after the first merge', () => {
+    const firstSave = edit("import { useState } from 'react';", "import { useState, useEffect } from 'react';");
+    const first = mergeChangedFiles(
+      [{ filename: 'src/Counter.tsx', content: base }],
+      [{ filename: 'src/Counter.tsx', content: firstSave }],
+      [{ filename: 'src/Counter.tsx', content: edit('Add</button>', 'Add one</button>') }]
+    );
+
+    // The job's merged output is the base for the next round, not the original file
+    const secondSave = edit('useState(0)', 'useState(1)', firstSave);
+    const second = mergeChangedFiles(
+      [{ filename: 'src/Counter.tsx', content: firstSave }],
+      [{ filename: 'src/Counter.tsx', content: secondSave }],
+      first.files
+    );
+
+    expect(second.conflictedFiles).toEqual([]);
+    expect(second.files[0].content).toBe(edit('Add</button>', 'Add one</button>', secondSave));
+  });
+});
+
+describe('conflict resolution', () => {
+  const local = edit('<h1>Counter</h1>', '<h1>Clicks</h1>');
+  const incoming = edit('<h1>Counter</h1>', '<h1>Taps</h1>');
+  const { content } = mergeThreeWay(base, local, incoming);
+
+  it('should parse conflict blocks with their labels', () => {
+    expect(parseConflictBlocks(content)).toEqual([{
+      index: 0,
+      localLabel: 'your edits',
+      incomingLabel: 'AI changes',
+      local: ['      <h1>Clicks</h1>'],
+      incoming: ['      <h1>Taps</h1>'],
+    }]);
+  });
+
+  it('should resolve a block to either or both sides', () => {
+    expect(resolveConflict(content, 0, 'local')).toBe(local);
+    expect(resolveConflict(content, 0, 'incoming')).toBe(incoming);
+    expect(resolveConflict(content, 0, 'both')).toContain('      <h1>Clicks</h1>\n      <h1>Taps</h1>');
+    expect(hasConflictMarkers(resolveConflict(content, 0, 'local'))).toBe(false);
+  });
+});
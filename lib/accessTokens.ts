@@ -0,0 +1,132 @@
+import { logger } from "./logger";
+/**
+ * Personal access tokens
+ *
+ * Long-lived Bearer tokens for scripts and CI, created from the profile menu.
+ * They are recognisable by their `mdpat_` prefix, stored only as a sha256 hash,
+ * and limited to the scopes picked at creation:
+ *  - projects:read  read projects, files, chat history and snapshots
+ *  - generate       create and edit apps via /api/generate and follow their jobs
+ *  - publish        publish projects
+ *
+ * A token can only reach the routes listed in SCOPED_ROUTES; everything else
+ * (including managing sessions and other tokens) still needs a signed-in session.
+ */
+
+import { randomBytes } from "crypto";
+import {
+  createPersonalAccessToken,
+  getUserByPersonalAccessTokenHash,
+  touchPersonalAccessToken,
+} from "./database";
+import { hashToken } from "./sessions";
+
+export const ACCESS_TOKEN_PREFIX = "mdpat_";
+export const ACCESS_TOKEN_SCOPES = ["projects:read", "generate", "publish"] as const;
+export type AccessTokenScope = typeof ACCESS_TOKEN_SCOPES[number];
+
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export class AccessTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessTokenError';
+  }
+}
+
+// Method + path pattern (":param" matches one segment) each scope unlocks
+const SCOPED_ROUTES: { scope: AccessTokenScope; method: string; path: string }[] = [
+  { scope: "projects:read", method: "GET", path: "/api/projects" },
+  { scope: "projects:read", method: "GET", path: "/api/projects/:projectId" },
+  { scope: "projects:read", method: "GET", path: "/api/projects/:projectId/chat" },
+  { scope: "projects:read", method: "GET", path: "/api/projects/:projectId/members" },
+  { scope: "projects:read", method: "GET", path: "/api/projects/:projectId/patches" },
+  { scope: "projects:read", method: "GET", path: "/api/projects/:projectId/snapshots" },
+  { scope: "projects:read", method: "GET", path: "/api/projects/:projectId/snapshots/:snapshotId/diff" },
+  { scope: "projects:read", method: "GET", path: "/api/files" },
+  { scope: "projects:read", method: "GET", path: "/api/chat" },
+  { scope: "generate", method: "POST", path: "/api/generate" },
+  { scope: "generate", method: "PATCH", path: "/api/generate" },
+  { scope: "generate", method: "GET", path: "/api/jobs/:id" },
+  { scope: "generate", method: "GET", path: "/api/jobs/:id/events" },
+  { scope: "generate", method: "POST", path: "/api/jobs/:id/cancel" },
+  { scope: "publish", method: "POST", path: "/api/publish" },
+];
+
+const SCOPED_ROUTE_PATTERNS = SCOPED_ROUTES.map(route => ({
+  ...route,
+  pattern: new RegExp(`^${route.path.replace(/:[^/]+/g, "[^/]+")}/?$`),
+}));
+
+export function isAccessTokenScope(value: unknown): value is AccessTokenScope {
+  return typeof value === "string" && (ACCESS_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * The scope a token needs for a request, or null if tokens can't make it at all
+ */
+export function requiredScopeFor(method: string, pathname: string): AccessTokenScope | null {
+  const route = SCOPED_ROUTE_PATTERNS.find(
+    route => route.method === method.toUpperCase() && route.pattern.test(pathname)
+  );
+  return route?.scope ?? null;
+}
+
+/**
+ * Create a token. The plaintext is returned once and never stored.
+ */
+export async function createAccessToken(
+  userId: string,
+  name: string,
+  scopes: AccessTokenScope[],
+  expiresAt: Date | null
+) {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const record = await createPersonalAccessToken(userId, {
+    name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 6),
+    scopes: [...new Set(scopes)],
+    expiresAt,
+  });
+
+  logger.log(`🔑 Created access token ${record.id} for user ${userId} (${scopes.join(", ")})`);
+  return { token, accessToken: record };
+}
+
+/**
+ * Resolve the user behind a token, if the token allows this request
+ */
+export async function authenticateAccessToken(
+  token: string,
+  request: { method: string; pathname: string },
+  now: Date = new Date()
+) {
+  const user = await getUserByPersonalAccessTokenHash(hashToken(token));
+  if (!user) {
+    throw new AccessTokenError("Invalid access token");
+  }
+  if (user.expiresAt && now > new Date(user.expiresAt)) {
+    throw new AccessTokenError("Access token expired");
+  }
+
+  const scope = requiredScopeFor(request.method, request.pathname);
+  if (!scope) {
+    throw new AccessTokenError("Access tokens cannot be used for this endpoint");
+  }
+  if (!user.scopes.includes(scope)) {
+    throw new AccessTokenError(`Access token is missing the '${scope}' scope`);
+  }
+
+  if (!user.lastUsedAt || now.getTime() - new Date(user.lastUsedAt).getTime() >= LAST_USED_RESOLUTION_MS) {
+    await touchPersonalAccessToken(user.tokenId).catch(error =>
+      logger.warn(`⚠️ Failed to update last-used for access token ${user.tokenId}:`, error)
+    );
+  }
+
+  return user;
+}
@@ -35,18 +35,30 @@ export async function handleApiResponse<T>(
 }
 
 /**
- * Hook to get API utilities with session handling
+ * Hook to get API utilities with session handling. A request rejected with an
+ * expired access token is retried once with a refreshed one.
  */
 export function useApiUtils() {
-  const { handleSessionExpired } = useAuthContext();
+  const { handleSessionExpired, refreshSession } = useAuthContext();
 
   const apiCall = useCallback(async <T>(
     url: string,
     options: RequestInit = {}
   ): Promise<T> => {
-    const response = await fetch(url, options);
+    let response = await fetch(url, options);
+
+    if (response.status === 401 && new Headers(options.headers).has('Authorization')) {
+      const { error } = await response.clone().json().catch(() => ({}));
+      const sessionToken = error === 'Session expired' ? await refreshSession() : null;
+      if (sessionToken) {
+        const headers = new Headers(options.headers);
+        headers.set('Authorization', `Bearer ${sessionToken}`);
+        response = await fetch(url, { ...options, headers });
+      }
+    }
+
     return handleApiResponse<T>(response, handleSessionExpired);
-  }, [handleSessionExpired]);
+  }, [handleSessionExpired, refreshSession]);
 
   return { apiCall };
 }
@@ -0,0 +1,412 @@
+import { logger } from "./logger";
+/**
+ * AST-level edits for TS/TSX files
+ *
+ * Unified diff hunks fail when the model's context lines drift from the real
+ * file. AST edits name what to change instead of where: a top-level
+ * function/component, a JSX element, an import or an object property. They are
+ * applied with the TypeScript compiler API and used as the fallback when a
+ * file's hunks do not apply.
+ */
+
+import * as ts from 'typescript';
+import { applyDiffHunksWithReport, type DiffHunk } from './diffUtils';
+
+export type AstEditAction = 'replace' | 'insert' | 'remove';
+export type AstEditKind = 'function' | 'component' | 'jsx' | 'import' | 'property';
+
+export interface AstEdit {
+  action: AstEditAction;
+  kind: AstEditKind;
+  name?: string; // Declaration name, JSX tag, import module specifier or property name
+  within?: string; // Enclosing declaration (jsx) or object variable (property)
+  index?: number; // Which matching JSX element, 0-based
+  position?: 'before' | 'after' | 'start' | 'end'; // For insert; start/end = first/last child of a JSX element
+  code?: string; // New code for replace/insert
+}
+
+export interface AstEditFailure {
+  edit: AstEdit;
+  reason: string;
+}
+
+export interface AstEditResult {
+  content: string;
+  applied: AstEdit[];
+  failed: AstEditFailure[];
+}
+
+const AST_EDIT_ACTIONS: AstEditAction[] = ['replace', 'insert', 'remove'];
+const AST_EDIT_KINDS: AstEditKind[] = ['function', 'component', 'jsx', 'import', 'property'];
+
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function createSourceFile(filename: string, content: string): ts.SourceFile {
+  const scriptKind = filename.endsWith('.tsx') ? ts.ScriptKind.TSX
+    : filename.endsWith('.jsx') ? ts.ScriptKind.JSX
+    : filename.endsWith('.ts') ? ts.ScriptKind.TS
+    : ts.ScriptKind.JS;
+  return ts.createSourceFile(filename, content, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+function getSyntaxErrors(filename: string, content: string): string[] {
+  const { diagnostics } = ts.transpileModule(content, {
+    fileName: filename,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.Latest },
+  });
+  return (diagnostics || []).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+/**
+ * Validate AST edits from a model response, dropping malformed entries
+ */
+export function parseAstEdits(value: unknown): AstEdit[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((item): item is AstEdit => {
+    if (!item || typeof item !== 'object') return false;
+    const edit = item as Partial<AstEdit>;
+    if (!AST_EDIT_ACTIONS.includes(edit.action as AstEditAction) || !AST_EDIT_KINDS.includes(edit.kind as AstEditKind)) {
+      logger.warn('⚠️ Dropping malformed AST edit:', item);
+      return false;
+    }
+    if (edit.action !== 'remove' && typeof edit.code !== 'string') {
+      logger.warn(`⚠️ Dropping ${edit.action} AST edit without code:`, item);
+      return false;
+    }
+    return true;
+  });
+}
+
+// ========================================================================
+// TARGET LOOKUP
+// ========================================================================
+
+function statementName(statement: ts.Statement): string | undefined {
+  if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+    return statement.name.text;
+  }
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+    return statement.name.text;
+  }
+  if (ts.isVariableStatement(statement)) {
+    const declaration = statement.declarationList.declarations.find(d => ts.isIdentifier(d.name));
+    return declaration && ts.isIdentifier(declaration.name) ? declaration.name.text : undefined;
+  }
+  return undefined;
+}
+
+function findDeclaration(sourceFile: ts.SourceFile, name: string): ts.Statement | undefined {
+  return sourceFile.statements.find(statement => statementName(statement) === name);
+}
+
+function findImport(sourceFile: ts.SourceFile, moduleName: string): ts.ImportDeclaration | undefined {
+  return sourceFile.statements.find((statement): statement is ts.ImportDeclaration =>
+    ts.isImportDeclaration(statement) &&
+    ts.isStringLiteral(statement.moduleSpecifier) &&
+    statement.moduleSpecifier.text === moduleName
+  );
+}
+
+function jsxTagName(node: ts.Node): string | undefined {
+  if (ts.isJsxElement(node)) return node.openingElement.tagName.getText();
+  if (ts.isJsxSelfClosingElement(node)) return node.tagName.getText();
+  return undefined;
+}
+
+function findJsxElements(root: ts.Node, tagName: string): Array<ts.JsxElement | ts.JsxSelfClosingElement> {
+  const found: Array<ts.JsxElement | ts.JsxSelfClosingElement> = [];
+  const visit = (node: ts.Node) => {
+    if ((ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) && jsxTagName(node) === tagName) {
+      found.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+}
+
+function findObjectLiteral(sourceFile: ts.SourceFile, variableName: string): ts.ObjectLiteralExpression | undefined {
+  let found: ts.ObjectLiteralExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === variableName && node.initializer) {
+      let initializer: ts.Expression = node.initializer;
+      // Unwrap `{...} as const` / `satisfies` / parentheses
+      while (ts.isAsExpression(initializer) || ts.isSatisfiesExpression(initializer) || ts.isParenthesizedExpression(initializer)) {
+        initializer = initializer.expression;
+      }
+      if (ts.isObjectLiteralExpression(initializer)) {
+        found = initializer;
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+function propertyName(property: ts.ObjectLiteralElementLike): string | undefined {
+  if (ts.isShorthandPropertyAssignment(property)) return property.name.text;
+  if (property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+    return property.name.text;
+  }
+  return undefined;
+}
+
+// ========================================================================
+// EDIT PLANNING
+// ========================================================================
+
+/**
+ * Span of whole statements, widened to full lines so removals leave no blank gaps
+ */
+function statementSpan(sourceFile: ts.SourceFile, node: ts.Node): { start: number; end: number } {
+  const text = sourceFile.text;
+  const comments = ts.getLeadingCommentRanges(text, node.getFullStart());
+  let start = comments?.length ? comments[0].pos : node.getStart(sourceFile);
+  while (start > 0 && text[start - 1] !== '\n' && /\s/.test(text[start - 1])) start--;
+  let end = node.getEnd();
+  if (text[end] === '\n') end++;
+  return { start, end };
+}
+
+function lineIndent(text: string, position: number): string {
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function reindent(code: string, indent: string): string {
+  return code.split('\n').map((line, i) => (i === 0 || line === '' ? line : indent + line)).join('\n');
+}
+
+function planStatementEdit(sourceFile: ts.SourceFile, edit: AstEdit): Splice {
+  const code = (edit.code || '').trim();
+
+  if (edit.kind === 'import') {
+    const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+    if (edit.action === 'insert') {
+      const anchor = edit.name ? findImport(sourceFile, edit.name) : imports[imports.length - 1];
+      if (anchor) {
+        const span = statementSpan(sourceFile, anchor);
+        return edit.position === 'before' ? { start: span.start, end: span.start, text: `${code}\n` } : { start: span.end, end: span.end, text: `${code}\n` };
+      }
+      // No imports yet: go after a leading 'use client' directive, if any
+      const directive = sourceFile.statements.find(s => ts.isExpressionStatement(s) && ts.isStringLiteral(s.expression));
+      const position = directive ? statementSpan(sourceFile, directive).end : 0;
+      return { start: position, end: position, text: `${code}\n` };
+    }
+
+    const target = findImport(sourceFile, edit.name || '');
+    if (!target) throw new Error(`import of "${edit.name}" not found`);
+    const span = statementSpan(sourceFile, target);
+    return { start: span.start, end: span.end, text: edit.action === 'remove' ? '' : `${code}\n` };
+  }
+
+  // function / component: top-level declarations
+  if (edit.action === 'insert') {
+    if (!edit.name) {
+      const position = sourceFile.text.length;
+      const separator = sourceFile.text.endsWith('\n') ? '\n' : '\n\n';
+      return { start: position, end: position, text: `${separator}${code}\n` };
+    }
+    const anchor = findDeclaration(sourceFile, edit.name);
+    if (!anchor) throw new Error(`declaration "${edit.name}" not found`);
+    const span = statementSpan(sourceFile, anchor);
+    return edit.position === 'before'
+      ? { start: span.start, end: span.start, text: `${code}\n\n` }
+      : { start: span.end, end: span.end, text: `\n${code}\n` };
+  }
+
+  const target = findDeclaration(sourceFile, edit.name || '');
+  if (!target) throw new Error(`declaration "${edit.name}" not found`);
+
+  if (edit.action === 'remove') {
+    return { ...statementSpan(sourceFile, target), text: '' };
+  }
+
+  // Keep `export` / `export default` when the replacement leaves them off
+  let replacement = code;
+  const modifiers = ts.canHaveModifiers(target) ? ts.getModifiers(target) : undefined;
+  const exportModifiers = (modifiers || []).filter(m => m.kind === ts.SyntaxKind.ExportKeyword || m.kind === ts.SyntaxKind.DefaultKeyword);
+  if (exportModifiers.length > 0 && !/^export\b/.test(replacement)) {
+    replacement = `${exportModifiers.map(m => m.getText(sourceFile)).join(' ')} ${replacement}`;
+  }
+  return { start: target.getStart(sourceFile), end: target.getEnd(), text: replacement };
+}
+
+function planJsxEdit(sourceFile: ts.SourceFile, edit: AstEdit): Splice {
+  const root = edit.within ? findDeclaration(sourceFile, edit.within) : sourceFile;
+  if (!root) throw new Error(`declaration "${edit.within}" not found`);
+
+  const elements = findJsxElements(root, edit.name || '');
+  const element = elements[edit.index ?? 0];
+  if (!element) {
+    throw new Error(`<${edit.name}> #${edit.index ?? 0} not found${edit.within ? ` in ${edit.within}` : ''} (${elements.length} found)`);
+  }
+
+  const text = sourceFile.text;
+  const start = element.getStart(sourceFile);
+  const end = element.getEnd();
+  const indent = lineIndent(text, start);
+  const code = reindent((edit.code || '').trim(), indent);
+
+  if (edit.action === 'replace') return { start, end, text: code };
+
+  if (edit.action === 'remove') {
+    // Drop the whole line when the element sits on its own lines
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd = text.indexOf('\n', end);
+    const ownsLines = text.slice(lineStart, start).trim() === '' && text.slice(end, lineEnd === -1 ? text.length : lineEnd).trim() === '';
+    return ownsLines ? { start: lineStart, end: lineEnd === -1 ? text.length : lineEnd + 1, text: '' } : { start, end, text: '' };
+  }
+
+  const position = edit.position || 'after';
+  if (position === 'before') return { start, end: start, text: `${code}\n${indent}` };
+  if (position === 'after') return { start: end, end, text: `\n${indent}${code}` };
+
+  if (!ts.isJsxElement(element)) throw new Error(`<${edit.name}> is self-closing and has no children`);
+  const childIndent = `${indent}  `;
+  const childCode = reindent((edit.code || '').trim(), childIndent);
+  if (position === 'start') {
+    const openingEnd = element.openingElement.getEnd();
+    return { start: openingEnd, end: openingEnd, text: `\n${childIndent}${childCode}` };
+  }
+  const closingStart = element.closingElement.getStart(sourceFile);
+  const beforeClosing = text.slice(text.lastIndexOf('\n', closingStart - 1) + 1, closingStart);
+  return beforeClosing.trim() === ''
+    ? { start: closingStart - beforeClosing.length, end: closingStart - beforeClosing.length, text: `${childIndent}${childCode}\n` }
+    : { start: closingStart, end: closingStart, text: childCode };
+}
+
+function planPropertyEdit(sourceFile: ts.SourceFile, edit: AstEdit): Splice {
+  const object = findObjectLiteral(sourceFile, edit.within || '');
+  if (!object) throw new Error(`object literal "${edit.within}" not found`);
+
+  const text = sourceFile.text;
+  const code = (edit.code || '').trim().replace(/,$/, '');
+  const properties = object.properties;
+
+  if (edit.action === 'insert') {
+    const last = properties[properties.length - 1];
+    if (!last) {
+      const openBrace = object.getStart(sourceFile) + 1;
+      return { start: openBrace, end: openBrace, text: ` ${code} ` };
+    }
+    const indent = lineIndent(text, last.getStart(sourceFile));
+    const multiline = text.slice(object.getStart(sourceFile), object.getEnd()).includes('\n');
+    const hasTrailingComma = properties.hasTrailingComma;
+    const insertAt = hasTrailingComma ? text.indexOf(',', last.getEnd()) + 1 : last.getEnd();
+    const prefix = hasTrailingComma ? '' : ',';
+    return multiline
+      ? { start: insertAt, end: insertAt, text: `${prefix}\n${indent}${code}${hasTrailingComma ? ',' : ''}` }
+      : { start: insertAt, end: insertAt, text: `${prefix} ${code}` };
+  }
+
+  const index = properties.findIndex(property => propertyName(property) === edit.name);
+  if (index === -1) throw new Error(`property "${edit.name}" not found in ${edit.within}`);
+  const property = properties[index];
+
+  if (edit.action === 'replace') {
+    return { start: property.getStart(sourceFile), end: property.getEnd(), text: code };
+  }
+
+  // Remove the property together with its separating comma
+  const next = properties[index + 1];
+  if (next) {
+    return { start: property.getStart(sourceFile), end: next.getStart(sourceFile), text: '' };
+  }
+  const previous = properties[index - 1];
+  const start = previous ? previous.getEnd() : property.getStart(sourceFile);
+  const end = properties.hasTrailingComma ? text.indexOf(',', property.getEnd()) + 1 : property.getEnd();
+  return { start, end, text: '' };
+}
+
+function planEdit(sourceFile: ts.SourceFile, edit: AstEdit): Splice {
+  switch (edit.kind) {
+    case 'function':
+    case 'component':
+    case 'import':
+      return planStatementEdit(sourceFile, edit);
+    case 'jsx':
+      return planJsxEdit(sourceFile, edit);
+    case 'property':
+      return planPropertyEdit(sourceFile, edit);
+  }
+}
+
+// ========================================================================
+// APPLICATION
+// ========================================================================
+
+/**
+ * Apply AST edits in order. Each edit is re-planned against the result of the
+ * previous one, and an edit that would leave the file with syntax errors is
+ * rolled back and reported as failed.
+ */
+export function applyAstEdits(filename: string, content: string, edits: AstEdit[]): AstEditResult {
+  let current = content;
+  const applied: AstEdit[] = [];
+  const failed: AstEditFailure[] = [];
+  const baselineErrors = getSyntaxErrors(filename, content).length;
+
+  for (const edit of edits) {
+    try {
+      const sourceFile = createSourceFile(filename, current);
+      const splice = planEdit(sourceFile, edit);
+      const next = current.slice(0, splice.start) + splice.text + current.slice(splice.end);
+
+      const errors = getSyntaxErrors(filename, next);
+      if (errors.length > baselineErrors) {
+        throw new Error(`edit produces invalid syntax: ${errors[0]}`);
+      }
+
+      current = next;
+      applied.push(edit);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(`⚠️ AST edit ${edit.action} ${edit.kind} "${edit.name ?? edit.within ?? ''}" failed on ${filename}: ${reason}`);
+      failed.push({ edit, reason });
+    }
+  }
+
+  return { content: current, applied, failed };
+}
+
+/**
+ * Apply a file's unified hunks; if any hunk cannot be placed and AST edits are
+ * available, apply the AST edits to the original content instead. Mixing the
+ * two would risk applying the same change twice.
+ */
+export function applyDiffWithAstFallback(
+  filename: string,
+  originalContent: string,
+  hunks: DiffHunk[],
+  astEdits: AstEdit[] = []
+): { content: string; method: 'diff' | 'ast' | 'partial'; failedHunks: DiffHunk[]; failedEdits: AstEditFailure[] } {
+  const diffResult = hunks.length > 0
+    ? applyDiffHunksWithReport(originalContent, hunks)
+    : { content: originalContent, failedHunks: [] as DiffHunk[] };
+
+  if (hunks.length > 0 && diffResult.failedHunks.length === 0) {
+    return { content: diffResult.content, method: 'diff', failedHunks: [], failedEdits: [] };
+  }
+
+  if (astEdits.length > 0) {
+    const astResult = applyAstEdits(filename, originalContent, astEdits);
+    if (astResult.applied.length > 0) {
+      logger.log(`🌳 ${filename}: ${diffResult.failedHunks.length}/${hunks.length} hunks failed, applied ${astResult.applied.length}/${astEdits.length} AST edits instead`);
+      return { content: astResult.content, method: 'ast', failedHunks: diffResult.failedHunks, failedEdits: astResult.failed };
+    }
+    logger.warn(`⚠️ ${filename}: no AST edits applied, keeping the partial diff result`);
+    return { content: diffResult.content, method: 'partial', failedHunks: diffResult.failedHunks, failedEdits: astResult.failed };
+  }
+
+  return { content: diffResult.content, method: 'partial', failedHunks: diffResult.failedHunks, failedEdits: [] };
+}
@@ -1,7 +1,9 @@
 import { logger } from "./logger";
 import { NextRequest, NextResponse } from "next/server";
-import { getUserBySessionToken, getUserByFarcasterFid, createUser, createUserSession, updateUser } from "./database";
-import { v4 as uuidv4 } from "uuid";
+import { getUserBySessionToken, getUserByFarcasterFid, createUser, updateUser } from "./database";
+import { FarcasterAuthError, verifyQuickAuthToken, verifySiwfMessage } from "./farcasterAuth";
+import { issueSession, markSessionSeen, type SessionDevice } from "./sessions";
+import { AccessTokenError, authenticateAccessToken, isAccessToken } from "./accessTokens";
 
 export interface User {
   id: string;
@@ -9,9 +11,23 @@ export interface User {
   username?: string;
   displayName?: string;
   pfpUrl?: string;
+  sessionId?: string; // The session the request was authenticated with
+  accessTokenId?: string; // Or the personal access token
 }
 
 
+// Proof of the FID being signed in (see farcasterAuth.ts)
+export type FarcasterCredential =
+  | { type: 'quick_auth'; token: string }
+  | { type: 'siwf'; message: string; signature: string };
+
+export interface FarcasterProfile {
+  fid?: string;
+  username?: string;
+  displayName?: string;
+  pfpUrl?: string;
+}
+
 export interface AuthenticatedRequest extends NextRequest {
   user?: User;
   isAuthorized?: boolean;
@@ -34,6 +50,25 @@ export async function authenticateRequest(request: NextRequest): Promise<{
       };
     }
 
+    // Personal access tokens carry their own scopes (see accessTokens.ts)
+    if (isAccessToken(sessionToken)) {
+      const tokenUser = await authenticateAccessToken(sessionToken, {
+        method: request.method,
+        pathname: request.nextUrl.pathname,
+      });
+      return {
+        user: {
+          id: tokenUser.id,
+          farcasterFid: tokenUser.farcasterFid,
+          username: tokenUser.username ?? undefined,
+          displayName: tokenUser.displayName ?? undefined,
+          pfpUrl: tokenUser.pfpUrl ?? undefined,
+          accessTokenId: tokenUser.tokenId,
+        },
+        isAuthorized: true
+      };
+    }
+
     // Verify session token and get user
     const user = await getUserBySessionToken(sessionToken);
     
@@ -54,6 +89,8 @@ export async function authenticateRequest(request: NextRequest): Promise<{
       };
     }
 
+    await markSessionSeen(user.sessionId, user.lastSeenAt);
+
     return {
       user: {
         id: user.id,
@@ -61,10 +98,18 @@ export async function authenticateRequest(request: NextRequest): Promise<{
         username: user.username ?? undefined,
         displayName: user.displayName ?? undefined,
         pfpUrl: user.pfpUrl ?? undefined,
+        sessionId: user.sessionId,
       },
       isAuthorized: true
     };
   } catch (error) {
+    if (error instanceof AccessTokenError) {
+      return {
+        user: null,
+        isAuthorized: false,
+        error: error.message
+      };
+    }
     logger.error("Authentication error:", error);
     return {
       user: null,
@@ -75,22 +120,31 @@ export async function authenticateRequest(request: NextRequest): Promise<{
 }
 
 export async function authenticateFarcasterUser(
-  farcasterFid: string, 
-  username?: string, 
-  displayName?: string, 
-  pfpUrl?: string
+  credential: FarcasterCredential,
+  domain: string,
+  profile: FarcasterProfile = {},
+  device: SessionDevice = { userAgent: null, ipAddress: null }
 ): Promise<
-  | { success: true; user: User; sessionToken: string }
-  | { success: false; error: string }
+  | { success: true; user: User; sessionToken: string; refreshToken: string; expiresAt: string }
+  | { success: false; error: string; status: 401 | 500 }
 > {
+  const { username, displayName, pfpUrl } = profile;
   try {
     console.log('🔐 [auth.ts] authenticateFarcasterUser called with:', {
-      farcasterFid,
+      method: credential.type,
+      fid: profile.fid,
       username,
       displayName,
       pfpUrl
     });
-    
+
+    // The FID comes from the verified credential, never from the request body
+    const identity = credential.type === 'quick_auth'
+      ? await verifyQuickAuthToken(credential.token, { domain, fid: profile.fid })
+      : await verifySiwfMessage(credential.message, credential.signature, { domain, fid: profile.fid });
+    const farcasterFid = identity.fid;
+    logger.log(`✅ Verified Farcaster ${identity.method} sign-in for FID ${farcasterFid}`);
+
     // Check if user exists, create if not
     let user = await getUserByFarcasterFid(farcasterFid);
     
@@ -165,11 +219,7 @@ export async function authenticateFarcasterUser(
       username: user.username
     });
 
-    // Create session token
-    const sessionToken = uuidv4();
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours for Farcaster sessions
-
-    await createUserSession(user.id, sessionToken, expiresAt);
+    const session = await issueSession(user.id, device);
 
     const returnData = {
       success: true as const,
@@ -179,18 +229,30 @@ export async function authenticateFarcasterUser(
         username: user.username ?? undefined,
         displayName: user.displayName ?? undefined,
         pfpUrl: user.pfpUrl ?? undefined,
+        sessionId: session.sessionId,
       },
-      sessionToken,
+      sessionToken: session.sessionToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.expiresAt.toISOString(),
     };
     
-    console.log('📤 [auth.ts] Returning to API:', returnData);
+    console.log('📤 [auth.ts] Returning to API:', { user: returnData.user, expiresAt: returnData.expiresAt });
     
     return returnData;
   } catch (error) {
+    if (error instanceof FarcasterAuthError) {
+      logger.warn(`⚠️ Farcaster sign-in rejected: ${error.message}`);
+      return {
+        success: false as const,
+        error: error.message,
+        status: 401 as const
+      };
+    }
     logger.error("Farcaster authentication error:", error);
     return {
       success: false as const,
-      error: "Authentication failed"
+      error: "Authentication failed",
+      status: 500 as const
     };
   }
 }
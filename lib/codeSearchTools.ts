@@ -0,0 +1,505 @@
+import { logger } from "./logger";
+/**
+ * In-process code search tools for Stage 0 context gathering
+ *
+ * Replaces shelling out to grep/find/cat: every tool runs over the project's
+ * file list in memory, so patterns can use regex alternation freely and results
+ * come back as structured JSON with line numbers. Symbol, import and usage
+ * lookups parse files with the TypeScript compiler API.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+export type CodeSearchToolName = 'search' | 'symbols' | 'imports' | 'usages' | 'read' | 'list';
+
+export const CODE_SEARCH_TOOL_NAMES: CodeSearchToolName[] = ['search', 'symbols', 'imports', 'usages', 'read', 'list'];
+
+export interface CodeSearchFile {
+  filename: string;
+  content: string;
+}
+
+export interface CodeSearchToolCall {
+  tool: string;
+  args: string[];
+  workingDirectory?: string;
+}
+
+export interface SearchMatch {
+  file: string;
+  line: number;
+  column: number;
+  text: string;
+}
+
+export type SymbolKind = 'component' | 'hook' | 'function' | 'class' | 'variable' | 'type' | 'interface' | 'enum';
+
+export interface SymbolInfo {
+  name: string;
+  kind: SymbolKind;
+  exported: boolean;
+  isDefault: boolean;
+  file: string;
+  line: number;
+}
+
+export interface ImportInfo {
+  module: string;
+  line: number;
+  defaultImport?: string;
+  namespaceImport?: string;
+  named: string[];
+  typeOnly: boolean;
+}
+
+export interface UsageInfo {
+  file: string;
+  line: number;
+  column: number;
+  text: string;
+  isDeclaration: boolean;
+}
+
+export interface FileListing {
+  file: string;
+  lines: number;
+}
+
+export interface FileRead {
+  file: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  content: string;
+}
+
+export interface CodeSearchToolResult {
+  tool: string;
+  success: boolean;
+  data?: SearchMatch[] | SymbolInfo[] | { file: string; imports: ImportInfo[] } | UsageInfo[] | FileRead | FileListing[];
+  truncated?: boolean;
+  error?: string;
+}
+
+// Limits keep a single tool call from flooding the Stage 1-3 prompts
+const MAX_RESULTS = 50;
+const MAX_READ_LINES = 400;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_LINE_TEXT = 200;
+const MAX_SOURCE_FILE_BYTES = 200 * 1024;
+
+const PARSEABLE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']);
+const SOURCE_EXTENSIONS = new Set([...PARSEABLE_EXTENSIONS, '.json', '.css', '.md', '.sol', '.html']);
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.next', '.git', 'dist', 'build', 'out', 'coverage', 'artifacts', 'cache']);
+
+function normalizePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/)+/, '').replace(/\/$/, '');
+}
+
+function truncateLine(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_LINE_TEXT ? `${trimmed.slice(0, MAX_LINE_TEXT)}...` : trimmed;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+        if (glob[i + 1] === '/') i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Filter files by a path prefix ("src/components") or glob ("src/**\/*.tsx").
+ * Paths may be relative to the tool call's workingDirectory.
+ */
+function filterFiles(files: CodeSearchFile[], pathFilter: string | undefined, workingDirectory?: string): CodeSearchFile[] {
+  const filters: string[] = [];
+  const base = workingDirectory ? normalizePath(workingDirectory) : '';
+  const raw = pathFilter ? normalizePath(pathFilter) : '';
+
+  if (raw && raw !== '.') {
+    filters.push(raw);
+    if (base && base !== '.' && !raw.startsWith(`${base}/`)) filters.push(`${base}/${raw}`);
+  } else if (base && base !== '.') {
+    filters.push(base);
+  } else {
+    return files;
+  }
+
+  return files.filter(file => {
+    const filename = normalizePath(file.filename);
+    return filters.some(filter => {
+      if (/[*?]/.test(filter)) return globToRegExp(filter).test(filename);
+      return filename === filter || filename.startsWith(`${filter}/`);
+    });
+  });
+}
+
+function findFile(files: CodeSearchFile[], filePath: string | undefined, workingDirectory?: string): CodeSearchFile | undefined {
+  if (!filePath) return undefined;
+  const target = normalizePath(filePath);
+  const base = workingDirectory ? normalizePath(workingDirectory) : '';
+  const candidates = base && base !== '.' ? [target, `${base}/${target}`] : [target];
+  return files.find(file => candidates.includes(normalizePath(file.filename)));
+}
+
+export function isParseable(filename: string): boolean {
+  return PARSEABLE_EXTENSIONS.has(path.extname(filename));
+}
+
+export function parseSourceFile(file: CodeSearchFile): ts.SourceFile {
+  const extension = path.extname(file.filename);
+  const scriptKind = extension === '.tsx' ? ts.ScriptKind.TSX
+    : extension === '.jsx' ? ts.ScriptKind.JSX
+    : extension === '.ts' ? ts.ScriptKind.TS
+    : ts.ScriptKind.JS;
+  return ts.createSourceFile(file.filename, file.content, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+function lineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return !!modifiers?.some(modifier => modifier.kind === kind);
+}
+
+function containsJsx(node: ts.Node): boolean {
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+    return true;
+  }
+  return !!ts.forEachChild(node, child => containsJsx(child) || undefined);
+}
+
+function classifyFunction(name: string, body: ts.Node | undefined): SymbolKind {
+  if (/^use[A-Z0-9]/.test(name)) return 'hook';
+  if (/^[A-Z]/.test(name) && body && containsJsx(body)) return 'component';
+  return 'function';
+}
+
+// ========================================================================
+// TOOLS
+// ========================================================================
+
+/**
+ * Regex search over file contents, one match per line
+ */
+export function searchFiles(
+  files: CodeSearchFile[],
+  pattern: string,
+  options: { pathFilter?: string; workingDirectory?: string; ignoreCase?: boolean } = {}
+): { matches: SearchMatch[]; truncated: boolean } {
+  if (!pattern) {
+    throw new Error('search requires a pattern');
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, options.ignoreCase ? 'i' : '');
+  } catch (error) {
+    throw new Error(`Invalid regex: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const matches: SearchMatch[] = [];
+  for (const file of filterFiles(files, options.pathFilter, options.workingDirectory)) {
+    const lines = file.content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const match = regex.exec(lines[i]);
+      if (!match) continue;
+      if (matches.length >= MAX_RESULTS) {
+        return { matches, truncated: true };
+      }
+      matches.push({ file: file.filename, line: i + 1, column: match.index + 1, text: truncateLine(lines[i]) });
+    }
+  }
+
+  return { matches, truncated: false };
+}
+
+/**
+ * Top-level declarations of a file: exports, components, hooks, types
+ */
+export function getFileSymbols(file: CodeSearchFile): SymbolInfo[] {
+  if (!isParseable(file.filename)) return [];
+
+  const sourceFile = parseSourceFile(file);
+  const symbols: SymbolInfo[] = [];
+  const exportedNames = new Set<string>();
+  let defaultExportName: string | undefined;
+
+  const add = (name: string, kind: SymbolKind, node: ts.Node, exported: boolean, isDefault = false) => {
+    symbols.push({ name, kind, exported, isDefault, file: file.filename, line: lineOf(sourceFile, node) });
+  };
+
+  for (const statement of sourceFile.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text ?? 'default';
+      add(name, classifyFunction(name, statement.body), statement, exported, isDefault);
+    } else if (ts.isClassDeclaration(statement)) {
+      add(statement.name?.text ?? 'default', 'class', statement, exported, isDefault);
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      add(statement.name.text, 'interface', statement, exported);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      add(statement.name.text, 'type', statement, exported);
+    } else if (ts.isEnumDeclaration(statement)) {
+      add(statement.name.text, 'enum', statement, exported);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+        const name = declaration.name.text;
+        let initializer = declaration.initializer;
+        // React.memo(...) / forwardRef(...) wrappers still declare a component
+        while (initializer && ts.isCallExpression(initializer) && initializer.arguments.length > 0) {
+          initializer = initializer.arguments[0];
+        }
+        const kind = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+          ? classifyFunction(name, initializer.body)
+          : /^use[A-Z0-9]/.test(name) ? 'hook' : 'variable';
+        add(name, kind, declaration, exported);
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        exportedNames.add((element.propertyName ?? element.name).text);
+      }
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      defaultExportName = statement.expression.text;
+    }
+  }
+
+  for (const symbol of symbols) {
+    if (exportedNames.has(symbol.name)) symbol.exported = true;
+    if (symbol.name === defaultExportName) {
+      symbol.exported = true;
+      symbol.isDefault = true;
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Import declarations of a file with their named bindings
+ */
+export function getFileImports(file: CodeSearchFile): ImportInfo[] {
+  if (!isParseable(file.filename)) return [];
+
+  const sourceFile = parseSourceFile(file);
+  const imports: ImportInfo[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+    const info: ImportInfo = {
+      module: statement.moduleSpecifier.text,
+      line: lineOf(sourceFile, statement),
+      named: [],
+      typeOnly: !!statement.importClause?.isTypeOnly,
+    };
+
+    const clause = statement.importClause;
+    if (clause?.name) info.defaultImport = clause.name.text;
+    if (clause?.namedBindings) {
+      if (ts.isNamespaceImport(clause.namedBindings)) {
+        info.namespaceImport = clause.namedBindings.name.text;
+      } else {
+        info.named = clause.namedBindings.elements.map(element =>
+          element.propertyName ? `${element.propertyName.text} as ${element.name.text}` : element.name.text
+        );
+      }
+    }
+
+    imports.push(info);
+  }
+
+  return imports;
+}
+
+/**
+ * Identifier references (including JSX tags and imports) to a name
+ */
+export function findUsages(
+  files: CodeSearchFile[],
+  identifier: string,
+  options: { pathFilter?: string; workingDirectory?: string } = {}
+): { usages: UsageInfo[]; truncated: boolean } {
+  if (!/^[A-Za-z_$][\w$]*$/.test(identifier)) {
+    throw new Error(`Not an identifier: ${identifier}`);
+  }
+
+  const usages: UsageInfo[] = [];
+  for (const file of filterFiles(files, options.pathFilter, options.workingDirectory)) {
+    // Cheap text check before paying for a parse
+    if (!isParseable(file.filename) || !file.content.includes(identifier)) continue;
+
+    const sourceFile = parseSourceFile(file);
+    const lines = file.content.split('\n');
+    let truncated = false;
+
+    const visit = (node: ts.Node): void => {
+      if (truncated) return;
+      if (ts.isIdentifier(node) && node.text === identifier) {
+        if (usages.length >= MAX_RESULTS) {
+          truncated = true;
+          return;
+        }
+        const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const parent = node.parent as ts.Node & { name?: ts.Node };
+        usages.push({
+          file: file.filename,
+          line: position.line + 1,
+          column: position.character + 1,
+          text: truncateLine(lines[position.line] ?? ''),
+          isDeclaration: !!parent && parent.name === node && (ts.isDeclarationStatement(parent) || ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isImportSpecifier(parent) || ts.isImportClause(parent)),
+        });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    if (truncated) return { usages, truncated };
+  }
+
+  return { usages, truncated: false };
+}
+
+/**
+ * Run one Stage 0 tool call against the project's files
+ */
+export function executeCodeSearchTool(call: CodeSearchToolCall, files: CodeSearchFile[]): CodeSearchToolResult {
+  const args = Array.isArray(call.args) ? call.args.map(arg => String(arg)) : [];
+  const workingDirectory = call.workingDirectory;
+
+  try {
+    switch (call.tool) {
+      case 'search': {
+        const [pattern, pathFilter, flags] = args;
+        const { matches, truncated } = searchFiles(files, pattern, {
+          pathFilter,
+          workingDirectory,
+          ignoreCase: flags === 'i',
+        });
+        return { tool: call.tool, success: true, data: matches, truncated };
+      }
+
+      case 'symbols': {
+        const [pathFilter, nameFilter] = args;
+        const symbols = filterFiles(files, pathFilter, workingDirectory)
+          .flatMap(file => getFileSymbols(file))
+          .filter(symbol => !nameFilter || symbol.name.toLowerCase().includes(nameFilter.toLowerCase()));
+        return { tool: call.tool, success: true, data: symbols.slice(0, MAX_RESULTS), truncated: symbols.length > MAX_RESULTS };
+      }
+
+      case 'imports': {
+        const file = findFile(files, args[0], workingDirectory);
+        if (!file) throw new Error(`File not found: ${args[0] ?? '(none)'}`);
+        return { tool: call.tool, success: true, data: { file: file.filename, imports: getFileImports(file) } };
+      }
+
+      case 'usages': {
+        const [identifier, pathFilter] = args;
+        const { usages, truncated } = findUsages(files, identifier ?? '', { pathFilter, workingDirectory });
+        return { tool: call.tool, success: true, data: usages, truncated };
+      }
+
+      case 'read': {
+        const file = findFile(files, args[0], workingDirectory);
+        if (!file) throw new Error(`File not found: ${args[0] ?? '(none)'}`);
+        const lines = file.content.split('\n');
+        const startLine = Math.max(1, parseInt(args[1] ?? '1', 10) || 1);
+        const requestedEnd = parseInt(args[2] ?? '', 10) || lines.length;
+        const endLine = Math.min(lines.length, requestedEnd, startLine + MAX_READ_LINES - 1);
+        return {
+          tool: call.tool,
+          success: true,
+          data: {
+            file: file.filename,
+            startLine,
+            endLine,
+            totalLines: lines.length,
+            content: lines.slice(startLine - 1, endLine).join('\n'),
+          },
+          truncated: endLine < Math.min(lines.length, requestedEnd),
+        };
+      }
+
+      case 'list': {
+        const listing = filterFiles(files, args[0], workingDirectory)
+          .map(file => ({ file: file.filename, lines: file.content.split('\n').length }));
+        return { tool: call.tool, success: true, data: listing.slice(0, MAX_RESULTS * 4), truncated: listing.length > MAX_RESULTS * 4 };
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${call.tool}. Available tools: ${CODE_SEARCH_TOOL_NAMES.join(', ')}`);
+    }
+  } catch (error) {
+    return { tool: call.tool, success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Tool result as a context section for the later stages
+ */
+export function formatCodeSearchResult(call: CodeSearchToolCall, result: CodeSearchToolResult): string {
+  const heading = `## ${call.tool} ${(call.args || []).join(' ')}`;
+  if (!result.success) {
+    return `${heading} (FAILED)\n${result.error}`;
+  }
+  const note = result.truncated ? '\n(results truncated)' : '';
+  return `${heading}\n\`\`\`json\n${JSON.stringify(result.data, null, 2)}\n\`\`\`${note}`;
+}
+
+/**
+ * Source files of a project directory, for callers that only have the path
+ */
+export function loadProjectSourceFiles(projectDir: string): CodeSearchFile[] {
+  const files: CodeSearchFile[] = [];
+
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      logger.warn(`⚠️ Could not read directory ${dir}:`, error);
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) walk(fullPath);
+      } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name)) && entry.name !== 'package-lock.json') {
+        if (fs.statSync(fullPath).size > MAX_SOURCE_FILE_BYTES) continue;
+        files.push({
+          filename: path.relative(projectDir, fullPath).split(path.sep).join('/'),
+          content: fs.readFileSync(fullPath, 'utf8'),
+        });
+      }
+    }
+  };
+
+  walk(projectDir);
+  return files;
+}
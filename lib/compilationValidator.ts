@@ -6,6 +6,8 @@ import * as path from 'path';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { applyDiffToContent } from './diffUtils';
+import { getDependencyCache } from './dependencyCache';
+import { SolidityToolchain, hasContracts } from './solidityToolchain';
 import { logger } from './logger';
 
 const execAsync = promisify(exec);
@@ -48,8 +50,16 @@ export interface ValidationConfig {
   maxConcurrentValidations: number;
   skipFiles: string[]; // Files to skip validation
   customRules: string[]; // Custom validation rules
+  useDependencyCache: boolean; // Link the project's own dependencies from the shared cache
+  // Reuse one temp project per key (usually the project id), keeping its
+  // tsbuildinfo and .next/cache so repeat validations are incremental
+  cacheKey?: string;
 }
 
+// Files in a reused temp project that belong to the validator, not the project
+const TSBUILDINFO_FILE = '.validation.tsbuildinfo';
+const FILE_MANIFEST = '.validation-files.json';
+
 // Default configuration
 const DEFAULT_CONFIG: ValidationConfig = {
   enableTypeScript: true,
@@ -69,7 +79,8 @@ const DEFAULT_CONFIG: ValidationConfig = {
     '*.min.js',
     '*.min.css'
   ],
-  customRules: []
+  customRules: [],
+  useDependencyCache: true
 };
 
 export class CompilationValidator {
@@ -82,9 +93,12 @@ export class CompilationValidator {
     this.projectRoot = projectRoot;
     this.config = { ...DEFAULT_CONFIG, ...config };
     // Use /tmp for serverless environments like Vercel, fallback to project root for local development
-    this.tempDir = process.env.NODE_ENV === 'production' 
-      ? path.join('/tmp', 'temp-compilation', Date.now().toString())
+    const tempRoot = process.env.NODE_ENV === 'production'
+      ? path.join('/tmp', 'temp-compilation')
       : path.join(projectRoot, '.temp-compilation');
+    this.tempDir = this.config.cacheKey
+      ? path.join(tempRoot, this.config.cacheKey.replace(/[^a-zA-Z0-9_-]/g, '_'))
+      : path.join(tempRoot, process.env.NODE_ENV === 'production' ? Date.now().toString() : 'shared');
     this.startTime = Date.now();
   }
 
@@ -116,7 +130,7 @@ export class CompilationValidator {
       }
       
       if (this.config.enableSolidity) {
-        validationPromises.push(this.validateSolidity());
+        validationPromises.push(this.validateSolidity(finalFiles));
       }
       
       if (this.config.enableESLint) {
@@ -152,7 +166,7 @@ export class CompilationValidator {
       const validationSummary = this.generateValidationSummary(finalFiles, allErrors, allWarnings);
 
       // 6. Cleanup (only in production)
-      if (process.env.NODE_ENV === 'production') {
+      if (process.env.NODE_ENV === 'production' && !this.config.cacheKey) {
         await this.cleanup();
       } else {
         logger.log(`🔍 Development mode - keeping temp directory for inspection: ${this.tempDir}`);
@@ -174,7 +188,7 @@ export class CompilationValidator {
 
     } catch (error) {
       logger.error("❌ Compilation validation failed:", error);
-      if (process.env.NODE_ENV === 'production') {
+      if (process.env.NODE_ENV === 'production' && !this.config.cacheKey) {
         await this.cleanup();
       } else {
         logger.log(`🔍 Development mode - keeping temp directory for debugging: ${this.tempDir}`);
@@ -256,23 +270,37 @@ export class CompilationValidator {
   }
 
   /**
-   * Create temporary project structure for validation
+   * Create temporary project structure for validation. With a cacheKey the
+   * previous temp project is updated in place instead of recreated.
    */
   private async createTempProject(files: { filename: string; content: string }[]): Promise<void> {
+    const manifestPath = path.join(this.tempDir, FILE_MANIFEST);
+    const reuse = !!this.config.cacheKey && fs.existsSync(manifestPath);
+
     try {
-      // Clean and create temp directory
-      if (fs.existsSync(this.tempDir)) {
-        fs.rmSync(this.tempDir, { recursive: true, force: true });
-      }
-      
-      // Ensure parent directory exists for /tmp path
-      const parentDir = path.dirname(this.tempDir);
-      if (!fs.existsSync(parentDir)) {
-        fs.mkdirSync(parentDir, { recursive: true });
+      if (reuse) {
+        // Drop files the project no longer has, keep caches and build output
+        const previousFiles: string[] = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        const currentFiles = new Set(files.map(f => f.filename));
+        for (const filename of previousFiles.filter(f => !currentFiles.has(f))) {
+          fs.rmSync(path.join(this.tempDir, filename), { force: true });
+        }
+        logger.log(`♻️  Reusing temporary project: ${this.tempDir}`);
+      } else {
+        // Clean and create temp directory
+        if (fs.existsSync(this.tempDir)) {
+          fs.rmSync(this.tempDir, { recursive: true, force: true });
+        }
+
+        // Ensure parent directory exists for /tmp path
+        const parentDir = path.dirname(this.tempDir);
+        if (!fs.existsSync(parentDir)) {
+          fs.mkdirSync(parentDir, { recursive: true });
+        }
+
+        fs.mkdirSync(this.tempDir, { recursive: true });
+        logger.log(`📁 Created temporary directory: ${this.tempDir}`);
       }
-      
-      fs.mkdirSync(this.tempDir, { recursive: true });
-      logger.log(`📁 Created temporary directory: ${this.tempDir}`);
     } catch (error) {
       logger.error(`❌ Failed to create temporary directory: ${this.tempDir}`, error);
       throw new Error(`Failed to create temporary directory for compilation validation: ${error instanceof Error ? error.message : String(error)}`);
@@ -314,17 +342,12 @@ export class CompilationValidator {
       // Continue with validation even if some config files can't be copied
     }
 
-    // Copy node_modules if it exists (for faster validation)
+    // Link dependencies (for faster validation)
     try {
-      const nodeModulesPath = path.join(this.projectRoot, 'node_modules');
-      if (fs.existsSync(nodeModulesPath)) {
-        const tempNodeModules = path.join(this.tempDir, 'node_modules');
-        fs.symlinkSync(nodeModulesPath, tempNodeModules, 'dir');
-        logger.log(`🔗 Created symlink to node_modules`);
-      }
+      await this.linkNodeModules(files);
     } catch (error) {
-      logger.warn(`⚠️ Failed to create node_modules symlink:`, error);
-      // Continue without node_modules symlink
+      logger.warn(`⚠️ Failed to link node_modules:`, error);
+      // Continue without node_modules
     }
 
     // Write all files to temp directory
@@ -344,6 +367,9 @@ export class CompilationValidator {
         
         fs.writeFileSync(filePath, file.content, 'utf8');
       }
+      if (this.config.cacheKey) {
+        fs.writeFileSync(manifestPath, JSON.stringify(files.map(f => f.filename)), 'utf8');
+      }
       logger.log(`📝 Wrote ${files.length} files to temporary directory`);
     } catch (error) {
       logger.error(`❌ Failed to write files to temporary directory:`, error);
@@ -351,6 +377,32 @@ export class CompilationValidator {
     }
   }
 
+  /**
+   * Symlink node_modules into the temp project: the project's own dependency set
+   * from the shared cache (installed on first use), else the app's node_modules
+   */
+  private async linkNodeModules(files: { filename: string; content: string }[]): Promise<void> {
+    const dependencyCache = getDependencyCache();
+    let nodeModules = path.join(this.projectRoot, 'node_modules');
+
+    const packageJson = files.find(f => f.filename === 'package.json');
+    if (this.config.useDependencyCache && packageJson) {
+      try {
+        const lockfile = files.find(f => f.filename === 'package-lock.json')?.content;
+        const cached = await dependencyCache.ensure(JSON.parse(packageJson.content), lockfile);
+        nodeModules = cached.nodeModules;
+        logger.log(`📦 Using cached dependencies ${cached.key}`);
+      } catch (error) {
+        logger.warn(`⚠️ Dependency cache unavailable, falling back to ${nodeModules}:`, error);
+      }
+    }
+
+    if (fs.existsSync(nodeModules)) {
+      await dependencyCache.link(this.tempDir, nodeModules);
+      logger.log(`🔗 Linked node_modules: ${nodeModules}`);
+    }
+  }
+
   /**
    * Check if file should be skipped based on skip patterns
    */
@@ -390,7 +442,9 @@ export class CompilationValidator {
     try {
       logger.log("🔍 Validating TypeScript compilation...");
       
-      const { stderr } = await execAsync('npx tsc --noEmit --pretty false --skipLibCheck', {
+      // A reused temp project keeps its build info, so only changed files are rechecked
+      const incremental = this.config.cacheKey ? ` --incremental --tsBuildInfoFile ${TSBUILDINFO_FILE}` : '';
+      const { stderr } = await execAsync(`npx tsc --noEmit --pretty false --skipLibCheck${incremental}`, {
         cwd: this.tempDir,
         timeout: this.config.timeoutMs
       });
@@ -408,32 +462,26 @@ export class CompilationValidator {
   }
 
   /**
-   * Solidity compilation validation
+   * Solidity validation: compile the contracts/ Hardhat project and run its tests
    */
-  private async validateSolidity(): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
-    try {
-      logger.log("🔍 Validating Solidity compilation...");
-      
-      const contractsDir = path.join(this.tempDir, 'contracts');
-      if (!fs.existsSync(contractsDir)) {
-        logger.log("📁 No contracts directory found, skipping Solidity validation");
-        return { errors: [], warnings: [] };
-      }
+  private async validateSolidity(files: { filename: string; content: string }[]): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] }> {
+    if (!hasContracts(files)) {
+      logger.log("📁 No contracts found, skipping Solidity validation");
+      return { errors: [], warnings: [] };
+    }
 
-      const { stdout, stderr } = await execAsync('npx hardhat compile --force', {
-        cwd: this.tempDir,
-        timeout: this.config.timeoutMs
-      });
+    logger.log("🔍 Validating Solidity compilation...");
+    const result = await new SolidityToolchain({
+      gasReport: false,
+      timeoutMs: this.config.timeoutMs,
+      cacheKey: this.config.cacheKey,
+    }).run(files);
 
-      return this.parseSolidityErrors(stderr, stdout);
-    } catch (error: unknown) {
-      if ((error as { code?: number }).code === 1) {
-        const errorObj = error as { stderr?: string; stdout?: string };
-        return this.parseSolidityErrors(errorObj.stderr || '', errorObj.stdout || '');
-      }
-      logger.warn("⚠️ Solidity validation failed:", (error as Error).message);
+    if (result.unavailable) {
+      logger.warn("⚠️ Solidity validation failed:", result.unavailable);
       return { errors: [], warnings: [] };
     }
+    return { errors: result.errors, warnings: result.warnings };
   }
 
   /**
@@ -443,7 +491,8 @@ export class CompilationValidator {
     try {
       logger.log("🔍 Validating ESLint...");
       
-      const { stdout } = await execAsync('npx eslint src --format json --max-warnings 0', {
+      const cache = this.config.cacheKey ? ' --cache --cache-location .validation.eslintcache' : '';
+      const { stdout } = await execAsync(`npx eslint src --format json --max-warnings 0${cache}`, {
         cwd: this.tempDir,
         timeout: this.config.timeoutMs
       });
@@ -631,62 +680,6 @@ export class CompilationValidator {
     return suggestions[code] || 'Review the TypeScript error and fix the type mismatch';
   }
 
-  /**
-   * Parse Solidity compilation errors
-   */
-  private parseSolidityErrors(stderr: string, stdout: string): { errors: CompilationError[]; warnings: CompilationError[]; info?: CompilationError[] } {
-    const errors: CompilationError[] = [];
-    const warnings: CompilationError[] = [];
-    const info: CompilationError[] = [];
-
-    const output = stderr + stdout;
-    const lines = output.split('\n');
-
-    for (const line of lines) {
-      if (line.includes('Error:') || line.includes('Warning:')) {
-        const isError = line.includes('Error:');
-        const message = line.replace(/^(Error|Warning):\s*/, '');
-        
-        // Try to extract file and line information
-        const fileMatch = line.match(/contracts\/([^:]+):(\d+):(\d+)/);
-        
-        const error: CompilationError = {
-          file: fileMatch ? `contracts/${fileMatch[1]}` : 'contracts',
-          line: fileMatch ? parseInt(fileMatch[2]) : undefined,
-          column: fileMatch ? parseInt(fileMatch[3]) : undefined,
-          message,
-          severity: isError ? 'error' : 'warning',
-          category: 'solidity',
-          suggestion: this.getSoliditySuggestion(message)
-        };
-
-        if (isError) {
-          errors.push(error);
-        } else {
-          warnings.push(error);
-        }
-      }
-    }
-
-    return { errors, warnings, info };
-  }
-
-  /**
-   * Get Solidity error suggestions
-   */
-  private getSoliditySuggestion(_message: string): string {
-    if (_message.includes('DeclarationError')) {
-      return 'Check variable declarations and ensure they are properly defined';
-    }
-    if (_message.includes('TypeError')) {
-      return 'Verify type compatibility and casting operations';
-    }
-    if (_message.includes('ParserError')) {
-      return 'Check syntax and ensure all brackets and semicolons are correct';
-    }
-    return 'Review the Solidity error and fix the compilation issue';
-  }
-
   /**
    * Parse ESLint errors
    */
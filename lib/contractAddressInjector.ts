@@ -10,6 +10,13 @@ export interface ContractAddressMap {
   [contractName: string]: string; // Contract name -> deployed address
 }
 
+// Chain the contracts were deployed on, when it is not the app's own (Base Sepolia)
+export interface ContractChain {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+}
+
 /**
  * Inject a single contract address using simple replace with fallback
  *
@@ -125,6 +132,35 @@ export function injectContractAddresses(
   return updatedContent;
 }
 
+/**
+ * Point the CHAIN (and a literal CHAIN_ID) export of a contract config at the
+ * chain the contracts were deployed on
+ *
+ * @param contractFileContent - Original content of the contract config
+ * @param chain - Chain to target instead of the generated default
+ * @returns Updated file content, unchanged when there is no CHAIN export
+ */
+export function injectContractChain(contractFileContent: string, chain: ContractChain): string {
+  const chainExport = /export const CHAIN\s*=\s*[^;\n]+;?/;
+  if (!chainExport.test(contractFileContent)) {
+    logger.warn(`⚠️ No CHAIN export found, app keeps its default chain instead of ${chain.name}`);
+    return contractFileContent;
+  }
+
+  const chainDefinition = [
+    'export const CHAIN = {',
+    `  id: ${chain.chainId},`,
+    `  name: ${JSON.stringify(chain.name)},`,
+    "  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },",
+    `  rpcUrls: { default: { http: [${JSON.stringify(chain.rpcUrl)}] } },`,
+    '} as const;',
+  ].join('\n');
+
+  logger.log(`✅ Chain set to ${chain.name} (${chain.chainId}) at ${chain.rpcUrl}`);
+  return contractFileContent
+    .replace(chainExport, chainDefinition)
+    .replace(/export const CHAIN_ID\s*=\s*\d+/, `export const CHAIN_ID = ${chain.chainId}`);
+}
 
 /**
  * Validate Ethereum address format
@@ -138,11 +174,13 @@ function isValidEthereumAddress(address: string): boolean {
  *
  * @param files - Array of project files
  * @param contractAddresses - Map of contract names to deployed addresses
+ * @param chain - Chain the contracts live on, if not the app's default
  * @returns Updated files with injected addresses
  */
 export function updateFilesWithContractAddresses(
   files: { filename: string; content: string }[],
-  contractAddresses: ContractAddressMap
+  contractAddresses: ContractAddressMap,
+  chain?: ContractChain
 ): { filename: string; content: string }[] {
   logger.log(`\n${"=".repeat(60)}`);
   logger.log(`🔧 INJECTING CONTRACT ADDRESSES`);
@@ -156,7 +194,8 @@ export function updateFilesWithContractAddresses(
         file.filename.includes('contractConfig')) {
 
       logger.log(`\n📄 Processing file: ${file.filename}`);
-      const updatedContent = injectContractAddresses(file.content, contractAddresses);
+      const withAddresses = injectContractAddresses(file.content, contractAddresses);
+      const updatedContent = chain ? injectContractChain(withAddresses, chain) : withAddresses;
 
       if (updatedContent !== file.content) {
         logger.log(`✅ Updated ${file.filename} with deployed addresses`);
@@ -1,12 +1,17 @@
 import { logger } from "./logger";
-import { db, users, projects, projectFiles, projectPatches, projectDeployments, userSessions, chatMessages, generationJobs } from '../db';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { db, users, projects, projectMembers, projectFiles, projectPatches, projectDeployments, userSessions, personalAccessTokens, usedSiwfNonces, chatMessages, generationJobs, generationJobEvents, projectSnapshots, snapshotBlobs, llmUsageEvents, projectFileChunks } from '../db';
+import { eq, and, or, desc, sql, inArray, gt, gte, lt, asc, isNotNull, type SQL } from 'drizzle-orm';
+import { buildSnapshotTree, type SnapshotTree } from './snapshotUtils';
+import { buildChunkIndex, type ChunkKind, type ProjectChunk } from './projectIndex';
+import type { ProjectRole } from './projectAccess';
 
 // Type definition for generation job context
 export interface GenerationJobContext {
   prompt: string;
   existingProjectId?: string;
+  projectId?: string;          // New project's id, pinned by the first attempt so retries reuse it
   useMultiStage?: boolean;
+  templateId?: string;         // Catalog template picked by the user (initial generation)
   // Follow-up edit specific fields
   isFollowUp?: boolean;        // Flag to identify follow-up edits vs initial generation
   useDiffBased?: boolean;      // Whether to use diff-based pipeline
@@ -45,6 +50,12 @@ export async function getUserById(userId: string) {
   return user;
 }
 
+export async function getUserByUsername(username: string) {
+  const [user] = await db.select().from(users)
+    .where(sql`lower(${users.username}) = ${username.toLowerCase()}`);
+  return user;
+}
+
 // Project management functions
 export async function createProject(
   userId: string,
@@ -68,10 +79,24 @@ export async function getProjectById(projectId: string) {
   return project;
 }
 
+// Projects the user owns or is a member of, each with the user's role on it
 export async function getProjectsByUserId(userId: string) {
-  return await db.select().from(projects)
-    .where(and(eq(projects.userId, userId), eq(projects.status, 'active')))
+  const rows = await db.select({ project: projects, memberRole: projectMembers.role })
+    .from(projects)
+    .leftJoin(projectMembers, and(
+      eq(projectMembers.projectId, projects.id),
+      eq(projectMembers.userId, userId)
+    ))
+    .where(and(
+      eq(projects.status, 'active'),
+      or(eq(projects.userId, userId), isNotNull(projectMembers.id))
+    ))
     .orderBy(desc(projects.updatedAt));
+
+  return rows.map(({ project, memberRole }) => ({
+    ...project,
+    role: (project.userId === userId ? 'owner' : memberRole) as ProjectRole,
+  }));
 }
 
 export async function updateProject(projectId: string, updates: Partial<typeof projects.$inferInsert>) {
@@ -88,6 +113,57 @@ export async function deleteProject(projectId: string) {
     .where(eq(projects.id, projectId));
 }
 
+// Project members management
+export async function getProjectMember(projectId: string, userId: string) {
+  const [member] = await db.select().from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+  return member;
+}
+
+export async function getProjectMembers(projectId: string) {
+  return await db.select({
+    userId: projectMembers.userId,
+    role: projectMembers.role,
+    invitedBy: projectMembers.invitedBy,
+    createdAt: projectMembers.createdAt,
+    farcasterFid: users.farcasterFid,
+    username: users.username,
+    displayName: users.displayName,
+    pfpUrl: users.pfpUrl,
+  })
+    .from(projectMembers)
+    .innerJoin(users, eq(users.id, projectMembers.userId))
+    .where(eq(projectMembers.projectId, projectId))
+    .orderBy(asc(projectMembers.createdAt));
+}
+
+// Re-inviting an existing member changes their role
+export async function addProjectMember(projectId: string, userId: string, role: ProjectRole, invitedBy?: string) {
+  const [member] = await db.insert(projectMembers)
+    .values({ projectId, userId, role, invitedBy })
+    .onConflictDoUpdate({
+      target: [projectMembers.projectId, projectMembers.userId],
+      set: { role, updatedAt: new Date() },
+    })
+    .returning();
+  return member;
+}
+
+export async function updateProjectMemberRole(projectId: string, userId: string, role: ProjectRole) {
+  const [member] = await db.update(projectMembers)
+    .set({ role, updatedAt: new Date() })
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+    .returning();
+  return member;
+}
+
+export async function removeProjectMember(projectId: string, userId: string) {
+  const removed = await db.delete(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+    .returning();
+  return removed.length > 0;
+}
+
 // Project files management
 export async function saveProjectFiles(projectId: string, files: { filename: string; content: string }[]) {
   logger.log(`\n${"=".repeat(60)}`);
@@ -113,22 +189,149 @@ export async function saveProjectFiles(projectId: string, files: { filename: str
   
   logger.log(`📁 Saving ${safeFiles.length} safe files to database (${files.length - safeFiles.length} filtered out)`);
   
-  // Insert new files
-  const fileRecords = safeFiles.map(file => ({
-    projectId,
-    filename: file.filename,
-    content: file.content,
-    version: 1,
-  }));
+  // Insert new files, bumping the version of each file whose content changed
+  const previousByName = new Map(deletedFiles.map(f => [f.filename, f]));
+  const fileRecords = safeFiles.map(file => {
+    const previous = previousByName.get(file.filename);
+    return {
+      projectId,
+      filename: file.filename,
+      content: file.content,
+      version: !previous ? 1 : previous.content === file.content ? previous.version : previous.version + 1,
+    };
+  });
   
   const inserted = await db.insert(projectFiles).values(fileRecords).returning();
   logger.log(`✅ Successfully inserted ${inserted.length} files into database`);
   logger.log(`📝 Sample filenames:`, inserted.slice(0, 5).map(f => f.filename));
   logger.log(`${"=".repeat(60)}\n`);
+
+  // Keep the retrieval index in step with the files; a stale index only costs a re-chunk later
+  try {
+    await refreshProjectChunkIndex(projectId, safeFiles);
+  } catch (error) {
+    logger.warn(`⚠️ Failed to refresh chunk index for project ${projectId}:`, error);
+  }
   
   return inserted;
 }
 
+// Thrown inside the transaction to roll back a guarded write that lost a race
+class FileVersionMismatch extends Error {
+  constructor(public filenames: string[]) {
+    super(`Files changed since they were read: ${filenames.join(', ')}`);
+    this.name = 'FileVersionMismatch';
+  }
+}
+
+/**
+ * Write only the given files, each guarded by the version it was read at
+ * (a missing version means the file must still not exist). Nothing is written
+ * if any file moved on; its name is returned so the caller can merge again.
+ */
+export async function saveProjectFilesAtVersions(
+  projectId: string,
+  files: { filename: string; content: string }[],
+  expectedVersions: Record<string, number>
+): Promise<{ saved: boolean; staleFiles: string[] }> {
+  try {
+    await db.transaction(async (tx) => {
+      const staleFiles: string[] = [];
+
+      for (const file of files) {
+        const expected = expectedVersions[file.filename];
+        if (expected === undefined) {
+          const [existing] = await tx.select({ id: projectFiles.id }).from(projectFiles)
+            .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filename, file.filename)))
+            .limit(1);
+          if (existing) {
+            staleFiles.push(file.filename);
+            continue;
+          }
+          await tx.insert(projectFiles).values({ projectId, filename: file.filename, content: file.content });
+          continue;
+        }
+
+        const updated = await tx.update(projectFiles)
+          .set({ content: file.content, version: sql`${projectFiles.version} + 1`, updatedAt: new Date() })
+          .where(and(
+            eq(projectFiles.projectId, projectId),
+            eq(projectFiles.filename, file.filename),
+            eq(projectFiles.version, expected)
+          ))
+          .returning({ id: projectFiles.id });
+        if (updated.length === 0) staleFiles.push(file.filename);
+      }
+
+      if (staleFiles.length > 0) throw new FileVersionMismatch(staleFiles);
+    });
+  } catch (error) {
+    if (error instanceof FileVersionMismatch) {
+      logger.warn(`⚠️ Not saving ${files.length} file(s) for ${projectId}, changed meanwhile: ${error.filenames.join(', ')}`);
+      return { saved: false, staleFiles: error.filenames };
+    }
+    throw error;
+  }
+
+  logger.log(`✅ Saved ${files.length} changed file(s) for project ${projectId}`);
+
+  // Keep the retrieval index in step with the files; a stale index only costs a re-chunk later
+  try {
+    const current = await db.select({ filename: projectFiles.filename, content: projectFiles.content })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId));
+    await refreshProjectChunkIndex(projectId, current);
+  } catch (error) {
+    logger.warn(`⚠️ Failed to refresh chunk index for project ${projectId}:`, error);
+  }
+
+  return { saved: true, staleFiles: [] };
+}
+
+// Project chunk index functions
+function toProjectChunk(row: typeof projectFileChunks.$inferSelect): ProjectChunk {
+  return {
+    filename: row.filename,
+    contentHash: row.contentHash,
+    chunkIndex: row.chunkIndex,
+    symbol: row.symbol,
+    kind: row.kind as ChunkKind,
+    startLine: row.startLine,
+    endLine: row.endLine,
+    terms: row.terms as Record<string, number>,
+    length: row.length,
+  };
+}
+
+export async function getProjectFileChunks(projectId: string): Promise<ProjectChunk[]> {
+  const rows = await db.select().from(projectFileChunks).where(eq(projectFileChunks.projectId, projectId));
+  return rows.map(toProjectChunk);
+}
+
+/**
+ * Re-chunk files whose content changed and drop chunks of changed or removed files
+ */
+export async function refreshProjectChunkIndex(projectId: string, files: { filename: string; content: string }[]) {
+  const existing = await db.select().from(projectFileChunks).where(eq(projectFileChunks.projectId, projectId));
+
+  const existingKeys = new Set(existing.map(row => `${row.filename}:${row.contentHash}`));
+  const chunks = buildChunkIndex(files, existing.map(toProjectChunk));
+  const currentKeys = new Set(chunks.map(chunk => `${chunk.filename}:${chunk.contentHash}`));
+
+  const staleIds = existing.filter(row => !currentKeys.has(`${row.filename}:${row.contentHash}`)).map(row => row.id);
+  if (staleIds.length > 0) {
+    await db.delete(projectFileChunks).where(inArray(projectFileChunks.id, staleIds));
+  }
+
+  const newChunks = chunks.filter(chunk => !existingKeys.has(`${chunk.filename}:${chunk.contentHash}`));
+  // Batched to stay under the Postgres bind-parameter limit on large projects
+  for (let i = 0; i < newChunks.length; i += 500) {
+    await db.insert(projectFileChunks).values(newChunks.slice(i, i + 500).map(chunk => ({ projectId, ...chunk })));
+  }
+
+  logger.log(`🗂️ Chunk index for ${projectId}: ${newChunks.length} chunks added, ${staleIds.length} removed`);
+}
+
 export async function getProjectFiles(projectId: string) {
   logger.log(`\n📥 FETCHING PROJECT FILES FROM DATABASE`);
   logger.log(`📁 Project ID: ${projectId}`);
@@ -147,9 +350,24 @@ export async function getProjectFiles(projectId: string) {
   return files;
 }
 
+export async function getProjectFile(projectId: string, filename: string) {
+  const [file] = await db.select().from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filename, filename)))
+    .limit(1);
+  return file;
+}
+
+// Current version of every file, so a job can tell which files changed after it started
+export async function getProjectFileVersions(projectId: string): Promise<Record<string, number>> {
+  const rows = await db.select({ filename: projectFiles.filename, version: projectFiles.version })
+    .from(projectFiles)
+    .where(eq(projectFiles.projectId, projectId));
+  return Object.fromEntries(rows.map(row => [row.filename, row.version]));
+}
+
 export async function updateProjectFile(projectId: string, filename: string, content: string) {
   const [file] = await db.update(projectFiles)
-    .set({ content, updatedAt: new Date() })
+    .set({ content, version: sql`${projectFiles.version} + 1`, updatedAt: new Date() })
     .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filename, filename)))
     .returning();
   return file;
@@ -167,8 +385,9 @@ export async function upsertProjectFile(projectId: string, filename: string, con
   if (existingFile.length > 0) {
     // Update existing file
     logger.log(`📝 File exists, updating: ${filename}`);
+    if (existingFile[0].content === content) return existingFile[0];
     const [updated] = await db.update(projectFiles)
-      .set({ content, updatedAt: new Date() })
+      .set({ content, version: existingFile[0].version + 1, updatedAt: new Date() })
       .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.filename, filename)))
       .returning();
     return updated;
@@ -207,6 +426,11 @@ export async function getProjectPatches(projectId: string) {
     .orderBy(desc(projectPatches.appliedAt));
 }
 
+export async function getProjectPatchById(patchId: string) {
+  const [patch] = await db.select().from(projectPatches).where(eq(projectPatches.id, patchId));
+  return patch;
+}
+
 export async function revertPatch(patchId: string) {
   const [patch] = await db.update(projectPatches)
     .set({ revertedAt: new Date() })
@@ -215,6 +439,91 @@ export async function revertPatch(patchId: string) {
   return patch;
 }
 
+// Snapshot management
+export async function createProjectSnapshot(
+  projectId: string,
+  files: { filename: string; content: string }[],
+  options: {
+    source: 'generation' | 'follow_up' | 'restore' | 'fork';
+    description?: string;
+    jobId?: string;
+    parentSnapshotId?: string | null;
+  }
+) {
+  const { tree, treeHash, blobs } = buildSnapshotTree(files);
+
+  // Blobs are immutable and shared, so an existing hash already holds this content
+  if (blobs.length > 0) {
+    await db.insert(snapshotBlobs).values(blobs).onConflictDoNothing();
+  }
+
+  const parentSnapshotId = options.parentSnapshotId !== undefined
+    ? options.parentSnapshotId
+    : (await getLatestProjectSnapshot(projectId))?.id ?? null;
+
+  const [snapshot] = await db.insert(projectSnapshots).values({
+    projectId,
+    parentSnapshotId,
+    jobId: options.jobId || null,
+    source: options.source,
+    description: options.description,
+    tree,
+    treeHash,
+    fileCount: files.length,
+  }).returning();
+
+  logger.log(`📸 Recorded ${options.source} snapshot ${snapshot.id} for project ${projectId} (${files.length} files, ${blobs.length} blobs)`);
+  return snapshot;
+}
+
+export async function getProjectSnapshots(projectId: string) {
+  return await db.select({
+    id: projectSnapshots.id,
+    projectId: projectSnapshots.projectId,
+    parentSnapshotId: projectSnapshots.parentSnapshotId,
+    jobId: projectSnapshots.jobId,
+    source: projectSnapshots.source,
+    description: projectSnapshots.description,
+    treeHash: projectSnapshots.treeHash,
+    fileCount: projectSnapshots.fileCount,
+    createdAt: projectSnapshots.createdAt,
+  }).from(projectSnapshots)
+    .where(eq(projectSnapshots.projectId, projectId))
+    .orderBy(desc(projectSnapshots.createdAt));
+}
+
+export async function getProjectSnapshotById(snapshotId: string) {
+  const [snapshot] = await db.select().from(projectSnapshots).where(eq(projectSnapshots.id, snapshotId));
+  return snapshot;
+}
+
+export async function getLatestProjectSnapshot(projectId: string) {
+  const [snapshot] = await db.select().from(projectSnapshots)
+    .where(eq(projectSnapshots.projectId, projectId))
+    .orderBy(desc(projectSnapshots.createdAt))
+    .limit(1);
+  return snapshot;
+}
+
+export async function getSnapshotBlobs(hashes: string[]) {
+  const uniqueHashes = Array.from(new Set(hashes));
+  if (uniqueHashes.length === 0) {
+    return new Map<string, string>();
+  }
+
+  const blobs = await db.select().from(snapshotBlobs).where(inArray(snapshotBlobs.hash, uniqueHashes));
+  return new Map(blobs.map(blob => [blob.hash, blob.content]));
+}
+
+export async function getSnapshotFiles(snapshot: { tree: unknown }) {
+  const tree = snapshot.tree as SnapshotTree;
+  const blobs = await getSnapshotBlobs(Object.values(tree));
+
+  return Object.entries(tree)
+    .map(([filename, hash]) => ({ filename, content: blobs.get(hash) ?? '' }))
+    .sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
 // Deployment management
 export async function createDeployment(
   projectId: string,
@@ -253,11 +562,22 @@ export async function getProjectDeployments(projectId: string) {
 }
 
 // Session management
-export async function createUserSession(userId: string, sessionToken: string, expiresAt: Date) {
+export async function createUserSession(
+  userId: string,
+  sessionToken: string,
+  expiresAt: Date,
+  refresh: {
+    refreshTokenHash: string;
+    refreshExpiresAt: Date;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+  }
+) {
   const [session] = await db.insert(userSessions).values({
     userId,
     sessionToken,
     expiresAt,
+    ...refresh,
   }).returning();
   return session;
 }
@@ -266,22 +586,91 @@ export async function getSessionByToken(sessionToken: string) {
   const [session] = await db.select().from(userSessions)
     .where(and(
       eq(userSessions.sessionToken, sessionToken),
-      // Check if session is not expired
-      // This would need a proper date comparison in a real implementation
+      gt(userSessions.expiresAt, new Date())
     ));
   return session;
 }
 
+// Swap in a new access/refresh token pair, but only while the presented refresh
+// token is still current - a concurrent rotation makes this return undefined
+export async function rotateUserSession(
+  refreshTokenHash: string,
+  next: {
+    sessionToken: string;
+    expiresAt: Date;
+    refreshTokenHash: string;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+  }
+) {
+  const [session] = await db.update(userSessions)
+    .set({
+      ...next,
+      previousRefreshTokenHash: refreshTokenHash,
+      lastSeenAt: new Date(),
+    })
+    .where(and(
+      eq(userSessions.refreshTokenHash, refreshTokenHash),
+      gt(userSessions.refreshExpiresAt, new Date())
+    ))
+    .returning();
+  return session;
+}
+
+export async function getSessionByPreviousRefreshTokenHash(refreshTokenHash: string) {
+  const [session] = await db.select().from(userSessions)
+    .where(eq(userSessions.previousRefreshTokenHash, refreshTokenHash));
+  return session;
+}
+
+export async function touchUserSession(sessionId: string) {
+  await db.update(userSessions)
+    .set({ lastSeenAt: new Date() })
+    .where(eq(userSessions.id, sessionId));
+}
+
+// Active sessions (still refreshable), most recently used first
+export async function getUserSessions(userId: string) {
+  return await db.select({
+    id: userSessions.id,
+    userAgent: userSessions.userAgent,
+    ipAddress: userSessions.ipAddress,
+    createdAt: userSessions.createdAt,
+    lastSeenAt: userSessions.lastSeenAt,
+    expiresAt: userSessions.refreshExpiresAt,
+  })
+    .from(userSessions)
+    .where(and(
+      eq(userSessions.userId, userId),
+      gt(userSessions.refreshExpiresAt, new Date())
+    ))
+    .orderBy(desc(userSessions.lastSeenAt));
+}
+
 export async function deleteSession(sessionToken: string) {
   await db.delete(userSessions).where(eq(userSessions.sessionToken, sessionToken));
 }
 
+export async function deleteSessionById(sessionId: string, userId: string) {
+  const deleted = await db.delete(userSessions)
+    .where(and(eq(userSessions.id, sessionId), eq(userSessions.userId, userId)))
+    .returning({ id: userSessions.id });
+  return deleted.length > 0;
+}
+
+export async function deleteUserSessions(userId: string) {
+  const deleted = await db.delete(userSessions)
+    .where(eq(userSessions.userId, userId))
+    .returning({ id: userSessions.id });
+  return deleted.length;
+}
+
+// Sessions past their refresh expiry can never be used again
 export async function deleteExpiredSessions() {
-//   const now = new Date();
-  // This would need proper date comparison in a real implementation
-  // For now, we'll implement a simple cleanup by deleting all sessions
-  // In production, you'd use: lt(userSessions.expiresAt, now)
-  await db.delete(userSessions);
+  const deleted = await db.delete(userSessions)
+    .where(lt(userSessions.refreshExpiresAt, new Date()))
+    .returning({ id: userSessions.id });
+  return deleted.length;
 }
 
 // Add this function to get user by session token
@@ -291,6 +680,7 @@ export async function getUserBySessionToken(sessionToken: string) {
       id: userSessions.id,
       userId: userSessions.userId,
       expiresAt: userSessions.expiresAt,
+      lastSeenAt: userSessions.lastSeenAt,
       createdAt: userSessions.createdAt,
     })
     .from(userSessions)
@@ -304,7 +694,69 @@ export async function getUserBySessionToken(sessionToken: string) {
     .from(users)
     .where(eq(users.id, session.userId));
 
-  return user ? { ...user, expiresAt: session.expiresAt } : null;
+  return user
+    ? { ...user, expiresAt: session.expiresAt, sessionId: session.id, lastSeenAt: session.lastSeenAt }
+    : null;
+}
+
+// Personal access tokens
+// Everything but token_hash, so rows can go straight to the client
+const visibleAccessTokenColumns = {
+  id: personalAccessTokens.id,
+  name: personalAccessTokens.name,
+  tokenPrefix: personalAccessTokens.tokenPrefix,
+  scopes: personalAccessTokens.scopes,
+  expiresAt: personalAccessTokens.expiresAt,
+  lastUsedAt: personalAccessTokens.lastUsedAt,
+  createdAt: personalAccessTokens.createdAt,
+};
+
+export async function createPersonalAccessToken(
+  userId: string,
+  token: { name: string; tokenHash: string; tokenPrefix: string; scopes: string[]; expiresAt: Date | null }
+) {
+  const [created] = await db.insert(personalAccessTokens)
+    .values({ userId, ...token })
+    .returning(visibleAccessTokenColumns);
+  return created;
+}
+
+export async function getPersonalAccessTokens(userId: string) {
+  return await db.select(visibleAccessTokenColumns)
+    .from(personalAccessTokens)
+    .where(eq(personalAccessTokens.userId, userId))
+    .orderBy(desc(personalAccessTokens.createdAt));
+}
+
+export async function getUserByPersonalAccessTokenHash(tokenHash: string) {
+  const [row] = await db
+    .select({
+      user: users,
+      tokenId: personalAccessTokens.id,
+      scopes: personalAccessTokens.scopes,
+      expiresAt: personalAccessTokens.expiresAt,
+      lastUsedAt: personalAccessTokens.lastUsedAt,
+    })
+    .from(personalAccessTokens)
+    .innerJoin(users, eq(personalAccessTokens.userId, users.id))
+    .where(eq(personalAccessTokens.tokenHash, tokenHash));
+
+  return row
+    ? { ...row.user, tokenId: row.tokenId, scopes: row.scopes as string[], expiresAt: row.expiresAt, lastUsedAt: row.lastUsedAt }
+    : null;
+}
+
+export async function touchPersonalAccessToken(tokenId: string) {
+  await db.update(personalAccessTokens)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(personalAccessTokens.id, tokenId));
+}
+
+export async function deletePersonalAccessToken(tokenId: string, userId: string) {
+  const deleted = await db.delete(personalAccessTokens)
+    .where(and(eq(personalAccessTokens.id, tokenId), eq(personalAccessTokens.userId, userId)))
+    .returning({ id: personalAccessTokens.id });
+  return deleted.length > 0;
 }
 
 // Add function to update user info
@@ -356,6 +808,17 @@ export async function updateUser(
   return user;
 }
 
+// Mark a SIWF nonce as used. False when it was used before; expired entries are
+// dropped on the way, since an expired nonce fails verification anyway
+export async function consumeSiwfNonce(nonce: string, expiresAt: Date): Promise<boolean> {
+  await db.delete(usedSiwfNonces).where(lt(usedSiwfNonces.expiresAt, new Date()));
+  const inserted = await db.insert(usedSiwfNonces)
+    .values({ nonce, expiresAt })
+    .onConflictDoNothing()
+    .returning({ nonce: usedSiwfNonces.nonce });
+  return inserted.length > 0;
+}
+
 // Chat message management functions
 export async function saveChatMessage(
   projectId: string,
@@ -434,11 +897,19 @@ export async function getGenerationJobById(jobId: string) {
   return job;
 }
 
+export type GenerationJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter' | 'cancelled';
+
+/**
+ * Update a job's status/result. With a leaseOwner the write only applies while
+ * that worker still holds the job, so a worker whose lease was taken over can't
+ * overwrite the new attempt; it gets undefined back.
+ */
 export async function updateGenerationJobStatus(
   jobId: string,
-  status: 'pending' | 'processing' | 'completed' | 'failed',
+  status: GenerationJobStatus,
   result?: Record<string, unknown>,
-  error?: string
+  error?: string,
+  leaseOwner?: string | null
 ) {
   const updates: Record<string, unknown> = { status };
 
@@ -448,6 +919,8 @@ export async function updateGenerationJobStatus(
 
   if (status === 'completed' || status === 'failed') {
     updates.completedAt = new Date();
+    updates.leaseOwner = null;
+    updates.leaseExpiresAt = null;
   }
 
   if (result !== undefined) {
@@ -460,11 +933,36 @@ export async function updateGenerationJobStatus(
 
   const [job] = await db.update(generationJobs)
     .set(updates)
-    .where(eq(generationJobs.id, jobId))
+    .where(leaseOwner
+      ? and(
+          eq(generationJobs.id, jobId),
+          eq(generationJobs.status, 'processing'),
+          eq(generationJobs.leaseOwner, leaseOwner)
+        )
+      : eq(generationJobs.id, jobId))
     .returning();
   return job;
 }
 
+/**
+ * Pin the id an initial generation job creates its project under, so a retry
+ * resumes the project (and preview) a failed attempt already created instead of
+ * starting a duplicate. The first id pinned wins; returns the pinned id.
+ */
+export async function pinGenerationJobProjectId(jobId: string, projectId: string): Promise<string> {
+  const [job] = await db.update(generationJobs)
+    .set({ context: sql`jsonb_set(${generationJobs.context}, '{projectId}', to_jsonb(${projectId}::text))` })
+    .where(and(
+      eq(generationJobs.id, jobId),
+      sql`${generationJobs.context}->>'projectId' IS NULL`
+    ))
+    .returning({ context: generationJobs.context });
+  if (job) return projectId;
+
+  const existing = await getGenerationJobById(jobId);
+  return (existing?.context as GenerationJobContext | undefined)?.projectId ?? projectId;
+}
+
 export async function getPendingGenerationJobs(limit: number = 10) {
   return await db.select().from(generationJobs)
     .where(eq(generationJobs.status, 'pending'))
@@ -472,6 +970,145 @@ export async function getPendingGenerationJobs(limit: number = 10) {
     .limit(limit);
 }
 
+/**
+ * Atomically claim the oldest claimable pending job (or the given one) for a worker.
+ * FOR UPDATE SKIP LOCKED lets concurrent workers claim without blocking on each
+ * other's rows. Jobs whose user already has maxConcurrentPerUser jobs processing
+ * are skipped; two workers claiming for the same user at the same instant can
+ * still overshoot the cap by one.
+ */
+export async function claimGenerationJob(
+  leaseOwner: string,
+  leaseMs: number,
+  maxConcurrentPerUser: number,
+  jobId?: string
+) {
+  const [job] = await db.update(generationJobs)
+    .set({
+      status: 'processing',
+      attempts: sql`${generationJobs.attempts} + 1`,
+      leaseOwner,
+      leaseExpiresAt: sql`now() + ${leaseMs}::integer * interval '1 millisecond'`,
+      startedAt: sql`now()`,
+      error: null,
+    })
+    .where(sql`${generationJobs.id} = (
+      SELECT candidate.id FROM generation_jobs AS candidate
+      WHERE candidate.status = 'pending'
+        AND candidate.available_at <= now()
+        ${jobId ? sql`AND candidate.id = ${jobId}` : sql``}
+        AND (
+          SELECT count(*) FROM generation_jobs AS running
+          WHERE running.user_id = candidate.user_id AND running.status = 'processing'
+        ) < ${maxConcurrentPerUser}
+      ORDER BY candidate.available_at, candidate.created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`)
+    .returning();
+  return job;
+}
+
+/**
+ * Extend a job's lease. Returns false when the worker no longer holds it
+ * (lease expired and the job was re-queued or finished elsewhere).
+ */
+export async function renewGenerationJobLease(jobId: string, leaseOwner: string, leaseMs: number) {
+  const [job] = await db.update(generationJobs)
+    .set({ leaseExpiresAt: sql`now() + ${leaseMs}::integer * interval '1 millisecond'` })
+    .where(and(
+      eq(generationJobs.id, jobId),
+      eq(generationJobs.status, 'processing'),
+      eq(generationJobs.leaseOwner, leaseOwner)
+    ))
+    .returning({ id: generationJobs.id });
+  return !!job;
+}
+
+export async function getExpiredGenerationJobLeases(limit: number = 20) {
+  return await db.select().from(generationJobs)
+    .where(and(
+      eq(generationJobs.status, 'processing'),
+      sql`${generationJobs.leaseExpiresAt} < now()`
+    ))
+    .orderBy(generationJobs.leaseExpiresAt)
+    .limit(limit);
+}
+
+/**
+ * End a failed attempt: back to pending after retryDelayMs, or into dead_letter
+ * when retryDelayMs is null. Only applies while the attempt still holds the job,
+ * so a late failure from a worker whose lease was taken over is a no-op.
+ */
+export async function releaseFailedGenerationJob(
+  jobId: string,
+  leaseOwner: string | null,
+  error: string,
+  retryDelayMs: number | null
+) {
+  const released = { lastError: error, leaseOwner: null, leaseExpiresAt: null };
+
+  const [job] = await db.update(generationJobs)
+    .set(retryDelayMs === null
+      ? { ...released, status: 'dead_letter', error, completedAt: new Date() }
+      : { ...released, status: 'pending', availableAt: sql`now() + ${retryDelayMs}::integer * interval '1 millisecond'` })
+    .where(and(
+      eq(generationJobs.id, jobId),
+      eq(generationJobs.status, 'processing'),
+      leaseOwner ? eq(generationJobs.leaseOwner, leaseOwner) : sql`true`
+    ))
+    .returning();
+  return job;
+}
+
+/**
+ * Ask for a job to be cancelled. A pending job is cancelled on the spot; a
+ * processing job only gets cancelRequestedAt and the worker stops at its next
+ * checkpoint. Returns undefined when the job has already finished.
+ */
+export async function requestGenerationJobCancellation(jobId: string) {
+  const [pendingJob] = await db.update(generationJobs)
+    .set({ status: 'cancelled', cancelRequestedAt: new Date(), completedAt: new Date() })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'pending')))
+    .returning();
+  if (pendingJob) return pendingJob;
+
+  const [processingJob] = await db.update(generationJobs)
+    .set({ cancelRequestedAt: sql`coalesce(${generationJobs.cancelRequestedAt}, now())` })
+    .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'processing')))
+    .returning();
+  return processingJob;
+}
+
+export async function isGenerationJobCancellationRequested(jobId: string) {
+  const [job] = await db.select({ cancelRequestedAt: generationJobs.cancelRequestedAt })
+    .from(generationJobs)
+    .where(eq(generationJobs.id, jobId));
+  return !!job?.cancelRequestedAt;
+}
+
+/**
+ * Finish a processing job as cancelled (only while the worker still holds it)
+ */
+export async function markGenerationJobCancelled(jobId: string, leaseOwner: string | null) {
+  const [job] = await db.update(generationJobs)
+    .set({ status: 'cancelled', completedAt: new Date(), leaseOwner: null, leaseExpiresAt: null })
+    .where(and(
+      eq(generationJobs.id, jobId),
+      eq(generationJobs.status, 'processing'),
+      leaseOwner ? eq(generationJobs.leaseOwner, leaseOwner) : sql`true`
+    ))
+    .returning();
+  return job;
+}
+
+export async function getDeadLetterGenerationJobs(limit: number = 10) {
+  return await db.select().from(generationJobs)
+    .where(eq(generationJobs.status, 'dead_letter'))
+    .orderBy(desc(generationJobs.completedAt))
+    .limit(limit);
+}
+
 export async function deleteExpiredGenerationJobs() {
   const now = new Date();
   await db.delete(generationJobs)
@@ -484,3 +1121,100 @@ export async function getUserGenerationJobs(userId: string, limit: number = 20)
     .orderBy(desc(generationJobs.createdAt))
     .limit(limit);
 }
+
+// Generation job events
+export async function createGenerationJobEvent(
+  jobId: string,
+  event: { type: string; stage?: string; message: string; data?: Record<string, unknown> }
+) {
+  const [created] = await db.insert(generationJobEvents).values({
+    jobId,
+    type: event.type,
+    stage: event.stage,
+    message: event.message,
+    data: event.data,
+  }).returning();
+  return created;
+}
+
+export async function getGenerationJobEvents(jobId: string, afterId: number = 0, limit: number = 200) {
+  return await db.select().from(generationJobEvents)
+    .where(and(eq(generationJobEvents.jobId, jobId), gt(generationJobEvents.id, afterId)))
+    .orderBy(asc(generationJobEvents.id))
+    .limit(limit);
+}
+
+// LLM usage ledger
+export async function createLLMUsageEvent(event: {
+  userId: string;
+  projectId?: string;
+  jobId?: string;
+  provider: string;
+  model: string;
+  stageName: string;
+  stageType: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}) {
+  const [created] = await db.insert(llmUsageEvents).values(event).returning();
+  return created;
+}
+
+const llmUsageTotals = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  inputTokens: sql<number>`coalesce(sum(${llmUsageEvents.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${llmUsageEvents.outputTokens}), 0)`.mapWith(Number),
+  costUsd: sql<number>`coalesce(sum(${llmUsageEvents.costUsd}), 0)`.mapWith(Number),
+};
+
+export type LLMUsageTotals = { calls: number; inputTokens: number; outputTokens: number; costUsd: number };
+
+export async function getJobLLMUsage(jobId: string) {
+  const [totals] = await db.select(llmUsageTotals).from(llmUsageEvents)
+    .where(eq(llmUsageEvents.jobId, jobId));
+  const byStage = await db.select({ stageType: llmUsageEvents.stageType, ...llmUsageTotals })
+    .from(llmUsageEvents)
+    .where(eq(llmUsageEvents.jobId, jobId))
+    .groupBy(llmUsageEvents.stageType);
+  return { totals, byStage };
+}
+
+/**
+ * Usage for a user, optionally narrowed to one project and/or a start date,
+ * broken down by project, stage and model
+ */
+export async function getLLMUsageSummary(userId: string, options: { projectId?: string; since?: Date } = {}) {
+  const conditions: SQL[] = [eq(llmUsageEvents.userId, userId)];
+  if (options.projectId) conditions.push(eq(llmUsageEvents.projectId, options.projectId));
+  if (options.since) conditions.push(gte(llmUsageEvents.createdAt, options.since));
+  const where = and(...conditions);
+
+  const [totals] = await db.select(llmUsageTotals).from(llmUsageEvents).where(where);
+
+  const byProject = await db.select({
+    projectId: llmUsageEvents.projectId,
+    projectName: projects.name,
+    ...llmUsageTotals,
+  })
+    .from(llmUsageEvents)
+    .leftJoin(projects, eq(projects.id, llmUsageEvents.projectId))
+    .where(where)
+    .groupBy(llmUsageEvents.projectId, projects.name)
+    .orderBy(desc(llmUsageTotals.costUsd));
+
+  const byStage = await db.select({ stageType: llmUsageEvents.stageType, ...llmUsageTotals })
+    .from(llmUsageEvents)
+    .where(where)
+    .groupBy(llmUsageEvents.stageType)
+    .orderBy(desc(llmUsageTotals.costUsd));
+
+  const byModel = await db.select({ model: llmUsageEvents.model, ...llmUsageTotals })
+    .from(llmUsageEvents)
+    .where(where)
+    .groupBy(llmUsageEvents.model)
+    .orderBy(desc(llmUsageTotals.costUsd));
+
+  return { totals, byProject, byStage, byModel };
+}
@@ -0,0 +1,154 @@
+import { logger } from "./logger";
+/**
+ * Shared Dependency Cache
+ *
+ * Content-addressed node_modules installs, one per distinct dependency set (plus
+ * lockfile, when there is one). Local previews and CompilationValidator temp
+ * projects symlink into the same installs, so a boilerplate's dependencies are
+ * installed once per machine rather than once per preview or validation.
+ *
+ * Env:
+ *  - DEPENDENCY_CACHE_DIR: cache location (falls back to PREVIEW_LOCAL_CACHE_DIR,
+ *    then <tmp>/minidev-preview-deps)
+ */
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { spawn } from "child_process";
+
+const INSTALL_MARKER = ".minidev-installed";
+const LOCKFILE_NAME = "package-lock.json";
+
+export interface DependencyManifest {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * Cache key for a package.json: only the dependency sets matter, so projects that
+ * differ in name or scripts still share one install. A lockfile pins the resolved
+ * versions, so it is part of the key when present.
+ */
+export function getDependencyCacheKey(packageJson: DependencyManifest, lockfile?: string): string {
+  const sortKeys = (deps: Record<string, string> = {}) =>
+    Object.keys(deps).sort().map(name => [name, deps[name]]);
+
+  const hash = createHash("sha256").update(JSON.stringify({
+    dependencies: sortKeys(packageJson.dependencies),
+    devDependencies: sortKeys(packageJson.devDependencies),
+  }));
+  if (lockfile) {
+    hash.update(lockfile);
+  }
+  return hash.digest("hex").substring(0, 16);
+}
+
+export class DependencyCache {
+  readonly cacheDir: string;
+  private readonly installs = new Map<string, Promise<string>>();
+
+  constructor(cacheDir?: string) {
+    this.cacheDir = cacheDir
+      || process.env.DEPENDENCY_CACHE_DIR
+      || process.env.PREVIEW_LOCAL_CACHE_DIR
+      || path.join(os.tmpdir(), "minidev-preview-deps");
+  }
+
+  /**
+   * Install the dependency set into the cache (once, even with concurrent
+   * callers) and return its node_modules path
+   */
+  async ensure(packageJson: DependencyManifest, lockfile?: string): Promise<{ key: string; nodeModules: string }> {
+    const key = getDependencyCacheKey(packageJson, lockfile);
+    let install = this.installs.get(key);
+    if (!install) {
+      install = this.install(key, packageJson, lockfile);
+      this.installs.set(key, install);
+      install.catch(() => this.installs.delete(key));
+    }
+    return { key, nodeModules: await install };
+  }
+
+  /**
+   * Symlink a cached node_modules into a project directory, replacing whatever is there
+   */
+  async link(projectDir: string, nodeModules: string): Promise<void> {
+    const projectModules = path.join(projectDir, "node_modules");
+    const stat = await fs.lstat(projectModules).catch(() => null);
+    if (stat?.isSymbolicLink() && (await fs.readlink(projectModules)) === nodeModules) {
+      return;
+    }
+    await fs.remove(projectModules);
+    await fs.symlink(nodeModules, projectModules, "dir");
+  }
+
+  private async install(key: string, packageJson: DependencyManifest, lockfile?: string): Promise<string> {
+    const installDir = path.join(this.cacheDir, key);
+    const nodeModules = path.join(installDir, "node_modules");
+
+    if (await fs.pathExists(path.join(installDir, INSTALL_MARKER))) {
+      logger.log(`📦 Reusing cached dependencies ${key}`);
+      return nodeModules;
+    }
+
+    // Install next to the final location and rename into place, so another
+    // process never sees a half-installed directory
+    const stagingDir = `${installDir}.partial-${process.pid}`;
+    logger.log(`📦 Installing dependencies ${key} into ${this.cacheDir}...`);
+    await fs.remove(stagingDir);
+    await fs.ensureDir(stagingDir);
+    await fs.writeJson(path.join(stagingDir, "package.json"), {
+      name: `minidev-deps-${key}`,
+      private: true,
+      dependencies: packageJson.dependencies,
+      devDependencies: packageJson.devDependencies,
+    });
+    if (lockfile) {
+      await fs.writeFile(path.join(stagingDir, LOCKFILE_NAME), lockfile);
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const output: string[] = [];
+        const child = spawn("npm", ["install", "--no-audit", "--no-fund", "--legacy-peer-deps"], {
+          cwd: stagingDir,
+          stdio: ["ignore", "pipe", "pipe"],
+        });
+        child.stdout?.on("data", (chunk: Buffer) => output.push(chunk.toString()));
+        child.stderr?.on("data", (chunk: Buffer) => output.push(chunk.toString()));
+        child.on("error", reject);
+        child.on("exit", (code) => {
+          if (code === 0) resolve();
+          else reject(new Error(`npm install exited with code ${code}: ${output.join("").slice(-2000)}`));
+        });
+      });
+
+      await fs.writeFile(path.join(stagingDir, INSTALL_MARKER), new Date().toISOString());
+      await fs.rename(stagingDir, installDir).catch(async (error) => {
+        // Another process finished the same install first
+        if (!(await fs.pathExists(path.join(installDir, INSTALL_MARKER)))) throw error;
+        await fs.remove(stagingDir);
+      });
+    } catch (error) {
+      await fs.remove(stagingDir);
+      throw error;
+    }
+
+    logger.log(`✅ Dependencies ${key} installed`);
+    return nodeModules;
+  }
+}
+
+let sharedCache: DependencyCache | undefined;
+
+/**
+ * The process-wide cache, so previews and validations share in-flight installs
+ */
+export function getDependencyCache(): DependencyCache {
+  if (!sharedCache) {
+    sharedCache = new DependencyCache();
+  }
+  return sharedCache;
+}
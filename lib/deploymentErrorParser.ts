@@ -3,6 +3,8 @@
  * and convert them into actionable error messages for the LLM
  */
 
+import type { CompilationError } from './compilationValidator';
+
 export interface DeploymentError {
   file?: string;
   line?: number;
@@ -127,10 +129,38 @@ export function parseVercelDeploymentErrors(
   };
 }
 
+/**
+ * Convert local CompilationValidator errors into the same shape, so the
+ * pre-deploy validation gate can reuse the deployment fix loop
+ */
+export function parseCompilationErrors(compilationErrors: CompilationError[]): ParsedDeploymentErrors {
+  const errors: DeploymentError[] = compilationErrors
+    .filter(e => e.severity === 'error')
+    .map(e => ({
+      // Build output and validator failures aren't tied to a project file
+      file: e.file === 'build' || e.file === 'compilation-validator' ? undefined : e.file,
+      line: e.line,
+      column: e.column,
+      message: e.message,
+      severity: 'error' as const,
+      category: e.category === 'solidity' ? 'build' as const : e.category,
+      code: e.code,
+      context: e.suggestion,
+    }));
+
+  return {
+    errors,
+    hasTypeScriptErrors: errors.some(e => e.category === 'typescript'),
+    hasESLintErrors: errors.some(e => e.category === 'eslint'),
+    hasBuildErrors: errors.some(e => e.category === 'build'),
+    summary: generateErrorSummary(errors, 'Local validation failed'),
+  };
+}
+
 /**
  * Generate a human-readable summary of deployment errors
  */
-function generateErrorSummary(errors: DeploymentError[]): string {
+function generateErrorSummary(errors: DeploymentError[], prefix = 'Deployment failed'): string {
   if (errors.length === 0) {
     return 'No errors found';
   }
@@ -151,7 +181,7 @@ function generateErrorSummary(errors: DeploymentError[]): string {
     parts.push(`${buildErrors.length} build error(s)`);
   }
 
-  return `Deployment failed with ${parts.join(', ')}`;
+  return `${prefix} with ${parts.join(', ')}`;
 }
 
 /**
@@ -210,6 +240,13 @@ export function getFilesToFix(
     filesToFix.add('.eslintrc.js');
   }
 
+  // A failing contract test usually means a contract bug, so include the sources
+  if (parsed.errors.some(e => e.code === 'SOLIDITY_TEST_FAILED')) {
+    allFiles
+      .filter(f => f.filename.startsWith('contracts/') && f.filename.endsWith('.sol'))
+      .forEach(f => filesToFix.add(f.filename));
+  }
+
   // Return the actual file objects
   return allFiles.filter(f => filesToFix.has(f.filename));
 }
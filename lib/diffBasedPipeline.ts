@@ -7,11 +7,11 @@ import {
   STAGE_MODEL_CONFIG,
   PatchPlan,
   FileDiff,
-  getStage0ContextGathererPrompt,
   executeFollowUpPipeline
 } from './llmOptimizer';
-import { applyDiffHunks, validateDiff } from './diffUtils';
-import { executeToolCalls } from './toolExecutionService';
+import { validateDiff } from './diffUtils';
+import { applyDiffWithAstFallback } from './astEdits';
+import { runContextGatheringLoop, type ContextGatheringTranscript } from './toolExecutionService';
 
 export interface DiffBasedResult {
   files: { filename: string; content: string }[];
@@ -25,7 +25,9 @@ export interface DiffBasedResult {
       workingDirectory?: string;
       reason?: string;
     }>;
-    contextSummary: string;
+    contextSummary?: string;
+    contextComplete?: boolean;
+    transcript?: ContextGatheringTranscript; // every step's tool calls and results, for auditing the edits
   };
   validationResult?: { success: boolean; errors: Array<{ file: string; line?: number; column?: number; message: string; severity: string }>; warnings: Array<{ file: string; line?: number; column?: number; message: string; severity: string }>; info?: Array<{ file: string; message: string }> };
 }
@@ -34,6 +36,8 @@ export interface DiffBasedOptions {
   enableContextGathering?: boolean;
   enableDiffValidation?: boolean;
   enableLinting?: boolean;
+  maxContextSteps?: number; // Stage 0 tool loop budget, see runContextGatheringLoop
+  maxContextTokens?: number;
 }
 
 /**
@@ -50,13 +54,15 @@ export async function executeDiffBasedPipeline(
   const {
     enableContextGathering = true,
     enableDiffValidation = true,
-    enableLinting = true
+    enableLinting = true,
+    maxContextSteps,
+    maxContextTokens
   } = options;
 
   logger.log('🚀 Starting Diff-Based Pipeline');
   logger.log('Options:', { enableContextGathering, enableDiffValidation, enableLinting });
 
-  let contextGathered = null;
+  let contextGathered: DiffBasedResult['contextGathered'];
   const generatedFiles: { filename: string; content: string }[] = [];
   const diffs: FileDiff[] = [];
 
@@ -65,36 +71,18 @@ export async function executeDiffBasedPipeline(
     logger.log('📊 Stage 0: Context Gathering');
     
     try {
-      const contextPrompt = `USER REQUEST: ${userPrompt}`;
-      const contextResponse = await callLLM(
-        getStage0ContextGathererPrompt(userPrompt, currentFiles),
-        contextPrompt,
-        'Stage 0: Context Gatherer',
-        'STAGE_0_CONTEXT_GATHERER'
+      const { contextResult, contextData, transcript } = await runContextGatheringLoop(
+        userPrompt,
+        currentFiles,
+        projectId || 'unknown',
+        callLLM,
+        { maxSteps: maxContextSteps, maxTokens: maxContextTokens, projectDir }
       );
-      // Parse context response
-      let contextData;
-      try {
-        contextData = JSON.parse(contextResponse);
-        contextGathered = contextData;
-      } catch (error) {
-        logger.warn('⚠️ Context gathering response is not valid JSON, skipping context:', error);
-        contextGathered = { needsContext: false, toolCalls: [] };
-      }
+      contextGathered = { ...contextResult, transcript };
 
-      // Execute tool calls if needed
-      if (contextData.needsContext && contextData.toolCalls?.length > 0) {
-        logger.log('🔍 Executing tool calls for context gathering');
-        
-        // Use real project data if available, otherwise skip tool execution
-        if (projectId && projectDir) {
-          const toolResults = await executeToolCalls(contextData, projectId, projectDir);
-          
-          // Add tool results to user prompt for better context
-          userPrompt = `${userPrompt}\n\nContext gathered:\n${toolResults.toolResults.map((r, index) => `Tool ${index + 1}: ${r.output}`).join('\n')}`;
-        } else {
-          logger.warn('⚠️ Project ID or directory not provided, skipping tool execution');
-        }
+      // Add tool results to user prompt for better context
+      if (contextData) {
+        userPrompt = `${userPrompt}\n\nContext gathered:\n${contextData}`;
       }
     } catch (error) {
       logger.warn('⚠️ Context gathering failed, continuing without context:', error);
@@ -189,13 +177,21 @@ export function applyDiffsToFiles(
     
     if (currentContent[diff.filename] !== undefined) {
       // File exists - apply diff with fuzzy matching for line number corrections
-      // Skip pre-validation since fuzzy matching in applyDiffHunks handles misalignments
+      // Skip pre-validation since fuzzy matching in the hunk applier handles misalignments
       logger.log(`Applying diff to existing file: ${diff.filename}`);
       
-      // Apply diff to current content
+      // Apply diff to current content, falling back to AST edits when hunks don't match
       try {
         logger.log('✅ Diff validation passed, applying diff hunks:', diff.hunks);
-        const newContent = applyDiffHunks(currentContent[diff.filename], diff.hunks);
+        const { content: newContent, method, failedHunks } = applyDiffWithAstFallback(
+          diff.filename,
+          currentContent[diff.filename],
+          diff.hunks,
+          diff.astEdits
+        );
+        if (method === 'partial' && failedHunks.length > 0) {
+          logger.warn(`⚠️ ${failedHunks.length}/${diff.hunks.length} hunks could not be applied to ${diff.filename}`);
+        }
         
         // Only add to result if content actually changed from original
         const originalContent = files.find(f => f.filename === diff.filename)?.content || '';
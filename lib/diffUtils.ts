@@ -1,5 +1,6 @@
 import { logger } from "./logger";
 import { createPatch, parsePatch } from 'diff';
+import type { AstEdit } from './astEdits';
 
 export interface DiffHunk {
   oldStart: number;
@@ -13,6 +14,7 @@ export interface FileDiff {
   filename: string;
   hunks: DiffHunk[];
   unifiedDiff: string;
+  astEdits?: AstEdit[]; // Fallback when hunks fail to apply
 }
 
 /**
@@ -295,9 +297,21 @@ export function applyDiffHunks(
   originalContent: string,
   diffHunks: DiffHunk[]
 ): string {
+  return applyDiffHunksWithReport(originalContent, diffHunks).content;
+}
+
+/**
+ * Apply diff hunks leniently, reporting the hunks that were skipped because
+ * their context could not be matched
+ */
+export function applyDiffHunksWithReport(
+  originalContent: string,
+  diffHunks: DiffHunk[]
+): { content: string; failedHunks: DiffHunk[] } {
   try {
     const lines = originalContent.split('\n');
     const result: string[] = [...lines];
+    const failedHunks: DiffHunk[] = [];
 
     // Process hunks in reverse order to maintain line numbers
     const sortedHunks = [...diffHunks].sort((a, b) => b.oldStart - a.oldStart);
@@ -438,6 +452,7 @@ export function applyDiffHunks(
               logger.warn(`  Line ${m.index}: expected "${m.expected}", got "${m.got}"`);
             });
           }
+          failedHunks.push(hunk);
           continue;
         } else if (mismatchedLines.length > 0) {
           logger.log(`Applying hunk at line ${hunk.oldStart} with ${contextMatchCount}/${contextTotalCount} context matches (${(matchRatio * 100).toFixed(0)}%)`);
@@ -486,7 +501,7 @@ export function applyDiffHunks(
       }
     }
 
-    return result.join('\n');
+    return { content: result.join('\n'), failedHunks };
   } catch (error) {
     logger.error('Error applying diff:', error);
     throw new Error(`Failed to apply diff: ${error}`);
@@ -710,3 +725,110 @@ export function getDiffStats(diff: FileDiff): {
   };
 }
 
+
+/**
+ * Invert diff hunks so that applying them undoes the original change
+ */
+export function invertDiffHunks(diffHunks: DiffHunk[]): DiffHunk[] {
+  return diffHunks.map(hunk => ({
+    oldStart: hunk.newStart,
+    oldLines: hunk.newLines,
+    newStart: hunk.oldStart,
+    newLines: hunk.oldLines,
+    lines: hunk.lines.map(line => {
+      if (line.startsWith('+')) return `-${line.substring(1)}`;
+      if (line.startsWith('-')) return `+${line.substring(1)}`;
+      return line;
+    })
+  }));
+}
+
+/**
+ * Apply diff hunks without fuzzy matching.
+ * Each hunk's context and removed lines must appear verbatim (ignoring trailing
+ * whitespace) in the content; the occurrence closest to the hunk header wins.
+ * Hunks that cannot be located are reported instead of being silently skipped.
+ */
+export function applyDiffHunksStrict(
+  originalContent: string,
+  diffHunks: DiffHunk[]
+): { content: string; failedHunks: DiffHunk[] } {
+  const result = originalContent.split('\n');
+  const failedHunks: DiffHunk[] = [];
+  const normalize = (line: string) => line.trimEnd();
+
+  // Locate every hunk against the original content first, then apply bottom-up
+  const located: Array<{ hunk: DiffHunk; index: number; oldBlock: string[]; newBlock: string[] }> = [];
+
+  for (const hunk of diffHunks) {
+    const oldBlock: string[] = [];
+    const newBlock: string[] = [];
+
+    // Trailing blank entries come from splitting the unified diff text, not from the file
+    const hunkLines = [...hunk.lines];
+    while (hunkLines.length > 0 && hunkLines[hunkLines.length - 1] === '') {
+      hunkLines.pop();
+    }
+
+    for (const diffLine of hunkLines) {
+      if (diffLine.startsWith('\\')) continue; // "\ No newline at end of file"
+      if (diffLine.startsWith('-')) {
+        oldBlock.push(diffLine.substring(1));
+      } else if (diffLine.startsWith('+')) {
+        newBlock.push(diffLine.substring(1));
+      } else {
+        const lineContent = diffLine.startsWith(' ') ? diffLine.substring(1) : diffLine;
+        oldBlock.push(lineContent);
+        newBlock.push(lineContent);
+      }
+    }
+
+    // Pure insertion without context: trust the header position
+    if (oldBlock.length === 0) {
+      const index = Math.min(Math.max(hunk.oldStart, 0), result.length);
+      located.push({ hunk, index, oldBlock, newBlock });
+      continue;
+    }
+
+    const expectedIndex = hunk.oldStart - 1;
+    let bestIndex = -1;
+
+    for (let i = 0; i <= result.length - oldBlock.length; i++) {
+      let matches = true;
+      for (let j = 0; j < oldBlock.length; j++) {
+        if (normalize(result[i + j]) !== normalize(oldBlock[j])) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches && (bestIndex === -1 || Math.abs(i - expectedIndex) < Math.abs(bestIndex - expectedIndex))) {
+        bestIndex = i;
+      }
+    }
+
+    if (bestIndex === -1) {
+      failedHunks.push(hunk);
+    } else {
+      located.push({ hunk, index: bestIndex, oldBlock, newBlock });
+    }
+  }
+
+  // Overlapping hunks cannot both be applied safely
+  located.sort((a, b) => a.index - b.index);
+  const applicable: typeof located = [];
+  for (const entry of located) {
+    const previous = applicable[applicable.length - 1];
+    if (previous && entry.index < previous.index + previous.oldBlock.length) {
+      failedHunks.push(entry.hunk);
+    } else {
+      applicable.push(entry);
+    }
+  }
+
+  for (let i = applicable.length - 1; i >= 0; i--) {
+    const { index, oldBlock, newBlock } = applicable[i];
+    result.splice(index, oldBlock.length, ...newBlock);
+  }
+
+  return { content: result.join('\n'), failedHunks };
+}
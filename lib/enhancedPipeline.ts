@@ -35,7 +35,8 @@ export async function executeEnhancedPipeline(
     stageType?: keyof typeof STAGE_MODEL_CONFIG
   ) => Promise<string>,
   isInitialGeneration: boolean = false,
-  projectDir?: string
+  projectDir?: string,
+  templateId?: string // Template picked by the user (initial generation only)
 ): Promise<EnhancedPipelineResult> {
   try {
     logger.log("🚀 Starting enhanced pipeline...");
@@ -58,7 +59,6 @@ export async function executeEnhancedPipeline(
         userPrompt,
         currentFiles,
         projectId,
-        accessToken,
         callLLM,
         projectDir
       );
@@ -81,7 +81,8 @@ export async function executeEnhancedPipeline(
         enhancedFiles,
         callLLM,
         projectId,
-        projectDir
+        projectDir,
+        templateId
       );
     } else {
       pipelineResult = await executeFollowUpPipeline(
@@ -0,0 +1,358 @@
+import { logger } from "./logger";
+/**
+ * Farcaster Sign-In Verification
+ *
+ * Verifies the credential a client presents to /api/auth/farcaster, so the FID
+ * a session is created for is proven rather than taken from the request body:
+ *  - Quick Auth JWT (inside a Farcaster mini app): signature checked against
+ *    the Quick Auth server's JWKS (cached), plus issuer, audience and expiry
+ *  - Sign In With Farcaster message (outside a mini app): an EIP-4361 message
+ *    for a nonce this server issued and nobody signed in with yet, signed by
+ *    the FID's custody address
+ *
+ * Env:
+ *  - FARCASTER_AUTH_DOMAIN: domain tokens and messages must be issued for
+ *    (required in production; falls back to the request host in development)
+ *  - QUICK_AUTH_ORIGIN:     Quick Auth server (default https://auth.farcaster.xyz)
+ *  - FARCASTER_NONCE_SECRET: signs SIWF nonces (random per process if unset)
+ *  - OPTIMISM_RPC_URL:      RPC for the Farcaster IdRegistry custody lookup
+ */
+
+import {
+  createHmac,
+  createPublicKey,
+  randomBytes,
+  timingSafeEqual,
+  verify as verifySignature,
+  type JsonWebKey,
+  type KeyObject,
+} from "crypto";
+import { createPublicClient, http, isAddressEqual, parseAbi, recoverMessageAddress, type Address, type Hex } from "viem";
+import { optimism } from "viem/chains";
+import { parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import { consumeSiwfNonce } from "./database";
+
+const QUICK_AUTH_ORIGIN = process.env.QUICK_AUTH_ORIGIN || "https://auth.farcaster.xyz";
+const JWKS_TTL_MS = 60 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 60 * 1000; // Unknown kids refetch at most this often
+const CLOCK_TOLERANCE_SECONDS = 30;
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const NONCE_MAC_LENGTH = 24;
+const FID_RESOURCE = /^farcaster:\/\/fid\/(\d+)$/;
+
+const ID_REGISTRY_ADDRESS = "0x00000000Fc6c5F01Fc30151999387Bb99A9f489b";
+const ID_REGISTRY_ABI = parseAbi(["function custodyOf(uint256 fid) view returns (address)"]);
+
+// Algorithm -> the key type it must be verified with (no algorithm confusion)
+const SUPPORTED_ALGORITHMS: Record<string, string> = {
+  EdDSA: "ed25519",
+  ES256: "ec",
+  RS256: "rsa",
+};
+
+export class FarcasterAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FarcasterAuthError';
+  }
+}
+
+export interface QuickAuthPayload {
+  sub: number | string; // FID
+  iss: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  address?: string;
+}
+
+export interface VerifiedFarcasterIdentity {
+  fid: string;
+  method: 'quick_auth' | 'siwf';
+  address?: string;
+}
+
+/**
+ * Domain Quick Auth tokens and SIWF messages must name. Only falls back to the
+ * request host outside production - a token minted for another app would
+ * otherwise be accepted by sending that app's host header
+ */
+export function resolveFarcasterAuthDomain(requestHost?: string | null): string {
+  const domain = process.env.FARCASTER_AUTH_DOMAIN
+    || (process.env.NODE_ENV !== "production" ? requestHost : undefined);
+  if (!domain) {
+    throw new Error("FARCASTER_AUTH_DOMAIN is not configured");
+  }
+  return domain;
+}
+
+// ========================================================================
+// QUICK AUTH (JWT)
+// ========================================================================
+
+/**
+ * Signing keys from a JWKS endpoint, refetched after the TTL or when a token
+ * names a key id that isn't cached yet (key rotation)
+ */
+export class JwksCache {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args),
+    private readonly ttlMs: number = JWKS_TTL_MS
+  ) {}
+
+  async getKey(kid?: string): Promise<KeyObject | undefined> {
+    if (Date.now() - this.fetchedAt > this.ttlMs) {
+      await this.refresh();
+    }
+    let key = this.lookup(kid);
+    if (!key && Date.now() - this.fetchedAt > JWKS_MIN_REFRESH_MS) {
+      await this.refresh();
+      key = this.lookup(kid);
+    }
+    return key;
+  }
+
+  private lookup(kid?: string): KeyObject | undefined {
+    if (kid) return this.keys.get(kid);
+    // Tokens without a kid are only unambiguous against a single-key set
+    return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+  }
+
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchKeys().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const response = await this.fetchImpl(this.url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS from ${this.url}: ${response.status}`);
+    }
+    const { keys } = await response.json() as { keys?: (JsonWebKey & { kid?: string })[] };
+
+    const next = new Map<string, KeyObject>();
+    (keys || []).forEach((jwk, index) => {
+      try {
+        next.set(jwk.kid || `key-${index}`, createPublicKey({ key: jwk, format: "jwk" }));
+      } catch (error) {
+        logger.warn(`⚠️ Skipping unusable JWK ${jwk.kid || index} from ${this.url}:`, error);
+      }
+    });
+    this.keys = next;
+    this.fetchedAt = Date.now();
+    logger.log(`🔑 Loaded ${next.size} signing key(s) from ${this.url}`);
+  }
+}
+
+let quickAuthJwks: JwksCache | undefined;
+
+function getQuickAuthJwks(): JwksCache {
+  if (!quickAuthJwks) {
+    quickAuthJwks = new JwksCache(`${QUICK_AUTH_ORIGIN}/.well-known/jwks.json`);
+  }
+  return quickAuthJwks;
+}
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new FarcasterAuthError(`Malformed token ${name}`);
+  }
+}
+
+/**
+ * Verify a JWT's signature against the key set and its registered claims
+ */
+export async function verifyJwt(
+  token: string,
+  options: { jwks: JwksCache; issuer: string; audience: string; now?: Date }
+): Promise<QuickAuthPayload> {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new FarcasterAuthError("Malformed token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader, "header");
+  const payload = decodeSegment<QuickAuthPayload>(encodedPayload, "payload");
+
+  const keyType = header.alg ? SUPPORTED_ALGORITHMS[header.alg] : undefined;
+  if (!keyType) {
+    throw new FarcasterAuthError(`Unsupported token algorithm: ${header.alg}`);
+  }
+  const key = await options.jwks.getKey(header.kid);
+  if (!key || key.asymmetricKeyType !== keyType) {
+    throw new FarcasterAuthError("Token signing key not found");
+  }
+
+  const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, "base64url");
+  const valid = header.alg === "EdDSA"
+    ? verifySignature(null, signedData, key, signature)
+    : verifySignature("sha256", signedData, header.alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" } : key, signature);
+  if (!valid) {
+    throw new FarcasterAuthError("Invalid token signature");
+  }
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (payload.iss !== options.issuer) {
+    throw new FarcasterAuthError(`Unexpected token issuer: ${payload.iss}`);
+  }
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(options.audience)) {
+    throw new FarcasterAuthError(`Token was issued for another domain: ${audiences.join(", ")}`);
+  }
+  if (typeof payload.exp !== "number" || payload.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    throw new FarcasterAuthError("Token expired");
+  }
+  if (typeof payload.nbf === "number" && payload.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new FarcasterAuthError("Token is not valid yet");
+  }
+  return payload;
+}
+
+/**
+ * Verify a Quick Auth token from the mini app SDK. When the client also sent
+ * an FID it must be the token's subject
+ */
+export async function verifyQuickAuthToken(
+  token: string,
+  options: { domain: string; fid?: string; jwks?: JwksCache; now?: Date }
+): Promise<VerifiedFarcasterIdentity> {
+  const payload = await verifyJwt(token, {
+    jwks: options.jwks ?? getQuickAuthJwks(),
+    issuer: QUICK_AUTH_ORIGIN,
+    audience: options.domain,
+    now: options.now,
+  });
+
+  const fid = String(payload.sub ?? "");
+  if (!/^\d+$/.test(fid)) {
+    throw new FarcasterAuthError("Token has no FID");
+  }
+  if (options.fid !== undefined && String(options.fid) !== fid) {
+    throw new FarcasterAuthError("Token FID does not match the requested FID");
+  }
+  return { fid, method: 'quick_auth', address: payload.address };
+}
+
+// ========================================================================
+// SIGN IN WITH FARCASTER (SIWF)
+// ========================================================================
+
+let nonceSecret: Buffer | undefined;
+
+function getNonceSecret(): Buffer {
+  if (!nonceSecret) {
+    if (process.env.FARCASTER_NONCE_SECRET) {
+      nonceSecret = Buffer.from(process.env.FARCASTER_NONCE_SECRET);
+    } else {
+      logger.warn("⚠️ FARCASTER_NONCE_SECRET not set - SIWF nonces only verify on this instance");
+      nonceSecret = randomBytes(32);
+    }
+  }
+  return nonceSecret;
+}
+
+function nonceMac(issuedAt: string): string {
+  return createHmac("sha256", getNonceSecret()).update(issuedAt).digest("hex").substring(0, NONCE_MAC_LENGTH);
+}
+
+/**
+ * SIWF nonce: issue time plus its MAC, alphanumeric as EIP-4361 requires.
+ * Issuing stores nothing; verifySiwfMessage records a nonce once it is used.
+ */
+export function createSiwfNonce(now: Date = new Date()): string {
+  const issuedAt = now.getTime().toString(36);
+  return `${issuedAt}${nonceMac(issuedAt)}`;
+}
+
+function siwfNonceExpiresAt(nonce: string): Date {
+  return new Date(parseInt(nonce.slice(0, -NONCE_MAC_LENGTH), 36) + NONCE_TTL_MS);
+}
+
+function isValidSiwfNonce(nonce: string, now: Date): boolean {
+  const issuedAt = nonce.slice(0, -NONCE_MAC_LENGTH);
+  const mac = Buffer.from(nonce.slice(-NONCE_MAC_LENGTH));
+  const expected = Buffer.from(nonceMac(issuedAt));
+  if (!issuedAt || mac.length !== expected.length || !timingSafeEqual(mac, expected)) {
+    return false;
+  }
+  const age = now.getTime() - parseInt(issuedAt, 36);
+  return age >= 0 && age <= NONCE_TTL_MS;
+}
+
+/**
+ * Custody address of an FID from the IdRegistry on OP Mainnet
+ */
+export async function getFidCustodyAddress(fid: string): Promise<Address> {
+  const client = createPublicClient({ chain: optimism, transport: http(process.env.OPTIMISM_RPC_URL) });
+  return client.readContract({
+    address: ID_REGISTRY_ADDRESS,
+    abi: ID_REGISTRY_ABI,
+    functionName: "custodyOf",
+    args: [BigInt(fid)],
+  });
+}
+
+/**
+ * Verify a Sign In With Farcaster message: issued for this domain with one of
+ * our nonces, not expired, and signed by the custody address of the FID in its
+ * farcaster://fid/ resource. When the client also sent an FID it must be that one.
+ * A verified message uses its nonce up, so it cannot be replayed.
+ */
+export async function verifySiwfMessage(
+  message: string,
+  signature: string,
+  options: {
+    domain: string;
+    fid?: string;
+    now?: Date;
+    getCustodyAddress?: (fid: string) => Promise<Address>;
+    consumeNonce?: (nonce: string, expiresAt: Date) => Promise<boolean>;
+  }
+): Promise<VerifiedFarcasterIdentity> {
+  const now = options.now ?? new Date();
+  const parsed = parseSiweMessage(message);
+
+  const fid = parsed.resources?.map(resource => FID_RESOURCE.exec(resource)?.[1]).find(Boolean);
+  if (!parsed.address || !parsed.nonce || !fid) {
+    throw new FarcasterAuthError("Not a Sign In With Farcaster message");
+  }
+  if (options.fid !== undefined && String(options.fid) !== fid) {
+    throw new FarcasterAuthError("Sign-in message FID does not match the requested FID");
+  }
+  if (!validateSiweMessage({ message: parsed, domain: options.domain, time: now })) {
+    throw new FarcasterAuthError("Sign-in message is expired or for another domain");
+  }
+  if (!isValidSiwfNonce(parsed.nonce, now)) {
+    throw new FarcasterAuthError("Sign-in nonce is invalid or expired");
+  }
+
+  const signer = await recoverMessageAddress({ message, signature: signature as Hex }).catch(() => null);
+  if (!signer || !isAddressEqual(signer, parsed.address)) {
+    throw new FarcasterAuthError("Invalid sign-in signature");
+  }
+
+  const custody = await (options.getCustodyAddress ?? getFidCustodyAddress)(fid);
+  if (!isAddressEqual(custody, signer)) {
+    throw new FarcasterAuthError("Sign-in message was not signed by the FID's custody address");
+  }
+
+  // Last, so only a sign-in that passed every other check uses the nonce up
+  const consumed = await (options.consumeNonce ?? consumeSiwfNonce)(parsed.nonce, siwfNonceExpiresAt(parsed.nonce));
+  if (!consumed) {
+    throw new FarcasterAuthError("Sign-in nonce was already used");
+  }
+  return { fid, method: 'siwf', address: signer };
+}
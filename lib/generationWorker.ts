@@ -13,12 +13,18 @@ import {
   saveProjectFiles,
   getUserById,
   getProjectById,
+  pinGenerationJobProjectId,
   createDeployment,
   getProjectFiles,
+  getProjectFileVersions,
+  saveProjectFilesAtVersions,
   savePatch,
   updateProject,
+  createProjectSnapshot,
   type GenerationJobContext,
 } from "./database";
+import { mergeFileSets } from "./snapshotUtils";
+import { mergeChangedFiles } from "./threeWayMerge";
 import { executeEnhancedPipeline } from "./enhancedPipeline";
 import { executeDiffBasedPipeline } from "./diffBasedPipeline";
 import {
@@ -27,14 +33,23 @@ import {
   getPreviewUrl,
   deployContractsFirst,
   redeployToVercel,
+  getPreviewAccessToken,
 } from "./previewManager";
-import { STAGE_MODEL_CONFIG, ANTHROPIC_MODELS } from "./llmOptimizer";
-import { updateFilesWithContractAddresses } from "./contractAddressInjector";
+import { withLLMFixtures, type CallLLM } from "./llmFixtures";
+import { createUsageTrackingCallLLM, type LLMUsageScope } from "./llmUsage";
+import { emitJobEvent, withStageEvents } from "./jobEvents";
+import { claimNextJob, createWorkerId, handleJobAttemptFailure, startLeaseHeartbeat } from "./jobQueue";
+import { JobCancelledError, JobLeaseLostError, runWithJobLease, throwIfJobCancelled, withCancellation, type JobLease } from "./jobCancellation";
+import { updateFilesWithContractAddresses, type ContractChain } from "./contractAddressInjector";
 import {
   parseVercelDeploymentErrors,
+  parseCompilationErrors,
   formatErrorsForLLM,
   getFilesToFix,
+  type ParsedDeploymentErrors,
 } from "./deploymentErrorParser";
+import { CompilationValidator, type CompilationError } from "./compilationValidator";
+import { SolidityToolchain, hasContracts, type GasReportEntry, type SolidityTestResult } from "./solidityToolchain";
 import { logger } from "./logger";
 
 
@@ -180,177 +195,11 @@ async function fetchBoilerplateFromGitHub(targetDir: string) {
   await fetchDirectoryContents();
 }
 
-// LLM caller with retry logic
-async function callClaudeWithLogging(
-  systemPrompt: string,
-  userPrompt: string,
-  stageName: string,
-  stageType?: keyof typeof STAGE_MODEL_CONFIG
-): Promise<string> {
-  const apiKey = process.env.CLAUDE_API_KEY;
-  if (!apiKey) throw new Error("Claude API key not set in environment");
-
-  let modelConfig = stageType
-    ? STAGE_MODEL_CONFIG[stageType]
-    : STAGE_MODEL_CONFIG.LEGACY_SINGLE_STAGE;
-
-  if (stageName.includes('(Retry)') && stageType === 'STAGE_3_CODE_GENERATOR') {
-    const increasedTokens = Math.min(modelConfig.maxTokens * 2, 40000);
-    modelConfig = {
-      ...modelConfig,
-      maxTokens: increasedTokens
-    } as typeof modelConfig;
-  }
-
-  logger.log(`\n🤖 LLM Call - ${stageName}`);
-  logger.log("  Model:", modelConfig.model);
-  logger.log("  Max Tokens:", modelConfig.maxTokens);
-
-  const body = {
-    model: modelConfig.model,
-    max_tokens: modelConfig.maxTokens,
-    temperature: modelConfig.temperature,
-    system: systemPrompt,
-    messages: [{ role: "user", content: userPrompt }],
-  };
-
-  const maxRetries = 3;
-  const baseDelay = 1000;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    if (attempt > 1) {
-      const throttleDelay = Math.min(500 * attempt, 2000);
-      logger.log(`⏱️ Throttling request (attempt ${attempt}), waiting ${throttleDelay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, throttleDelay));
-    }
-
-    try {
-      const startTime = Date.now();
-
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": apiKey,
-          "anthropic-version": "2023-06-01",
-          "content-type": "application/json",
-        },
-        body: JSON.stringify(body),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-
-        if (response.status === 529 || response.status === 429) {
-          if (attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-
-            if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
-              logger.log(`⚠️ API ${response.status} error, switching to fallback model: ${modelConfig.fallbackModel}`);
-              body.model = modelConfig.fallbackModel;
-            } else {
-              logger.log(`⚠️ API ${response.status} error, retrying in ${delay}ms...`);
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          } else {
-            throw new Error(
-              `Claude API overloaded after ${maxRetries} attempts. Please try again later.`
-            );
-          }
-        } else if (response.status >= 500) {
-          if (attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-
-            if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
-              logger.log(`⚠️ Server error ${response.status}, switching to fallback model: ${modelConfig.fallbackModel}`);
-              body.model = modelConfig.fallbackModel;
-            } else {
-              logger.log(`⚠️ Server error ${response.status}, retrying in ${delay}ms...`);
-            }
-
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          } else {
-            throw new Error(
-              `Claude API server error after ${maxRetries} attempts. Please try again later.`
-            );
-          }
-        } else {
-          throw new Error(`Claude API error: ${response.status} ${errorText}`);
-        }
-      }
-
-      const responseData = await response.json();
-      const endTime = Date.now();
-
-      const responseText = responseData.content[0]?.text || "";
-
-      const inputTokens = responseData.usage?.input_tokens || 0;
-      const outputTokens = responseData.usage?.output_tokens || 0;
-      const totalTokens = inputTokens + outputTokens;
-
-      const actualCost = calculateActualCost(inputTokens, outputTokens, modelConfig.model);
-
-      logger.log("📥 Output:");
-      logger.log("  Response Time:", endTime - startTime, "ms");
-      logger.log("  Total Tokens:", totalTokens);
-      logger.log("  Cost:", actualCost);
-
-      return responseText;
-    } catch (error) {
-      if (attempt === maxRetries) {
-        logger.error(`❌ LLM API Error (${stageName}) after ${maxRetries} attempts:`, error);
-        throw error;
-      }
-
-      if (
-        error instanceof TypeError ||
-        (error instanceof Error && error.message.includes("fetch"))
-      ) {
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        logger.log(`⚠️ Network error, retrying in ${delay}ms...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        continue;
-      }
-
-      throw error;
-    }
-  }
-
-  throw new Error(
-    `Failed to get response from Claude API after ${maxRetries} attempts`
-  );
-}
-
-function calculateActualCost(
-  inputTokens: number,
-  outputTokens: number,
-  model: string
-): string {
-  let costPer1MInput = 0;
-  let costPer1MOutput = 0;
-
-  switch (model) {
-    case ANTHROPIC_MODELS.FAST:
-      costPer1MInput = 0.25;
-      costPer1MOutput = 1.25;
-      break;
-    case ANTHROPIC_MODELS.BALANCED:
-      costPer1MInput = 3;
-      costPer1MOutput = 15;
-      break;
-    case ANTHROPIC_MODELS.POWERFUL:
-      costPer1MInput = 15;
-      costPer1MOutput = 75;
-      break;
-  }
-
-  const inputCost = (inputTokens / 1000000) * costPer1MInput;
-  const outputCost = (outputTokens / 1000000) * costPer1MOutput;
-  const totalCost = inputCost + outputCost;
-
-  return `$${totalCost.toFixed(6)}`;
+// LLM caller routed through the provider configured for the stage, recording
+// each call in the usage ledger. Optional record/replay of stage calls
+// (LLM_FIXTURE_MODE) sits in front, so replayed calls cost nothing.
+function createLLMCaller(usageScope: LLMUsageScope): CallLLM {
+  return withLLMFixtures(createUsageTrackingCallLLM(usageScope));
 }
 
 function generateProjectName(intentSpec: { feature: string; reason?: string }): string {
@@ -399,7 +248,9 @@ async function fixDeploymentErrors(
   deploymentError: string,
   deploymentLogs: string,
   currentFiles: { filename: string; content: string }[],
-  projectId: string
+  projectId: string,
+  callLLM: CallLLM,
+  jobId?: string
 ): Promise<{ filename: string; content: string }[]> {
   logger.log("\n" + "=".repeat(70));
   logger.log("🔧 DEPLOYMENT ERROR DETECTED - ATTEMPTING TO FIX");
@@ -419,8 +270,34 @@ async function fixDeploymentErrors(
   logger.log(`   - Build: ${parsed.hasBuildErrors ? 'YES' : 'NO'}`);
   logger.log(`🔍 [FIX-DEBUG] Parsed error details:`, JSON.stringify(parsed.errors.slice(0, 3), null, 2));
 
+  return fixBuildErrors(parsed, currentFiles, projectId, callLLM, jobId, 'DEPLOYMENT');
+}
+
+/**
+ * Ask the Stage 4 validator to fix parsed build errors and apply its diffs.
+ * Shared by the deployment retry loop and the pre-deploy validation gate.
+ */
+async function fixBuildErrors(
+  parsed: ParsedDeploymentErrors,
+  currentFiles: { filename: string; content: string }[],
+  projectId: string,
+  callLLM: CallLLM,
+  jobId: string | undefined,
+  stage: 'DEPLOYMENT' | 'VALIDATION'
+): Promise<{ filename: string; content: string }[]> {
+  if (jobId) {
+    await emitJobEvent(jobId, {
+      type: 'validation_errors',
+      stage,
+      message: `Found ${parsed.errors.length} build error(s)`,
+      data: {
+        errors: parsed.errors.slice(0, 20).map(e => ({ file: e.file, line: e.line, category: e.category, message: e.message })),
+      },
+    });
+  }
+
   if (parsed.errors.length === 0) {
-    logger.log("⚠️ No parseable errors found in deployment logs");
+    logger.log("⚠️ No parseable errors found");
     logger.log(`🔍 [FIX-DEBUG] Returning ${currentFiles.length} original files unchanged`);
     return currentFiles;
   }
@@ -440,6 +317,10 @@ async function fixDeploymentErrors(
   logger.log("\n📋 Error summary for LLM:");
   logger.log(errorMessage);
 
+  if (jobId) {
+    await throwIfJobCancelled(jobId, stage === 'VALIDATION' ? 'validation error fixes' : 'deployment error fixes');
+  }
+
   // Import getStage4ValidatorPrompt from llmOptimizer
   const { getStage4ValidatorPrompt } = await import('./llmOptimizer');
   
@@ -454,10 +335,10 @@ async function fixDeploymentErrors(
   logger.log(`🔍 [FIX-DEBUG] LLM prompt length: ${fixPrompt.length} chars`);
   logger.log(`🔍 [FIX-DEBUG] Using diff-based fixes: true`);
   
-  const fixResponse = await callClaudeWithLogging(
+  const fixResponse = await callLLM(
     fixPrompt,
     "",
-    "Stage 4: Deployment Error Fixes",
+    stage === 'VALIDATION' ? "Stage 4: Pre-deploy Validation Fixes" : "Stage 4: Deployment Error Fixes",
     "STAGE_4_VALIDATOR"
   );
 
@@ -465,7 +346,7 @@ async function fixDeploymentErrors(
   logger.log(`🔍 [FIX-DEBUG] Response preview (first 500 chars):\n${fixResponse.substring(0, 500)}`);
 
   // Log the response for debugging
-  logger.log(`📊 [${projectId}] Stage 4 Deployment Error Fixes:`, {
+  logger.log(`📊 [${projectId}] Stage 4 ${stage === 'VALIDATION' ? 'Pre-deploy Validation' : 'Deployment Error'} Fixes:`, {
     errorCount: parsed.errors.length,
     filesToFix: filesToFix.length,
     responseLength: fixResponse.length,
@@ -538,52 +419,250 @@ async function fixDeploymentErrors(
   }
 }
 
+interface PreDeployValidation {
+  outcome: 'passed' | 'fixed' | 'failed' | 'skipped' | 'error';
+  durationMs: number;
+  runs: number;
+  fixAttempts: number;
+  errors: number;
+  warnings: number;
+  remainingErrors?: { file: string; line?: number; category: string; message: string }[];
+  tests?: { passed: number; failed: number };
+  gasReport?: GasReportEntry[];
+}
+
+type PreDeployTarget = 'app' | 'contracts';
+
+const PREDEPLOY_VALIDATION_ENABLED = process.env.PREDEPLOY_VALIDATION !== 'off';
+const PREDEPLOY_VALIDATION_MAX_FIXES = parseInt(process.env.PREDEPLOY_VALIDATION_MAX_FIXES || '2', 10);
+const PREDEPLOY_VALIDATION_TIMEOUT_MS = parseInt(process.env.PREDEPLOY_VALIDATION_TIMEOUT_MS || '300000', 10);
+
+/**
+ * One round of local checks: tsc, ESLint and `next build` for the app, or
+ * compile, tests and gas report for the contracts/ Hardhat project
+ */
+async function runPreDeployChecks(
+  target: PreDeployTarget,
+  files: { filename: string; content: string }[],
+  projectId: string
+): Promise<{ errors: CompilationError[]; warnings: CompilationError[]; unavailable?: string; tests?: SolidityTestResult[]; gasReport?: GasReportEntry[] }> {
+  if (target === 'contracts') {
+    return new SolidityToolchain({ timeoutMs: PREDEPLOY_VALIDATION_TIMEOUT_MS, cacheKey: projectId }).run(files);
+  }
+
+  const validator = new CompilationValidator(process.cwd(), {
+    enableSolidity: false, // Contracts are checked before they are deployed
+    enableRuntimeChecks: false,
+    timeoutMs: PREDEPLOY_VALIDATION_TIMEOUT_MS,
+    cacheKey: projectId, // Fix rounds and later jobs recheck incrementally
+  });
+  const result = await validator.validateProject(
+    files.map(f => ({ ...f, operation: 'create' })),
+    []
+  );
+
+  // The validator itself failed (e.g. couldn't set up its temp project) - nothing to fix
+  if (!result.success && result.errors.every(e => e.file === 'compilation-validator')) {
+    return { errors: [], warnings: [], unavailable: result.errors[0]?.message };
+  }
+  return { errors: result.errors, warnings: result.warnings };
+}
+
+/**
+ * Pre-deploy gate: run the local checks and feed any errors through the fix
+ * loop before the app is shipped to the preview host (or the contracts to the
+ * chain), so most build failures cost a local compile instead of a full deploy
+ * cycle.
+ *
+ * Never blocks the deploy - if errors remain, the deployment retry loop still
+ * gets its turn. Returns the files the fixes changed plus a record for the job.
+ */
+async function validateBeforeDeploy(
+  projectFiles: { filename: string; content: string }[],
+  projectId: string,
+  callLLM: CallLLM,
+  jobId: string,
+  target: PreDeployTarget = 'app'
+): Promise<{ fixedFiles: { filename: string; content: string }[]; validation: PreDeployValidation }> {
+  const startTime = Date.now();
+  const validation: PreDeployValidation = { outcome: 'skipped', durationMs: 0, runs: 0, fixAttempts: 0, errors: 0, warnings: 0 };
+  const stage = target === 'contracts' ? 'CONTRACTS' : 'VALIDATION';
+  const label = target === 'contracts' ? 'Contract check' : 'Build check';
+
+  if (!PREDEPLOY_VALIDATION_ENABLED) {
+    logger.log("⏭️ Pre-deploy validation disabled (PREDEPLOY_VALIDATION=off)");
+    return { fixedFiles: [], validation };
+  }
+
+  logger.log("\n" + "=".repeat(70));
+  logger.log(`🧪 PRE-DEPLOY VALIDATION (${target.toUpperCase()})`);
+  logger.log("=".repeat(70));
+
+  await emitJobEvent(jobId, {
+    type: 'deploy_status',
+    stage,
+    message: target === 'contracts' ? 'Compiling and testing contracts before deploying...' : 'Checking the build before deploying...',
+    data: { status: 'started' },
+  });
+
+  const originalContent = new Map(projectFiles.map(f => [f.filename, f.content]));
+  let files = projectFiles;
+
+  while (true) {
+    await throwIfJobCancelled(jobId, 'pre-deploy validation');
+
+    const result = await runPreDeployChecks(target, files, projectId);
+    validation.runs++;
+    validation.errors = result.errors.length;
+    validation.warnings = result.warnings.length;
+    if (result.tests) {
+      const failed = result.tests.filter(t => !t.passed).length;
+      validation.tests = { passed: result.tests.length - failed, failed };
+    }
+    if (result.gasReport) {
+      validation.gasReport = result.gasReport;
+    }
+    logger.log(`🧪 Validation run ${validation.runs}: ${result.errors.length} errors, ${result.warnings.length} warnings`);
+
+    if (result.unavailable) {
+      logger.warn(`⚠️ Pre-deploy validation could not run: ${result.unavailable}`);
+      validation.outcome = 'error';
+      break;
+    }
+
+    if (result.errors.length === 0) {
+      validation.outcome = validation.fixAttempts > 0 ? 'fixed' : 'passed';
+      break;
+    }
+
+    validation.remainingErrors = result.errors.slice(0, 20).map(e => ({ file: e.file, line: e.line, category: e.category, message: e.message }));
+    if (validation.fixAttempts >= PREDEPLOY_VALIDATION_MAX_FIXES) {
+      validation.outcome = 'failed';
+      break;
+    }
+
+    await emitJobEvent(jobId, {
+      type: 'fix_attempt',
+      stage,
+      message: target === 'contracts' ? 'Fixing contract errors before deploying...' : 'Fixing build errors before deploying...',
+      data: { attempt: validation.fixAttempts + 1 },
+    });
+
+    const fixed = await fixBuildErrors(parseCompilationErrors(result.errors), files, projectId, callLLM, jobId, 'VALIDATION');
+    validation.fixAttempts++;
+
+    const changed = fixed.some(f => files.find(prev => prev.filename === f.filename)?.content !== f.content);
+    if (!changed) {
+      logger.warn("⚠️ Fix attempt changed no files - stopping pre-deploy validation");
+      validation.outcome = 'failed';
+      break;
+    }
+    files = fixed;
+  }
+
+  validation.durationMs = Date.now() - startTime;
+  if (validation.outcome !== 'failed') {
+    delete validation.remainingErrors;
+  }
+  logger.log(`🧪 Pre-deploy validation (${target}) ${validation.outcome} after ${validation.runs} run(s) and ${validation.fixAttempts} fix attempt(s) in ${validation.durationMs}ms`);
+
+  await emitJobEvent(jobId, {
+    type: 'deploy_status',
+    stage,
+    message: validation.outcome === 'passed' ? `${label} passed`
+      : validation.outcome === 'fixed' ? `${label} errors fixed before deploying`
+      : validation.outcome === 'failed' ? `${label} still reports ${validation.errors} error(s), deploying anyway`
+      : `${label} unavailable, deploying anyway`,
+    data: { status: validation.outcome, ...validation },
+  });
+
+  const fixedFiles = files.filter(f => originalContent.get(f.filename) !== f.content);
+  return { fixedFiles, validation };
+}
+
 /**
  * Main worker function to execute a generation job
+ *
+ * @param workerId - Lease owner from claimNextJob. When omitted the job must still
+ *   be pending and is claimed here.
  */
-export async function executeGenerationJob(jobId: string): Promise<void> {
+export async function executeGenerationJob(jobId: string, workerId?: string): Promise<void> {
   logger.log(`🚀 Starting job execution: ${jobId}`);
 
+  let leaseOwner = workerId || null;
+  let stopHeartbeat: () => void = () => {};
+
   try {
     // Fetch job from database
-    const job = await getGenerationJobById(jobId);
+    let job = await getGenerationJobById(jobId);
 
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    if (job.status !== "processing" && job.status !== "pending") {
-      throw new Error(`Job ${jobId} is in ${job.status} state, cannot process`);
+    if (!leaseOwner) {
+      if (job.status !== "pending") {
+        throw new Error(`Job ${jobId} is in ${job.status} state, cannot process`);
+      }
+      leaseOwner = createWorkerId();
+      job = await claimNextJob(leaseOwner, jobId);
+      if (!job) {
+        throw new Error(`Job ${jobId} could not be claimed (already claimed, backing off, or user at concurrency limit)`);
+      }
+    } else if (job.status !== "processing" || job.leaseOwner !== leaseOwner) {
+      throw new Error(`Job ${jobId} is not leased to worker ${leaseOwner}`);
     }
 
-    // Mark as processing if it's still pending
-    if (job.status === "pending") {
-      await updateGenerationJobStatus(jobId, "processing");
-    }
+    const lease: JobLease = { jobId, lost: false };
+    stopHeartbeat = startLeaseHeartbeat(jobId, leaseOwner, () => {
+      lease.lost = true;
+    });
 
     // Extract context from job
     const context = job.context as GenerationJobContext;
 
+    await emitJobEvent(jobId, {
+      type: 'job_started',
+      message: context.isFollowUp ? 'Applying your changes' : 'Starting generation',
+      data: { isFollowUp: !!context.isFollowUp },
+    });
+
     // Route to appropriate handler based on job type
+    const claimedJob = job;
     if (context.isFollowUp) {
       logger.log(`🔄 Detected follow-up job, routing to follow-up handler`);
-      return await executeFollowUpJob(jobId, job, context);
+      return await runWithJobLease(lease, () => executeFollowUpJob(jobId, claimedJob, context));
     } else {
       logger.log(`🆕 Detected initial generation job, routing to initial generation handler`);
-      return await executeInitialGenerationJob(jobId, job, context);
+      return await runWithJobLease(lease, () => executeInitialGenerationJob(jobId, claimedJob, context));
     }
   } catch (error) {
-    logger.error(`❌ Job ${jobId} failed:`, error);
+    // The job was re-queued and belongs to another attempt now; nothing to record
+    if (error instanceof JobLeaseLostError) {
+      logger.warn(`⚠️ Job ${jobId} abandoned by ${leaseOwner} after losing its lease`);
+      return;
+    }
 
-    // Update job status to failed
-    await updateGenerationJobStatus(
-      jobId,
-      "failed",
-      undefined,
-      error instanceof Error ? error.message : String(error)
-    );
+    if (error instanceof JobCancelledError) {
+      logger.log(`⏹️ Job ${jobId} stopped on user request`);
+    } else {
+      logger.error(`❌ Job ${jobId} failed:`, error);
+    }
 
+    // Cancelled jobs are finalized here too; otherwise retry with backoff,
+    // or dead-letter once attempts are used up
+    if (leaseOwner) {
+      await handleJobAttemptFailure(
+        jobId,
+        leaseOwner,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    if (error instanceof JobCancelledError) return;
     throw error;
+  } finally {
+    stopHeartbeat();
   }
 }
 
@@ -595,8 +674,8 @@ async function executeInitialGenerationJob(
   job: Awaited<ReturnType<typeof getGenerationJobById>>,
   context: GenerationJobContext
 ): Promise<void> {
-  const { prompt, existingProjectId } = context;
-    const accessToken = process.env.PREVIEW_AUTH_TOKEN;
+  const { prompt, existingProjectId, templateId } = context;
+    const accessToken = getPreviewAccessToken();
 
     if (!accessToken) {
       throw new Error("Missing preview auth token");
@@ -629,8 +708,10 @@ async function executeInitialGenerationJob(
       }
     }
 
-    // Use existing project ID or generate new one
-    const projectId = existingProjectId || uuidv4();
+    // Use the existing project ID, or the one a previous attempt of this job pinned
+    const projectId = existingProjectId
+      || context.projectId
+      || await pinGenerationJobProjectId(jobId, uuidv4());
 
     logger.log(`📁 Project ID: ${projectId}`);
 
@@ -693,20 +774,11 @@ async function executeInitialGenerationJob(
     const boilerplateFiles = await readAllFiles(userDir);
     logger.log(`📁 Found ${boilerplateFiles.length} boilerplate files`);
 
-    // Create LLM caller
-    const callLLM = async (
-      systemPrompt: string,
-      userPrompt: string,
-      stageName: string,
-      stageType?: keyof typeof STAGE_MODEL_CONFIG
-    ): Promise<string> => {
-      return callClaudeWithLogging(
-        systemPrompt,
-        userPrompt,
-        stageName,
-        stageType
-      );
-    };
+    await throwIfJobCancelled(jobId, 'before pipeline');
+
+    // Create LLM caller (reports stage progress to the job event stream and
+    // stops at the next stage once the job is cancelled)
+    const callLLM = withCancellation(jobId, withStageEvents(jobId, createLLMCaller({ userId: job.userId, projectId, jobId })));
 
     // Execute enhanced pipeline
     logger.log("🔄 Executing enhanced pipeline...");
@@ -717,9 +789,13 @@ async function executeInitialGenerationJob(
       accessToken,
       callLLM,
       true, // isInitialGeneration
-      userDir
+      userDir,
+      templateId
     );
 
+    // Pipelines swallow stage errors, so check before reporting a pipeline failure
+    await throwIfJobCancelled(jobId, 'after pipeline');
+
     if (!enhancedResult.success) {
       throw new Error(enhancedResult.error || "Enhanced pipeline failed");
     }
@@ -731,6 +807,12 @@ async function executeInitialGenerationJob(
 
     logger.log(`✅ Successfully generated ${generatedFiles.length} files`);
 
+    await emitJobEvent(jobId, {
+      type: 'files_planned',
+      message: `Generated ${generatedFiles.length} files`,
+      data: { files: generatedFiles.map(f => f.filename) },
+    });
+
     // Filter out contracts for non-Web3 apps BEFORE writing to disk
     if (enhancedResult.intentSpec && !enhancedResult.intentSpec.isWeb3) {
       const originalCount = generatedFiles.length;
@@ -760,23 +842,56 @@ async function executeInitialGenerationJob(
 
     // NEW: Deploy contracts FIRST for Web3 projects (before creating preview)
     let contractAddresses: { [key: string]: string } | undefined;
+    let contractChain: ContractChain | undefined;
+    let contractValidation: PreDeployValidation | undefined;
 
     if (enhancedResult.intentSpec?.isWeb3) {
+      // Compile, test and gas-report the contracts locally before they go on chain
+      if (hasContracts(generatedFiles)) {
+        const contractCheck = await validateBeforeDeploy(generatedFiles, projectId, callLLM, jobId, 'contracts');
+        contractValidation = contractCheck.validation;
+        await updateGenerationJobStatus(jobId, 'processing', { status: 'contracts_validated', contractValidation }, undefined, job.leaseOwner);
+
+        if (contractCheck.fixedFiles.length > 0) {
+          generatedFiles = mergeFileSets(generatedFiles, contractCheck.fixedFiles);
+          await writeFilesToDir(userDir, contractCheck.fixedFiles);
+          await saveFilesToGenerated(projectId, generatedFiles);
+        }
+      }
+
+      await throwIfJobCancelled(jobId, 'before contract deployment');
+
       logger.log("\n" + "=".repeat(70));
       logger.log("🔗 WEB3 PROJECT DETECTED - DEPLOYING CONTRACTS FIRST");
       logger.log("=".repeat(70) + "\n");
 
+      await emitJobEvent(jobId, {
+        type: 'deploy_status',
+        stage: 'CONTRACTS',
+        message: 'Deploying smart contracts...',
+        data: { status: 'started' },
+      });
+
       try {
         // Deploy contracts and get real addresses
-        contractAddresses = await deployContractsFirst(
+        const deployment = await deployContractsFirst(
           projectId,
           generatedFiles,
           accessToken
         );
+        contractAddresses = deployment.contractAddresses;
+        contractChain = deployment.chain;
 
         logger.log("✅ Contracts deployed successfully!");
         logger.log("📝 Contract addresses:", JSON.stringify(contractAddresses, null, 2));
 
+        await emitJobEvent(jobId, {
+          type: 'deploy_status',
+          stage: 'CONTRACTS',
+          message: 'Smart contracts deployed',
+          data: { status: 'succeeded', contractAddresses, chain: contractChain },
+        });
+
         // Inject real contract addresses into files BEFORE deployment
         if (contractAddresses && Object.keys(contractAddresses).length > 0) {
           logger.log("\n" + "=".repeat(70));
@@ -785,7 +900,8 @@ async function executeInitialGenerationJob(
 
           generatedFiles = updateFilesWithContractAddresses(
             generatedFiles,
-            contractAddresses
+            contractAddresses,
+            contractChain
           );
 
           // Rewrite files with injected addresses
@@ -799,10 +915,35 @@ async function executeInitialGenerationJob(
         logger.error("=".repeat(70));
         logger.error("Error:", contractError);
         logger.log("📝 App will deploy with placeholder addresses\n");
+
+        await emitJobEvent(jobId, {
+          type: 'deploy_status',
+          stage: 'CONTRACTS',
+          message: 'Contract deployment failed, continuing with placeholder addresses',
+          data: { status: 'failed', error: contractError instanceof Error ? contractError.message : String(contractError) },
+        });
         // Continue with placeholder addresses - don't fail the entire job
       }
     }
 
+    // Catch build errors locally before the first deploy
+    const { fixedFiles, validation: preDeployValidation } = await validateBeforeDeploy(
+      await readAllFiles(userDir),
+      projectId,
+      callLLM,
+      jobId
+    );
+    await updateGenerationJobStatus(jobId, 'processing', {
+      status: 'predeploy_validated',
+      preDeployValidation,
+    }, undefined, job.leaseOwner);
+    if (fixedFiles.length > 0) {
+      generatedFiles = mergeFileSets(generatedFiles, fixedFiles);
+      await writeFilesToDir(userDir, fixedFiles);
+      await saveFilesToGenerated(projectId, generatedFiles);
+      logger.log(`✅ Pre-deploy fixes written for ${fixedFiles.length} file(s)`);
+    }
+
     // Create preview (now with real contract addresses injected if Web3)
     logger.log("🚀 Creating preview...");
     let previewData: Awaited<ReturnType<typeof createPreview>> | undefined;
@@ -811,12 +952,20 @@ async function executeInitialGenerationJob(
     let deploymentAttempt = 0;
 
     while (deploymentAttempt < maxDeploymentRetries) {
+      await throwIfJobCancelled(jobId, 'before deployment');
       deploymentAttempt++;
       logger.log(`\n📦 Deployment attempt ${deploymentAttempt}/${maxDeploymentRetries}...`);
       logger.log(`🔍 [RETRY-DEBUG] Starting deployment attempt ${deploymentAttempt}`);
       logger.log(`🔍 [RETRY-DEBUG] maxDeploymentRetries: ${maxDeploymentRetries}`);
       logger.log(`🔍 [RETRY-DEBUG] Files count: ${generatedFiles.length}`);
 
+      await emitJobEvent(jobId, {
+        type: 'deploy_status',
+        stage: 'DEPLOYMENT',
+        message: deploymentAttempt === 1 ? 'Deploying your app...' : `Redeploying (attempt ${deploymentAttempt}/${maxDeploymentRetries})...`,
+        data: { status: 'started', attempt: deploymentAttempt, maxAttempts: maxDeploymentRetries },
+      });
+
       try {
         // Skip contract deployment in /deploy endpoint if we already deployed them
         const skipContractsInDeploy = !!contractAddresses; // true if we already deployed contracts
@@ -854,8 +1003,15 @@ async function executeInitialGenerationJob(
             maxAttempts: maxDeploymentRetries,
             error: previewData.deploymentError.substring(0, 500), // Truncate for DB
             hasLogs: !!previewData.deploymentLogs
-          });
+          }, undefined, job.leaseOwner);
           logger.log(`🔍 [RETRY-DEBUG] Database status updated with deployment_retry`);
+
+          await emitJobEvent(jobId, {
+            type: 'deploy_status',
+            stage: 'DEPLOYMENT',
+            message: `Deployment failed (attempt ${deploymentAttempt}/${maxDeploymentRetries})`,
+            data: { status: 'failed', attempt: deploymentAttempt, error: previewData.deploymentError.substring(0, 500) },
+          });
           
           // If this is not the last attempt, try to fix errors
           if (deploymentAttempt < maxDeploymentRetries) {
@@ -866,11 +1022,20 @@ async function executeInitialGenerationJob(
             logger.log(`🔍 [RETRY-DEBUG] - Files count: ${generatedFiles.length}`);
             logger.log(`🔍 [RETRY-DEBUG] - Project ID: ${projectId}`);
             
+            await emitJobEvent(jobId, {
+              type: 'fix_attempt',
+              stage: 'DEPLOYMENT',
+              message: 'Fixing build errors...',
+              data: { attempt: deploymentAttempt },
+            });
+
             const fixedFiles = await fixDeploymentErrors(
               previewData.deploymentError,
               previewData.deploymentLogs || '', // Use empty string if logs not available
               generatedFiles,
-              projectId
+              projectId,
+              callLLM,
+              jobId
             );
 
             logger.log(`🔍 [RETRY-DEBUG] fixDeploymentErrors returned ${fixedFiles.length} files`);
@@ -891,7 +1056,7 @@ async function executeInitialGenerationJob(
               attempt: deploymentAttempt + 1,
               maxAttempts: maxDeploymentRetries,
               fixesApplied: true
-            });
+            }, undefined, job.leaseOwner);
             logger.log(`🔍 [RETRY-DEBUG] Database updated with deployment_retrying status`);
             logger.log(`🔍 [RETRY-DEBUG] Continuing to next deployment attempt...`);
             
@@ -906,10 +1071,12 @@ async function executeInitialGenerationJob(
               status: 'deployment_failed_all_attempts',
               attempts: deploymentAttempt,
               deploymentError: previewData.deploymentError,
-              deploymentLogs: previewData.deploymentLogs ? previewData.deploymentLogs.substring(0, 1000) : undefined
+              deploymentLogs: previewData.deploymentLogs ? previewData.deploymentLogs.substring(0, 1000) : undefined,
+              preDeployValidation,
+              contractValidation
             };
             
-            await updateGenerationJobStatus(jobId, 'failed', errorDetails, previewData.deploymentError);
+            await updateGenerationJobStatus(jobId, 'failed', errorDetails, previewData.deploymentError, job.leaseOwner);
             
             // Set previewData to undefined to indicate failure
             previewData = undefined;
@@ -923,9 +1090,17 @@ async function executeInitialGenerationJob(
         projectUrl = previewData.vercelUrl || previewData.previewUrl || getPreviewUrl(projectId) || `https://${projectId}.${CUSTOM_DOMAIN_BASE}`;
         logger.log(`🎉 Project ready at: ${projectUrl}`);
         logger.log(`🌐 Vercel URL: ${previewData.vercelUrl || 'Not available'}`);
+
+        await emitJobEvent(jobId, {
+          type: 'deploy_status',
+          stage: 'DEPLOYMENT',
+          message: 'Deployment succeeded',
+          data: { status: 'succeeded', attempt: deploymentAttempt, url: projectUrl },
+        });
         break; // Exit retry loop on success
 
       } catch (previewError) {
+        if (previewError instanceof JobCancelledError) throw previewError;
         logger.error(`❌ Failed to create preview on attempt ${deploymentAttempt}:`, previewError);
         
         // Check if it's a timeout error that should trigger retry
@@ -946,7 +1121,7 @@ async function executeInitialGenerationJob(
             attempt: deploymentAttempt,
             maxAttempts: maxDeploymentRetries,
             error: errorMessage
-          });
+          }, undefined, job.leaseOwner);
           
           // For timeout errors, just retry without trying to fix
           logger.log(`🔄 Retrying deployment after timeout...`);
@@ -958,10 +1133,12 @@ async function executeInitialGenerationJob(
           const errorDetails = {
             status: 'deployment_failed_exception',
             attempts: deploymentAttempt,
-            errorType: isTimeoutError ? 'timeout' : 'other'
+            errorType: isTimeoutError ? 'timeout' : 'other',
+            preDeployValidation,
+            contractValidation
           };
           
-          await updateGenerationJobStatus(jobId, 'failed', errorDetails, errorMessage);
+          await updateGenerationJobStatus(jobId, 'failed', errorDetails, errorMessage, job.leaseOwner);
           
           // Throw error to stop job execution
           throw new Error(`Deployment failed after ${deploymentAttempt} attempts: ${errorMessage}`);
@@ -977,6 +1154,9 @@ async function executeInitialGenerationJob(
     const deploymentFailed = !previewData || previewData.status === 'deployment_failed';
     const deploymentError = previewData?.deploymentError || 'Deployment failed';
 
+    // Last checkpoint: once the project is saved the job runs to completion
+    await throwIfJobCancelled(jobId, 'before saving project');
+
     // Save project to database (ALWAYS save, even if deployment failed)
     logger.log("💾 Saving project to database...");
 
@@ -1101,6 +1281,20 @@ async function executeInitialGenerationJob(
       // Don't fail the entire job if deployment record fails
     }
 
+    // Record an immutable snapshot of the generated app
+    let snapshotId: string | undefined;
+    try {
+      const snapshot = await createProjectSnapshot(project.id, safeFiles, {
+        source: 'generation',
+        description: userRequest.substring(0, 200),
+        jobId,
+      });
+      snapshotId = snapshot.id;
+    } catch (snapshotError) {
+      logger.error("⚠️ Failed to record project snapshot:", snapshotError);
+      // Don't fail the job if snapshot recording fails
+    }
+
     // Update job status to completed (only reached if deployment succeeded)
     const result = {
       projectId,
@@ -1113,6 +1307,9 @@ async function executeInitialGenerationJob(
       vercelUrl: previewData?.vercelUrl,
       projectName,
       contractAddresses: contractAddresses, // Include contract addresses in result
+      snapshotId,
+      preDeployValidation,
+      contractValidation,
     };
 
     logger.log(`📝 Updating job ${jobId} status to completed with result:`, {
@@ -1122,13 +1319,23 @@ async function executeInitialGenerationJob(
     });
 
     try {
-      await updateGenerationJobStatus(jobId, "completed", result);
+      const completed = await updateGenerationJobStatus(jobId, "completed", result, undefined, job.leaseOwner);
+      if (!completed) {
+        logger.warn(`⚠️ Job ${jobId} is no longer leased to ${job.leaseOwner}, result ignored`);
+        return;
+      }
       logger.log(`✅ Job ${jobId} status updated to completed in database`);
     } catch (updateError) {
       logger.error(`❌ Failed to update job status to completed:`, updateError);
       throw updateError; // Re-throw to trigger error handling
     }
 
+    await emitJobEvent(jobId, {
+      type: 'job_completed',
+      message: 'Your app is ready',
+      data: { projectId, url: projectUrl },
+    });
+
     logger.log(`✅ Job ${jobId} completed successfully`);
     logger.log(`🎉 Final result:`, {
       projectId: result.projectId,
@@ -1137,6 +1344,31 @@ async function executeInitialGenerationJob(
     });
 }
 
+// Guarded saves retried when editor saves keep landing between the merge and the write
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Project files as they are now: the job's starting files with every file
+ * saved since then (its version moved from baseVersions) read back over them
+ */
+async function loadLatestProjectFiles(
+  projectId: string,
+  baseFiles: { filename: string; content: string }[],
+  baseVersions: Record<string, number>
+) {
+  const versions = await getProjectFileVersions(projectId);
+  const editedFiles = Object.keys(versions).filter(filename => versions[filename] !== baseVersions[filename]);
+  if (editedFiles.length === 0) {
+    return { versions, files: baseFiles, editedFiles };
+  }
+
+  const edited = new Set(editedFiles);
+  const savedFiles = (await getProjectFiles(projectId))
+    .filter(f => edited.has(f.filename))
+    .map(f => ({ filename: f.filename, content: f.content }));
+  return { versions, files: mergeFileSets(baseFiles, savedFiles), editedFiles };
+}
+
 /**
  * Execute follow-up edit job (existing project)
  */
@@ -1148,7 +1380,7 @@ async function executeFollowUpJob(
   logger.log(`🔄 Starting follow-up job execution: ${jobId}`);
 
   const { prompt, existingProjectId: projectId, useDiffBased = true } = context;
-  const accessToken = process.env.PREVIEW_AUTH_TOKEN;
+  const accessToken = getPreviewAccessToken();
 
   if (!accessToken) {
     throw new Error("Missing preview auth token");
@@ -1211,20 +1443,15 @@ async function executeFollowUpJob(
 
   logger.log(`✅ Loaded ${currentFiles.length} files for follow-up edit`);
 
-  // Create LLM caller
-  const callLLM = async (
-    systemPrompt: string,
-    userPrompt: string,
-    stageName: string,
-    stageType?: keyof typeof STAGE_MODEL_CONFIG
-  ): Promise<string> => {
-    return callClaudeWithLogging(
-      systemPrompt,
-      userPrompt,
-      stageName,
-      stageType
-    );
-  };
+  // Remember which version of each file this job started from, so edits saved
+  // from the code editor while it runs are merged rather than overwritten
+  const baseVersions = await getProjectFileVersions(projectId);
+
+  await throwIfJobCancelled(jobId, 'before pipeline');
+
+  // Create LLM caller (reports stage progress to the job event stream and
+  // stops at the next stage once the job is cancelled)
+  const callLLM = withCancellation(jobId, withStageEvents(jobId, createLLMCaller({ userId: job.userId, projectId, jobId })));
 
   // Execute appropriate pipeline
   let result;
@@ -1260,67 +1487,185 @@ async function executeFollowUpJob(
   const diffCount = hasDiffs ? (result as { diffs: unknown[] }).diffs.length : 0;
   logger.log(`✅ Generated ${result.files.length} files${hasDiffs ? ` with ${diffCount} diffs` : ''}`);
 
-  // Write changes to disk
-  await writeFilesToDir(userDir, result.files);
-  await saveFilesToGenerated(projectId, result.files);
-
-  // Save to database first
-  const safeFiles = result.files.filter(file => {
-    if (file.content.includes('\0') || file.content.includes('\x00')) {
-      logger.log(`⚠️ Skipping file with null bytes: ${file.filename}`);
-      return false;
+  // Three-way merge against files saved since the job started (base = currentFiles),
+  // so validation sees the project as the user has it now
+  const latest = await loadLatestProjectFiles(projectId, currentFiles, baseVersions);
+  if (latest.editedFiles.length > 0) {
+    logger.log(`🔀 ${latest.editedFiles.length} file(s) were saved while the job ran: ${latest.editedFiles.join(', ')}`);
+  }
+  const merge = mergeChangedFiles(currentFiles, latest.files, result.files);
+  if (merge.mergedFiles.length > 0) {
+    logger.log(`🔀 Merged job changes with saved edits in: ${merge.mergedFiles.join(', ')}`);
+  }
+  if (merge.conflictedFiles.length > 0) {
+    logger.warn(`⚠️ Merge conflicts left as markers in: ${merge.conflictedFiles.join(', ')}`);
+  }
+  let changedFiles = merge.files;
+
+  // Catch build errors locally before redeploying. Conflict markers would fail
+  // every check and the redeploy is skipped for them anyway
+  let preDeployValidation: PreDeployValidation | undefined;
+  if (merge.conflictedFiles.length === 0) {
+    const validated = await validateBeforeDeploy(mergeFileSets(latest.files, changedFiles), projectId, callLLM, jobId);
+    preDeployValidation = validated.validation;
+    await updateGenerationJobStatus(jobId, 'processing', {
+      status: 'predeploy_validated',
+      preDeployValidation,
+    }, undefined, job.leaseOwner);
+    if (validated.fixedFiles.length > 0) {
+      changedFiles = mergeFileSets(changedFiles, validated.fixedFiles);
+      logger.log(`✅ Pre-deploy fixes applied to ${validated.fixedFiles.length} file(s)`);
     }
-    return true;
-  });
+  }
+
+  // Contracts are only rechecked when this job touched them
+  let contractValidation: PreDeployValidation | undefined;
+  if (merge.conflictedFiles.length === 0 && hasContracts(changedFiles)) {
+    const validated = await validateBeforeDeploy(mergeFileSets(latest.files, changedFiles), projectId, callLLM, jobId, 'contracts');
+    contractValidation = validated.validation;
+    await updateGenerationJobStatus(jobId, 'processing', {
+      status: 'contracts_validated',
+      preDeployValidation,
+      contractValidation,
+    }, undefined, job.leaseOwner);
+    if (validated.fixedFiles.length > 0) {
+      changedFiles = mergeFileSets(changedFiles, validated.fixedFiles);
+      logger.log(`✅ Contract fixes applied to ${validated.fixedFiles.length} file(s)`);
+    }
+  }
+
+  // Last checkpoint: nothing has been written to the project yet
+  await throwIfJobCancelled(jobId, 'before saving changes');
+
+  // Validation can take minutes, so merge again against anything saved meanwhile
+  // and write each changed file only if it is still at the version merged against
+  const mergedSet = new Set(merge.mergedFiles);
+  const conflictedSet = new Set(merge.conflictedFiles);
+  let mergeBase = latest.files;
+  let safeFiles: { filename: string; content: string }[] = [];
+  for (let attempt = 1; ; attempt++) {
+    const current = await loadLatestProjectFiles(projectId, currentFiles, baseVersions);
+    const remerge = mergeChangedFiles(mergeBase, current.files, changedFiles);
+    remerge.mergedFiles.forEach(filename => mergedSet.add(filename));
+    remerge.conflictedFiles.forEach(filename => conflictedSet.add(filename));
+    changedFiles = remerge.files;
+    mergeBase = current.files;
+
+    safeFiles = changedFiles.filter(file => {
+      if (file.content.includes('\0') || file.content.includes('\x00')) {
+        logger.log(`⚠️ Skipping file with null bytes: ${file.filename}`);
+        return false;
+      }
+      return true;
+    });
+    const expectedVersions = Object.fromEntries(
+      safeFiles
+        .filter(file => current.versions[file.filename] !== undefined)
+        .map(file => [file.filename, current.versions[file.filename]])
+    );
 
-  await saveProjectFiles(projectId, safeFiles);
+    const { saved, staleFiles } = await saveProjectFilesAtVersions(projectId, safeFiles, expectedVersions);
+    if (saved) break;
+    if (attempt >= MAX_SAVE_ATTEMPTS) {
+      throw new Error(`Project files kept changing while saving: ${staleFiles.join(', ')}`);
+    }
+    logger.log(`🔀 ${staleFiles.join(', ')} saved while writing, merging again (attempt ${attempt + 1}/${MAX_SAVE_ATTEMPTS})`);
+  }
   logger.log("✅ Project files updated in database");
+  const mergedFiles = Array.from(mergedSet);
+  const conflictedFiles = Array.from(conflictedSet);
+  if (conflictedFiles.length > merge.conflictedFiles.length) {
+    logger.warn(`⚠️ Merge conflicts left as markers in: ${conflictedFiles.join(', ')}`);
+  }
 
-  // Check if project has contracts (Web3) by looking for contracts directory
-  const hasContracts = result.files.some(f => 
-    f.filename.startsWith('contracts/') && f.filename.endsWith('.sol')
-  );
-  const isWeb3 = hasContracts;
+  await emitJobEvent(jobId, {
+    type: 'files_planned',
+    message: `Updated ${changedFiles.length} file(s)`,
+    data: {
+      files: changedFiles.map(f => f.filename),
+      mergedFiles,
+      conflictedFiles,
+    },
+  });
 
-  // Redeploy to Vercel with updated files
-  try {
-    logger.log("\n" + "=".repeat(60));
-    logger.log("🚀 REDEPLOYING TO VERCEL");
-    logger.log("=".repeat(60));
-    
-    const previewData = await redeployToVercel(
-      projectId,
-      result.files,
-      accessToken,
-      isWeb3,
-      jobId
-    );
-    
-    logger.log("✅ Vercel deployment successful!");
-    logger.log(`🌐 Vercel URL: ${previewData.vercelUrl || 'N/A'}`);
-
-    // Update project with deployment URL (should be same as initial deployment)
-    // The URL is stored for redundancy/verification, but it should not change
-    // across deployments since we're deploying to the same Vercel project
-    if (previewData.vercelUrl) {
-      const project = await getProjectById(projectId);
-      const urlChanged = project?.vercelUrl !== previewData.vercelUrl;
+  // Write changes to disk
+  await writeFilesToDir(userDir, changedFiles);
+  await saveFilesToGenerated(projectId, changedFiles);
+
+  // Check if project has contracts (Web3) by looking for contracts directory
+  const isWeb3 = hasContracts(changedFiles);
+
+  // Redeploy to Vercel with updated files. Conflict markers would fail the build,
+  // so leave redeploying to the editor once the user has resolved them
+  if (conflictedFiles.length > 0) {
+    logger.warn(`⚠️ Skipping redeploy: unresolved merge conflicts in ${conflictedFiles.join(', ')}`);
+    await emitJobEvent(jobId, {
+      type: 'deploy_status',
+      stage: 'DEPLOYMENT',
+      message: 'Resolve merge conflicts in the code editor to redeploy',
+      data: { status: 'skipped', conflictedFiles },
+    });
+  } else {
+    try {
+      logger.log("\n" + "=".repeat(60));
+      logger.log("🚀 REDEPLOYING TO VERCEL");
+      logger.log("=".repeat(60));
+
+      await emitJobEvent(jobId, {
+        type: 'deploy_status',
+        stage: 'DEPLOYMENT',
+        message: 'Redeploying your app...',
+        data: { status: 'started' },
+      });
       
-      if (urlChanged) {
-        logger.log(`⚠️ Vercel URL changed: ${project?.vercelUrl} → ${previewData.vercelUrl}`);
-        logger.log(`   This is unexpected - we should be deploying to the same project`);
-      }
+      const previewData = await redeployToVercel(
+        projectId,
+        changedFiles,
+        accessToken,
+        isWeb3,
+        jobId
+      );
       
-      await updateProject(projectId, {
-        previewUrl: previewData.vercelUrl,
-        vercelUrl: previewData.vercelUrl,
+      logger.log("✅ Vercel deployment successful!");
+      logger.log(`🌐 Vercel URL: ${previewData.vercelUrl || 'N/A'}`);
+
+      await emitJobEvent(jobId, {
+        type: 'deploy_status',
+        stage: 'DEPLOYMENT',
+        message: 'Deployment succeeded',
+        data: { status: 'succeeded', url: previewData.vercelUrl },
+      });
+
+      // Update project with deployment URL (should be same as initial deployment)
+      // The URL is stored for redundancy/verification, but it should not change
+      // across deployments since we're deploying to the same Vercel project
+      if (previewData.vercelUrl) {
+        const project = await getProjectById(projectId);
+        const urlChanged = project?.vercelUrl !== previewData.vercelUrl;
+        
+        if (urlChanged) {
+          logger.log(`⚠️ Vercel URL changed: ${project?.vercelUrl} → ${previewData.vercelUrl}`);
+          logger.log(`   This is unexpected - we should be deploying to the same project`);
+        }
+        
+        await updateProject(projectId, {
+          previewUrl: previewData.vercelUrl,
+          vercelUrl: previewData.vercelUrl,
+        });
+        logger.log(`✅ Project deployment URL confirmed: ${previewData.vercelUrl}`);
+      }
+    } catch (deployError) {
+      logger.error("❌ Vercel deployment failed:", deployError);
+      // Don't fail the entire job - files are already saved to database
+      logger.warn("⚠️ Files are saved to database, but Vercel deployment failed");
+
+      await emitJobEvent(jobId, {
+        type: 'deploy_status',
+        stage: 'DEPLOYMENT',
+        message: 'Deployment failed, your changes are saved',
+        data: { status: 'failed', error: deployError instanceof Error ? deployError.message : String(deployError) },
       });
-      logger.log(`✅ Project deployment URL confirmed: ${previewData.vercelUrl}`);
     }
-  } catch (deployError) {
-    logger.error("❌ Vercel deployment failed:", deployError);
-    // Don't fail the entire job - files are already saved to database
-    logger.warn("⚠️ Files are saved to database, but Vercel deployment failed");
   }
 
   // Store patch for rollback (if diffs available)
@@ -1345,28 +1690,60 @@ async function executeFollowUpJob(
     }
   }
 
+  // Record an immutable snapshot of the project after this edit
+  let snapshotId: string | undefined;
+  try {
+    const snapshot = await createProjectSnapshot(projectId, mergeFileSets(mergeBase, safeFiles), {
+      source: 'follow_up',
+      description: prompt.substring(0, 200),
+      jobId,
+    });
+    snapshotId = snapshot.id;
+  } catch (snapshotError) {
+    logger.error("⚠️ Failed to record project snapshot:", snapshotError);
+    // Don't fail the job if snapshot recording fails
+  }
+
   // Update job status to completed
-  const changedFilenames = result.files.map(f => f.filename);
+  const changedFilenames = changedFiles.map(f => f.filename);
   const jobResult = {
     success: true,
     projectId,
-    files: result.files.map(f => ({ filename: f.filename })),
+    files: changedFiles.map(f => ({ filename: f.filename })),
     diffs: hasDiffs ? (result as { diffs: unknown[] }).diffs : [],
     changedFiles: changedFilenames,
     generatedFiles: changedFilenames, // Add this for frontend compatibility
     previewUrl: getPreviewUrl(projectId),
-    totalFiles: result.files.length,
+    totalFiles: changedFiles.length,
+    snapshotId,
+    baseVersions: Object.fromEntries(changedFilenames.map(filename => [filename, baseVersions[filename] ?? 0])),
+    mergedFiles,
+    conflictedFiles,
+    preDeployValidation,
+    contractValidation,
   };
 
   logger.log(`📝 Updating follow-up job ${jobId} status to completed`);
 
   try {
-    await updateGenerationJobStatus(jobId, "completed", jobResult);
+    const completed = await updateGenerationJobStatus(jobId, "completed", jobResult, undefined, job.leaseOwner);
+    if (!completed) {
+      logger.warn(`⚠️ Follow-up job ${jobId} is no longer leased to ${job.leaseOwner}, result ignored`);
+      return;
+    }
     logger.log(`✅ Follow-up job ${jobId} status updated to completed in database`);
   } catch (updateError) {
     logger.error(`❌ Failed to update follow-up job status:`, updateError);
     throw updateError;
   }
 
+  await emitJobEvent(jobId, {
+    type: 'job_completed',
+    message: conflictedFiles.length > 0
+      ? `Your changes are live, with conflicts to resolve in ${conflictedFiles.length} file(s)`
+      : 'Your changes are live',
+    data: { projectId, changedFiles: changedFilenames, conflictedFiles },
+  });
+
   logger.log(`✅ Follow-up job ${jobId} completed successfully`);
 }
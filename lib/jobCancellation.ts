@@ -0,0 +1,76 @@
+import { logger } from "./logger";
+/**
+ * Job Cancellation
+ *
+ * Cooperative cancellation for generation jobs. /api/jobs/[id]/cancel only
+ * records the request; the worker checks for it at safe checkpoints (between
+ * stages, before every LLM call and on each deploy-fix attempt) and unwinds
+ * with JobCancelledError before it writes any project files.
+ *
+ * The same checkpoints stop a worker that lost its lease (the job was re-queued
+ * and may already be running elsewhere): the run's JobLease is flagged by the
+ * heartbeat and the next check throws JobLeaseLostError.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { isGenerationJobCancellationRequested } from "./database";
+import type { CallLLM } from "./llmFixtures";
+
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// A JobCancelledError, so every place that lets cancellation unwind lets this through too
+export class JobLeaseLostError extends JobCancelledError {
+  constructor(jobId: string) {
+    super(jobId);
+    this.message = `Lost the lease on job ${jobId}`;
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+// One per run of a job, so a stale run and the run that took over its job can
+// live in the same process without tripping each other
+export interface JobLease {
+  jobId: string;
+  lost: boolean;
+}
+
+const currentLease = new AsyncLocalStorage<JobLease>();
+
+/**
+ * Run a job handler with its lease visible to throwIfJobCancelled
+ */
+export function runWithJobLease<T>(lease: JobLease, fn: () => Promise<T>): Promise<T> {
+  return currentLease.run(lease, fn);
+}
+
+/**
+ * Throw JobLeaseLostError if this run no longer holds the job, or
+ * JobCancelledError if the user asked to cancel it
+ */
+export async function throwIfJobCancelled(jobId: string, checkpoint?: string): Promise<void> {
+  const lease = currentLease.getStore();
+  if (lease?.jobId === jobId && lease.lost) {
+    logger.warn(`⚠️ Stopping job ${jobId}${checkpoint ? ` at ${checkpoint}` : ''}: lease lost`);
+    throw new JobLeaseLostError(jobId);
+  }
+  if (await isGenerationJobCancellationRequested(jobId)) {
+    logger.log(`⏹️ Job ${jobId} cancelled${checkpoint ? ` at ${checkpoint}` : ''}`);
+    throw new JobCancelledError(jobId);
+  }
+}
+
+/**
+ * Wrap a callLLM callback so every stage call, including the Stage 4
+ * compilation-fix calls in llmOptimizer.ts, first checks for cancellation
+ */
+export function withCancellation(jobId: string, callLLM: CallLLM): CallLLM {
+  return async (systemPrompt, userPrompt, stageName, stageType) => {
+    await throwIfJobCancelled(jobId, stageName);
+    return callLLM(systemPrompt, userPrompt, stageName, stageType);
+  };
+}
@@ -0,0 +1,98 @@
+import { logger } from "./logger";
+/**
+ * Job Events
+ *
+ * Structured progress events emitted by the generation worker. Events are
+ * persisted per job so /api/jobs/[id]/events can stream them over SSE no matter
+ * which server instance runs the job.
+ */
+
+import { createGenerationJobEvent } from "./database";
+import type { CallLLM } from "./llmFixtures";
+
+export type JobEventType =
+  | 'job_started'
+  | 'stage_started'
+  | 'stage_completed'
+  | 'stage_failed'
+  | 'files_planned'
+  | 'validation_errors'
+  | 'deploy_status'
+  | 'fix_attempt'
+  | 'job_retry_scheduled'
+  | 'job_completed'
+  | 'job_failed'
+  | 'job_cancelled';
+
+export interface JobEvent {
+  type: JobEventType;
+  stage?: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+// Serialized form sent to clients
+export interface JobEventRecord extends JobEvent {
+  id: number;
+  jobId: string;
+  createdAt: string;
+}
+
+export const TERMINAL_JOB_EVENTS: JobEventType[] = ['job_completed', 'job_failed', 'job_cancelled'];
+
+const STAGE_LABELS: Record<string, string> = {
+  STAGE_0_CONTEXT_GATHERER: 'Gathering context',
+  STAGE_1_INTENT_PARSER: 'Understanding your request',
+  STAGE_2_PATCH_PLANNER: 'Planning changes',
+  STAGE_3_CODE_GENERATOR: 'Writing code',
+  STAGE_4_VALIDATOR: 'Validating and fixing code',
+  LEGACY_SINGLE_STAGE: 'Generating code',
+};
+
+/**
+ * Record a job event. Never throws - progress reporting must not fail a job.
+ */
+export async function emitJobEvent(jobId: string, event: JobEvent): Promise<void> {
+  try {
+    await createGenerationJobEvent(jobId, event);
+  } catch (error) {
+    logger.error(`⚠️ Failed to record job event ${event.type} for ${jobId}:`, error);
+  }
+}
+
+/**
+ * Wrap a callLLM callback so every stage call reports started/completed/failed
+ */
+export function withStageEvents(jobId: string, callLLM: CallLLM): CallLLM {
+  return async (systemPrompt, userPrompt, stageName, stageType) => {
+    const stage = stageType || 'LEGACY_SINGLE_STAGE';
+    const label = STAGE_LABELS[stage] || stageName;
+    const startTime = Date.now();
+
+    await emitJobEvent(jobId, {
+      type: 'stage_started',
+      stage,
+      message: `${label}...`,
+      data: { stageName },
+    });
+
+    try {
+      const response = await callLLM(systemPrompt, userPrompt, stageName, stageType);
+      await emitJobEvent(jobId, {
+        type: 'stage_completed',
+        stage,
+        message: `${label} done`,
+        data: { stageName, durationMs: Date.now() - startTime, responseLength: response.length },
+      });
+      return response;
+    } catch (error) {
+      await emitJobEvent(jobId, {
+        type: 'stage_failed',
+        stage,
+        message: `${label} failed`,
+        data: { stageName, error: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  };
+}
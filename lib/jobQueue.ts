@@ -0,0 +1,161 @@
+import { logger } from "./logger";
+/**
+ * Job Queue
+ *
+ * Durable queue semantics on top of the generation_jobs table. A worker claims a
+ * job with FOR UPDATE SKIP LOCKED and holds a lease it renews while the job runs;
+ * when a worker dies or times out its lease lapses and the job is re-queued.
+ * Failed attempts are retried with exponential backoff until maxAttempts, after
+ * which the job is parked in the `dead_letter` state for inspection.
+ */
+
+import os from "os";
+import { randomUUID } from "crypto";
+import {
+  claimGenerationJob,
+  renewGenerationJobLease,
+  getExpiredGenerationJobLeases,
+  releaseFailedGenerationJob,
+  markGenerationJobCancelled,
+  getGenerationJobById,
+} from "./database";
+import { emitJobEvent } from "./jobEvents";
+
+export const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || "120000", 10);
+export const JOB_HEARTBEAT_MS = Math.floor(JOB_LEASE_MS / 4);
+export const MAX_CONCURRENT_JOBS_PER_USER = parseInt(process.env.MAX_CONCURRENT_JOBS_PER_USER || "2", 10);
+export const JOB_RETRY_BASE_DELAY_MS = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || "30000", 10);
+export const JOB_RETRY_MAX_DELAY_MS = parseInt(process.env.JOB_RETRY_MAX_DELAY_MS || "600000", 10);
+
+export type JobFailureOutcome = "retry" | "dead_letter" | "cancelled" | "ignored";
+
+/**
+ * Unique lease owner id for one claim (host + pid + random suffix)
+ */
+export function createWorkerId(): string {
+  return `${os.hostname()}-${process.pid}-${randomUUID().substring(0, 8)}`;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): base * 2^(attempt-1), capped,
+ * plus up to 20% jitter so jobs that failed together don't retry together.
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  baseDelayMs: number = JOB_RETRY_BASE_DELAY_MS,
+  maxDelayMs: number = JOB_RETRY_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)), maxDelayMs);
+  return Math.round(exponential * (1 + 0.2 * random()));
+}
+
+/**
+ * Claim the next claimable job, or a specific pending job when jobId is given.
+ * Returns undefined when nothing can be claimed right now.
+ */
+export async function claimNextJob(workerId: string, jobId?: string) {
+  const job = await claimGenerationJob(workerId, JOB_LEASE_MS, MAX_CONCURRENT_JOBS_PER_USER, jobId);
+  if (job) {
+    logger.log(`🔒 Worker ${workerId} claimed job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+  }
+  return job;
+}
+
+/**
+ * Keep renewing a job's lease while it runs. Returns a stop function.
+ * onLeaseLost is called once if the job was taken away from this worker.
+ */
+export function startLeaseHeartbeat(jobId: string, workerId: string, onLeaseLost?: () => void): () => void {
+  const interval = setInterval(async () => {
+    try {
+      const renewed = await renewGenerationJobLease(jobId, workerId, JOB_LEASE_MS);
+      if (!renewed) {
+        logger.warn(`⚠️ Worker ${workerId} lost the lease on job ${jobId}`);
+        clearInterval(interval);
+        onLeaseLost?.();
+      }
+    } catch (error) {
+      // A missed heartbeat is fine as long as a later one lands before the lease expires
+      logger.warn(`⚠️ Failed to renew lease on job ${jobId}:`, error);
+    }
+  }, JOB_HEARTBEAT_MS);
+
+  return () => clearInterval(interval);
+}
+
+/**
+ * Record a failed attempt: schedule a retry with backoff, or dead-letter the job
+ * once it has used up its attempts. A job the user asked to cancel is finished
+ * as cancelled instead. A worker that no longer holds the job (its lease was
+ * taken over) gets "ignored".
+ */
+export async function handleJobAttemptFailure(
+  jobId: string,
+  workerId: string | null,
+  errorMessage: string
+): Promise<JobFailureOutcome> {
+  const job = await getGenerationJobById(jobId);
+  if (!job || job.status !== "processing") {
+    return "ignored";
+  }
+
+  if (job.cancelRequestedAt) {
+    const cancelled = await markGenerationJobCancelled(jobId, workerId);
+    if (!cancelled) return "ignored";
+
+    await emitJobEvent(jobId, {
+      type: "job_cancelled",
+      message: "Generation stopped",
+      data: { attempts: job.attempts },
+    });
+    return "cancelled";
+  }
+
+  const exhausted = job.attempts >= job.maxAttempts;
+  const retryDelayMs = exhausted ? null : getRetryDelayMs(job.attempts);
+  const released = await releaseFailedGenerationJob(jobId, workerId, errorMessage, retryDelayMs);
+
+  if (!released) {
+    return "ignored";
+  }
+
+  if (retryDelayMs === null) {
+    logger.error(`☠️ Job ${jobId} moved to dead letter after ${job.attempts} attempts`);
+    await emitJobEvent(jobId, {
+      type: "job_failed",
+      message: errorMessage,
+      data: { deadLetter: true, attempts: job.attempts },
+    });
+    return "dead_letter";
+  }
+
+  logger.log(`🔁 Job ${jobId} will retry in ${Math.round(retryDelayMs / 1000)}s (attempt ${job.attempts}/${job.maxAttempts} failed)`);
+  await emitJobEvent(jobId, {
+    type: "job_retry_scheduled",
+    message: `Attempt ${job.attempts} failed, retrying in ${Math.round(retryDelayMs / 1000)}s`,
+    data: { attempts: job.attempts, maxAttempts: job.maxAttempts, retryDelayMs, error: errorMessage },
+  });
+  return "retry";
+}
+
+/**
+ * Re-queue (or dead-letter) jobs whose worker stopped heartbeating.
+ * Returns how many jobs were released.
+ */
+export async function requeueExpiredJobs(): Promise<number> {
+  const expired = await getExpiredGenerationJobLeases();
+  let released = 0;
+
+  for (const job of expired) {
+    logger.warn(`⏰ Lease on job ${job.id} held by ${job.leaseOwner} expired`);
+    const outcome = await handleJobAttemptFailure(
+      job.id,
+      job.leaseOwner,
+      `Worker ${job.leaseOwner || "unknown"} stopped responding (lease expired)`
+    );
+    if (outcome !== "ignored") released++;
+  }
+
+  return released;
+}
@@ -0,0 +1,142 @@
+import { logger } from "./logger";
+/**
+ * LLM Fixtures (record / replay)
+ *
+ * Wraps the `callLLM` callback handed to executeInitialGenerationPipeline,
+ * executeFollowUpPipeline and executeDiffBasedPipeline so stage responses can be
+ * recorded once and replayed offline. Each call is stored as one JSON file at
+ * `<fixturesDir>/<stage>/<promptHash>.json`, so a prompt change in llmOptimizer.ts
+ * shows up as a replay miss for exactly the stage whose prompt changed.
+ *
+ * Modes:
+ *  - record: call through and (over)write fixtures
+ *  - replay: answer only from fixtures, throw on a miss (never touches the network)
+ *  - auto:   replay when a fixture exists, otherwise record it
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { STAGE_MODEL_CONFIG } from './llmOptimizer';
+
+export type CallLLM = (
+  systemPrompt: string,
+  userPrompt: string,
+  stageName: string,
+  stageType?: keyof typeof STAGE_MODEL_CONFIG
+) => Promise<string>;
+
+export type LLMFixtureMode = 'record' | 'replay' | 'auto';
+
+export interface LLMFixture {
+  stage: string;
+  stageName: string;
+  promptHash: string;
+  systemPrompt: string;
+  userPrompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+export interface LLMFixtureOptions {
+  mode: LLMFixtureMode;
+  fixturesDir: string;
+}
+
+export class LLMFixtureMissError extends Error {
+  constructor(public readonly stage: string, public readonly promptHash: string, fixturePath: string) {
+    super(
+      `No LLM fixture for ${stage} (prompt hash ${promptHash}) at ${fixturePath}. ` +
+      `The prompt changed or was never recorded; re-run with LLM_FIXTURE_MODE=record.`
+    );
+    this.name = 'LLMFixtureMissError';
+  }
+}
+
+export function hashPrompt(systemPrompt: string, userPrompt: string): string {
+  return createHash('sha256')
+    .update(systemPrompt, 'utf8')
+    .update('\u0000')
+    .update(userPrompt, 'utf8')
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Fixture key for a call. stageType is preferred over the free-form stage display name.
+ */
+export function getFixturePath(
+  fixturesDir: string,
+  stageName: string,
+  stageType: string | undefined,
+  promptHash: string
+): string {
+  const stage = (stageType || stageName).replace(/[^A-Za-z0-9_-]+/g, '_');
+  // A retry resends the same prompt with a bigger budget, so it needs its own fixture
+  const suffix = stageName.includes('(Retry)') ? '.retry' : '';
+  return path.join(fixturesDir, stage, `${promptHash}${suffix}.json`);
+}
+
+/**
+ * Wrap a callLLM callback with record/replay behaviour
+ *
+ * @param callLLM - The real callback; may be omitted in replay mode
+ */
+export function createFixtureCallLLM(callLLM: CallLLM | undefined, options: LLMFixtureOptions): CallLLM {
+  const { mode, fixturesDir } = options;
+
+  if (mode !== 'replay' && !callLLM) {
+    throw new Error(`LLM fixture mode "${mode}" needs a real callLLM to record from`);
+  }
+
+  return async (systemPrompt, userPrompt, stageName, stageType) => {
+    const promptHash = hashPrompt(systemPrompt, userPrompt);
+    const fixturePath = getFixturePath(fixturesDir, stageName, stageType, promptHash);
+    const stage = stageType || stageName;
+
+    if (mode !== 'record' && fs.existsSync(fixturePath)) {
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as LLMFixture;
+      logger.log(`📼 Replaying LLM fixture for ${stage} (${promptHash})`);
+      return fixture.response;
+    }
+
+    if (mode === 'replay') {
+      throw new LLMFixtureMissError(stage, promptHash, fixturePath);
+    }
+
+    const response = await callLLM!(systemPrompt, userPrompt, stageName, stageType);
+
+    const fixture: LLMFixture = {
+      stage,
+      stageName,
+      promptHash,
+      systemPrompt,
+      userPrompt,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+    logger.log(`📼 Recorded LLM fixture for ${stage} (${promptHash})`);
+
+    return response;
+  };
+}
+
+/**
+ * Apply LLM_FIXTURE_MODE / LLM_FIXTURES_DIR from the environment.
+ * Returns the callback untouched when no fixture mode is set.
+ */
+export function withLLMFixtures(callLLM: CallLLM): CallLLM {
+  const mode = process.env.LLM_FIXTURE_MODE as LLMFixtureMode | undefined;
+  if (!mode) return callLLM;
+
+  if (!['record', 'replay', 'auto'].includes(mode)) {
+    throw new Error(`Invalid LLM_FIXTURE_MODE "${mode}" (expected record, replay or auto)`);
+  }
+
+  const fixturesDir = process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'lib', '__tests__', 'fixtures', 'llm');
+  logger.log(`📼 LLM fixtures enabled: ${mode} (${fixturesDir})`);
+
+  return createFixtureCallLLM(callLLM, { mode, fixturesDir });
+}
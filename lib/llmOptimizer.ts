@@ -3,7 +3,7 @@ import { logger } from "./logger";
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseUnifiedDiff, applyDiffToContent } from './diffUtils';
+import { parseUnifiedDiff, applyDiffToContent, applyDiffHunksWithReport } from './diffUtils';
 import { applyDiffsToFiles } from './diffBasedPipeline';
 import { generateDiff } from './diffUtils';
 import { 
@@ -14,6 +14,16 @@ import {
 } from './parserUtils';
 import { CompilationValidator, CompilationResult, CompilationError, CompilationErrorUtils } from './compilationValidator';
 import { createRailwayValidationClient, RailwayValidationResult, RailwayValidationError } from './railwayValidationClient';
+import { JobCancelledError } from './jobCancellation';
+import {
+  getTemplateCatalogPrompt,
+  resolveTemplate,
+  applyTemplateToIntent,
+  applyTemplateFiles,
+} from './templateCatalog';
+import { getProjectFileChunks } from './database';
+import { buildChunkIndex, describeOmittedFiles, selectRelevantFiles, DEFAULT_RETRIEVAL_MAX_CHARS } from './projectIndex';
+import type { AstEdit } from './astEdits';
 
 // Debug logging utilities
 const createDebugLogDir = (projectId: string): string => {
@@ -64,9 +74,24 @@ export const ANTHROPIC_MODELS = {
   POWERFUL: "claude-sonnet-4-5-20250929",
 } as const;
 
+// LLM providers a stage can be routed to (see lib/llmProviders.ts)
+export const LLM_PROVIDERS = {
+  ANTHROPIC: "anthropic",
+  // Any OpenAI-compatible chat completions API (OPENAI_BASE_URL)
+  OPENAI: "openai",
+  // OpenAI-compatible server on this machine, e.g. Ollama (LOCAL_LLM_BASE_URL)
+  LOCAL: "local",
+  // In-process stand-in for tests
+  MOCK: "mock",
+} as const;
+
+export type LLMProviderName = typeof LLM_PROVIDERS[keyof typeof LLM_PROVIDERS];
+
 // Model selection strategy for each stage with fallbacks
+// The provider of any stage can be overridden with LLM_PROVIDER or LLM_PROVIDER_<STAGE>
 export const STAGE_MODEL_CONFIG = {
   STAGE_0_CONTEXT_GATHERER: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
     model: ANTHROPIC_MODELS.FAST,
     fallbackModel: ANTHROPIC_MODELS.BALANCED,
     maxTokens: 2000,
@@ -74,6 +99,7 @@ export const STAGE_MODEL_CONFIG = {
     reason: "Context gathering needs to be fast and efficient",
   },
   STAGE_1_INTENT_PARSER: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
     model: ANTHROPIC_MODELS.FAST,
     fallbackModel: ANTHROPIC_MODELS.BALANCED, // Use Sonnet if Haiku is overloaded
     maxTokens: 4000,
@@ -81,6 +107,7 @@ export const STAGE_MODEL_CONFIG = {
     reason: "Simple JSON parsing task, fast model sufficient",
   },
   STAGE_2_PATCH_PLANNER: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
     model: ANTHROPIC_MODELS.BALANCED,
     fallbackModel: ANTHROPIC_MODELS.POWERFUL, // Use latest Sonnet if regular Sonnet is overloaded
     maxTokens: 16000,
@@ -88,6 +115,7 @@ export const STAGE_MODEL_CONFIG = {
     reason: "Complex planning task, needs good reasoning and more tokens for detailed diffs",
   },
   STAGE_3_CODE_GENERATOR: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
     model: ANTHROPIC_MODELS.POWERFUL,
     fallbackModel: ANTHROPIC_MODELS.BALANCED, // Use regular Sonnet if latest Sonnet is overloaded
     maxTokens: 40000,
@@ -95,6 +123,7 @@ export const STAGE_MODEL_CONFIG = {
     reason: "Complex code generation, needs highest quality and more tokens for large projects",
   },
   STAGE_4_VALIDATOR: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
     model: ANTHROPIC_MODELS.BALANCED,
     fallbackModel: ANTHROPIC_MODELS.POWERFUL, // Use Haiku if Sonnet is overloaded
     maxTokens: 10000,
@@ -102,12 +131,21 @@ export const STAGE_MODEL_CONFIG = {
     reason: "Error fixing requires good reasoning but not highest tier",
   },
   LEGACY_SINGLE_STAGE: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
     model: ANTHROPIC_MODELS.POWERFUL,
     fallbackModel: ANTHROPIC_MODELS.BALANCED, // Use regular Sonnet if latest Sonnet is overloaded
     maxTokens: 20000,
     temperature: 0,
     reason: "Single-stage does everything, needs highest quality",
   },
+  CHAT_ASSISTANT: {
+    provider: LLM_PROVIDERS.ANTHROPIC,
+    model: ANTHROPIC_MODELS.FAST,
+    fallbackModel: ANTHROPIC_MODELS.BALANCED,
+    maxTokens: 4000,
+    temperature: 0.2,
+    reason: "Conversational replies (requirements gathering, change proposals), fast model sufficient",
+  },
 } as const;
 
 // Farcaster Miniapp Boilerplate Structure
@@ -218,7 +256,8 @@ const FARCASTER_BOILERPLATE_CONTEXT = {
 // Stage 0: Context Gatherer Types and Prompts
 //
 // PURPOSE: Stage 0 determines if additional context is needed before processing the user request.
-// It can request tool calls to explore the codebase and gather information.
+// It can request tool calls to explore the codebase and gather information, see the results and
+// request follow-up calls over several steps until it signals contextComplete.
 //
 // KEY PRINCIPLE: GATHER CONTEXT FIRST - UNDERSTAND THE CODEBASE BEFORE MAKING CHANGES
 //
@@ -231,8 +270,37 @@ export interface ContextGatheringResult {
     reason: string;
   }>;
   contextSummary?: string;
+  contextComplete?: boolean; // true once the model has everything it needs
 }
 
+// Tools run in-process over the project's files (see lib/codeSearchTools.ts),
+// so regex alternation is safe and results come back as JSON with line numbers
+const CODE_SEARCH_TOOLS_PROMPT = `AVAILABLE TOOLS (paths are relative to the project root, e.g. "src/app/page.tsx"):
+- search: Regex search over file contents. Alternation like "submit|onSubmit" is supported.
+  Usage: {"tool": "search", "args": ["regex", "path_prefix_or_glob (optional)", "i (optional, ignore case)"]}
+  Example: {"tool": "search", "args": ["useAccount|useUser", "src"]}
+
+- symbols: Top-level declarations (components, hooks, functions, types) with export info
+  Usage: {"tool": "symbols", "args": ["path_prefix_or_glob (optional)", "name_filter (optional)"]}
+  Example: {"tool": "symbols", "args": ["src/components"]}
+
+- imports: Imports of one file with their named bindings
+  Usage: {"tool": "imports", "args": ["file_path"]}
+  Example: {"tool": "imports", "args": ["src/app/page.tsx"]}
+
+- usages: Every reference to an identifier, including JSX tags and imports
+  Usage: {"tool": "usages", "args": ["identifier", "path_prefix_or_glob (optional)"]}
+  Example: {"tool": "usages", "args": ["TodoList", "src"]}
+
+- read: File contents, optionally a line range
+  Usage: {"tool": "read", "args": ["file_path", "start_line (optional)", "end_line (optional)"]}
+  Example: {"tool": "read", "args": ["src/components/TodoList.tsx"]}
+
+- list: Files under a path prefix or glob
+  Usage: {"tool": "list", "args": ["src/**/*.tsx"]}
+
+Results are JSON with file paths and 1-based line numbers. Prefer symbols/usages over broad searches and read only the files you need.`;
+
 export function getStage0ContextGathererPrompt(
   userPrompt: string,
   currentFiles: { filename: string; content: string }[]
@@ -247,33 +315,7 @@ USER REQUEST: ${userPrompt}
 CURRENT FILES AVAILABLE:
 ${currentFiles.map(f => `- ${f.filename}`).join('\n')}
 
-AVAILABLE TOOLS:
-- grep: Search for patterns in files
-  Usage: {"tool": "grep", "args": ["pattern", "file_or_directory"], "workingDirectory": "src"}
-  Example: {"tool": "grep", "args": ["useState", "app/page.tsx"], "workingDirectory": "src"}
-  
-- cat: Read complete file contents  
-  Usage: {"tool": "cat", "args": ["file_path"], "workingDirectory": "src"}
-  Example: {"tool": "cat", "args": ["components/TodoList.tsx"], "workingDirectory": "src"}
-  
-- find: Find files by name pattern
-  Usage: {"tool": "find", "args": [".", "-name", "*.tsx"], "workingDirectory": "src"}
-  
-- ls: List directory contents
-  Usage: {"tool": "ls", "args": ["-la", "components"], "workingDirectory": "src"}
-
-TOOL USAGE RULES:
-- ALWAYS use "src" as workingDirectory for React components
-- For grep: Use specific file paths rather than broad directory searches
-- For file paths: Use relative paths from the workingDirectory (e.g., "app/page.tsx", not "src/app/page.tsx")
-- Keep patterns simple and specific
-
-🚨 CRITICAL PATTERN RESTRICTIONS:
-- DO NOT use pipe character | in grep patterns (e.g., "submit|onSubmit" will FAIL)
-- DO NOT use OR patterns - make separate grep calls instead
-- ✅ CORRECT: Two calls: grep "submit" and grep "onSubmit"
-- ❌ WRONG: One call with "submit|onSubmit"
-- Avoid special shell characters: ; & | \` $ < > in patterns
+${CODE_SEARCH_TOOLS_PROMPT}
 
 CRITICAL: You MUST return ONLY valid JSON. No explanations, no text, no markdown, no code fences.
 
@@ -282,39 +324,69 @@ OUTPUT FORMAT (JSON ONLY):
   "needsContext": boolean,
   "toolCalls": [
     {
-      "tool": "grep",
-      "args": ["pattern", "file_path"],
-      "workingDirectory": "src",
+      "tool": "usages",
+      "args": ["useState", "src"],
       "reason": "Need to find all instances of useState hook usage"
     }
   ],
+  "contextComplete": false,
   "contextSummary": "Brief summary of what context is being gathered"
 }
 
+MULTI-STEP GATHERING:
+- After your tool calls run you will be shown their JSON results and can request follow-up calls
+  (e.g. search first, then read the files the matches point to)
+- When you have enough context, return "contextComplete": true with an empty toolCalls array and a
+  contextSummary of what you learned that matters for the request
+- Do not repeat a tool call you have already made
+
 DECISION RULES:
 - If user request is specific and clear (e.g., "Add a button to Tab1"), set needsContext: false
 - If user request is vague (e.g., "Fix the bug", "Improve the UI"), set needsContext: true
 - If user mentions specific files/functions but they're not in current files, set needsContext: true
 - If user wants to modify existing functionality, set needsContext: true
 - Always provide clear reason for each tool call
-- Limit to 3 tool calls maximum
-- Use workingDirectory to scope searches appropriately
+- Limit to 3 tool calls per step
+- Scope searches with a path prefix or glob (e.g. "src/components" or "src/**/*.tsx")
 
 EXAMPLES:
 
 User: "Add a token airdrop feature"
-Output: {"needsContext": true, "toolCalls": [{"tool": "grep", "args": ["useAccount|useUser", "src"], "workingDirectory": "src", "reason": "Need to understand current wallet integration"}], "contextSummary": "Understanding wallet integration for token airdrop"}
+Output: {"needsContext": true, "toolCalls": [{"tool": "search", "args": ["useAccount|useUser", "src"], "reason": "Need to understand current wallet integration"}], "contextSummary": "Understanding wallet integration for token airdrop"}
 
 User: "Change the button color in Tab1 to blue"
-Output: {"needsContext": false, "toolCalls": [], "contextSummary": "Specific UI change, no additional context needed"}
+Output: {"needsContext": false, "toolCalls": [], "contextComplete": true, "contextSummary": "Specific UI change, no additional context needed"}
 
 User: "Fix the bug in the voting system"
-Output: {"needsContext": true, "toolCalls": [{"tool": "grep", "args": ["voting|vote|poll", "src"], "workingDirectory": "src", "reason": "Need to find voting-related code to understand the bug"}], "contextSummary": "Finding voting system code to identify the bug"}
+Output: {"needsContext": true, "toolCalls": [{"tool": "search", "args": ["voting|vote|poll", "src", "i"], "reason": "Need to find voting-related code to understand the bug"}, {"tool": "symbols", "args": ["src", "vote"], "reason": "Find the voting components and hooks"}], "contextSummary": "Finding voting system code to identify the bug"}
 
 REMEMBER: Return ONLY the JSON object above. No other text, no explanations, no markdown formatting.
 `;
 }
 
+/**
+ * User turn for Stage 0 steps after the first: the request plus every tool
+ * result gathered so far
+ */
+export function getStage0FollowUpPrompt(
+  userPrompt: string,
+  toolResults: string,
+  step: number,
+  maxSteps: number
+): string {
+  const isLastStep = step >= maxSteps;
+  return `USER REQUEST: ${userPrompt}
+
+TOOL RESULTS SO FAR:
+${toolResults}
+
+STEP ${step} OF ${maxSteps}: ${isLastStep
+    ? 'This is the last step. Return "contextComplete": true with a contextSummary of what you learned.'
+    : 'Request follow-up tool calls if something is still missing, otherwise return "contextComplete": true with a contextSummary of what you learned.'}
+
+Return ONLY the JSON object.`;
+}
+
 // Stage 1: Intent Parser Types and Prompts
 export interface IntentSpec {
   feature: string;
@@ -334,9 +406,22 @@ export interface IntentSpec {
   // Contract template selection (for Web3 apps)
   contractTemplate?: "ERC20" | "ERC721" | "Escrow" | "none";
   contractName?: string; // e.g., "MyNFT", "RewardToken"
+  // Starting template from the catalog (initial generation only)
+  templateId?: string;
+}
+
+function getStage1TemplateSelectionSection(): string {
+  return `
+TEMPLATE SELECTION (initial generation):
+Pick the starting scaffold that best matches the request and return its id as "templateId".
+The scaffold's files are added to the boilerplate before planning; build on them rather than replacing them.
+Choose a contractTemplate the template supports. Use "blank" when nothing fits.
+If the request names a SELECTED TEMPLATE, use that id.
+${getTemplateCatalogPrompt()}
+`;
 }
 
-export function getStage1IntentParserPrompt(): string {
+export function getStage1IntentParserPrompt(includeTemplateCatalog: boolean = false): string {
   return `
 ROLE: Intent Parser for Farcaster Miniapp Generation
 
@@ -426,7 +511,8 @@ OUTPUT FORMAT (JSON ONLY):
   "isWeb3": boolean,
   "storageType": "blockchain" | "localStorage" | "none",
   "contractTemplate": "ERC20" | "ERC721" | "Escrow" | "none",
-  "contractName": "string (e.g., MyNFT, RewardToken)"
+  "contractName": "string (e.g., MyNFT, RewardToken)"${includeTemplateCatalog ? `,
+  "templateId": "string (id from the template catalog)"` : ""}
 }
 
 RULES:
@@ -489,7 +575,7 @@ If isWeb3: true, select which contract template to use:
 - "ERC20": Tokens, rewards, airdrops, loyalty points, tipping
 - "Escrow": Payments, marketplaces, freelance, betting, crowdfunding
 - "none": Non-web3 apps
-
+${includeTemplateCatalog ? getStage1TemplateSelectionSection() : ""}
 EXAMPLE 1 (Web3 App):
 User: "Create a miniapp with a token airdrop component"
 Output:
@@ -572,6 +658,7 @@ export interface FileDiff {
   filename: string;
   hunks: DiffHunk[];
   unifiedDiff: string;
+  astEdits?: AstEdit[]; // Structural edits used when hunks fail to apply
 }
 
 export function getStage2PatchPlannerPrompt(
@@ -1297,6 +1384,28 @@ CRITICAL: 'use client' DIRECTIVE IN DIFFS:
 `;
 }
 
+function getAstEditRules(): string {
+  return `
+AST EDITS (OPTIONAL, FOR .ts/.tsx FILES):
+When a change replaces a whole function, component, JSX element, import or object property, you MAY add an "astEdits" array to the modify object. It is applied if the unifiedDiff hunks fail to match the file, so it must describe the SAME complete change on its own.
+
+Each AST edit:
+{"action": "replace" | "insert" | "remove", "kind": "function" | "component" | "jsx" | "import" | "property", "name": "...", "within": "...", "index": 0, "position": "before" | "after" | "start" | "end", "code": "..."}
+
+- function/component: "name" is the top-level declaration name; "code" is the complete new declaration (export modifiers are kept automatically). Insert without "name" appends to the end of the file.
+- import: "name" is the module specifier, e.g. "wagmi"; "code" is the complete import statement. Insert without "name" adds after the last import.
+- jsx: "name" is the tag name, "within" the enclosing component, "index" which occurrence (0-based). Insert with position "start"/"end" adds a first/last child.
+- property: "name" is the property key, "within" the variable holding the object literal.
+- "code" is required for replace and insert, omitted for remove.
+
+EXAMPLE:
+"astEdits": [
+  {"action": "insert", "kind": "import", "code": "import { useAccount } from 'wagmi';"},
+  {"action": "replace", "kind": "jsx", "name": "h1", "within": "HomePage", "index": 0, "code": "<h1>Token Airdrop</h1>"}
+]
+`;
+}
+
 function getOutputFormatRules(isInitialGeneration: boolean): string {
   if (isInitialGeneration) {
     return `
@@ -1467,6 +1576,7 @@ EXAMPLE OUTPUT FOR NEW FILE (NOT in existing files list):
 }
 
 ${getDiffGenerationRules()}
+${getAstEditRules()}
 ${getCoreGenerationRules()}
 ${getClientDirectiveRules()}
 ${authRules}
@@ -1929,6 +2039,7 @@ export function validateNoNewContracts(
 /**
  * Stage 1: Intent Parser - Shared by both pipelines
  * Parses user request into structured specification
+ * With templateSelection (initial generation) it also picks a catalog template
  */
 async function executeStage1IntentParser(
   userPrompt: string,
@@ -1938,24 +2049,28 @@ async function executeStage1IntentParser(
     stageName: string,
     stageType?: keyof typeof STAGE_MODEL_CONFIG
   ) => Promise<string>,
-  projectId?: string
+  projectId?: string,
+  templateSelection?: { requestedTemplateId?: string }
 ): Promise<IntentSpec> {
   logger.log("\n" + "=".repeat(50));
   logger.log("📋 STAGE 1: Intent Parser");
   logger.log("=".repeat(50));
 
-  const intentPrompt = `USER REQUEST: ${userPrompt}`;
+  const systemPrompt = getStage1IntentParserPrompt(!!templateSelection);
+  const intentPrompt = templateSelection?.requestedTemplateId
+    ? `USER REQUEST: ${userPrompt}\nSELECTED TEMPLATE: ${templateSelection.requestedTemplateId}`
+    : `USER REQUEST: ${userPrompt}`;
   logger.log("📤 Sending to LLM (Stage 1):");
   logger.log(
     "System Prompt Length:",
-    getStage1IntentParserPrompt().length,
+    systemPrompt.length,
     "chars"
   );
   logger.log("User Prompt:", intentPrompt);
 
   const startTime1 = Date.now();
   const intentResponse = await callLLM(
-    getStage1IntentParserPrompt(),
+    systemPrompt,
     intentPrompt,
     "Stage 1: Intent Parser",
     "STAGE_1_INTENT_PARSER"
@@ -1965,7 +2080,7 @@ async function executeStage1IntentParser(
   // Log Stage 1 response for debugging
   if (projectId) {
     logStageResponse(projectId, 'stage1-intent-parser', intentResponse, {
-      systemPromptLength: getStage1IntentParserPrompt().length,
+      systemPromptLength: systemPrompt.length,
       userPromptLength: intentPrompt.length,
       responseTime: endTime1 - startTime1
     });
@@ -2175,11 +2290,11 @@ async function executeStage2PatchPlanner(
 
 /**
  * Pipeline for initial project generation
- * Generates complete file contents from boilerplate
+ * Generates complete file contents from boilerplate plus the selected template
  */
 export async function executeInitialGenerationPipeline(
   userPrompt: string,
-  currentFiles: { filename: string; content: string }[],
+  boilerplateFiles: { filename: string; content: string }[],
   callLLM: (
     systemPrompt: string,
     userPrompt: string,
@@ -2187,15 +2302,22 @@ export async function executeInitialGenerationPipeline(
     stageType?: keyof typeof STAGE_MODEL_CONFIG
   ) => Promise<string>,
   projectId?: string,
-  projectDir?: string
+  projectDir?: string,
+  requestedTemplateId?: string
 ): Promise<{ files: { filename: string; content: string }[]; intentSpec: IntentSpec }> {
   try {
     logger.log("🚀 Starting INITIAL GENERATION pipeline...");
     logger.log("📝 User Prompt:", userPrompt);
-    logger.log("📁 Current Files Count:", currentFiles.length);
+    logger.log("📁 Boilerplate Files Count:", boilerplateFiles.length);
 
-    // Stage 1: Intent Parser
-    const intentSpec = await executeStage1IntentParser(userPrompt, callLLM, projectId);
+    // Stage 1: Intent Parser (also selects the starting template)
+    const parsedIntent = await executeStage1IntentParser(userPrompt, callLLM, projectId, { requestedTemplateId });
+
+    // Overlay the template scaffold on the boilerplate before planning
+    const template = resolveTemplate(parsedIntent, requestedTemplateId);
+    const intentSpec = applyTemplateToIntent(parsedIntent, template);
+    const currentFiles = applyTemplateFiles(boilerplateFiles, template);
+    logger.log(`📋 Template: ${template.id} (contract: ${intentSpec.contractTemplate})`);
 
     // Check if changes are needed
     if (!intentSpec.needsChanges) {
@@ -2246,7 +2368,14 @@ export async function executeInitialGenerationPipeline(
     );
 
     // Filter out protected config files to prevent LLM from overwriting boilerplate
-    const finalFiles = filterProtectedConfigFiles(validatedFiles) as { filename: string; content: string }[];
+    const validatedOutput = filterProtectedConfigFiles(validatedFiles) as { filename: string; content: string }[];
+
+    // Scaffold files Stage 3 left untouched still have to reach disk and the preview
+    const generatedNames = new Set(validatedOutput.map(f => f.filename));
+    const finalFiles = [
+      ...template.files.filter(f => !generatedNames.has(f.filename)),
+      ...validatedOutput,
+    ];
 
     logger.log("\n" + "=".repeat(50));
     logger.log("🎉 INITIAL GENERATION PIPELINE COMPLETED!");
@@ -2269,6 +2398,50 @@ export async function executeInitialGenerationPipeline(
 // FOLLOW-UP CHANGES PIPELINE (Diff-Based)
 // ========================================================================
 
+/**
+ * Narrow the files sent to follow-up Stages 2/3 for large projects: the
+ * top-ranked chunks' files plus their imports, with an outline of the rest.
+ * Small projects are returned unchanged.
+ */
+export async function selectFollowUpContextFiles(
+  userPrompt: string,
+  intentSpec: IntentSpec,
+  files: { filename: string; content: string }[],
+  projectId?: string,
+  maxChars: number = DEFAULT_RETRIEVAL_MAX_CHARS
+): Promise<{ filename: string; content: string }[]> {
+  const totalChars = files.reduce((sum, file) => sum + file.content.length, 0);
+  if (totalChars <= maxChars) {
+    return files;
+  }
+
+  // The stored index is only a cache - chunks for changed files are rebuilt here
+  let storedChunks: Awaited<ReturnType<typeof getProjectFileChunks>> = [];
+  if (projectId) {
+    try {
+      storedChunks = await getProjectFileChunks(projectId);
+    } catch (error) {
+      logger.warn("⚠️ Could not load chunk index, chunking files in memory:", error);
+    }
+  }
+
+  const chunks = buildChunkIndex(files, storedChunks);
+  const query = [userPrompt, intentSpec.feature, ...intentSpec.requirements, ...intentSpec.targetFiles].join('\n');
+  const selection = selectRelevantFiles(files, query, chunks, { maxChars, pinnedFiles: intentSpec.targetFiles });
+
+  logger.log(`🎯 Retrieval: ${selection.files.length} of ${files.length} files selected (${totalChars} chars total, budget ${maxChars})`);
+  logger.log("🎯 Top chunks:", selection.ranked.slice(0, 5).map(r => `${r.filename}${r.symbol ? `#${r.symbol}` : ''} (${r.score})`));
+
+  if (selection.omitted.length === 0) {
+    return selection.files;
+  }
+
+  return [
+    ...selection.files,
+    { filename: '_project_outline.md', content: describeOmittedFiles(selection.omitted, chunks) },
+  ];
+}
+
 /**
  * Pipeline for follow-up changes to existing projects
  * Generates surgical diffs instead of complete files
@@ -2308,11 +2481,12 @@ export async function executeFollowUpPipeline(
       return { files: currentFiles, diffs: [], intentSpec };
     }
 
-    // 🎯 Filter files based on web3 requirement (after Stage 1, before Stage 2)
+    // 🎯 Filter files based on web3 requirement and relevance (after Stage 1, before Stage 2)
     logger.log("\n" + "=".repeat(50));
-    logger.log("🔍 FILTERING FILES BASED ON WEB3 REQUIREMENT");
+    logger.log("🔍 FILTERING FILES BASED ON WEB3 REQUIREMENT AND RELEVANCE");
     logger.log("=".repeat(50));
-    const filteredFiles = filterFilesByWeb3Requirement(currentFiles, intentSpec.isWeb3);
+    const web3FilteredFiles = filterFilesByWeb3Requirement(currentFiles, intentSpec.isWeb3);
+    const filteredFiles = await selectFollowUpContextFiles(userPrompt, intentSpec, web3FilteredFiles, projectId);
     logger.log("✅ File filtering complete");
 
     // Stage 2: Patch Planner (with diffs) - using filtered files
@@ -2531,6 +2705,73 @@ Now regenerate the code using ONLY the templates above.`;
   return completeFiles;
 }
 
+/**
+ * Stage 3 fallback: when hunks for a TS/TSX file do not match the file and the
+ * model gave no astEdits, ask once for AST edits describing the same change.
+ * Mutates the given diffs in place.
+ */
+async function requestAstEditsForFailedHunks(
+  diffs: FileDiff[],
+  currentFiles: { filename: string; content: string }[],
+  userPrompt: string,
+  callLLM: (
+    systemPrompt: string,
+    userPrompt: string,
+    stageName: string,
+    stageType?: keyof typeof STAGE_MODEL_CONFIG
+  ) => Promise<string>,
+  projectId?: string
+): Promise<void> {
+  const failures = diffs.flatMap(diff => {
+    const file = currentFiles.find(f => f.filename === diff.filename);
+    if (!file || diff.astEdits?.length || !/\.(ts|tsx)$/.test(diff.filename)) return [];
+    const { failedHunks } = applyDiffHunksWithReport(file.content, diff.hunks);
+    return failedHunks.length > 0 ? [{ diff, file, failedHunks }] : [];
+  });
+  if (failures.length === 0) return;
+
+  logger.log(`🌳 ${failures.length} file(s) have hunks that do not apply, requesting AST edits: ${failures.map(f => f.diff.filename).join(', ')}`);
+
+  const systemPrompt = `You are fixing a code change whose unified diff hunks no longer match the files.
+For each file below, express the COMPLETE intended change (all hunks, including the ones that applied) as AST edits.
+${getAstEditRules()}
+OUTPUT FORMAT:
+__START_JSON__
+[{"filename": "path", "operation": "modify", "astEdits": [...]}]
+__END_JSON__`;
+
+  const fallbackPrompt = `USER REQUEST: ${userPrompt}
+
+${failures.map(({ diff, file, failedHunks }) => `FILE: ${diff.filename}
+CURRENT CONTENT:
+\`\`\`
+${file.content}
+\`\`\`
+
+INTENDED DIFF (${failedHunks.length} of ${diff.hunks.length} hunks failed to match):
+${diff.unifiedDiff}`).join('\n\n')}`;
+
+  try {
+    const response = await callLLM(systemPrompt, fallbackPrompt, "Stage 3: AST Edit Fallback", "STAGE_3_CODE_GENERATOR");
+    if (projectId) {
+      logStageResponse(projectId, 'stage3-ast-edit-fallback', response, {
+        files: failures.map(f => f.diff.filename)
+      });
+    }
+
+    for (const item of parseStage3CodeResponse(response)) {
+      const failure = failures.find(f => f.diff.filename === item.filename);
+      if (failure && item.astEdits?.length) {
+        failure.diff.astEdits = item.astEdits;
+        logger.log(`  ✅ ${item.filename}: received ${item.astEdits.length} AST edits`);
+      }
+    }
+  } catch (error) {
+    if (error instanceof JobCancelledError) throw error;
+    logger.warn('⚠️ AST edit fallback failed, keeping partially applied hunks:', error);
+  }
+}
+
 /**
  * Stage 3: Code Generator for Follow-Up Changes
  * Generates diffs and applies them to existing files
@@ -2607,6 +2848,7 @@ async function executeStage3FollowUpGeneration(
   generatedFiles.forEach(file => {
     const isExisting = existingFileNames.has(file.filename);
     const hasUnifiedDiff = !!file.unifiedDiff;
+    const hasAstEdits = !!file.astEdits?.length;
     const hasContent = !!file.content;
     const operation = file.operation || 'unknown';
 
@@ -2614,6 +2856,7 @@ async function executeStage3FollowUpGeneration(
     logger.log(`  ${status} ${file.filename}:`);
     logger.log(`    - operation: ${operation}`);
     logger.log(`    - hasUnifiedDiff: ${hasUnifiedDiff}`);
+    logger.log(`    - hasAstEdits: ${hasAstEdits}`);
     logger.log(`    - hasContent: ${hasContent}`);
 
     // Validate existing files MUST use diff format
@@ -2623,7 +2866,7 @@ async function executeStage3FollowUpGeneration(
         validationErrors.push(error);
         logger.log(`    ${error}`);
       }
-      if (!hasUnifiedDiff) {
+      if (!hasUnifiedDiff && !hasAstEdits) {
         const error = `❌ ${file.filename}: EXISTING file missing unifiedDiff (required for modifications)`;
         validationErrors.push(error);
         logger.log(`    ${error}`);
@@ -2678,7 +2921,7 @@ async function executeStage3FollowUpGeneration(
       const isExisting = existingFileNames.has(file.filename);
       
       // If existing file has full content instead of diff, convert it
-      if (isExisting && file.content && !file.unifiedDiff) {
+      if (isExisting && file.content && !file.unifiedDiff && !file.astEdits?.length) {
         logger.log(`🔄 Converting ${file.filename} from full content to diff...`);
         
         const originalFile = currentFiles.find(f => f.filename === file.filename);
@@ -2706,7 +2949,7 @@ async function executeStage3FollowUpGeneration(
   }
 
   // Process files: apply diffs for modifications, use content for new files
-  const filesWithDiffs = generatedFiles.filter(file => file.operation === 'modify' && file.unifiedDiff);
+  const filesWithDiffs = generatedFiles.filter(file => file.operation === 'modify' && (file.unifiedDiff || file.astEdits?.length));
   const filesWithContent = generatedFiles.filter(file => file.operation === 'create' && file.content);
 
   logger.log(`📊 File processing breakdown:`);
@@ -2720,19 +2963,18 @@ async function executeStage3FollowUpGeneration(
   }
 
   const processedFiles: { filename: string; content: string }[] = [];
+  const diffs: FileDiff[] = filesWithDiffs.map(file => ({
+    filename: file.filename,
+    hunks: file.unifiedDiff ? parseUnifiedDiff(file.unifiedDiff) : [],
+    unifiedDiff: file.unifiedDiff || '',
+    astEdits: file.astEdits
+  })).filter(diff => diff.hunks.length > 0 || diff.astEdits?.length);
 
   // Apply diffs to existing files
   if (filesWithDiffs.length > 0) {
     logger.log(`🔄 Applying diffs to ${filesWithDiffs.length} files...`);
-    
-    const diffs = filesWithDiffs.map(file => {
-      const hunks = parseUnifiedDiff(file.unifiedDiff!);
-      return {
-        filename: file.filename,
-        hunks: hunks,
-        unifiedDiff: file.unifiedDiff!
-      };
-    }).filter(diff => diff.hunks.length > 0);
+
+    await requestAstEditsForFailedHunks(diffs, currentFiles, userPrompt, callLLM, projectId);
 
     const filesWithAppliedDiffs = applyDiffsToFiles(currentFiles, diffs);
     processedFiles.push(...filesWithAppliedDiffs);
@@ -2750,19 +2992,15 @@ async function executeStage3FollowUpGeneration(
     });
   }
 
-  // Collect the diffs that were applied
-  const appliedDiffs: FileDiff[] = [];
-  if (filesWithDiffs.length > 0) {
-    const diffs = filesWithDiffs.map(file => {
-      const hunks = parseUnifiedDiff(file.unifiedDiff!);
-      return {
-        filename: file.filename,
-        hunks: hunks,
-        unifiedDiff: file.unifiedDiff!
-      };
-    }).filter(diff => diff.hunks.length > 0);
-    appliedDiffs.push(...diffs);
-  }
+  // Collect the diffs that were applied. Files changed through AST edits get a
+  // diff regenerated from the result, since their hunks did not describe it.
+  const appliedDiffs: FileDiff[] = diffs.map(diff => {
+    if (!diff.astEdits?.length) return diff;
+    const original = currentFiles.find(f => f.filename === diff.filename);
+    const updated = processedFiles.find(f => f.filename === diff.filename);
+    if (!original || !updated) return diff;
+    return { ...generateDiff(original.content, updated.content, diff.filename), astEdits: diff.astEdits };
+  });
 
   logger.log(`✅ Stage 3 complete - Generated ${processedFiles.length} files with ${appliedDiffs.length} diffs`);
   
@@ -2841,13 +3079,15 @@ async function executeStage4InitialValidation(
       logger.log("⚠️ Railway validation not available - falling back to local validation");
     }
   } catch (railwayError) {
+    // A cancelled job must not fall through to a full local compile
+    if (railwayError instanceof JobCancelledError) throw railwayError;
     logger.warn("⚠️ Railway validation failed - falling back to local validation:", railwayError);
   }
   }
 
   // Fallback to local validation (limited in serverless)
   logger.log("\n🔧 Falling back to local CompilationValidator...");
-  const validator = new CompilationValidator(process.cwd());
+  const validator = new CompilationValidator(process.cwd(), { cacheKey: projectId });
   
   // Convert to the format expected by CompilationValidator
   logger.log("🔄 Converting files for validation...");
@@ -2969,12 +3209,14 @@ async function executeStage4FollowUpValidation(
       logger.log("⚠️ Railway validation not available - falling back to local validation");
     }
   } catch (railwayError) {
+    // A cancelled job must not fall through to a full local compile
+    if (railwayError instanceof JobCancelledError) throw railwayError;
     logger.warn("⚠️ Railway validation failed - falling back to local validation:", railwayError);
   }
 
   // Fallback to local validation (limited in serverless)
   logger.log("\n🔧 Falling back to local CompilationValidator...");
-  const validator = new CompilationValidator(process.cwd());
+  const validator = new CompilationValidator(process.cwd(), { cacheKey: projectId });
   
   // Convert to the format expected by CompilationValidator
   logger.log("🔄 Converting files for validation (follow-up mode)...");
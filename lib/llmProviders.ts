@@ -0,0 +1,441 @@
+import { logger } from "./logger";
+/**
+ * LLM Provider Layer
+ *
+ * Every pipeline stage talks to a model through callStageLLM, which resolves the
+ * provider configured for the stage in STAGE_MODEL_CONFIG, applies the shared
+ * retry / fallback-model policy and normalizes token usage and cost so stage
+ * code never depends on a specific vendor's request or response shape.
+ */
+
+import {
+  ANTHROPIC_MODELS,
+  LLM_PROVIDERS,
+  STAGE_MODEL_CONFIG,
+  type LLMProviderName,
+} from "./llmOptimizer";
+
+export type StageType = keyof typeof STAGE_MODEL_CONFIG;
+
+export interface LLMRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface StageLLMResult extends LLMResponse {
+  provider: string;
+  stageName: string;
+  stageType: StageType;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * Error raised by providers for non-2xx API responses
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status: number,
+    public readonly responseText?: string
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  /** Overloaded, rate limited and server errors are worth retrying */
+  get retryable(): boolean {
+    return this.status === 429 || this.status === 529 || this.status >= 500;
+  }
+}
+
+// ========================================================================
+// PROVIDERS
+// ========================================================================
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = LLM_PROVIDERS.ANTHROPIC;
+
+  constructor(
+    private readonly apiKey: string | undefined = process.env.CLAUDE_API_KEY,
+    private readonly baseUrl: string = process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com"
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.apiKey) throw new Error("Claude API key not set in environment");
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": this.apiKey,
+        "anthropic-version": "2023-06-01",
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.systemPrompt,
+        messages: [{ role: "user", content: request.userPrompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMProviderError(
+        `Claude API error: ${response.status} ${errorText}`,
+        this.name,
+        response.status,
+        errorText
+      );
+    }
+
+    const data = await response.json();
+    const inputTokens = data.usage?.input_tokens || 0;
+    const outputTokens = data.usage?.output_tokens || 0;
+
+    return {
+      text: data.content?.[0]?.text || "",
+      model: data.model || request.model,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+  }
+}
+
+/**
+ * Works against OpenAI and anything exposing the same /chat/completions API
+ * (Together, OpenRouter, vLLM, Ollama, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    private readonly modelOverride?: string
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (this.apiKey) {
+      headers["authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    // Stage config names Anthropic models, so vendors usually need their own model id
+    const model = this.modelOverride || request.model;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [
+          { role: "system", content: request.systemPrompt },
+          { role: "user", content: request.userPrompt },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMProviderError(
+        `${this.name} API error: ${response.status} ${errorText}`,
+        this.name,
+        response.status,
+        errorText
+      );
+    }
+
+    const data = await response.json();
+    const inputTokens = data.usage?.prompt_tokens || 0;
+    const outputTokens = data.usage?.completion_tokens || 0;
+
+    return {
+      text: data.choices?.[0]?.message?.content || "",
+      model: data.model || model,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+  }
+}
+
+export type MockResponder = (request: LLMRequest) => string | Promise<string>;
+
+/**
+ * In-process provider that answers from a responder function.
+ * Token usage is estimated at ~4 chars per token so accounting still works.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = LLM_PROVIDERS.MOCK;
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private readonly responder: MockResponder) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    const text = await this.responder(request);
+    const inputTokens = Math.ceil((request.systemPrompt.length + request.userPrompt.length) / 4);
+    const outputTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      model: request.model,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+  }
+}
+
+const providerRegistry = new Map<string, LLMProvider>();
+
+function createDefaultProvider(name: string): LLMProvider {
+  switch (name) {
+    case LLM_PROVIDERS.ANTHROPIC:
+      return new AnthropicProvider();
+    case LLM_PROVIDERS.OPENAI:
+      return new OpenAICompatibleProvider(
+        LLM_PROVIDERS.OPENAI,
+        process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        process.env.OPENAI_API_KEY,
+        process.env.OPENAI_MODEL
+      );
+    case LLM_PROVIDERS.LOCAL:
+      return new OpenAICompatibleProvider(
+        LLM_PROVIDERS.LOCAL,
+        process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        undefined,
+        process.env.LOCAL_LLM_MODEL
+      );
+    case LLM_PROVIDERS.MOCK:
+      return new MockLLMProvider(() => {
+        throw new Error("Mock LLM provider has no responder; call registerLLMProvider('mock', ...) first");
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+/**
+ * Register (or replace) the provider used for a provider name
+ */
+export function registerLLMProvider(name: LLMProviderName | string, provider: LLMProvider): void {
+  providerRegistry.set(name, provider);
+}
+
+/**
+ * Drop registered providers so they are rebuilt from the environment
+ */
+export function resetLLMProviders(): void {
+  providerRegistry.clear();
+}
+
+export function getLLMProvider(name: LLMProviderName | string): LLMProvider {
+  let provider = providerRegistry.get(name);
+  if (!provider) {
+    provider = createDefaultProvider(name);
+    providerRegistry.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Resolve the provider for a stage: LLM_PROVIDER_<STAGE> > LLM_PROVIDER > STAGE_MODEL_CONFIG
+ */
+export function resolveStageProvider(stageType: StageType): string {
+  return (
+    process.env[`LLM_PROVIDER_${stageType}`] ||
+    process.env.LLM_PROVIDER ||
+    STAGE_MODEL_CONFIG[stageType].provider
+  );
+}
+
+// ========================================================================
+// TOKEN ACCOUNTING
+// ========================================================================
+
+// USD per 1M tokens. Dated variants (e.g. gpt-4o-2024-08-06) match the longest
+// listed prefix; LLM_MODEL_PRICING adds or overrides entries as JSON:
+// {"my-model": {"input": 1, "output": 2}}
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [ANTHROPIC_MODELS.FAST]: { input: 0.8, output: 4 },
+  [ANTHROPIC_MODELS.BALANCED]: { input: 3, output: 15 },
+  [ANTHROPIC_MODELS.POWERFUL]: { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+function getPricingTable(): Record<string, { input: number; output: number }> {
+  const override = process.env.LLM_MODEL_PRICING;
+  if (!override) return MODEL_PRICING;
+
+  try {
+    return { ...MODEL_PRICING, ...JSON.parse(override) };
+  } catch (error) {
+    logger.warn("⚠️ Ignoring invalid LLM_MODEL_PRICING:", error);
+    return MODEL_PRICING;
+  }
+}
+
+export function getModelPricing(model: string): { input: number; output: number } | undefined {
+  const table = getPricingTable();
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Cost of a call in USD. Unknown models (local, mock, other vendors) cost 0.
+ */
+export function calculateLLMCost(usage: Pick<LLMUsage, 'inputTokens' | 'outputTokens'>, model: string): number {
+  const pricing = getModelPricing(model);
+  if (!pricing) return 0;
+  return (usage.inputTokens / 1000000) * pricing.input + (usage.outputTokens / 1000000) * pricing.output;
+}
+
+// ========================================================================
+// STAGE CALLS
+// ========================================================================
+
+/**
+ * Call the model configured for a pipeline stage with retry logic
+ */
+export async function callStageLLM(
+  systemPrompt: string,
+  userPrompt: string,
+  stageName: string,
+  stageType: StageType = 'LEGACY_SINGLE_STAGE'
+): Promise<StageLLMResult> {
+  const modelConfig = STAGE_MODEL_CONFIG[stageType];
+  let maxTokens: number = modelConfig.maxTokens;
+
+  // Truncated code generation is retried with a bigger output budget
+  if (stageName.includes('(Retry)') && stageType === 'STAGE_3_CODE_GENERATOR') {
+    maxTokens = Math.min(maxTokens * 2, 40000);
+  }
+
+  const providerName = resolveStageProvider(stageType);
+  const provider = getLLMProvider(providerName);
+
+  const request: LLMRequest = {
+    model: modelConfig.model,
+    systemPrompt,
+    userPrompt,
+    maxTokens,
+    temperature: modelConfig.temperature,
+  };
+
+  logger.log(`\n🤖 LLM Call - ${stageName}`);
+  logger.log("  Provider:", provider.name);
+  logger.log("  Model:", request.model);
+  logger.log("  Max Tokens:", request.maxTokens);
+
+  const maxRetries = 3;
+  const baseDelay = 1000;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (attempt > 1) {
+      const throttleDelay = Math.min(500 * attempt, 2000);
+      logger.log(`⏱️ Throttling request (attempt ${attempt}), waiting ${throttleDelay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, throttleDelay));
+    }
+
+    try {
+      const startTime = Date.now();
+      const response = await provider.complete(request);
+      const durationMs = Date.now() - startTime;
+      // Priced by the model the provider actually ran, which a model override can change
+      const costUsd = calculateLLMCost(response.usage, response.model);
+
+      logger.log("📥 Output:");
+      logger.log("  Response Time:", durationMs, "ms");
+      logger.log("  Total Tokens:", response.usage.totalTokens);
+      logger.log("  Cost:", `$${costUsd.toFixed(6)}`);
+
+      return {
+        ...response,
+        provider: provider.name,
+        stageName,
+        stageType,
+        costUsd,
+        durationMs,
+      };
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        if (!error.retryable) {
+          logger.error(`❌ LLM API Error (${stageName}):`, error.status, error.responseText);
+          throw error;
+        }
+
+        if (attempt === maxRetries) {
+          logger.error(`❌ LLM API Error (${stageName}): Max retries exceeded`);
+          throw new Error(
+            `${provider.name} API ${error.status === 429 || error.status === 529 ? 'overloaded' : 'server error'} after ${maxRetries} attempts. Please try again later.`
+          );
+        }
+
+        const delay = baseDelay * Math.pow(2, attempt - 1);
+
+        // Try fallback model on last retry
+        if (attempt === maxRetries - 1 && modelConfig.fallbackModel) {
+          logger.log(`⚠️ API ${error.status} error, switching to fallback model: ${modelConfig.fallbackModel}`);
+          request.model = modelConfig.fallbackModel;
+        } else {
+          logger.log(`⚠️ API ${error.status} error, retrying in ${delay}ms...`);
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (attempt === maxRetries) {
+        logger.error(`❌ LLM API Error (${stageName}) after ${maxRetries} attempts:`, error);
+        throw error;
+      }
+
+      // For network errors, retry
+      if (
+        error instanceof TypeError ||
+        (error instanceof Error && error.message.includes("fetch"))
+      ) {
+        const delay = baseDelay * Math.pow(2, attempt - 1);
+        logger.log(`⚠️ Network error, retrying in ${delay}ms...`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        continue;
+      }
+
+      throw error;
+    }
+  }
+
+  throw new Error(
+    `Failed to get response from ${provider.name} after ${maxRetries} attempts`
+  );
+}
@@ -0,0 +1,53 @@
+import { logger } from "./logger";
+/**
+ * LLM Usage Ledger
+ *
+ * Records every stage call (model, stage, tokens, cost) against the user,
+ * project and job it was made for, so /api/usage and /api/jobs/[id] can report
+ * what each miniapp actually cost to build. Calls answered from LLM fixtures
+ * never reach callStageLLM and are not recorded.
+ */
+
+import { createLLMUsageEvent } from "./database";
+import { callStageLLM, type StageLLMResult } from "./llmProviders";
+import type { CallLLM } from "./llmFixtures";
+
+export interface LLMUsageScope {
+  userId: string;
+  projectId?: string;
+  jobId?: string;
+}
+
+/**
+ * Write one ledger row. Never throws - accounting must not fail a generation.
+ */
+export async function recordLLMUsage(scope: LLMUsageScope, result: StageLLMResult): Promise<void> {
+  try {
+    await createLLMUsageEvent({
+      userId: scope.userId,
+      projectId: scope.projectId,
+      jobId: scope.jobId,
+      provider: result.provider,
+      model: result.model,
+      stageName: result.stageName,
+      stageType: result.stageType,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      costUsd: result.costUsd,
+      durationMs: result.durationMs,
+    });
+  } catch (error) {
+    logger.warn(`⚠️ Failed to record LLM usage for ${result.stageName}:`, error);
+  }
+}
+
+/**
+ * callLLM callback that goes through callStageLLM and records each call
+ */
+export function createUsageTrackingCallLLM(scope: LLMUsageScope): CallLLM {
+  return async (systemPrompt, userPrompt, stageName, stageType) => {
+    const result = await callStageLLM(systemPrompt, userPrompt, stageName, stageType);
+    await recordLLMUsage(scope, result);
+    return result.text;
+  };
+}
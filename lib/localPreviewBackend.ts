@@ -0,0 +1,422 @@
+import { logger } from "./logger";
+/**
+ * Local Preview Backend
+ *
+ * Runs generated projects with `next dev` on this machine instead of the remote
+ * deploy host. Dependencies come from the shared dependency cache (see
+ * dependencyCache.ts) and are symlinked into each project, so a new preview only
+ * pays for the dev server start. Selected with PREVIEW_BACKEND=local.
+ *
+ * Web3 projects also get a `hardhat node` (startChain) that their contracts are
+ * deployed to. It runs beside the dev server and stops with the preview, so the
+ * app keeps a chain to call the contracts on.
+ *
+ * Env:
+ *  - DEPENDENCY_CACHE_DIR / PREVIEW_LOCAL_CACHE_DIR: shared node_modules cache (default <tmp>/minidev-preview-deps)
+ *  - PREVIEW_LOCAL_HOST:      host used in returned URLs (default localhost)
+ *  - PREVIEW_LOCAL_PORT_START / PREVIEW_LOCAL_PORT_END: port range for dev servers
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { spawn, type ChildProcess } from "child_process";
+import type { PreviewResponse } from "./previewManager";
+import type { ContractChain } from "./contractAddressInjector";
+import { PREVIEW_BACKENDS, type PreviewBackend } from "./previewBackend";
+import { DependencyCache, getDependencyCache, getDependencyCacheKey } from "./dependencyCache";
+import { SolidityToolchain } from "./solidityToolchain";
+
+export { getDependencyCacheKey };
+
+const MAX_LOG_LINES = 200;
+// Left alone when syncing a project directory: installed dependencies and what next dev generates
+const PRESERVED_ENTRIES = new Set(["node_modules", ".next", "next-env.d.ts"]);
+const CHAIN_READY_TIMEOUT_MS = 60000;
+
+interface RunningPreview {
+  process: ChildProcess;
+  port: number;
+  url: string;
+  dependencyKey: string;
+  logs: string[];
+}
+
+interface RunningChain {
+  process: ChildProcess;
+  port: number;
+  chain: ContractChain;
+}
+
+export interface LocalPreviewBackendOptions {
+  cacheDir?: string;
+  projectsDir?: string; // Parent of the per-project directories (default: the worker's generated/ dir)
+  host?: string;
+  portRange?: [number, number];
+  readyTimeoutMs?: number;
+}
+
+// Same layout as saveFilesToGenerated, so the worker's on-disk copy is reused
+function getProjectsDir(): string {
+  return process.env.NODE_ENV === "production"
+    ? "/tmp/generated"
+    : path.join(process.cwd(), "generated");
+}
+
+/**
+ * Absolute path of a project file, refusing names (e.g. with ..) that resolve
+ * outside the project directory
+ */
+function resolveProjectFile(projectDir: string, filename: string): string {
+  const root = path.resolve(projectDir);
+  const filePath = path.resolve(root, filename);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Refusing to write ${filename}: it resolves outside the project directory`);
+  }
+  return filePath;
+}
+
+export class LocalPreviewBackend implements PreviewBackend {
+  readonly name = PREVIEW_BACKENDS.LOCAL;
+  readonly requiresAccessToken = false;
+
+  private readonly dependencies: DependencyCache;
+  private readonly projectsDir: string;
+  private readonly host: string;
+  private readonly portRange: [number, number];
+  private readonly readyTimeoutMs: number;
+  private readonly running = new Map<string, RunningPreview>();
+  private readonly chains = new Map<string, RunningChain>();
+
+  constructor(options: LocalPreviewBackendOptions = {}) {
+    this.dependencies = options.cacheDir ? new DependencyCache(options.cacheDir) : getDependencyCache();
+    this.projectsDir = options.projectsDir || getProjectsDir();
+    this.host = options.host || process.env.PREVIEW_LOCAL_HOST || "localhost";
+    this.portRange = options.portRange || [
+      parseInt(process.env.PREVIEW_LOCAL_PORT_START || "4100", 10),
+      parseInt(process.env.PREVIEW_LOCAL_PORT_END || "4199", 10),
+    ];
+    this.readyTimeoutMs = options.readyTimeoutMs || 180000;
+
+    // Don't leave dev servers or chains behind when the app server exits
+    process.once("exit", () => {
+      this.running.forEach(preview => preview.process.kill("SIGTERM"));
+      this.chains.forEach(chain => chain.process.kill("SIGTERM"));
+    });
+  }
+
+  async createPreview(
+    projectId: string,
+    files: { filename: string; content: string }[]
+  ): Promise<PreviewResponse> {
+    logger.log(`🖥️ Creating local preview for ${projectId} (${files.length} files)`);
+    const projectDir = this.getProjectDir(projectId);
+    await this.syncFiles(projectDir, files);
+
+    const existing = this.running.get(projectId);
+    return this.startOrReuse(projectId, projectDir, !existing);
+  }
+
+  async updatePreviewFiles(
+    projectId: string,
+    changedFiles: { filename: string; content: string }[]
+  ): Promise<void> {
+    try {
+      const projectDir = this.getProjectDir(projectId);
+      await this.writeFiles(projectDir, changedFiles);
+
+      // next dev hot-reloads file changes; only start a server if none is running
+      if (!this.running.has(projectId)) {
+        await this.startOrReuse(projectId, projectDir, true);
+      }
+      logger.log(`✅ Local preview files updated for ${projectId}`);
+    } catch (error) {
+      logger.error(`❌ Failed to update local preview for ${projectId}:`, error);
+      logger.warn(`⚠️  Preview update failed for ${projectId}, but files are saved to database`);
+    }
+  }
+
+  async redeploy(
+    projectId: string,
+    files: { filename: string; content: string }[]
+  ): Promise<PreviewResponse> {
+    logger.log(`🖥️ Redeploying local preview for ${projectId}`);
+    const projectDir = this.getProjectDir(projectId);
+    await this.syncFiles(projectDir, files);
+
+    const preview = await this.startOrReuse(projectId, projectDir, false);
+    if (preview.status === "deployment_failed") {
+      throw new Error(`Local preview failed: ${preview.deploymentError}`);
+    }
+    return preview;
+  }
+
+  async stopPreview(projectId: string): Promise<void> {
+    await this.stopChain(projectId);
+    await this.stopDevServer(projectId);
+  }
+
+  /**
+   * (Re)start the project's local chain from its contracts/ project and wait
+   * until it answers. Contracts deployed to it stay callable until the preview
+   * is stopped.
+   */
+  async startChain(projectId: string, files: { filename: string; content: string }[]): Promise<ContractChain> {
+    await this.stopChain(projectId);
+
+    const { default: getPort, portNumbers } = await import("get-port");
+    const port = await getPort({ port: portNumbers(this.portRange[0], this.portRange[1]) });
+    const node = await new SolidityToolchain({ cacheKey: projectId }).startNode(files, port);
+    if ("unavailable" in node) {
+      throw new Error(node.unavailable);
+    }
+
+    const logs: string[] = [];
+    const appendLogs = (chunk: Buffer) => {
+      logs.push(...chunk.toString().split("\n").filter(Boolean));
+      if (logs.length > MAX_LOG_LINES) {
+        logs.splice(0, logs.length - MAX_LOG_LINES);
+      }
+    };
+    node.process.stdout?.on("data", appendLogs);
+    node.process.stderr?.on("data", appendLogs);
+
+    const rpcUrl = `http://${this.host}:${port}`;
+    const running: RunningChain = { process: node.process, port, chain: { chainId: 0, name: "Hardhat Local", rpcUrl } };
+    node.process.on("exit", (code) => {
+      logger.log(`🛑 hardhat node for ${projectId} exited with code ${code}`);
+      if (this.chains.get(projectId) === running) {
+        this.chains.delete(projectId);
+      }
+    });
+    this.chains.set(projectId, running);
+
+    const chainId = await this.waitForChain(running);
+    if (chainId === null) {
+      await this.stopChain(projectId);
+      throw new Error(`hardhat node did not start on port ${port}: ${logs.slice(-20).join("\n")}`);
+    }
+
+    running.chain.chainId = chainId;
+    logger.log(`⛓️ Local chain ${chainId} for ${projectId} ready at ${rpcUrl}`);
+    return running.chain;
+  }
+
+  async stopChain(projectId: string): Promise<void> {
+    const chain = this.chains.get(projectId);
+    if (!chain) return;
+
+    this.chains.delete(projectId);
+    chain.process.kill("SIGTERM");
+    logger.log(`🛑 Stopped local chain for ${projectId} on port ${chain.port}`);
+  }
+
+  private async stopDevServer(projectId: string): Promise<void> {
+    const preview = this.running.get(projectId);
+    if (!preview) return;
+
+    this.running.delete(projectId);
+    preview.process.kill("SIGTERM");
+    logger.log(`🛑 Stopped local preview for ${projectId} on port ${preview.port}`);
+  }
+
+  private getProjectDir(projectId: string): string {
+    return path.join(this.projectsDir, projectId);
+  }
+
+  // Every path is checked before anything is written
+  private async writeFiles(projectDir: string, files: { filename: string; content: string }[]) {
+    const resolved = files.map(file => ({ filePath: resolveProjectFile(projectDir, file.filename), content: file.content }));
+    for (const { filePath, content } of resolved) {
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, content, "utf8");
+    }
+  }
+
+  /**
+   * Make the project directory hold exactly the given files: write them all and
+   * remove files that are no longer part of the project
+   */
+  private async syncFiles(projectDir: string, files: { filename: string; content: string }[]) {
+    await this.writeFiles(projectDir, files);
+
+    const keep = new Set(files.map(file => resolveProjectFile(projectDir, file.filename)));
+    const removed = await this.removeStaleFiles(path.resolve(projectDir), keep, true);
+    if (removed > 0) {
+      logger.log(`🧹 Removed ${removed} file(s) no longer in the project from ${projectDir}`);
+    }
+  }
+
+  /**
+   * Remove files under dir that are not in keep, and directories left empty.
+   * Returns how many files were removed.
+   */
+  private async removeStaleFiles(dir: string, keep: Set<string>, isRoot: boolean): Promise<number> {
+    let removed = 0;
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      if (isRoot && PRESERVED_ENTRIES.has(entry.name)) continue;
+
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        removed += await this.removeStaleFiles(entryPath, keep, false);
+        if ((await fs.readdir(entryPath)).length === 0) {
+          await fs.remove(entryPath);
+        }
+      } else if (!keep.has(entryPath)) {
+        await fs.remove(entryPath);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Reuse the running dev server unless a restart is forced or the dependency
+   * set changed; otherwise (re)start it and wait until it answers
+   */
+  private async startOrReuse(projectId: string, projectDir: string, isNewDeployment: boolean): Promise<PreviewResponse> {
+    const packageJsonPath = path.join(projectDir, "package.json");
+    if (!(await fs.pathExists(packageJsonPath))) {
+      return this.failure(projectId, 0, `No package.json in ${projectDir}`, "");
+    }
+
+    const packageJson = await fs.readJson(packageJsonPath);
+    const lockfilePath = path.join(projectDir, "package-lock.json");
+    const lockfile = (await fs.pathExists(lockfilePath)) ? await fs.readFile(lockfilePath, "utf8") : undefined;
+    const dependencyKey = getDependencyCacheKey(packageJson, lockfile);
+    const existing = this.running.get(projectId);
+    const hasPackageChanges = !!existing && existing.dependencyKey !== dependencyKey;
+
+    if (existing && !hasPackageChanges && existing.process.exitCode === null) {
+      return {
+        url: existing.url,
+        previewUrl: existing.url,
+        status: "updated",
+        port: existing.port,
+        isNewDeployment: false,
+        hasPackageChanges: false,
+      };
+    }
+
+    await this.stopDevServer(projectId);
+
+    try {
+      const { nodeModules } = await this.dependencies.ensure(packageJson, lockfile);
+      await this.dependencies.link(projectDir, nodeModules);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.failure(projectId, 0, `Dependency install failed: ${message}`, message);
+    }
+
+    const { default: getPort, portNumbers } = await import("get-port");
+    const port = await getPort({ port: portNumbers(this.portRange[0], this.portRange[1]) });
+    const url = `http://${this.host}:${port}`;
+
+    logger.log(`🚀 Starting next dev for ${projectId} on port ${port}...`);
+    const child = spawn(path.join(projectDir, "node_modules", ".bin", "next"), ["dev", "-p", String(port)], {
+      cwd: projectDir,
+      env: { ...process.env, NODE_ENV: "development", PORT: String(port) },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const preview: RunningPreview = { process: child, port, url, dependencyKey, logs: [] };
+    const appendLogs = (chunk: Buffer) => {
+      preview.logs.push(...chunk.toString().split("\n").filter(Boolean));
+      if (preview.logs.length > MAX_LOG_LINES) {
+        preview.logs.splice(0, preview.logs.length - MAX_LOG_LINES);
+      }
+    };
+    child.stdout?.on("data", appendLogs);
+    child.stderr?.on("data", appendLogs);
+    child.on("exit", (code) => {
+      logger.log(`🛑 next dev for ${projectId} exited with code ${code}`);
+      if (this.running.get(projectId) === preview) {
+        this.running.delete(projectId);
+      }
+    });
+    this.running.set(projectId, preview);
+
+    const readyError = await this.waitUntilReady(preview);
+    if (readyError) {
+      await this.stopDevServer(projectId);
+      return this.failure(projectId, port, readyError, preview.logs.join("\n"));
+    }
+
+    logger.log(`✅ Local preview ready at ${url}`);
+    return {
+      url,
+      previewUrl: url,
+      status: "deployed",
+      port,
+      isNewDeployment,
+      hasPackageChanges,
+    };
+  }
+
+  /**
+   * Poll the dev server until the first page compiles. Returns an error message,
+   * or null once the app answers without a server error.
+   */
+  private async waitUntilReady(preview: RunningPreview): Promise<string | null> {
+    const deadline = Date.now() + this.readyTimeoutMs;
+
+    while (Date.now() < deadline) {
+      if (preview.process.exitCode !== null) {
+        return `next dev exited with code ${preview.process.exitCode}`;
+      }
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${preview.port}/`, {
+          signal: AbortSignal.timeout(60000), // First compile can be slow
+        });
+        if (response.status < 500) return null;
+        return `Preview returned ${response.status} - the app failed to compile`;
+      } catch {
+        // Not listening yet
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    return `Preview did not become ready within ${Math.round(this.readyTimeoutMs / 1000)}s`;
+  }
+
+  /**
+   * Poll the node's eth_chainId until it answers. Returns the chain id, or null
+   * if the node exited or did not answer in time.
+   */
+  private async waitForChain(chain: RunningChain): Promise<number | null> {
+    const deadline = Date.now() + CHAIN_READY_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      if (chain.process.exitCode !== null) return null;
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${chain.port}/`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+          signal: AbortSignal.timeout(5000),
+        });
+        const { result } = await response.json() as { result?: string };
+        if (result) return parseInt(result, 16);
+      } catch {
+        // Not listening yet
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    return null;
+  }
+
+  private failure(projectId: string, port: number, error: string, logs: string): PreviewResponse {
+    logger.error(`❌ Local preview for ${projectId} failed: ${error}`);
+    return {
+      url: port ? `http://${this.host}:${port}` : "",
+      status: "deployment_failed",
+      port,
+      deploymentError: error,
+      deploymentLogs: logs,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { logger } from "./logger";
 // Robust JSON parsing utilities for multi-stage LLM pipeline responses
 import { PatchPlan, DiffHunk } from './llmOptimizer';
+import { parseAstEdits, type AstEdit } from './astEdits';
 
 /**
  * Helper function to find balanced JSON from a starting index
@@ -237,9 +238,9 @@ export function parseStage2PatchResponse(responseText: string): PatchPlan {
 /**
  * Sanitize Stage 3 response by removing unexpected fields that may have been included by mistake
  */
-function sanitizeStage3Response(parsed: Array<{ filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }>): { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[] {
+function sanitizeStage3Response(parsed: Array<{ filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[]; astEdits?: AstEdit[] }>): { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[]; astEdits?: AstEdit[] }[] {
   return parsed.map(item => {
-    const sanitized: { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] } = {
+    const sanitized: { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[]; astEdits?: AstEdit[] } = {
       filename: item.filename,
       operation: item.operation || 'modify'
     };
@@ -248,6 +249,7 @@ function sanitizeStage3Response(parsed: Array<{ filename: string; content?: stri
     if (item.content !== undefined) sanitized.content = item.content;
     if (item.unifiedDiff !== undefined) sanitized.unifiedDiff = item.unifiedDiff;
     if (item.diffHunks !== undefined) sanitized.diffHunks = item.diffHunks;
+    if (item.astEdits !== undefined) sanitized.astEdits = parseAstEdits(item.astEdits);
     
     // Remove unexpected fields like: changes, implementationNotes, intentSpec, dependencies, etc.
     // These are Stage 2 fields that sometimes leak into Stage 3 responses
@@ -259,7 +261,7 @@ function sanitizeStage3Response(parsed: Array<{ filename: string; content?: stri
 /**
  * Parse Stage 3 Code Generator response with robust JSON parsing
  */
-export function parseStage3CodeResponse(responseText: string): { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[] }[] {
+export function parseStage3CodeResponse(responseText: string): { filename: string; content?: string; unifiedDiff?: string; operation?: string; diffHunks?: DiffHunk[]; astEdits?: AstEdit[] }[] {
   // 1) Quick exact JSON extraction between markers if present
   const startMarker = '__START_JSON__';
   const endMarker = '__END_JSON__';
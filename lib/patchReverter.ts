@@ -0,0 +1,128 @@
+import { logger } from "./logger";
+/**
+ * Patch Reverter
+ *
+ * Computes the file state that results from undoing a stored follow-up patch.
+ * The inverse of every stored FileDiff is applied strictly against the current
+ * project files; hunks that no longer match (usually because a later patch
+ * edited the same lines) are reported as conflicts instead of being guessed.
+ */
+
+import { FileDiff, invertDiffHunks, applyDiffHunksStrict } from './diffUtils';
+
+export interface StoredPatchData {
+  prompt?: string;
+  diffs?: FileDiff[];
+  changedFiles?: string[];
+  timestamp?: string;
+}
+
+export interface PatchRevertConflict {
+  filename: string;
+  reason: string;
+  conflictingPatchIds: string[]; // Later, still-applied patches that touched the same file
+}
+
+export interface PatchRevertPlan {
+  files: { filename: string; content: string }[]; // Full project file set after the revert
+  changedFiles: string[];
+  deletedFiles: string[];
+  conflicts: PatchRevertConflict[];
+}
+
+/**
+ * A diff that only adds lines from an empty base created the file
+ */
+function isFileCreation(diff: FileDiff): boolean {
+  return diff.hunks.length > 0 && diff.hunks.every(hunk =>
+    hunk.oldLines === 0 &&
+    hunk.lines.every(line => line === '' || line.startsWith('+') || line.startsWith('\\'))
+  );
+}
+
+function getCreatedContent(diff: FileDiff): string {
+  return diff.hunks
+    .flatMap(hunk => hunk.lines.filter(line => line.startsWith('+')))
+    .map(line => line.substring(1))
+    .join('\n');
+}
+
+/**
+ * Plan the revert of a patch against the current project files
+ *
+ * @param patchData - The stored patch payload (as saved by savePatch)
+ * @param currentFiles - Current project files from the database
+ * @param laterPatches - Patches applied after this one that have not been reverted
+ */
+export function planPatchRevert(
+  patchData: StoredPatchData,
+  currentFiles: { filename: string; content: string }[],
+  laterPatches: { id: string; patchData: StoredPatchData }[] = []
+): PatchRevertPlan {
+  const contentByFile = new Map(currentFiles.map(f => [f.filename, f.content]));
+  const changedFiles: string[] = [];
+  const deletedFiles: string[] = [];
+  const conflicts: PatchRevertConflict[] = [];
+
+  const laterPatchesTouching = (filename: string) =>
+    laterPatches
+      .filter(p => (p.patchData.diffs || []).some(d => d.filename === filename) ||
+        (p.patchData.changedFiles || []).includes(filename))
+      .map(p => p.id);
+
+  for (const diff of patchData.diffs || []) {
+    const currentContent = contentByFile.get(diff.filename);
+
+    if (isFileCreation(diff)) {
+      if (currentContent === undefined) {
+        logger.log(`⏭️ ${diff.filename} was created by this patch and no longer exists, nothing to revert`);
+        continue;
+      }
+      if (currentContent.trimEnd() !== getCreatedContent(diff).trimEnd()) {
+        conflicts.push({
+          filename: diff.filename,
+          reason: 'File was created by this patch and has been modified since',
+          conflictingPatchIds: laterPatchesTouching(diff.filename),
+        });
+        continue;
+      }
+      contentByFile.delete(diff.filename);
+      deletedFiles.push(diff.filename);
+      continue;
+    }
+
+    if (currentContent === undefined) {
+      conflicts.push({
+        filename: diff.filename,
+        reason: 'File no longer exists in the project',
+        conflictingPatchIds: laterPatchesTouching(diff.filename),
+      });
+      continue;
+    }
+
+    const { content, failedHunks } = applyDiffHunksStrict(currentContent, invertDiffHunks(diff.hunks));
+
+    if (failedHunks.length > 0) {
+      conflicts.push({
+        filename: diff.filename,
+        reason: `${failedHunks.length} of ${diff.hunks.length} hunk(s) no longer match the current file`,
+        conflictingPatchIds: laterPatchesTouching(diff.filename),
+      });
+      continue;
+    }
+
+    if (content !== currentContent) {
+      contentByFile.set(diff.filename, content);
+      changedFiles.push(diff.filename);
+    }
+  }
+
+  logger.log(`📋 Revert plan: ${changedFiles.length} changed, ${deletedFiles.length} deleted, ${conflicts.length} conflicts`);
+
+  return {
+    files: Array.from(contentByFile.entries()).map(([filename, content]) => ({ filename, content })),
+    changedFiles,
+    deletedFiles,
+    conflicts,
+  };
+}
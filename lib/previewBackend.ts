@@ -0,0 +1,74 @@
+/**
+ * Preview Backends
+ *
+ * createPreview / updatePreviewFiles / redeployToVercel in previewManager.ts
+ * dispatch to a PreviewBackend chosen by PREVIEW_BACKEND:
+ *  - remote: the hosted deploy orchestrator at PREVIEW_API_BASE (default)
+ *  - local:  `next dev` on this machine (see localPreviewBackend.ts), for
+ *            self-hosting and offline CI
+ */
+
+import type { PreviewResponse } from './previewManager';
+
+export const PREVIEW_BACKENDS = {
+  REMOTE: 'remote',
+  LOCAL: 'local',
+} as const;
+
+export type PreviewBackendName = typeof PREVIEW_BACKENDS[keyof typeof PREVIEW_BACKENDS] | string;
+
+export type PreviewValidationResult = {
+  success: boolean;
+  errors: Array<{ file: string; line?: number; column?: number; message: string; severity: string }>;
+  warnings: Array<{ file: string; line?: number; column?: number; message: string; severity: string }>;
+};
+
+export interface CreatePreviewOptions {
+  isWeb3?: boolean;
+  skipContracts?: boolean; // Contracts were already deployed
+  jobId?: string; // For background deployment error reporting
+}
+
+export interface PreviewBackend {
+  readonly name: PreviewBackendName;
+  // Whether calls need PREVIEW_AUTH_TOKEN
+  readonly requiresAccessToken: boolean;
+  createPreview(
+    projectId: string,
+    files: { filename: string; content: string }[],
+    accessToken: string,
+    options: CreatePreviewOptions
+  ): Promise<PreviewResponse>;
+  // Never throws - the files are already saved when this is called
+  updatePreviewFiles(
+    projectId: string,
+    changedFiles: { filename: string; content: string }[],
+    accessToken: string,
+    validationResult?: PreviewValidationResult
+  ): Promise<void>;
+  redeploy(
+    projectId: string,
+    files: { filename: string; content: string }[],
+    accessToken: string,
+    options: CreatePreviewOptions
+  ): Promise<PreviewResponse>;
+  stopPreview?(projectId: string): Promise<void>;
+}
+
+const registry = new Map<string, PreviewBackend>();
+
+export function registerPreviewBackend(backend: PreviewBackend): void {
+  registry.set(backend.name, backend);
+}
+
+export function resolvePreviewBackendName(): PreviewBackendName {
+  return process.env.PREVIEW_BACKEND || PREVIEW_BACKENDS.REMOTE;
+}
+
+export function getPreviewBackend(name: PreviewBackendName = resolvePreviewBackendName()): PreviewBackend {
+  const backend = registry.get(name);
+  if (!backend) {
+    throw new Error(`Unknown preview backend "${name}" (registered: ${Array.from(registry.keys()).join(', ') || 'none'})`);
+  }
+  return backend;
+}
@@ -2,9 +2,21 @@ import fs from "fs-extra";
 import path from "path";
 import {
   parseContractAddressesFromDeployment,
-  updateFilesWithContractAddresses
+  updateFilesWithContractAddresses,
+  type ContractAddressMap,
+  type ContractChain
 } from "./contractAddressInjector";
 import { logger } from "./logger";
+import {
+  getPreviewBackend,
+  registerPreviewBackend,
+  resolvePreviewBackendName,
+  PREVIEW_BACKENDS,
+  type PreviewBackend,
+  type PreviewValidationResult,
+} from "./previewBackend";
+import { LocalPreviewBackend } from "./localPreviewBackend";
+import { SolidityToolchain } from "./solidityToolchain";
 
 // Store active previews for management
 const activePreviews = new Map<string, PreviewResponse>();
@@ -125,21 +137,47 @@ export interface PreviewFile {
   content: string;
 }
 
+export type ContractDeployTarget = 'remote' | 'local';
+
+export interface ContractDeployment {
+  contractAddresses: ContractAddressMap;
+  chain?: ContractChain; // Set when the contracts are not on the app's default chain
+}
+
+/**
+ * Where deployContractsFirst deploys (CONTRACT_DEPLOY_TARGET):
+ *  - remote: the deploy host's /deploy-contracts (Base Sepolia)
+ *  - local:  the project's deploy script on a `hardhat node` the local preview
+ *            keeps running, for offline CI. Default when PREVIEW_BACKEND=local
+ */
+export function resolveContractDeployTarget(): ContractDeployTarget {
+  const target = process.env.CONTRACT_DEPLOY_TARGET
+    || (resolvePreviewBackendName() === PREVIEW_BACKENDS.LOCAL ? 'local' : 'remote');
+  if (target !== 'remote' && target !== 'local') {
+    throw new Error(`Unknown contract deploy target "${target}" (expected remote or local)`);
+  }
+  return target;
+}
+
 /**
  * Deploy contracts BEFORE deploying the app
  * This allows us to inject real contract addresses into the code before first deployment
- * Returns contract addresses to inject into code
+ * Returns contract addresses (and the chain, if not the default) to inject into code
  */
 export async function deployContractsFirst(
   projectId: string,
   files: { filename: string; content: string }[],
   accessToken: string
-): Promise<{ [key: string]: string }> {
+): Promise<ContractDeployment> {
 
   logger.log(`\n${"=".repeat(60)}`);
   logger.log(`🔗 DEPLOYING CONTRACTS FIRST FOR PROJECT: ${projectId}`);
   logger.log(`${"=".repeat(60)}\n`);
 
+  if (resolveContractDeployTarget() === 'local') {
+    return deployContractsLocally(projectId, files);
+  }
+
   try {
     // Convert files to API format
     const filesArray = files.map(f => ({
@@ -180,7 +218,7 @@ export async function deployContractsFirst(
     logger.log(`🌐 Network: ${result.network}`);
     logger.log(`⏱️  Deployment time: ${result.deploymentTime}ms`);
 
-    return result.contractAddresses || {};
+    return { contractAddresses: result.contractAddresses || {} };
 
   } catch (error) {
     logger.error(`❌ Failed to deploy contracts for ${projectId}:`, error);
@@ -189,7 +227,39 @@ export async function deployContractsFirst(
   }
 }
 
-// Create a preview using the external API
+/**
+ * Deploy to the project's local chain, which keeps running beside its local
+ * preview. Throws like the remote path, so the worker falls back to placeholder
+ * addresses the same way
+ */
+async function deployContractsLocally(
+  projectId: string,
+  files: { filename: string; content: string }[]
+): Promise<ContractDeployment> {
+  let chain: ContractChain;
+  try {
+    chain = await localPreviewBackend.startChain(projectId, files);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.error(`❌ Local chain failed to start for ${projectId}: ${reason}`);
+    throw new Error(`Local contract deployment failed: ${reason}`);
+  }
+
+  const result = await new SolidityToolchain({ cacheKey: projectId }).deploy(files, { rpcUrl: chain.rpcUrl });
+
+  if (!result.success) {
+    const reason = result.unavailable || result.errors.map(e => e.message).join("\n");
+    logger.error(`❌ Local contract deployment failed for ${projectId}: ${reason}`);
+    await localPreviewBackend.stopChain(projectId);
+    throw new Error(`Local contract deployment failed: ${reason}`);
+  }
+
+  logger.log(`✅ Contracts deployed locally in ${result.durationMs}ms`);
+  logger.log(`📝 Contract addresses:`, JSON.stringify(result.contractAddresses, null, 2));
+  return { contractAddresses: result.contractAddresses, chain };
+}
+
+// Create a preview on the configured backend (PREVIEW_BACKEND)
 export async function createPreview(
   projectId: string,
   files: { filename: string; content: string }[],
@@ -197,6 +267,54 @@ export async function createPreview(
   isWeb3?: boolean,
   skipContracts?: boolean, // NEW: Allow caller to specify if contracts already deployed
   jobId?: string // NEW: Job ID for background deployment error reporting
+): Promise<PreviewResponse> {
+  const previewData = await getPreviewBackend().createPreview(projectId, files, accessToken, { isWeb3, skipContracts, jobId });
+  if (previewData.status !== 'deployment_failed') {
+    activePreviews.set(projectId, previewData);
+  }
+  return previewData;
+}
+
+// Update files in an existing preview
+export async function updatePreviewFiles(
+  projectId: string,
+  changedFiles: { filename: string; content: string }[],
+  accessToken: string,
+  validationResult?: PreviewValidationResult
+): Promise<void> {
+  return getPreviewBackend().updatePreviewFiles(projectId, changedFiles, accessToken, validationResult);
+}
+
+// Redeploy project (for follow-up edits) - to Vercel on the remote backend
+export async function redeployToVercel(
+  projectId: string,
+  files: { filename: string; content: string }[],
+  accessToken: string,
+  isWeb3?: boolean,
+  jobId?: string
+): Promise<PreviewResponse> {
+  return getPreviewBackend().redeploy(projectId, files, accessToken, { isWeb3, jobId });
+}
+
+/**
+ * Token for preview backend calls. The local backend needs none, so callers that
+ * bail out on a missing PREVIEW_AUTH_TOKEN keep working when self-hosting.
+ */
+export function getPreviewAccessToken(): string | undefined {
+  if (process.env.PREVIEW_AUTH_TOKEN) {
+    return process.env.PREVIEW_AUTH_TOKEN;
+  }
+  return getPreviewBackend().requiresAccessToken ? undefined : 'local';
+}
+
+// Create a preview using the external API
+async function createRemotePreview(
+  projectId: string,
+  files: { filename: string; content: string }[],
+  accessToken: string,
+  isWeb3?: boolean,
+  skipContracts?: boolean,
+  jobId?: string
 ): Promise<PreviewResponse> {
   logger.log(`🚀 Creating preview for project: ${projectId}`);
   logger.log(`📁 Files count: ${files.length}`);
@@ -409,7 +527,7 @@ export async function createPreview(
           logger.log(`${"=".repeat(60)}`);
 
           try {
-            await updatePreviewFiles(projectId, updatedFiles, accessToken);
+            await updateRemotePreviewFiles(projectId, updatedFiles, accessToken);
             logger.log(`✅ Vercel deployment updated with real contract addresses`);
           } catch (redeployError) {
             logger.error(`⚠️  Failed to redeploy with contract addresses:`, redeployError);
@@ -461,12 +579,12 @@ export async function createPreview(
   }
 }
 
-// Update files in an existing preview
-export async function updatePreviewFiles(
+// Update files in an existing remote preview
+async function updateRemotePreviewFiles(
   projectId: string,
   changedFiles: { filename: string; content: string }[],
   accessToken: string,
-  validationResult?: { success: boolean; errors: Array<{ file: string; line?: number; column?: number; message: string; severity: string }>; warnings: Array<{ file: string; line?: number; column?: number; message: string; severity: string }> }
+  validationResult?: PreviewValidationResult
 ): Promise<void> {
   logger.log(
     `🔄 Updating ${changedFiles.length} files in preview for project: ${projectId}`
@@ -525,8 +643,8 @@ export async function updatePreviewFiles(
   }
 }
 
-// Redeploy project to Vercel (for follow-up edits)
-export async function redeployToVercel(
+// Redeploy project to Vercel through the remote host (for follow-up edits)
+async function redeployRemote(
   projectId: string,
   files: { filename: string; content: string }[],
   accessToken: string,
@@ -625,6 +743,21 @@ export async function redeployToVercel(
   }
 }
 
+const remotePreviewBackend: PreviewBackend = {
+  name: PREVIEW_BACKENDS.REMOTE,
+  requiresAccessToken: true,
+  createPreview: (projectId, files, accessToken, { isWeb3, skipContracts, jobId }) =>
+    createRemotePreview(projectId, files, accessToken, isWeb3, skipContracts, jobId),
+  updatePreviewFiles: updateRemotePreviewFiles,
+  redeploy: (projectId, files, accessToken, { isWeb3, jobId }) =>
+    redeployRemote(projectId, files, accessToken, isWeb3, jobId),
+};
+
+const localPreviewBackend = new LocalPreviewBackend();
+
+registerPreviewBackend(remotePreviewBackend);
+registerPreviewBackend(localPreviewBackend);
+
 // Get the full preview URL
 export function getPreviewUrl(projectId: string): string | null {
   const preview = activePreviews.get(projectId);
@@ -666,6 +799,27 @@ export async function saveFilesToGenerated(
   }
 }
 
+// Sync changed/deleted files into an existing generated directory
+// Skipped when the directory was never materialized, so a partial file set is never
+// mistaken for the whole project by follow-up jobs that read from disk
+export async function syncGeneratedFiles(
+  projectId: string,
+  changedFiles: { filename: string; content: string }[],
+  deletedFilenames: string[] = []
+): Promise<void> {
+  const generatedDir = getProjectBaseDir(projectId);
+
+  if (!(await fs.pathExists(generatedDir))) {
+    logger.log(`⏭️ No generated directory for ${projectId}, skipping disk sync`);
+    return;
+  }
+
+  await saveFilesToGenerated(projectId, changedFiles);
+  for (const filename of deletedFilenames) {
+    await deleteGeneratedFile(projectId, filename);
+  }
+}
+
 // List files from generated directory
 export async function listGeneratedFiles(projectId: string): Promise<string[]> {
   const generatedDir = getProjectBaseDir(projectId);
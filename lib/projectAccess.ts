@@ -0,0 +1,175 @@
+import { logger } from "./logger";
+/**
+ * Project Access
+ *
+ * One authorization layer for every project-scoped API route. withProjectAccess
+ * authenticates the request, loads the project, resolves the caller's role on
+ * it and only then runs the handler, so every route answers the same way:
+ *  - 401 { error }                     no or invalid session
+ *  - 400 { error: "Missing projectId" } the route couldn't find a project id
+ *  - 404 { error: "Project not found" }
+ *  - 403 { error: "Access denied" }    the caller's role is below the route's
+ *
+ * Roles are ordered viewer < editor < owner. The project's creator
+ * (projects.user_id) is always an owner; everyone else gets their role from
+ * project_members.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, type User } from "./auth";
+import { getProjectById, getProjectMember } from "./database";
+import type { projects } from "../db";
+
+export type ProjectRole = 'viewer' | 'editor' | 'owner';
+
+export type Project = typeof projects.$inferSelect;
+
+export interface ProjectAccess {
+  user: User;
+  project: Project;
+  role: ProjectRole;
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+type ProjectRouteHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  access: ProjectAccess
+) => Promise<Response>;
+
+interface ProjectAccessOptions<P> {
+  // Where the project id comes from; defaults to the [projectId] route segment
+  resolveProjectId?: (request: NextRequest, params: P) => Promise<string | null | undefined>;
+}
+
+export const PROJECT_ROLES: ProjectRole[] = ['viewer', 'editor', 'owner'];
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === "string" && (PROJECT_ROLES as string[]).includes(value);
+}
+
+export function hasProjectRole(role: ProjectRole | null, required: ProjectRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * The user's role on a project, or null when they have no access
+ */
+export async function getProjectRole(project: Project, userId: string): Promise<ProjectRole | null> {
+  if (project.userId === userId) {
+    return 'owner';
+  }
+  const member = await getProjectMember(project.id, userId);
+  return member && isProjectRole(member.role) ? member.role : null;
+}
+
+/**
+ * Check an already authenticated user against a project, for routes where the
+ * project is optional and withProjectAccess can't wrap the whole handler.
+ * Returns the 404/403 response to send back, or the caller's access.
+ */
+export async function requireProjectRole(
+  projectId: string,
+  user: User,
+  role: ProjectRole
+): Promise<ProjectAccess | NextResponse> {
+  const project = await getProjectById(projectId);
+  if (!project) {
+    return NextResponse.json(
+      { error: "Project not found" },
+      { status: 404 }
+    );
+  }
+
+  const userRole = await getProjectRole(project, user.id);
+  if (!hasProjectRole(userRole, role)) {
+    logger.log(`🔒 Access denied: user ${user.id} is ${userRole ?? 'not a member'} on project ${projectId}, needs ${role}`);
+    return NextResponse.json(
+      { error: "Access denied" },
+      { status: 403 }
+    );
+  }
+
+  return { user, project, role: userRole as ProjectRole };
+}
+
+// The only columns a client may set through an update. Everything else (ownership,
+// preview/deploy URLs, timestamps) is written by the server. Archiving/deleting is owner-only.
+const EDITABLE_PROJECT_FIELDS = ['name', 'description'];
+const OWNER_PROJECT_FIELDS = ['status'];
+
+/**
+ * The subset of a project update body the caller's role may apply
+ */
+export function projectUpdatesForRole(updates: Record<string, unknown>, role: ProjectRole): Partial<Project> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([key]) =>
+      EDITABLE_PROJECT_FIELDS.includes(key) ||
+      (role === 'owner' && OWNER_PROJECT_FIELDS.includes(key))
+    )
+  ) as Partial<Project>;
+}
+
+/** For routes that take the project id as ?projectId= */
+export async function projectIdFromQuery(request: NextRequest): Promise<string | null> {
+  return new URL(request.url).searchParams.get("projectId");
+}
+
+/** For routes that take the project id in the JSON body (the handler can still read the body) */
+export async function projectIdFromBody(request: NextRequest): Promise<string | null> {
+  const body = await request.clone().json().catch(() => null);
+  return body && typeof body.projectId === "string" ? body.projectId : null;
+}
+
+/**
+ * Wrap a route handler so it only runs for callers with at least `role` on the project
+ */
+export function withProjectAccess<P = { projectId: string }>(
+  role: ProjectRole,
+  handler: ProjectRouteHandler<P>,
+  options: ProjectAccessOptions<P> = {}
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    try {
+      const { user, isAuthorized, error } = await authenticateRequest(request);
+      if (!isAuthorized || !user) {
+        return NextResponse.json(
+          { error: error || "Authentication required" },
+          { status: 401 }
+        );
+      }
+
+      // Routes without dynamic segments may get no params at all
+      const params = (await context?.params) ?? ({} as P);
+      const projectId = options.resolveProjectId
+        ? await options.resolveProjectId(request, params)
+        : (params as { projectId?: string } | undefined)?.projectId;
+      if (!projectId) {
+        return NextResponse.json(
+          { error: "Missing projectId" },
+          { status: 400 }
+        );
+      }
+
+      const access = await requireProjectRole(projectId, user, role);
+      if (access instanceof Response) {
+        return access;
+      }
+
+      return handler(request, context, access);
+    } catch (error) {
+      logger.error("Project authorization error:", error);
+      return NextResponse.json(
+        { error: "Authorization failed" },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -0,0 +1,369 @@
+import { logger } from "./logger";
+/**
+ * Project Chunk Index
+ *
+ * Splits project files into chunks at component/function boundaries and ranks
+ * them against a request with BM25, entirely in-process (no embeddings service).
+ * Follow-up Stages 2/3 then see the top-ranked files plus the files they import
+ * instead of the whole project. Chunks are persisted per project on
+ * saveProjectFiles (project_file_chunks) and reused while a file's content hash
+ * is unchanged.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { getFileImports, isParseable, parseSourceFile } from './codeSearchTools';
+import { hashContent } from './snapshotUtils';
+
+export type ChunkKind = 'module' | 'component' | 'hook' | 'function' | 'class' | 'type' | 'variable' | 'text';
+
+export interface ProjectChunk {
+  filename: string;
+  contentHash: string;
+  chunkIndex: number;
+  symbol: string | null;
+  kind: ChunkKind;
+  startLine: number;
+  endLine: number;
+  terms: Record<string, number>; // term -> frequency
+  length: number; // total term count, for BM25 length normalisation
+}
+
+export interface RankedChunk {
+  chunk: ProjectChunk;
+  score: number;
+}
+
+export interface RetrievalOptions {
+  maxChars?: number; // budget for the selected files' content
+  pinnedFiles?: string[]; // always included (e.g. Stage 1 targetFiles)
+}
+
+export interface RetrievalResult {
+  files: { filename: string; content: string }[];
+  omitted: string[];
+  ranked: Array<{ filename: string; symbol: string | null; startLine: number; endLine: number; score: number }>;
+}
+
+// Below this total size every file is sent, as before
+export const DEFAULT_RETRIEVAL_MAX_CHARS = parseInt(process.env.FOLLOW_UP_CONTEXT_MAX_CHARS || '120000', 10);
+
+const TEXT_CHUNK_LINES = 60;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.json', '.css', '/index.ts', '/index.tsx', '/index.js'];
+
+const STOP_WORDS = new Set([
+  'the', 'an', 'and', 'or', 'to', 'of', 'in', 'is', 'it', 'for', 'with', 'on', 'be', 'as', 'at', 'by', 'we', 'my',
+  'this', 'that', 'add', 'make', 'please', 'want', 'should', 'can', 'so', 'me', 'all', 'some',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'from', 'default', 'if', 'else', 'new',
+  'class', 'type', 'interface', 'true', 'false', 'null', 'undefined', 'async', 'await', 'div', 'span', 'classname',
+]);
+
+// ========================================================================
+// TOKENIZING
+// ========================================================================
+
+/**
+ * Lowercased terms from identifiers and prose: "useVoteCount" -> usevotecount, use, vote, count
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const push = (term: string) => {
+    let normalized = term.toLowerCase();
+    // Crude plural stemming so "votes" matches "vote"
+    if (normalized.length > 3 && normalized.endsWith('s') && !normalized.endsWith('ss')) {
+      normalized = normalized.slice(0, -1);
+    }
+    if (normalized.length > 1 && !STOP_WORDS.has(normalized)) terms.push(normalized);
+  };
+
+  for (const word of text.match(/[A-Za-z][A-Za-z0-9]*/g) || []) {
+    const parts = word.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/);
+    if (parts.length > 1) push(word);
+    parts.forEach(push);
+  }
+  return terms;
+}
+
+function countTerms(terms: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const term of terms) counts[term] = (counts[term] || 0) + 1;
+  return counts;
+}
+
+// ========================================================================
+// CHUNKING
+// ========================================================================
+
+function declarationName(statement: ts.Statement): string | null {
+  if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+    return statement.name.text;
+  }
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+    return statement.name.text;
+  }
+  if (ts.isVariableStatement(statement)) {
+    const first = statement.declarationList.declarations[0];
+    return first && ts.isIdentifier(first.name) ? first.name.text : null;
+  }
+  return null;
+}
+
+function declarationKind(statement: ts.Statement, name: string | null, sourceFile: ts.SourceFile): ChunkKind {
+  if (ts.isClassDeclaration(statement)) return 'class';
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) return 'type';
+  if (name && /^use[A-Z0-9]/.test(name)) return 'hook';
+
+  const isFunction = ts.isFunctionDeclaration(statement) || (ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.some(d => d.initializer && (ts.isArrowFunction(d.initializer) || ts.isFunctionExpression(d.initializer) || ts.isCallExpression(d.initializer))));
+  if (!isFunction) return 'variable';
+
+  const text = statement.getText(sourceFile);
+  return name && /^[A-Z]/.test(name) && /<[A-Za-z>]/.test(text) ? 'component' : 'function';
+}
+
+/**
+ * Split a file into chunks. TS/JS files split at top-level declarations, with
+ * imports and other loose statements folded into a leading "module" chunk;
+ * everything else splits into fixed line windows.
+ */
+export function chunkFile(file: { filename: string; content: string }): ProjectChunk[] {
+  const contentHash = hashContent(file.content);
+  const lines = file.content.split('\n');
+  const pathTerms = tokenize(file.filename.replace(/\.[a-z]+$/, ''));
+  const spans: Array<{ symbol: string | null; kind: ChunkKind; startLine: number; endLine: number }> = [];
+
+  if (isParseable(file.filename)) {
+    const sourceFile = parseSourceFile(file);
+    let moduleEnd = 0;
+
+    for (const statement of sourceFile.statements) {
+      const name = declarationName(statement);
+      // Start at the leading doc comment, if any, so it stays with its declaration
+      const comments = ts.getLeadingCommentRanges(sourceFile.text, statement.getFullStart());
+      const start = comments?.length ? comments[0].pos : statement.getStart(sourceFile);
+      const startLine = sourceFile.getLineAndCharacterOfPosition(start).line + 1;
+      const endLine = sourceFile.getLineAndCharacterOfPosition(statement.getEnd()).line + 1;
+
+      if (name) {
+        spans.push({ symbol: name, kind: declarationKind(statement, name, sourceFile), startLine, endLine });
+      } else if (spans.length === 0) {
+        moduleEnd = endLine;
+      }
+    }
+
+    if (moduleEnd > 0 || spans.length === 0) {
+      spans.unshift({ symbol: null, kind: 'module', startLine: 1, endLine: spans.length === 0 ? lines.length : Math.max(moduleEnd, 1) });
+    }
+  } else {
+    for (let start = 1; start <= lines.length; start += TEXT_CHUNK_LINES) {
+      spans.push({ symbol: null, kind: 'text', startLine: start, endLine: Math.min(lines.length, start + TEXT_CHUNK_LINES - 1) });
+    }
+  }
+
+  return spans.map((span, chunkIndex) => {
+    const text = lines.slice(span.startLine - 1, span.endLine).join('\n');
+    // Path and symbol terms are repeated so they outweigh incidental body mentions
+    const symbolTerms = span.symbol ? tokenize(span.symbol) : [];
+    const terms = [...tokenize(text), ...pathTerms, ...pathTerms, ...symbolTerms, ...symbolTerms];
+    return {
+      filename: file.filename,
+      contentHash,
+      chunkIndex,
+      symbol: span.symbol,
+      kind: span.kind,
+      startLine: span.startLine,
+      endLine: span.endLine,
+      terms: countTerms(terms),
+      length: terms.length,
+    };
+  });
+}
+
+/**
+ * Chunk every file, reusing stored chunks whose content hash still matches
+ */
+export function buildChunkIndex(
+  files: { filename: string; content: string }[],
+  storedChunks: ProjectChunk[] = []
+): ProjectChunk[] {
+  const storedByFile = new Map<string, ProjectChunk[]>();
+  for (const chunk of storedChunks) {
+    const key = `${chunk.filename}:${chunk.contentHash}`;
+    storedByFile.set(key, [...(storedByFile.get(key) || []), chunk]);
+  }
+
+  let reused = 0;
+  const chunks = files.flatMap(file => {
+    const stored = storedByFile.get(`${file.filename}:${hashContent(file.content)}`);
+    if (stored) {
+      reused++;
+      return stored;
+    }
+    return chunkFile(file);
+  });
+
+  logger.log(`🗂️ Chunk index: ${chunks.length} chunks from ${files.length} files (${reused} files reused)`);
+  return chunks;
+}
+
+// ========================================================================
+// RANKING & SELECTION
+// ========================================================================
+
+/**
+ * BM25 ranking of chunks against a free-text query; zero-score chunks are dropped
+ */
+export function rankChunks(chunks: ProjectChunk[], query: string): RankedChunk[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (chunks.length === 0 || queryTerms.length === 0) return [];
+
+  const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const documentFrequency = chunks.filter(chunk => chunk.terms[term]).length;
+    idf.set(term, Math.log(1 + (chunks.length - documentFrequency + 0.5) / (documentFrequency + 0.5)));
+  }
+
+  return chunks
+    .map(chunk => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = chunk.terms[term] || 0;
+        if (!frequency) continue;
+        const normalization = BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / averageLength));
+        score += idf.get(term)! * (frequency * (BM25_K1 + 1)) / (frequency + normalization);
+      }
+      return { chunk, score };
+    })
+    .filter(ranked => ranked.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve a relative or "@/" import to a project file
+ */
+function resolveImport(fromFile: string, specifier: string, filenames: Set<string>): string | null {
+  let base: string;
+  if (specifier.startsWith('@/')) {
+    base = path.posix.join('src', specifier.slice(2));
+  } else if (specifier.startsWith('.')) {
+    base = path.posix.join(path.posix.dirname(fromFile), specifier);
+  } else {
+    return null;
+  }
+
+  for (const extension of RESOLVE_EXTENSIONS) {
+    if (filenames.has(base + extension)) return base + extension;
+  }
+  return null;
+}
+
+/**
+ * Local files a file imports, transitively
+ */
+export function getDependencyClosure(
+  filename: string,
+  files: { filename: string; content: string }[]
+): string[] {
+  const byName = new Map(files.map(file => [file.filename, file]));
+  const filenames = new Set(byName.keys());
+  const visited = new Set<string>([filename]);
+  const queue = [filename];
+
+  while (queue.length > 0) {
+    const current = byName.get(queue.shift()!);
+    if (!current) continue;
+    for (const imported of getFileImports(current)) {
+      const resolved = resolveImport(current.filename, imported.module, filenames);
+      if (resolved && !visited.has(resolved)) {
+        visited.add(resolved);
+        queue.push(resolved);
+      }
+    }
+  }
+
+  visited.delete(filename);
+  return Array.from(visited);
+}
+
+/**
+ * Pick the files Stages 2/3 should see: pinned files and files named in the
+ * query first, then files by their best chunk score, each followed by its
+ * dependency closure, until the character budget is spent
+ */
+export function selectRelevantFiles(
+  files: { filename: string; content: string }[],
+  query: string,
+  chunks: ProjectChunk[],
+  options: RetrievalOptions = {}
+): RetrievalResult {
+  const maxChars = options.maxChars ?? DEFAULT_RETRIEVAL_MAX_CHARS;
+  const byName = new Map(files.map(file => [file.filename, file]));
+  const ranked = rankChunks(chunks.filter(chunk => byName.has(chunk.filename)), query);
+
+  const selected = new Set<string>();
+  let usedChars = 0;
+  const add = (filename: string, force = false): boolean => {
+    const file = byName.get(filename);
+    if (!file || selected.has(filename)) return false;
+    if (!force && usedChars + file.content.length > maxChars) return false;
+    selected.add(filename);
+    usedChars += file.content.length;
+    return true;
+  };
+  const addWithDependencies = (filename: string, force = false) => {
+    if (!add(filename, force)) return;
+    for (const dependency of getDependencyClosure(filename, files)) add(dependency);
+  };
+
+  const lowerQuery = query.toLowerCase();
+  const pinned = [
+    ...(options.pinnedFiles || []),
+    ...files
+      .filter(file => lowerQuery.includes(file.filename.toLowerCase()) || lowerQuery.includes(path.posix.basename(file.filename).toLowerCase()))
+      .map(file => file.filename),
+  ];
+  pinned.forEach(filename => addWithDependencies(filename, true));
+
+  for (const { chunk } of ranked) {
+    if (usedChars >= maxChars) break;
+    addWithDependencies(chunk.filename);
+  }
+
+  return {
+    files: files.filter(file => selected.has(file.filename)),
+    omitted: files.filter(file => !selected.has(file.filename)).map(file => file.filename),
+    ranked: ranked.slice(0, 20).map(({ chunk, score }) => ({
+      filename: chunk.filename,
+      symbol: chunk.symbol,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      score: Math.round(score * 100) / 100,
+    })),
+  };
+}
+
+/**
+ * Outline of files left out of the prompt, so the model knows they exist
+ */
+export function describeOmittedFiles(omitted: string[], chunks: ProjectChunk[]): string {
+  const symbolsByFile = new Map<string, string[]>();
+  for (const chunk of chunks) {
+    if (!chunk.symbol) continue;
+    symbolsByFile.set(chunk.filename, [...(symbolsByFile.get(chunk.filename) || []), chunk.symbol]);
+  }
+
+  return [
+    '# Other project files (content not shown)',
+    '',
+    'These files exist but were left out because they look unrelated to the request.',
+    'Do NOT create, rewrite or modify them.',
+    '',
+    ...omitted.map(filename => {
+      const symbols = symbolsByFile.get(filename);
+      return symbols?.length ? `- ${filename}: ${symbols.join(', ')}` : `- ${filename}`;
+    }),
+  ].join('\n');
+}
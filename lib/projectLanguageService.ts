@@ -0,0 +1,371 @@
+import { logger } from "./logger";
+/**
+ * Project Language Service
+ *
+ * An in-memory TypeScript language service per project, backing CodeEditor's
+ * diagnostics, completion, hover, go-to-definition and rename. Files are
+ * placed under a virtual root inside the app directory and dependencies are
+ * resolved from the app's node_modules with the project's tsconfig. That is
+ * close to the setup CompilationValidator.validateTypeScript runs `tsc` in
+ * (which links the project's own dependency set from the shared cache), so the
+ * editor reports the errors the validator would.
+ */
+
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CompilationError } from './compilationValidator';
+import { getProjectFiles, getProjectFileVersions } from './database';
+
+export interface EditorRange {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+export interface EditorDiagnostic extends CompilationError {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface EditorLocation {
+  filename: string;
+  range: EditorRange;
+  content: string; // So the editor can create a model for files it has not opened
+}
+
+export interface EditorCompletion {
+  name: string;
+  kind: string; // ts.ScriptElementKind
+  sortText: string;
+  insertText?: string;
+  range?: EditorRange;
+}
+
+export interface EditorHover {
+  text: string;
+  documentation: string;
+  range: EditorRange;
+}
+
+export interface EditorFileEdits {
+  filename: string;
+  content: string; // Content the edits apply to
+  edits: { range: EditorRange; text: string }[];
+}
+
+const MAX_COMPLETIONS = 200;
+const MAX_CACHED_PROJECTS = parseInt(process.env.LANGUAGE_SERVICE_MAX_PROJECTS || '3', 10);
+
+// Same roots `tsc` picks up through the tsconfig include globs
+const TYPECHECKED_FILE = /\.(ts|tsx)$/;
+const SKIPPED_PATH = /(^|\/)(node_modules|\.next|\.git|dist|build|coverage)\//;
+
+// Shared so dependency declarations are parsed once across projects
+const documentRegistry = ts.createDocumentRegistry();
+
+export class ProjectLanguageService {
+  private readonly appRoot: string;
+  private readonly rootDir: string;
+  private readonly files = new Map<string, { content: string; version: number }>();
+  private readonly service: ts.LanguageService;
+  private options: ts.CompilerOptions;
+
+  constructor(projectId: string, files: { filename: string; content: string }[], appRoot: string = process.cwd()) {
+    this.appRoot = appRoot;
+    this.rootDir = path.join(appRoot, '.language-service', projectId);
+    for (const file of files) this.files.set(file.filename, { content: file.content, version: 1 });
+    this.options = this.loadCompilerOptions();
+
+    const host: ts.LanguageServiceHost = {
+      getScriptFileNames: () => Array.from(this.files.keys())
+        .filter(filename => TYPECHECKED_FILE.test(filename) && !SKIPPED_PATH.test(filename))
+        .map(filename => this.toPath(filename)),
+      getScriptVersion: fileName => String(this.files.get(this.toFilename(fileName) ?? '')?.version ?? 0),
+      getScriptSnapshot: fileName => {
+        const content = this.readFile(fileName);
+        return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+      },
+      getCurrentDirectory: () => this.rootDir,
+      getCompilationSettings: () => this.options,
+      getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+      fileExists: fileName => this.readFile(fileName) !== undefined,
+      readFile: fileName => this.readFile(fileName),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: dirName => this.isProjectDirectory(dirName) || ts.sys.directoryExists(dirName),
+      getDirectories: ts.sys.getDirectories,
+    };
+
+    this.service = ts.createLanguageService(host, documentRegistry);
+  }
+
+  // ========================================================================
+  // FILE STATE
+  // ========================================================================
+
+  /**
+   * Set a file's content (saved or an unsaved editor buffer)
+   */
+  setFile(filename: string, content: string): void {
+    const existing = this.files.get(filename);
+    if (existing?.content === content) return;
+    this.files.set(filename, { content, version: (existing?.version ?? 0) + 1 });
+    if (filename === 'tsconfig.json') this.options = this.loadCompilerOptions();
+  }
+
+  removeFile(filename: string): void {
+    if (this.files.delete(filename) && filename === 'tsconfig.json') {
+      this.options = this.loadCompilerOptions();
+    }
+  }
+
+  hasFile(filename: string): boolean {
+    return this.files.has(filename);
+  }
+
+  getFileNames(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  dispose(): void {
+    this.service.dispose();
+  }
+
+  private toPath(filename: string): string {
+    return path.join(this.rootDir, filename);
+  }
+
+  private toFilename(fileName: string): string | undefined {
+    const relative = path.relative(this.rootDir, fileName);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return undefined;
+    return relative.split(path.sep).join('/');
+  }
+
+  private readFile(fileName: string): string | undefined {
+    const filename = this.toFilename(fileName);
+    if (filename !== undefined) return this.files.get(filename)?.content;
+    return ts.sys.readFile(fileName);
+  }
+
+  private isProjectDirectory(dirName: string): boolean {
+    const dir = this.toFilename(dirName);
+    if (dir === undefined) return path.resolve(dirName) === this.rootDir;
+    return Array.from(this.files.keys()).some(filename => filename.startsWith(`${dir}/`));
+  }
+
+  /**
+   * Project tsconfig.json when it has one, otherwise the app's, as in the validator's temp project
+   */
+  private loadCompilerOptions(): ts.CompilerOptions {
+    const projectConfig = this.files.get('tsconfig.json')?.content;
+    const appConfigPath = path.join(this.appRoot, 'tsconfig.json');
+    const text = projectConfig ?? (fs.existsSync(appConfigPath) ? fs.readFileSync(appConfigPath, 'utf8') : '{}');
+
+    const { config, error } = ts.parseConfigFileTextToJson('tsconfig.json', text);
+    if (error) {
+      logger.warn(`⚠️ Invalid tsconfig.json, using defaults: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+
+    // Only compiler options matter here; root files come from the project itself
+    const parsed = ts.parseJsonConfigFileContent(
+      { compilerOptions: config?.compilerOptions ?? {}, files: [] },
+      { useCaseSensitiveFileNames: true, readDirectory: () => [], fileExists: () => false, readFile: () => undefined },
+      this.rootDir
+    );
+
+    // Match `tsc --noEmit --skipLibCheck`
+    return { ...parsed.options, noEmit: true, skipLibCheck: true, incremental: false, tsBuildInfoFile: undefined };
+  }
+
+  // ========================================================================
+  // POSITIONS
+  // ========================================================================
+
+  private getSourceFile(filename: string): ts.SourceFile | undefined {
+    return this.service.getProgram()?.getSourceFile(this.toPath(filename));
+  }
+
+  private toRange(sourceFile: ts.SourceFile, start: number, length: number): EditorRange {
+    const from = sourceFile.getLineAndCharacterOfPosition(start);
+    const to = sourceFile.getLineAndCharacterOfPosition(start + length);
+    return {
+      startLineNumber: from.line + 1,
+      startColumn: from.character + 1,
+      endLineNumber: to.line + 1,
+      endColumn: to.character + 1,
+    };
+  }
+
+  // ========================================================================
+  // LANGUAGE FEATURES
+  // ========================================================================
+
+  /**
+   * Syntactic and semantic diagnostics for one file, shaped like CompilationValidator's TypeScript errors
+   */
+  getDiagnostics(filename: string): EditorDiagnostic[] {
+    const sourceFile = this.getSourceFile(filename);
+    if (!sourceFile) return [];
+
+    const fileName = this.toPath(filename);
+    const diagnostics = [
+      ...this.service.getSyntacticDiagnostics(fileName),
+      ...this.service.getSemanticDiagnostics(fileName),
+    ];
+
+    return diagnostics.map(diagnostic => {
+      const range = this.toRange(sourceFile, diagnostic.start ?? 0, diagnostic.length ?? 0);
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      return {
+        file: filename,
+        line: range.startLineNumber,
+        column: range.startColumn,
+        endLine: range.endLineNumber,
+        endColumn: range.endColumn,
+        message: `TS${diagnostic.code}: ${message}`,
+        severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error'
+          : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning'
+          : 'info',
+        category: 'typescript',
+        code: `TS${diagnostic.code}`,
+      };
+    });
+  }
+
+  getCompletions(filename: string, offset: number): EditorCompletion[] {
+    const sourceFile = this.getSourceFile(filename);
+    const completions = this.service.getCompletionsAtPosition(this.toPath(filename), offset, {
+      includeCompletionsWithInsertText: true,
+    });
+    if (!sourceFile || !completions) return [];
+
+    return completions.entries.slice(0, MAX_COMPLETIONS).map(entry => ({
+      name: entry.name,
+      kind: entry.kind,
+      sortText: entry.sortText,
+      insertText: entry.insertText,
+      range: entry.replacementSpan ? this.toRange(sourceFile, entry.replacementSpan.start, entry.replacementSpan.length) : undefined,
+    }));
+  }
+
+  getHover(filename: string, offset: number): EditorHover | null {
+    const sourceFile = this.getSourceFile(filename);
+    const info = this.service.getQuickInfoAtPosition(this.toPath(filename), offset);
+    if (!sourceFile || !info) return null;
+
+    return {
+      text: ts.displayPartsToString(info.displayParts),
+      documentation: ts.displayPartsToString(info.documentation),
+      range: this.toRange(sourceFile, info.textSpan.start, info.textSpan.length),
+    };
+  }
+
+  /**
+   * Definitions inside the project; declarations in dependencies are left out
+   */
+  getDefinitions(filename: string, offset: number): EditorLocation[] {
+    const definitions = this.service.getDefinitionAtPosition(this.toPath(filename), offset) || [];
+
+    return definitions.flatMap(definition => {
+      const target = this.toFilename(definition.fileName);
+      const sourceFile = target !== undefined ? this.getSourceFile(target) : undefined;
+      if (target === undefined || !sourceFile) return [];
+      return [{
+        filename: target,
+        range: this.toRange(sourceFile, definition.textSpan.start, definition.textSpan.length),
+        content: sourceFile.text,
+      }];
+    });
+  }
+
+  /**
+   * Edits renaming the symbol at offset across the project
+   */
+  getRenameEdits(filename: string, offset: number, newName: string): { edits: EditorFileEdits[] } | { error: string } {
+    const fileName = this.toPath(filename);
+    const info = this.service.getRenameInfo(fileName, offset, { allowRenameOfImportPath: false });
+    if (!info.canRename) return { error: info.localizedErrorMessage };
+
+    // Without prefix/suffix text an imported symbol is renamed at its declaration
+    // and every import, rather than aliased locally
+    const locations = this.service.findRenameLocations(fileName, offset, false, false, { providePrefixAndSuffixTextForRename: false }) || [];
+    const byFile = new Map<string, EditorFileEdits>();
+
+    for (const location of locations) {
+      const target = this.toFilename(location.fileName);
+      const sourceFile = target !== undefined ? this.getSourceFile(target) : undefined;
+      if (target === undefined || !sourceFile) {
+        return { error: 'This symbol is declared outside the project and cannot be renamed' };
+      }
+
+      if (!byFile.has(target)) byFile.set(target, { filename: target, content: sourceFile.text, edits: [] });
+      byFile.get(target)!.edits.push({
+        range: this.toRange(sourceFile, location.textSpan.start, location.textSpan.length),
+        text: `${location.prefixText || ''}${newName}${location.suffixText || ''}`,
+      });
+    }
+
+    return { edits: Array.from(byFile.values()) };
+  }
+}
+
+// ========================================================================
+// PER-PROJECT CACHE
+// ========================================================================
+
+interface CachedService {
+  service: ProjectLanguageService;
+  versions: Record<string, number>;
+  lastUsed: number;
+}
+
+const cachedServices = new Map<string, CachedService>();
+
+/**
+ * Language service for a project, kept in step with the saved files.
+ * Only files whose stored version changed are reloaded.
+ */
+export async function getProjectLanguageService(projectId: string): Promise<ProjectLanguageService> {
+  const versions = await getProjectFileVersions(projectId);
+  let cached = cachedServices.get(projectId);
+
+  if (!cached) {
+    const files = await getProjectFiles(projectId);
+    cached = {
+      service: new ProjectLanguageService(projectId, files.map(f => ({ filename: f.filename, content: f.content }))),
+      versions,
+      lastUsed: Date.now(),
+    };
+    cachedServices.set(projectId, cached);
+    logger.log(`🧠 Created language service for project ${projectId} (${files.length} files)`);
+    evictIdleServices();
+  } else {
+    const changed = Object.keys(versions).filter(filename => versions[filename] !== cached!.versions[filename]);
+    const removed = Object.keys(cached.versions).filter(filename => versions[filename] === undefined);
+
+    if (changed.length > 0) {
+      const changedSet = new Set(changed);
+      const files = (await getProjectFiles(projectId)).filter(f => changedSet.has(f.filename));
+      for (const file of files) cached.service.setFile(file.filename, file.content);
+    }
+    for (const filename of removed) cached.service.removeFile(filename);
+
+    cached.versions = versions;
+    cached.lastUsed = Date.now();
+  }
+
+  return cached.service;
+}
+
+function evictIdleServices(): void {
+  const byAge = Array.from(cachedServices.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  while (byAge.length > MAX_CACHED_PROJECTS) {
+    const [projectId, cached] = byAge.shift()!;
+    cached.service.dispose();
+    cachedServices.delete(projectId);
+    logger.log(`🧹 Evicted language service for project ${projectId}`);
+  }
+}
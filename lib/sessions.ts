@@ -0,0 +1,160 @@
+import { logger } from "./logger";
+/**
+ * Sessions
+ *
+ * A sign-in creates one session row per device. The client holds two tokens:
+ *  - an access token (user_sessions.session_token) sent as the Bearer token,
+ *    valid for SESSION_TTL_MS
+ *  - a refresh token, stored only as a sha256 hash, exchanged at
+ *    /api/auth/refresh for a new pair. Every refresh rotates it; presenting a
+ *    rotated-out token again means it leaked, so the whole session is revoked.
+ *
+ * Logging out deletes the row, so both tokens stop working immediately. Rows
+ * past their refresh expiry are swept by the job worker.
+ *
+ * Env:
+ *  - SESSION_TTL_MS:             access token lifetime (default 1 hour)
+ *  - REFRESH_TOKEN_TTL_MS:       session lifetime without sign-in (default 30 days)
+ *  - SESSION_SWEEP_INTERVAL_MS:  minimum time between expired-session sweeps (default 1 hour)
+ */
+
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { NextRequest } from "next/server";
+import {
+  createUserSession,
+  deleteExpiredSessions,
+  deleteSessionById,
+  getSessionByPreviousRefreshTokenHash,
+  rotateUserSession,
+  touchUserSession,
+} from "./database";
+
+export const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_MS || String(60 * 60 * 1000), 10);
+export const REFRESH_TOKEN_TTL_MS = parseInt(process.env.REFRESH_TOKEN_TTL_MS || String(30 * 24 * 60 * 60 * 1000), 10);
+const SESSION_SWEEP_INTERVAL_MS = parseInt(process.env.SESSION_SWEEP_INTERVAL_MS || String(60 * 60 * 1000), 10);
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000; // Don't write last_seen_at on every request
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export interface SessionDevice {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  sessionToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+  refreshExpiresAt: Date;
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function createRefreshToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * The device a request came from, for the sessions list
+ */
+export function getSessionDevice(request: NextRequest): SessionDevice {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return {
+    userAgent: request.headers.get("user-agent")?.slice(0, 512) ?? null,
+    ipAddress: forwardedFor?.split(",")[0].trim() || request.headers.get("x-real-ip") || null,
+  };
+}
+
+/**
+ * Start a session for a freshly signed-in user
+ */
+export async function issueSession(userId: string, device: SessionDevice, now: Date = new Date()): Promise<IssuedSession> {
+  const sessionToken = randomUUID();
+  const refreshToken = createRefreshToken();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  const refreshExpiresAt = new Date(now.getTime() + REFRESH_TOKEN_TTL_MS);
+
+  const session = await createUserSession(userId, sessionToken, expiresAt, {
+    refreshTokenHash: hashToken(refreshToken),
+    refreshExpiresAt,
+    ...device,
+  });
+
+  return { sessionId: session.id, sessionToken, refreshToken, expiresAt, refreshExpiresAt };
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh pair on the same session
+ */
+export async function refreshSession(refreshToken: string, device: SessionDevice, now: Date = new Date()): Promise<IssuedSession> {
+  const presentedHash = hashToken(refreshToken);
+  const sessionToken = randomUUID();
+  const nextRefreshToken = createRefreshToken();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+
+  const session = await rotateUserSession(presentedHash, {
+    sessionToken,
+    expiresAt,
+    refreshTokenHash: hashToken(nextRefreshToken),
+    ...device,
+  });
+
+  if (!session) {
+    const replayed = await getSessionByPreviousRefreshTokenHash(presentedHash);
+    if (replayed) {
+      logger.warn(`🚨 Rotated-out refresh token replayed for session ${replayed.id}, revoking it`);
+      await deleteSessionById(replayed.id, replayed.userId);
+    }
+    throw new SessionError("Invalid or expired refresh token");
+  }
+
+  return {
+    sessionId: session.id,
+    sessionToken,
+    refreshToken: nextRefreshToken,
+    expiresAt,
+    refreshExpiresAt: session.refreshExpiresAt,
+  };
+}
+
+/**
+ * Record that a session was just used, at most every few minutes
+ */
+export async function markSessionSeen(sessionId: string, lastSeenAt: Date | null | undefined, now: Date = new Date()): Promise<void> {
+  if (lastSeenAt && now.getTime() - new Date(lastSeenAt).getTime() < LAST_SEEN_RESOLUTION_MS) {
+    return;
+  }
+  try {
+    await touchUserSession(sessionId);
+  } catch (error) {
+    // Last-seen is informational; never fail a request over it
+    logger.warn(`⚠️ Failed to update last-seen for session ${sessionId}:`, error);
+  }
+}
+
+let lastSweepAt = 0;
+
+/**
+ * Delete sessions past their refresh expiry. Called on every worker poll, but
+ * only hits the database once per SESSION_SWEEP_INTERVAL_MS.
+ */
+export async function sweepExpiredSessions(now: number = Date.now()): Promise<number> {
+  if (now - lastSweepAt < SESSION_SWEEP_INTERVAL_MS) {
+    return 0;
+  }
+  lastSweepAt = now;
+
+  const deleted = await deleteExpiredSessions();
+  if (deleted > 0) {
+    logger.log(`🧹 Deleted ${deleted} expired session(s)`);
+  }
+  return deleted;
+}
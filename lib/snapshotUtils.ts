@@ -0,0 +1,104 @@
+/**
+ * Snapshot Utilities
+ *
+ * Content-addressed helpers for project snapshots. File contents are stored once
+ * per sha256 hash, and a snapshot is just a { filename: hash } tree.
+ */
+
+import { createHash } from 'crypto';
+import { generateDiff, getDiffStats } from './diffUtils';
+
+export type SnapshotTree = Record<string, string>;
+
+export interface SnapshotTreeBuild {
+  tree: SnapshotTree;
+  treeHash: string;
+  blobs: { hash: string; content: string }[];
+}
+
+export interface SnapshotFileChange {
+  filename: string;
+  status: 'added' | 'removed' | 'modified';
+  additions: number;
+  deletions: number;
+  unifiedDiff?: string;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Build a content-addressed tree for a set of files
+ */
+export function buildSnapshotTree(files: { filename: string; content: string }[]): SnapshotTreeBuild {
+  const tree: SnapshotTree = {};
+  const blobs = new Map<string, string>();
+
+  for (const file of files) {
+    const hash = hashContent(file.content);
+    tree[file.filename] = hash;
+    blobs.set(hash, file.content);
+  }
+
+  // Sort entries so identical file sets always hash the same
+  const treeHash = hashContent(
+    Object.keys(tree).sort().map(filename => `${tree[filename]}  ${filename}`).join('\n')
+  );
+
+  return {
+    tree,
+    treeHash,
+    blobs: Array.from(blobs.entries()).map(([hash, content]) => ({ hash, content })),
+  };
+}
+
+/**
+ * Compare two snapshot trees at the file level
+ *
+ * @param blobContents - Lookup of blob hash -> content, used to produce unified diffs
+ */
+export function diffSnapshotTrees(
+  baseTree: SnapshotTree,
+  targetTree: SnapshotTree,
+  blobContents: Map<string, string>
+): SnapshotFileChange[] {
+  const changes: SnapshotFileChange[] = [];
+  const filenames = new Set([...Object.keys(baseTree), ...Object.keys(targetTree)]);
+
+  for (const filename of Array.from(filenames).sort()) {
+    const baseHash = baseTree[filename];
+    const targetHash = targetTree[filename];
+
+    if (baseHash === targetHash) continue;
+
+    const baseContent = baseHash ? blobContents.get(baseHash) ?? '' : '';
+    const targetContent = targetHash ? blobContents.get(targetHash) ?? '' : '';
+    const diff = generateDiff(baseContent, targetContent, filename);
+    const stats = getDiffStats(diff);
+
+    changes.push({
+      filename,
+      status: !baseHash ? 'added' : !targetHash ? 'removed' : 'modified',
+      additions: stats.additions,
+      deletions: stats.deletions,
+      unifiedDiff: diff.unifiedDiff,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Overlay changed files on top of the full file set
+ */
+export function mergeFileSets(
+  baseFiles: { filename: string; content: string }[],
+  changedFiles: { filename: string; content: string }[]
+): { filename: string; content: string }[] {
+  const merged = new Map(baseFiles.map(f => [f.filename, f.content]));
+  for (const file of changedFiles) {
+    merged.set(file.filename, file.content);
+  }
+  return Array.from(merged.entries()).map(([filename, content]) => ({ filename, content }));
+}
@@ -0,0 +1,599 @@
+import { logger } from "./logger";
+/**
+ * Solidity Toolchain
+ *
+ * Compiles the generated `contracts/` Hardhat project locally, runs its unit
+ * tests on the in-process Hardhat network and builds a gas report from the
+ * transactions those tests send - so contract bugs surface as CompilationErrors
+ * the fix loop can repair before anything is deployed on-chain.
+ *
+ * The contracts project is copied to a temp directory with its dependencies
+ * linked from the shared dependency cache, and Hardhat runs through a wrapper
+ * config that keeps the project's settings but only the in-process network,
+ * reports test results as JSON and records gas usage.
+ *
+ * deploy() runs the project's own deploy script and reads the created contracts
+ * back from the transaction receipts, so the Web3 path can be exercised end to
+ * end without a public testnet. Given an RPC URL it deploys to a `hardhat node`
+ * started with startNode(), which the local preview keeps running so the app
+ * can call the contracts; otherwise the in-process chain is gone once the
+ * script exits.
+ */
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { spawn, type ChildProcess } from "child_process";
+import type { CompilationError } from "./compilationValidator";
+import type { ContractAddressMap } from "./contractAddressInjector";
+import { getDependencyCache } from "./dependencyCache";
+
+export const CONTRACTS_DIR = "contracts";
+
+const HARDHAT_CONFIGS = ["hardhat.config.ts", "hardhat.config.js", "hardhat.config.cjs"];
+const SKIPPED_PATH = /^(node_modules|artifacts|cache|typechain-types|coverage)\//;
+const TEST_RESULTS_FILE = ".validation-tests.json";
+const GAS_REPORT_FILE = ".validation-gas.json";
+const REPORTER_FILE = ".validation-reporter.js";
+const DEPLOYMENTS_FILE = ".validation-deployments.json";
+const DEPLOY_SCRIPTS = ["scripts/deploy.ts", "scripts/deploy.js", "scripts/deploy.cjs"];
+// Network the wrapper config adds for MINIDEV_NODE_URL, so deploy() can target a running node
+const NODE_NETWORK = "minidevNode";
+const MAX_OUTPUT_CHARS = 20000;
+
+export interface SolidityTestResult {
+  title: string;
+  fullTitle: string;
+  file?: string;
+  passed: boolean;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface GasReportEntry {
+  contract: string;
+  method: string; // 'deployment' for contract creation
+  calls: number;
+  minGas: number;
+  maxGas: number;
+  avgGas: number;
+}
+
+export interface SolidityToolchainResult {
+  success: boolean;
+  errors: CompilationError[];
+  warnings: CompilationError[];
+  tests: SolidityTestResult[];
+  gasReport: GasReportEntry[];
+  durationMs: number;
+  // Set when the toolchain itself could not run (no Hardhat project, install failed, ...)
+  unavailable?: string;
+}
+
+export interface SolidityDeployResult {
+  success: boolean;
+  contractAddresses: ContractAddressMap;
+  errors: CompilationError[];
+  durationMs: number;
+  unavailable?: string;
+}
+
+export interface SolidityDeployOptions {
+  // JSON-RPC URL of a running node (see startNode) to deploy to instead of the in-process network
+  rpcUrl?: string;
+}
+
+export interface SolidityToolchainOptions {
+  runTests?: boolean;
+  gasReport?: boolean;
+  timeoutMs?: number;
+  // Reuse one work directory per key (usually the project id)
+  cacheKey?: string;
+}
+
+/**
+ * Whether a file set has Solidity sources under contracts/
+ */
+export function hasContracts(files: { filename: string }[]): boolean {
+  return files.some(f => f.filename.startsWith(`${CONTRACTS_DIR}/`) && f.filename.endsWith(".sol"));
+}
+
+/**
+ * Parse Hardhat/solc compile output into CompilationErrors. Paths in the
+ * output are relative to the contracts project, so they are prefixed with
+ * contracts/ to match the generated file names.
+ */
+export function parseSolidityCompileOutput(output: string): { errors: CompilationError[]; warnings: CompilationError[] } {
+  const errors: CompilationError[] = [];
+  const warnings: CompilationError[] = [];
+
+  // e.g. "DeclarationError: Undeclared identifier.\n  --> src/Token.sol:12:9:"
+  const diagnosticRegex = /^(\w*(?:Error|Warning)):\s*(.+)\n\s*-->\s*([^:\n]+):(\d+):(\d+):?/gm;
+  let match;
+  while ((match = diagnosticRegex.exec(output)) !== null) {
+    const [, type, message, file, line, column] = match;
+    const isWarning = type === "Warning";
+    const diagnostic: CompilationError = {
+      file: file.startsWith("@") || file.startsWith("node_modules/") ? file : `${CONTRACTS_DIR}/${file}`,
+      line: parseInt(line),
+      column: parseInt(column),
+      message: `${type}: ${message.trim()}`,
+      severity: isWarning ? "warning" : "error",
+      category: "solidity",
+      code: type,
+      suggestion: getSoliditySuggestion(type, message),
+    };
+    (isWarning ? warnings : errors).push(diagnostic);
+  }
+
+  // Hardhat errors without a source location (missing imports, bad config, ...)
+  if (errors.length === 0) {
+    const hardhatErrorRegex = /^Error (HH\d+):\s*(.+)$/gm;
+    while ((match = hardhatErrorRegex.exec(output)) !== null) {
+      const [, code, message] = match;
+      if (code === "HH600") continue; // "Compilation failed" - the details are above
+      errors.push({
+        file: CONTRACTS_DIR,
+        message: `${code}: ${message.trim()}`,
+        severity: "error",
+        category: "solidity",
+        code,
+        suggestion: "Check contract imports and the Hardhat configuration",
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Failed tests as CompilationErrors. The failing assertion usually points at a
+ * contract bug, so the error names the test but the fix loop also gets the
+ * contract sources (see getFilesToFix).
+ */
+export function testFailuresToErrors(tests: SolidityTestResult[]): CompilationError[] {
+  return tests.filter(t => !t.passed).map(t => ({
+    file: t.file ? `${CONTRACTS_DIR}/${t.file}` : CONTRACTS_DIR,
+    message: `Test failed: ${t.fullTitle}${t.error ? ` - ${t.error}` : ""}`,
+    severity: "error" as const,
+    category: "solidity" as const,
+    code: "SOLIDITY_TEST_FAILED",
+    suggestion: "Fix the contract so the test's expectation holds; only change the test if it is wrong",
+  }));
+}
+
+function getSoliditySuggestion(type: string, message: string): string {
+  if (type === "ParserError") return "Fix the Solidity syntax (missing semicolon, brace or keyword)";
+  if (type === "DeclarationError") return "Declare the identifier or import the contract that defines it";
+  if (type === "TypeError") return "Check argument and return types, visibility and mutability";
+  if (/pragma|compiler version/i.test(message)) return "Match the pragma to the compiler version in hardhat.config";
+  return "Review the Solidity compiler message and fix the contract";
+}
+
+export class SolidityToolchain {
+  private readonly options: Required<Omit<SolidityToolchainOptions, "cacheKey">> & { cacheKey?: string };
+
+  constructor(options: SolidityToolchainOptions = {}) {
+    this.options = {
+      runTests: options.runTests ?? true,
+      gasReport: options.gasReport ?? true,
+      timeoutMs: options.timeoutMs ?? 180000,
+      cacheKey: options.cacheKey,
+    };
+  }
+
+  /**
+   * Compile the contracts, then (if they compile) run the tests and gas report
+   */
+  async run(files: { filename: string; content: string }[]): Promise<SolidityToolchainResult> {
+    const startTime = Date.now();
+    const result: SolidityToolchainResult = { success: false, errors: [], warnings: [], tests: [], gasReport: [], durationMs: 0 };
+    const done = () => {
+      result.durationMs = Date.now() - startTime;
+      result.success = !result.unavailable && result.errors.length === 0;
+      return result;
+    };
+
+    const project = await this.prepare(files);
+    if ("unavailable" in project) {
+      result.unavailable = project.unavailable;
+      return done();
+    }
+    const { workDir, contractFiles } = project;
+
+    // 1. Compile
+    const compileDiagnostics = await this.compile(workDir);
+    result.errors.push(...compileDiagnostics.errors);
+    result.warnings.push(...compileDiagnostics.warnings);
+
+    const hasTests = contractFiles.some(f => f.filename.startsWith("test/"));
+    if (result.errors.length > 0 || !this.options.runTests || !hasTests) {
+      return done();
+    }
+
+    // 2. Tests and gas report on the in-process Hardhat network
+    logger.log("🧪 Running contract tests...");
+    await fs.remove(path.join(workDir, TEST_RESULTS_FILE));
+    await fs.remove(path.join(workDir, GAS_REPORT_FILE));
+    const test = await this.hardhat(workDir, ["test", "--no-compile"]);
+
+    result.tests = await fs.readJson(path.join(workDir, TEST_RESULTS_FILE)).catch(() => []);
+    if (this.options.gasReport) {
+      result.gasReport = await fs.readJson(path.join(workDir, GAS_REPORT_FILE)).catch(() => []);
+    }
+    result.errors.push(...testFailuresToErrors(result.tests));
+    if (test.exitCode !== 0 && result.tests.length === 0) {
+      result.errors.push({
+        file: CONTRACTS_DIR,
+        message: `Hardhat test failed to run: ${test.output.slice(-1000).trim()}`,
+        severity: "error",
+        category: "solidity",
+        code: "SOLIDITY_TEST_FAILED",
+      });
+    }
+    logger.log(`🧪 ${result.tests.filter(t => t.passed).length}/${result.tests.length} contract tests passed`);
+
+    return done();
+  }
+
+  /**
+   * Compile the contracts and run the project's deploy script, on the node at
+   * options.rpcUrl or the in-process Hardhat network, returning the address of
+   * every contract it created
+   */
+  async deploy(files: { filename: string; content: string }[], options: SolidityDeployOptions = {}): Promise<SolidityDeployResult> {
+    const startTime = Date.now();
+    const result: SolidityDeployResult = { success: false, contractAddresses: {}, errors: [], durationMs: 0 };
+    const done = () => {
+      result.durationMs = Date.now() - startTime;
+      result.success = !result.unavailable && result.errors.length === 0;
+      return result;
+    };
+
+    const project = await this.prepare(files);
+    if ("unavailable" in project) {
+      result.unavailable = project.unavailable;
+      return done();
+    }
+    const { workDir, contractFiles } = project;
+
+    const deployScript = DEPLOY_SCRIPTS.find(name => contractFiles.some(f => f.filename === name));
+    if (!deployScript) {
+      result.unavailable = `No deploy script in ${CONTRACTS_DIR}/ (expected ${DEPLOY_SCRIPTS.join(" or ")})`;
+      return done();
+    }
+
+    const compileDiagnostics = await this.compile(workDir);
+    result.errors.push(...compileDiagnostics.errors);
+    if (result.errors.length > 0) {
+      return done();
+    }
+
+    logger.log(`🚀 Running ${CONTRACTS_DIR}/${deployScript} on ${options.rpcUrl || "the in-process Hardhat network"}...`);
+    await fs.remove(path.join(workDir, DEPLOYMENTS_FILE));
+    const run = await this.hardhat(
+      workDir,
+      ["run", deployScript, "--no-compile", ...(options.rpcUrl ? ["--network", NODE_NETWORK] : [])],
+      {
+        MINIDEV_DEPLOYMENTS_FILE: path.join(workDir, DEPLOYMENTS_FILE),
+        ...(options.rpcUrl ? { MINIDEV_NODE_URL: options.rpcUrl } : {}),
+      }
+    );
+
+    const deployments: { contract: string; address: string }[] = await fs.readJson(path.join(workDir, DEPLOYMENTS_FILE)).catch(() => []);
+    for (const { contract, address } of deployments) {
+      // A contract deployed more than once keeps its first address under its own name
+      const name = contract in result.contractAddresses ? `${contract}_${Object.keys(result.contractAddresses).length}` : contract;
+      result.contractAddresses[name] = address;
+    }
+
+    if (run.exitCode !== 0) {
+      result.errors.push({
+        file: `${CONTRACTS_DIR}/${deployScript}`,
+        message: `Deploy script failed: ${run.output.slice(-1000).trim()}`,
+        severity: "error",
+        category: "solidity",
+      });
+    } else if (deployments.length === 0) {
+      result.errors.push({
+        file: `${CONTRACTS_DIR}/${deployScript}`,
+        message: "Deploy script finished without deploying any contracts",
+        severity: "error",
+        category: "solidity",
+      });
+    }
+    logger.log(`🚀 Deployed ${deployments.length} contract(s) locally:`, JSON.stringify(result.contractAddresses));
+
+    return done();
+  }
+
+  /**
+   * Start `hardhat node` for the contracts project on the given port. The caller
+   * owns the process and stops it; the chain lives exactly as long as it does.
+   */
+  async startNode(
+    files: { filename: string; content: string }[],
+    port: number
+  ): Promise<{ process: ChildProcess } | { unavailable: string }> {
+    const project = await this.prepare(files);
+    if ("unavailable" in project) {
+      return project;
+    }
+
+    logger.log(`⛓️ Starting hardhat node on port ${port}...`);
+    const child = spawn(
+      path.join(project.workDir, "node_modules", ".bin", "hardhat"),
+      ["node", "--hostname", "0.0.0.0", "--port", String(port), "--config", this.wrapperConfig(project.workDir)],
+      {
+        cwd: project.workDir,
+        env: { ...process.env, HARDHAT_DISABLE_TELEMETRY_PROMPT: "true", FORCE_COLOR: "0" },
+        stdio: ["ignore", "pipe", "pipe"],
+      }
+    );
+    return { process: child };
+  }
+
+  private async prepare(
+    files: { filename: string; content: string }[]
+  ): Promise<{ workDir: string; contractFiles: { filename: string; content: string }[] } | { unavailable: string }> {
+    const contractFiles = files
+      .filter(f => f.filename.startsWith(`${CONTRACTS_DIR}/`))
+      .map(f => ({ filename: f.filename.slice(CONTRACTS_DIR.length + 1), content: f.content }))
+      .filter(f => !SKIPPED_PATH.test(f.filename));
+
+    const baseConfig = HARDHAT_CONFIGS.find(name => contractFiles.some(f => f.filename === name));
+    const packageJson = contractFiles.find(f => f.filename === "package.json");
+    if (!baseConfig || !packageJson) {
+      return { unavailable: `No Hardhat project in ${CONTRACTS_DIR}/ (needs package.json and hardhat.config)` };
+    }
+
+    try {
+      return { workDir: await this.prepareWorkDir(contractFiles, baseConfig, packageJson.content), contractFiles };
+    } catch (error) {
+      const unavailable = `Failed to prepare contracts project: ${error instanceof Error ? error.message : String(error)}`;
+      logger.warn(`⚠️ ${unavailable}`);
+      return { unavailable };
+    }
+  }
+
+  private async compile(workDir: string): Promise<{ errors: CompilationError[]; warnings: CompilationError[] }> {
+    logger.log("🔨 Compiling contracts...");
+    const compile = await this.hardhat(workDir, ["compile", "--force"]);
+    const diagnostics = parseSolidityCompileOutput(compile.output);
+    if (compile.exitCode !== 0 && diagnostics.errors.length === 0) {
+      diagnostics.errors.push({
+        file: CONTRACTS_DIR,
+        message: `Hardhat compile failed: ${compile.output.slice(-1000).trim()}`,
+        severity: "error",
+        category: "solidity",
+      });
+    }
+    logger.log(`🔨 Compiled with ${diagnostics.errors.length} errors, ${diagnostics.warnings.length} warnings`);
+    return diagnostics;
+  }
+
+  private async prepareWorkDir(
+    contractFiles: { filename: string; content: string }[],
+    baseConfig: string,
+    packageJson: string
+  ): Promise<string> {
+    const workRoot = path.join(os.tmpdir(), "minidev-solidity");
+    const workDir = path.join(workRoot, this.options.cacheKey
+      ? this.options.cacheKey.replace(/[^a-zA-Z0-9_-]/g, "_")
+      : `${Date.now()}-${process.pid}`);
+
+    // Keep artifacts/ and cache/ of a reused directory, replace the sources
+    for (const dir of ["src", "contracts", "test", "scripts"]) {
+      await fs.remove(path.join(workDir, dir));
+    }
+    await fs.ensureDir(workDir);
+    for (const file of contractFiles) {
+      const filePath = path.join(workDir, file.filename);
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, file.content, "utf8");
+    }
+
+    const lockfile = contractFiles.find(f => f.filename === "package-lock.json")?.content;
+    const dependencyCache = getDependencyCache();
+    const { nodeModules } = await dependencyCache.ensure(JSON.parse(packageJson), lockfile);
+    await dependencyCache.link(workDir, nodeModules);
+
+    const wrapperExt = baseConfig.endsWith(".ts") ? "ts" : "js";
+    await fs.writeFile(path.join(workDir, REPORTER_FILE), buildReporterSource(path.join(workDir, TEST_RESULTS_FILE)));
+    await fs.writeFile(
+      path.join(workDir, `hardhat.validation.config.${wrapperExt}`),
+      buildWrapperConfigSource(baseConfig, path.join(workDir, REPORTER_FILE), this.options.gasReport ? path.join(workDir, GAS_REPORT_FILE) : undefined)
+    );
+    return workDir;
+  }
+
+  private wrapperConfig(workDir: string): string {
+    return fs.existsSync(path.join(workDir, "hardhat.validation.config.ts"))
+      ? "hardhat.validation.config.ts"
+      : "hardhat.validation.config.js";
+  }
+
+  private hardhat(workDir: string, args: string[], env: Record<string, string> = {}): Promise<{ exitCode: number; output: string }> {
+    return new Promise(resolve => {
+      let output = "";
+      const child = spawn(path.join(workDir, "node_modules", ".bin", "hardhat"), [...args, "--config", this.wrapperConfig(workDir)], {
+        cwd: workDir,
+        env: { ...process.env, HARDHAT_DISABLE_TELEMETRY_PROMPT: "true", FORCE_COLOR: "0", ...env },
+        stdio: ["ignore", "pipe", "pipe"],
+        timeout: this.options.timeoutMs,
+      });
+      const collect = (chunk: Buffer) => {
+        output = (output + chunk.toString()).slice(-MAX_OUTPUT_CHARS);
+      };
+      child.stdout?.on("data", collect);
+      child.stderr?.on("data", collect);
+      child.on("error", error => resolve({ exitCode: 1, output: `${output}\n${error.message}` }));
+      child.on("exit", (code, signal) => resolve({
+        exitCode: code ?? 1,
+        output: signal ? `${output}\nHardhat ${args[0]} stopped (${signal}) after ${this.options.timeoutMs}ms` : output,
+      }));
+    });
+  }
+}
+
+/**
+ * Mocha reporter that writes one JSON entry per test (and failed hook)
+ */
+function buildReporterSource(outputPath: string): string {
+  return `const fs = require("fs");
+const path = require("path");
+
+module.exports = function ValidationReporter(runner) {
+  const results = [];
+  const entry = (test, passed, err) => ({
+    title: test.title,
+    fullTitle: test.fullTitle(),
+    file: test.file ? path.relative(__dirname, test.file) : undefined,
+    passed,
+    durationMs: test.duration,
+    error: err ? String(err.message || err).slice(0, 500) : undefined,
+  });
+  runner.on("pass", test => results.push(entry(test, true)));
+  runner.on("fail", (test, err) => results.push(entry(test, false, err)));
+  runner.once("end", () => fs.writeFileSync(${JSON.stringify(outputPath)}, JSON.stringify(results)));
+};
+`;
+}
+
+/**
+ * Hardhat config that extends the project's: in-process network only (no keys
+ * or RPC URLs needed) plus the local node when MINIDEV_NODE_URL is set, the
+ * JSON reporter, and a provider hook recording sent transactions for the gas report
+ */
+function buildWrapperConfigSource(baseConfig: string, reporterPath: string, gasReportPath?: string): string {
+  return `const { extendEnvironment, subtask } = require("hardhat/config");
+const { TASK_TEST_RUN_MOCHA_TESTS } = require("hardhat/builtin-tasks/task-names");
+const fs = require("fs");
+
+const loaded = require("./${baseConfig.replace(/\.(ts|js|cjs)$/, "")}");
+const base = loaded.default || loaded;
+
+const sentTransactions = [];
+const deployments = [];
+
+extendEnvironment((hre) => {
+  const provider = hre.network.provider;
+  const request = provider.request.bind(provider);
+  provider.request = async (args) => {
+    const result = await request(args);
+    if (args.method === "eth_sendTransaction" || args.method === "eth_sendRawTransaction") {
+      sentTransactions.push(result);
+      if (process.env.MINIDEV_DEPLOYMENTS_FILE) {
+        await recordDeployment(hre, result);
+      }
+    }
+    return result;
+  };
+});
+
+// Written after every deployment, since deploy scripts usually end with process.exit()
+async function recordDeployment(hre, hash) {
+  const provider = hre.network.provider;
+  const receipt = await request(provider, "eth_getTransactionReceipt", [hash]);
+  if (!receipt || !receipt.contractAddress) return;
+  const tx = await request(provider, "eth_getTransactionByHash", [hash]);
+  const input = ((tx && (tx.input || tx.data)) || "0x").toLowerCase();
+  const names = await hre.artifacts.getAllFullyQualifiedNames();
+  const artifacts = await Promise.all(names.map((name) => hre.artifacts.readArtifact(name)));
+  const artifact = artifacts.find((a) => a.bytecode.length > 2 && input.startsWith(a.bytecode.toLowerCase()));
+  deployments.push({ contract: artifact ? artifact.contractName : "Contract", address: receipt.contractAddress });
+  fs.writeFileSync(process.env.MINIDEV_DEPLOYMENTS_FILE, JSON.stringify(deployments));
+}
+
+function loadKeccakId() {
+  try {
+    const ethers = require("ethers");
+    return ethers.id || ethers.utils.id;
+  } catch {}
+  try {
+    const { keccak256 } = require("ethereum-cryptography/keccak");
+    const { utf8ToBytes, bytesToHex } = require("ethereum-cryptography/utils");
+    return (text) => "0x" + bytesToHex(keccak256(utf8ToBytes(text)));
+  } catch {}
+  return undefined;
+}
+
+function formatType(param) {
+  if (!param.type.startsWith("tuple")) return param.type;
+  return "(" + param.components.map(formatType).join(",") + ")" + param.type.slice(5);
+}
+
+async function writeGasReport(hre) {
+  const provider = hre.network.provider;
+  const id = loadKeccakId();
+  const names = await hre.artifacts.getAllFullyQualifiedNames();
+  const artifacts = await Promise.all(names.map((name) => hre.artifacts.readArtifact(name)));
+  const deployed = new Map();
+  const gasByMethod = new Map();
+  const record = (contract, method, gas) => {
+    const key = contract + "#" + method;
+    if (!gasByMethod.has(key)) gasByMethod.set(key, { contract, method, gas: [] });
+    gasByMethod.get(key).gas.push(gas);
+  };
+
+  for (const hash of sentTransactions) {
+    const tx = await request(provider, "eth_getTransactionByHash", [hash]);
+    const receipt = await request(provider, "eth_getTransactionReceipt", [hash]);
+    if (!tx || !receipt) continue;
+    const gas = parseInt(receipt.gasUsed, 16);
+    const input = (tx.input || tx.data || "0x").toLowerCase();
+
+    if (!tx.to) {
+      const artifact = artifacts.find((a) => a.bytecode.length > 2 && input.startsWith(a.bytecode.toLowerCase()));
+      if (artifact && receipt.contractAddress) deployed.set(receipt.contractAddress.toLowerCase(), artifact);
+      record(artifact ? artifact.contractName : "unknown", "deployment", gas);
+      continue;
+    }
+
+    const artifact = deployed.get(tx.to.toLowerCase());
+    if (!artifact) continue;
+    const selector = input.slice(0, 10);
+    const fn = id && artifact.abi.find((item) =>
+      item.type === "function" && id(item.name + "(" + item.inputs.map(formatType).join(",") + ")").slice(0, 10) === selector
+    );
+    record(artifact.contractName, fn ? fn.name : selector, gas);
+  }
+
+  const report = Array.from(gasByMethod.values()).map(({ contract, method, gas }) => ({
+    contract,
+    method,
+    calls: gas.length,
+    minGas: Math.min(...gas),
+    maxGas: Math.max(...gas),
+    avgGas: Math.round(gas.reduce((sum, g) => sum + g, 0) / gas.length),
+  }));
+  fs.writeFileSync(${JSON.stringify(gasReportPath ?? "")}, JSON.stringify(report));
+}
+
+function request(provider, method, params) {
+  return provider.request({ method, params });
+}
+
+subtask(TASK_TEST_RUN_MOCHA_TESTS).setAction(async (args, hre, runSuper) => {
+  const failures = await runSuper(args);
+  if (${gasReportPath ? "true" : "false"}) {
+    try {
+      await writeGasReport(hre);
+    } catch (error) {
+      console.error("Gas report failed:", error);
+    }
+  }
+  return failures;
+});
+
+module.exports = {
+  ...base,
+  defaultNetwork: "hardhat",
+  networks: {
+    hardhat: (base.networks && base.networks.hardhat) || {},
+    ...(process.env.MINIDEV_NODE_URL ? { ${NODE_NETWORK}: { url: process.env.MINIDEV_NODE_URL } } : {}),
+  },
+  mocha: { ...(base.mocha || {}), reporter: ${JSON.stringify(reporterPath)} },
+};
+`;
+}
@@ -0,0 +1,146 @@
+import { logger } from "./logger";
+/**
+ * Template Catalog
+ *
+ * Initial generation starts from the minidev boilerplate plus an optional
+ * template: a set of overlay files that turn the blank tab app into a scaffold
+ * for a kind of miniapp (a game, a poll, a storefront, ...). The user can pick a
+ * template up front; otherwise Stage 1 selects one from the catalog listed in
+ * its prompt. The template's intent hints fill in what Stage 1 left open, and
+ * its supported contract templates bound the contract Stage 1 may choose.
+ *
+ * Built-in scaffolds live in templateScaffolds.ts.
+ */
+
+import type { IntentSpec } from "./llmOptimizer";
+import { BUILTIN_TEMPLATES } from "./templateScaffolds";
+
+export type ContractTemplate = "ERC20" | "ERC721" | "Escrow" | "none";
+
+export const DEFAULT_TEMPLATE_ID = "blank";
+
+export interface TemplateIntentHints {
+  storageType?: IntentSpec["storageType"];
+  contractTemplate?: ContractTemplate;
+  // Added to Stage 1's requirements so Stage 2/3 build on the scaffold
+  requirements?: string[];
+}
+
+export interface TemplateManifest {
+  id: string;
+  name: string;
+  description: string;
+  // Overlay files written on top of the boilerplate (same filename replaces it)
+  files: { filename: string; content: string }[];
+  intentHints: TemplateIntentHints;
+  contractTemplates: ContractTemplate[];
+  // Prompt the picker pre-fills in the chat input
+  examplePrompt?: string;
+}
+
+export type TemplateSummary = Omit<TemplateManifest, "files"> & { files: string[] };
+
+const registry = new Map<string, TemplateManifest>();
+
+export function registerTemplate(template: TemplateManifest): void {
+  registry.set(template.id, template);
+}
+
+export function getTemplate(id: string): TemplateManifest | undefined {
+  return registry.get(id);
+}
+
+export function listTemplates(): TemplateManifest[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Catalog entry without file contents, for the API and the Stage 1 prompt
+ */
+export function summarizeTemplate(template: TemplateManifest): TemplateSummary {
+  return { ...template, files: template.files.map(f => f.filename) };
+}
+
+/**
+ * Catalog section of the Stage 1 prompt
+ */
+export function getTemplateCatalogPrompt(): string {
+  return listTemplates()
+    .map(t => {
+      const hints = [
+        `contracts: ${t.contractTemplates.join(" | ")}`,
+        t.intentHints.storageType ? `default storage: ${t.intentHints.storageType}` : null,
+      ].filter(Boolean).join("; ");
+      return `- "${t.id}": ${t.description} (${hints})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Pick the template for a parsed intent. A template the user picked wins over
+ * Stage 1's choice; unknown ids fall back to the blank boilerplate.
+ */
+export function resolveTemplate(intentSpec: IntentSpec, requestedTemplateId?: string): TemplateManifest {
+  const candidates = [requestedTemplateId, intentSpec.templateId, DEFAULT_TEMPLATE_ID];
+
+  for (const id of candidates) {
+    if (!id) continue;
+    const template = getTemplate(id);
+    if (template) return template;
+    logger.warn(`⚠️ Unknown template "${id}", falling back`);
+  }
+
+  throw new Error(`Template catalog is missing the default template "${DEFAULT_TEMPLATE_ID}"`);
+}
+
+/**
+ * Fill in intent fields from the template's hints and keep the contract choice
+ * within what the template supports. Returns a new IntentSpec.
+ */
+export function applyTemplateToIntent(intentSpec: IntentSpec, template: TemplateManifest): IntentSpec {
+  const hints = template.intentHints;
+  const result: IntentSpec = {
+    ...intentSpec,
+    templateId: template.id,
+    requirements: [...(hints.requirements || []), ...intentSpec.requirements],
+  };
+
+  const chosen = intentSpec.contractTemplate || hints.contractTemplate || "none";
+  if (template.contractTemplates.includes(chosen)) {
+    result.contractTemplate = chosen;
+    return result;
+  }
+
+  // Stage 1 asked for a contract the scaffold isn't built around
+  const fallback = hints.contractTemplate || template.contractTemplates[0] || "none";
+  logger.log(`📋 Template ${template.id} does not support ${chosen}, using ${fallback}`);
+  result.contractTemplate = fallback;
+  result.isWeb3 = fallback !== "none";
+  result.storageType = result.isWeb3 ? "blockchain" : (hints.storageType || "localStorage");
+
+  return result;
+}
+
+/**
+ * Overlay the template's files on the boilerplate files
+ */
+export function applyTemplateFiles(
+  files: { filename: string; content: string }[],
+  template: TemplateManifest
+): { filename: string; content: string }[] {
+  if (template.files.length === 0) return files;
+
+  const overlay = new Map(template.files.map(f => [f.filename, f.content]));
+  const merged = files.map(f =>
+    overlay.has(f.filename) ? { filename: f.filename, content: overlay.get(f.filename)! } : f
+  );
+  const existing = new Set(files.map(f => f.filename));
+  for (const file of template.files) {
+    if (!existing.has(file.filename)) merged.push({ ...file });
+  }
+
+  logger.log(`📋 Applied template ${template.id}: ${template.files.length} files`);
+  return merged;
+}
+
+BUILTIN_TEMPLATES.forEach(registerTemplate);
@@ -0,0 +1,607 @@
+/**
+ * Built-in template scaffolds registered by templateCatalog.ts.
+ *
+ * Overlay files only use what the boilerplate ships (Tabs, Button,
+ * ConnectWallet, useUser) so a scaffold builds before any LLM changes. Contract
+ * wiring is left to Stages 2-3, which follow the template's contract choice.
+ */
+
+import type { TemplateManifest } from "./templateCatalog";
+
+const USE_LOCAL_STORAGE = `'use client';
+
+import { useEffect, useState } from 'react';
+
+export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T | ((prev: T) => T)) => void] {
+  const [value, setValue] = useState<T>(initialValue);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      if (stored !== null) setValue(JSON.parse(stored) as T);
+    } catch {
+      // Ignore unreadable entries and keep the initial value
+    }
+  }, [key]);
+
+  const update = (next: T | ((prev: T) => T)) => {
+    setValue(prev => {
+      const resolved = typeof next === 'function' ? (next as (prev: T) => T)(prev) : next;
+      window.localStorage.setItem(key, JSON.stringify(resolved));
+      return resolved;
+    });
+  };
+
+  return [value, update];
+}
+`;
+
+const blank: TemplateManifest = {
+  id: "blank",
+  name: "Blank",
+  description: "The plain tab-based boilerplate; pick this when no other template fits",
+  files: [],
+  intentHints: {},
+  contractTemplates: ["none", "ERC20", "ERC721", "Escrow"],
+};
+
+const game: TemplateManifest = {
+  id: "game",
+  name: "Game",
+  description: "Tap game with a score loop, timer and a local leaderboard",
+  examplePrompt: "Build a tap game where players race the clock and compete on a leaderboard",
+  files: [
+    { filename: "src/hooks/useLocalStorage.ts", content: USE_LOCAL_STORAGE },
+    {
+      filename: "src/components/game/GameBoard.tsx",
+      content: `'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+
+const ROUND_SECONDS = 20;
+
+interface GameBoardProps {
+  onGameOver: (score: number) => void;
+}
+
+export function GameBoard({ onGameOver }: GameBoardProps) {
+  const [score, setScore] = useState(0);
+  const [timeLeft, setTimeLeft] = useState(ROUND_SECONDS);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (timeLeft === 0) {
+      setIsPlaying(false);
+      onGameOver(score);
+      return;
+    }
+    const timer = setTimeout(() => setTimeLeft(t => t - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [isPlaying, timeLeft, score, onGameOver]);
+
+  const start = () => {
+    setScore(0);
+    setTimeLeft(ROUND_SECONDS);
+    setIsPlaying(true);
+  };
+
+  return (
+    <div className="space-y-4 text-center">
+      <div className="flex justify-between text-sm text-gray-600">
+        <span>Score: {score}</span>
+        <span>Time: {timeLeft}s</span>
+      </div>
+      {isPlaying ? (
+        <button
+          className="w-full h-48 rounded-2xl bg-purple-600 text-white text-2xl font-bold active:scale-95 transition-transform"
+          onClick={() => setScore(s => s + 1)}
+        >
+          Tap!
+        </button>
+      ) : (
+        <Button onClick={start} className="w-full">
+          {score > 0 ? 'Play again' : 'Start'}
+        </Button>
+      )}
+    </div>
+  );
+}
+`,
+    },
+    {
+      filename: "src/components/game/Leaderboard.tsx",
+      content: `'use client';
+
+export interface ScoreEntry {
+  name: string;
+  score: number;
+  playedAt: number;
+}
+
+export function Leaderboard({ scores }: { scores: ScoreEntry[] }) {
+  if (scores.length === 0) {
+    return <p className="text-center text-gray-500">No scores yet - be the first!</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {scores.map((entry, index) => (
+        <li key={entry.playedAt} className="flex justify-between rounded-lg bg-gray-50 px-4 py-3">
+          <span>{index + 1}. {entry.name}</span>
+          <span className="font-semibold">{entry.score}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+`,
+    },
+    {
+      filename: "src/app/page.tsx",
+      content: `'use client';
+
+import { useCallback } from 'react';
+import { Tabs } from '@/components/ui/Tabs';
+import { useUser } from '@/hooks';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { GameBoard } from '@/components/game/GameBoard';
+import { Leaderboard, type ScoreEntry } from '@/components/game/Leaderboard';
+
+export default function Home() {
+  const { username } = useUser();
+  const [scores, setScores] = useLocalStorage<ScoreEntry[]>('game-scores', []);
+
+  const handleGameOver = useCallback((score: number) => {
+    setScores(prev =>
+      [...prev, { name: username || 'Guest', score, playedAt: Date.now() }]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+    );
+  }, [username, setScores]);
+
+  const tabs = [
+    { id: 'play', title: 'Play', content: <GameBoard onGameOver={handleGameOver} /> },
+    { id: 'leaderboard', title: 'Leaderboard', content: <Leaderboard scores={scores} /> },
+  ];
+
+  return (
+    <main className="min-h-screen p-4">
+      <h1 className="mb-4 text-2xl font-bold">Tap Game</h1>
+      <Tabs tabs={tabs} />
+    </main>
+  );
+}
+`,
+    },
+  ],
+  intentHints: {
+    storageType: "localStorage",
+    contractTemplate: "none",
+    requirements: ["Build on the game scaffold in src/components/game/ (GameBoard, Leaderboard)"],
+  },
+  contractTemplates: ["none", "ERC20"],
+};
+
+const poll: TemplateManifest = {
+  id: "poll",
+  name: "Poll",
+  description: "Create polls, vote once per user and see live results",
+  examplePrompt: "Build a poll app where anyone can create a question and vote",
+  files: [
+    { filename: "src/hooks/useLocalStorage.ts", content: USE_LOCAL_STORAGE },
+    {
+      filename: "src/components/poll/PollCard.tsx",
+      content: `'use client';
+
+import { Button } from '@/components/ui/Button';
+
+export interface Poll {
+  id: string;
+  question: string;
+  options: { label: string; votes: number }[];
+  voters: string[];
+}
+
+interface PollCardProps {
+  poll: Poll;
+  voterId: string;
+  onVote: (pollId: string, optionIndex: number) => void;
+}
+
+export function PollCard({ poll, voterId, onVote }: PollCardProps) {
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.votes, 0);
+  const hasVoted = poll.voters.includes(voterId);
+
+  return (
+    <div className="space-y-3 rounded-xl border border-gray-200 p-4">
+      <h2 className="font-semibold">{poll.question}</h2>
+      {poll.options.map((option, index) => {
+        const percent = totalVotes ? Math.round((option.votes / totalVotes) * 100) : 0;
+        return hasVoted ? (
+          <div key={option.label} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>{option.label}</span>
+              <span>{percent}%</span>
+            </div>
+            <div className="h-2 rounded bg-gray-100">
+              <div className="h-2 rounded bg-purple-600" style={{ width: \`\${percent}%\` }} />
+            </div>
+          </div>
+        ) : (
+          <Button key={option.label} onClick={() => onVote(poll.id, index)} className="w-full">
+            {option.label}
+          </Button>
+        );
+      })}
+      <p className="text-xs text-gray-500">{totalVotes} votes</p>
+    </div>
+  );
+}
+`,
+    },
+    {
+      filename: "src/components/poll/CreatePoll.tsx",
+      content: `'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+export function CreatePoll({ onCreate }: { onCreate: (question: string, options: string[]) => void }) {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+
+  const filled = options.map(o => o.trim()).filter(Boolean);
+  const canSubmit = question.trim().length > 0 && filled.length >= 2;
+
+  const submit = () => {
+    if (!canSubmit) return;
+    onCreate(question.trim(), filled);
+    setQuestion('');
+    setOptions(['', '']);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input value={question} onChange={e => setQuestion(e.target.value)} placeholder="Ask a question" />
+      {options.map((option, index) => (
+        <Input
+          key={index}
+          value={option}
+          onChange={e => setOptions(prev => prev.map((o, i) => (i === index ? e.target.value : o)))}
+          placeholder={\`Option \${index + 1}\`}
+        />
+      ))}
+      <Button onClick={() => setOptions(prev => [...prev, ''])} className="w-full">Add option</Button>
+      <Button onClick={submit} disabled={!canSubmit} className="w-full">Create poll</Button>
+    </div>
+  );
+}
+`,
+    },
+    {
+      filename: "src/app/page.tsx",
+      content: `'use client';
+
+import { Tabs } from '@/components/ui/Tabs';
+import { useUser } from '@/hooks';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { PollCard, type Poll } from '@/components/poll/PollCard';
+import { CreatePoll } from '@/components/poll/CreatePoll';
+
+export default function Home() {
+  const { fid, username } = useUser();
+  const voterId = fid ? String(fid) : username || 'guest';
+  const [polls, setPolls] = useLocalStorage<Poll[]>('polls', []);
+
+  const createPoll = (question: string, options: string[]) => {
+    setPolls(prev => [
+      { id: String(Date.now()), question, options: options.map(label => ({ label, votes: 0 })), voters: [] },
+      ...prev,
+    ]);
+  };
+
+  const vote = (pollId: string, optionIndex: number) => {
+    setPolls(prev => prev.map(poll => {
+      if (poll.id !== pollId || poll.voters.includes(voterId)) return poll;
+      return {
+        ...poll,
+        options: poll.options.map((o, i) => (i === optionIndex ? { ...o, votes: o.votes + 1 } : o)),
+        voters: [...poll.voters, voterId],
+      };
+    }));
+  };
+
+  const tabs = [
+    {
+      id: 'polls',
+      title: 'Polls',
+      content: (
+        <div className="space-y-4">
+          {polls.length === 0 && <p className="text-center text-gray-500">No polls yet</p>}
+          {polls.map(poll => <PollCard key={poll.id} poll={poll} voterId={voterId} onVote={vote} />)}
+        </div>
+      ),
+    },
+    { id: 'create', title: 'Create', content: <CreatePoll onCreate={createPoll} /> },
+  ];
+
+  return (
+    <main className="min-h-screen p-4">
+      <h1 className="mb-4 text-2xl font-bold">Polls</h1>
+      <Tabs tabs={tabs} />
+    </main>
+  );
+}
+`,
+    },
+  ],
+  intentHints: {
+    storageType: "localStorage",
+    contractTemplate: "none",
+    requirements: ["Build on the poll scaffold in src/components/poll/ (PollCard, CreatePoll)"],
+  },
+  contractTemplates: ["none"],
+};
+
+const storefront: TemplateManifest = {
+  id: "storefront",
+  name: "Storefront",
+  description: "Product grid with a cart and an escrow-backed checkout",
+  examplePrompt: "Build a storefront where I can list items and buyers pay with escrow",
+  files: [
+    {
+      filename: "src/components/store/ProductGrid.tsx",
+      content: `'use client';
+
+import { Button } from '@/components/ui/Button';
+
+export interface Product {
+  id: string;
+  name: string;
+  description: string;
+  priceEth: string;
+}
+
+export function ProductGrid({ products, onAdd }: { products: Product[]; onAdd: (product: Product) => void }) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {products.map(product => (
+        <div key={product.id} className="flex flex-col justify-between rounded-xl border border-gray-200 p-3">
+          <div>
+            <h2 className="font-semibold">{product.name}</h2>
+            <p className="text-sm text-gray-500">{product.description}</p>
+          </div>
+          <div className="mt-3 space-y-2">
+            <p className="font-medium">{product.priceEth} ETH</p>
+            <Button onClick={() => onAdd(product)} className="w-full">Add</Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+`,
+    },
+    {
+      filename: "src/components/store/Cart.tsx",
+      content: `'use client';
+
+import { Button } from '@/components/ui/Button';
+import type { Product } from './ProductGrid';
+
+interface CartProps {
+  items: Product[];
+  onRemove: (index: number) => void;
+  // TODO: pay into the escrow contract for the cart total
+  onCheckout: () => void;
+}
+
+export function Cart({ items, onRemove, onCheckout }: CartProps) {
+  const total = items.reduce((sum, item) => sum + Number(item.priceEth), 0);
+
+  if (items.length === 0) {
+    return <p className="text-center text-gray-500">Your cart is empty</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={\`\${item.id}-\${index}\`} className="flex items-center justify-between">
+          <span>{item.name}</span>
+          <button className="text-sm text-red-500" onClick={() => onRemove(index)}>Remove</button>
+        </div>
+      ))}
+      <p className="font-semibold">Total: {total.toFixed(4)} ETH</p>
+      <Button onClick={onCheckout} className="w-full">Checkout</Button>
+    </div>
+  );
+}
+`,
+    },
+    {
+      filename: "src/app/page.tsx",
+      content: `'use client';
+
+import { useState } from 'react';
+import { Tabs } from '@/components/ui/Tabs';
+import { ConnectWallet } from '@/components/wallet/ConnectWallet';
+import { ProductGrid, type Product } from '@/components/store/ProductGrid';
+import { Cart } from '@/components/store/Cart';
+
+const PRODUCTS: Product[] = [
+  { id: '1', name: 'Sticker pack', description: 'Five holographic stickers', priceEth: '0.001' },
+  { id: '2', name: 'T-shirt', description: 'Organic cotton, unisex', priceEth: '0.01' },
+];
+
+export default function Home() {
+  const [cart, setCart] = useState<Product[]>([]);
+
+  const tabs = [
+    {
+      id: 'shop',
+      title: 'Shop',
+      content: <ProductGrid products={PRODUCTS} onAdd={product => setCart(prev => [...prev, product])} />,
+    },
+    {
+      id: 'cart',
+      title: \`Cart (\${cart.length})\`,
+      content: (
+        <Cart
+          items={cart}
+          onRemove={index => setCart(prev => prev.filter((_, i) => i !== index))}
+          onCheckout={() => setCart([])}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <main className="min-h-screen p-4">
+      <div className="mb-4 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Store</h1>
+        <ConnectWallet />
+      </div>
+      <Tabs tabs={tabs} />
+    </main>
+  );
+}
+`,
+    },
+  ],
+  intentHints: {
+    storageType: "blockchain",
+    contractTemplate: "Escrow",
+    requirements: ["Build on the storefront scaffold in src/components/store/ (ProductGrid, Cart) and wire checkout to the contract"],
+  },
+  contractTemplates: ["Escrow", "ERC20", "none"],
+};
+
+const tokenGatedFeed: TemplateManifest = {
+  id: "token-gated-feed",
+  name: "Token-gated feed",
+  description: "Posts feed that only holders of an NFT or token can read and post to",
+  examplePrompt: "Build a members-only feed for holders of my NFT collection",
+  files: [
+    {
+      filename: "src/components/feed/Feed.tsx",
+      content: `'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+export interface Post {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+export function Feed({ author }: { author: string }) {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [text, setText] = useState('');
+
+  const publish = () => {
+    if (!text.trim()) return;
+    setPosts(prev => [{ id: String(Date.now()), author, text: text.trim(), createdAt: Date.now() }, ...prev]);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input value={text} onChange={e => setText(e.target.value)} placeholder="Share with members" />
+        <Button onClick={publish}>Post</Button>
+      </div>
+      {posts.map(post => (
+        <div key={post.id} className="rounded-xl border border-gray-200 p-3">
+          <p className="text-sm font-semibold">{post.author}</p>
+          <p>{post.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+`,
+    },
+    {
+      filename: "src/components/feed/TokenGate.tsx",
+      content: `'use client';
+
+import type { ReactNode } from 'react';
+import { useAccount } from 'wagmi';
+import { ConnectWallet } from '@/components/wallet/ConnectWallet';
+
+interface TokenGateProps {
+  // TODO: derive from the contract's balanceOf for the connected address
+  hasAccess: boolean;
+  children: ReactNode;
+}
+
+export function TokenGate({ hasAccess, children }: TokenGateProps) {
+  const { isConnected } = useAccount();
+
+  if (!isConnected) {
+    return (
+      <div className="space-y-3 text-center">
+        <p className="text-gray-600">Connect your wallet to check membership</p>
+        <ConnectWallet />
+      </div>
+    );
+  }
+
+  if (!hasAccess) {
+    return <p className="text-center text-gray-600">This feed is for holders only</p>;
+  }
+
+  return <>{children}</>;
+}
+`,
+    },
+    {
+      filename: "src/app/page.tsx",
+      content: `'use client';
+
+import { Tabs } from '@/components/ui/Tabs';
+import { useUser } from '@/hooks';
+import { Feed } from '@/components/feed/Feed';
+import { TokenGate } from '@/components/feed/TokenGate';
+
+export default function Home() {
+  const { username } = useUser();
+  const hasAccess = false;
+
+  const tabs = [
+    {
+      id: 'feed',
+      title: 'Feed',
+      content: (
+        <TokenGate hasAccess={hasAccess}>
+          <Feed author={username || 'member'} />
+        </TokenGate>
+      ),
+    },
+  ];
+
+  return (
+    <main className="min-h-screen p-4">
+      <h1 className="mb-4 text-2xl font-bold">Members Feed</h1>
+      <Tabs tabs={tabs} />
+    </main>
+  );
+}
+`,
+    },
+  ],
+  intentHints: {
+    storageType: "blockchain",
+    contractTemplate: "ERC721",
+    requirements: ["Build on the token-gated feed scaffold in src/components/feed/ and gate access on the contract's balanceOf"],
+  },
+  contractTemplates: ["ERC721", "ERC20"],
+};
+
+export const BUILTIN_TEMPLATES: TemplateManifest[] = [blank, game, poll, storefront, tokenGatedFeed];
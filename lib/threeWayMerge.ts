@@ -0,0 +1,251 @@
+/**
+ * Three-way merge
+ *
+ * Line-based diff3 merge used when a user's CodeEditor save and an AI follow-up
+ * job both change a file from the same base. Overlapping changes are kept as
+ * git-style conflict markers, which CodeEditor can parse and resolve.
+ */
+
+import { diffArrays } from 'diff';
+
+export interface MergeLabels {
+  local: string;
+  incoming: string;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export interface FileMergeResult {
+  files: { filename: string; content: string }[];
+  mergedFiles: string[];
+  conflictedFiles: string[];
+}
+
+export interface ConflictBlock {
+  index: number;
+  localLabel: string;
+  incomingLabel: string;
+  local: string[];
+  incoming: string[];
+}
+
+export type ConflictResolution = 'local' | 'incoming' | 'both';
+
+export const DEFAULT_MERGE_LABELS: MergeLabels = { local: 'your edits', incoming: 'AI changes' };
+
+const LOCAL_MARKER = '<<<<<<<';
+const SEPARATOR_MARKER = '=======';
+const INCOMING_MARKER = '>>>>>>>';
+
+/**
+ * Map each base line index to the matching line index in the other version
+ */
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  for (const change of diffArrays(base, other)) {
+    const count = change.count ?? change.value.length;
+    if (change.added) {
+      otherIndex += count;
+    } else if (change.removed) {
+      baseIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) matches.set(baseIndex + i, otherIndex + i);
+      baseIndex += count;
+      otherIndex += count;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge two versions that both started from base. Changes on only one side
+ * are taken as is; overlapping, different changes become a conflict block with
+ * the local side first.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  incoming: string,
+  labels: MergeLabels = DEFAULT_MERGE_LABELS
+): MergeResult {
+  if (local === incoming || incoming === base) return { content: local, conflicts: 0 };
+  if (local === base) return { content: incoming, conflicts: 0 };
+
+  const baseLines = base.split('\n');
+  const localLines = local.split('\n');
+  const incomingLines = incoming.split('\n');
+  const localMatches = matchLines(baseLines, localLines);
+  const incomingMatches = matchLines(baseLines, incomingLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let l = 0;
+  let n = 0;
+
+  while (true) {
+    // Copy lines unchanged on both sides
+    let stable = 0;
+    while (
+      b + stable < baseLines.length &&
+      localMatches.get(b + stable) === l + stable &&
+      incomingMatches.get(b + stable) === n + stable
+    ) {
+      stable++;
+    }
+    if (stable > 0) {
+      output.push(...baseLines.slice(b, b + stable));
+      b += stable;
+      l += stable;
+      n += stable;
+      continue;
+    }
+
+    // Find the next base line both sides kept, and resolve the region before it
+    let sync = b;
+    while (sync < baseLines.length && !(localMatches.has(sync) && incomingMatches.has(sync))) sync++;
+    const localEnd = sync < baseLines.length ? localMatches.get(sync)! : localLines.length;
+    const incomingEnd = sync < baseLines.length ? incomingMatches.get(sync)! : incomingLines.length;
+
+    const baseChunk = baseLines.slice(b, sync);
+    const localChunk = localLines.slice(l, localEnd);
+    const incomingChunk = incomingLines.slice(n, incomingEnd);
+    if (baseChunk.length === 0 && localChunk.length === 0 && incomingChunk.length === 0) break;
+
+    if (sameLines(localChunk, baseChunk) || sameLines(localChunk, incomingChunk)) {
+      output.push(...incomingChunk);
+    } else if (sameLines(incomingChunk, baseChunk)) {
+      output.push(...localChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `${LOCAL_MARKER} ${labels.local}`,
+        ...localChunk,
+        SEPARATOR_MARKER,
+        ...incomingChunk,
+        `${INCOMING_MARKER} ${labels.incoming}`
+      );
+    }
+
+    b = sync;
+    l = localEnd;
+    n = incomingEnd;
+  }
+
+  return { content: output.join('\n'), conflicts };
+}
+
+/**
+ * Merge a job's changed files into the latest project files
+ *
+ * @param baseFiles - Files as they were when the job started
+ * @param latestFiles - Files as they are now, including edits saved meanwhile
+ * @param changedFiles - Files the job produced (only the ones it touched)
+ */
+export function mergeChangedFiles(
+  baseFiles: { filename: string; content: string }[],
+  latestFiles: { filename: string; content: string }[],
+  changedFiles: { filename: string; content: string }[],
+  labels: MergeLabels = DEFAULT_MERGE_LABELS
+): FileMergeResult {
+  const baseByName = new Map(baseFiles.map(f => [f.filename, f.content]));
+  const latestByName = new Map(latestFiles.map(f => [f.filename, f.content]));
+  const files: { filename: string; content: string }[] = [];
+  const mergedFiles: string[] = [];
+  const conflictedFiles: string[] = [];
+
+  for (const file of changedFiles) {
+    const base = baseByName.get(file.filename) ?? '';
+    const latest = latestByName.get(file.filename);
+
+    // Untouched since the job started (or still absent): take the job's version
+    if (latest === undefined || latest === base) {
+      files.push(file);
+      continue;
+    }
+
+    const result = mergeThreeWay(base, latest, file.content, labels);
+    files.push({ filename: file.filename, content: result.content });
+    mergedFiles.push(file.filename);
+    if (result.conflicts > 0) conflictedFiles.push(file.filename);
+  }
+
+  return { files, mergedFiles, conflictedFiles };
+}
+
+export function hasConflictMarkers(content: string): boolean {
+  return parseConflictBlocks(content).length > 0;
+}
+
+/**
+ * Find well-formed conflict blocks in merged content
+ */
+export function parseConflictBlocks(content: string): ConflictBlock[] {
+  const lines = content.split('\n');
+  const blocks: ConflictBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith(LOCAL_MARKER)) continue;
+
+    const separator = lines.indexOf(SEPARATOR_MARKER, i + 1);
+    const end = separator === -1 ? -1 : lines.findIndex((line, j) => j > separator && line.startsWith(INCOMING_MARKER));
+    if (separator === -1 || end === -1) break;
+
+    blocks.push({
+      index: blocks.length,
+      localLabel: lines[i].slice(LOCAL_MARKER.length).trim(),
+      incomingLabel: lines[end].slice(INCOMING_MARKER.length).trim(),
+      local: lines.slice(i + 1, separator),
+      incoming: lines.slice(separator + 1, end),
+    });
+    i = end;
+  }
+
+  return blocks;
+}
+
+/**
+ * Replace one conflict block with the chosen side(s)
+ */
+export function resolveConflict(content: string, blockIndex: number, resolution: ConflictResolution): string {
+  const lines = content.split('\n');
+  const output: string[] = [];
+  let current = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith(LOCAL_MARKER)) {
+      output.push(lines[i]);
+      continue;
+    }
+
+    const separator = lines.indexOf(SEPARATOR_MARKER, i + 1);
+    const end = separator === -1 ? -1 : lines.findIndex((line, j) => j > separator && line.startsWith(INCOMING_MARKER));
+    if (separator === -1 || end === -1) {
+      output.push(...lines.slice(i));
+      break;
+    }
+
+    current++;
+    if (current === blockIndex) {
+      const local = lines.slice(i + 1, separator);
+      const incoming = lines.slice(separator + 1, end);
+      output.push(...(resolution === 'local' ? local : resolution === 'incoming' ? incoming : [...local, ...incoming]));
+    } else {
+      output.push(...lines.slice(i, end + 1));
+    }
+    i = end;
+  }
+
+  return output.join('\n');
+}
@@ -1,7 +1,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SecureCommandExecutor, formatCommandResult } from './commandExecutor';
-import { ContextGatheringResult, STAGE_MODEL_CONFIG } from './llmOptimizer';
+import {
+  executeCodeSearchTool,
+  formatCodeSearchResult,
+  loadProjectSourceFiles,
+  type CodeSearchFile
+} from './codeSearchTools';
+import {
+  ContextGatheringResult,
+  STAGE_MODEL_CONFIG,
+  getStage0ContextGathererPrompt,
+  getStage0FollowUpPrompt
+} from './llmOptimizer';
 import { logger } from "./logger";
 
 
@@ -58,143 +68,34 @@ export interface ContextExecutionResult {
 }
 
 /**
- * Execute tool calls from context gathering result
+ * Files the Stage 0 tools search: the project directory on disk (when there is
+ * one) overlaid with the in-memory files, which may be newer
  */
-export async function executeToolCalls(
-  contextResult: ContextGatheringResult,
-  projectId: string,
-  projectDir: string
-): Promise<ContextExecutionResult> {
-  if (!contextResult.needsContext || !contextResult.toolCalls?.length) {
-    return {
-      success: true,
-      contextData: '',
-      toolResults: []
-    };
+export function getSearchableFiles(
+  currentFiles: { filename: string; content: string }[],
+  projectDir?: string
+): CodeSearchFile[] {
+  if (!projectDir || !fs.existsSync(projectDir)) {
+    return currentFiles;
   }
 
-  const executor = new SecureCommandExecutor(projectId, projectDir);
-  const toolResults: ToolExecutionResult[] = [];
-  let contextData = '';
-
-  logger.log(`🔧 Executing ${contextResult.toolCalls.length} tool calls for context gathering`);
-
-  for (const toolCall of contextResult.toolCalls) {
-    try {
-      logger.log(`🔧 Executing: ${toolCall.tool} ${toolCall.args.join(' ')}`);
-      
-      // Fix working directory and args for common tools
-      let fixedToolCall = { ...toolCall };
-      
-      // Fix common path issues for specific tools
-      if (toolCall.args.length > 0) {
-        const workingDir = toolCall.workingDirectory || '.';
-        
-        // Handle different tools with specific path resolution logic
-        let fixedArgs = [...toolCall.args];
-        
-        if (toolCall.tool === 'grep') {
-          // For grep: pattern, files/directories
-          // Don't modify the pattern (first arg), only file paths (remaining args)
-          if (fixedArgs.length > 1) {
-            fixedArgs = [
-              fixedArgs[0], // Keep pattern as-is
-              ...fixedArgs.slice(1).map(arg => {
-                // For grep targets, handle directory vs file paths differently
-                if (arg === workingDir) {
-                  // If searching entire working directory, use '.'
-                  return '.';
-                } else if (arg.startsWith(workingDir + '/')) {
-                  // If it's a file within working directory, make it relative
-                  return arg.substring(workingDir.length + 1);
-                } else {
-                  // Otherwise keep as-is (might be absolute or already relative)
-                  return arg;
-                }
-              })
-            ];
-          }
-        } else if (['cat', 'head', 'tail', 'wc'].includes(toolCall.tool)) {
-          // For file reading tools: only fix file paths
-          fixedArgs = toolCall.args.map(arg => {
-            if (arg.startsWith(workingDir + '/')) {
-              return arg.substring(workingDir.length + 1);
-            }
-            return arg;
-          });
-        } else if (['find', 'ls', 'tree'].includes(toolCall.tool)) {
-          // For directory listing tools: handle directory paths
-          fixedArgs = toolCall.args.map(arg => {
-            if (arg === workingDir) {
-              return '.';
-            } else if (arg.startsWith(workingDir + '/')) {
-              return arg.substring(workingDir.length + 1);
-            }
-            return arg;
-          });
-        }
-        // For unknown tools, don't modify args to avoid breaking them
-        
-        // Apply fixes if any changes were made
-        if (JSON.stringify(fixedArgs) !== JSON.stringify(toolCall.args)) {
-          fixedToolCall = {
-            ...toolCall,
-            args: fixedArgs
-          };
-          logger.log(`🔧 Fixed ${toolCall.tool} command: ${fixedToolCall.args.join(' ')} (was: ${toolCall.args.join(' ')})`);
-        }
-      }
-      
-      const result = await executor.executeCommand({
-        command: fixedToolCall.tool,
-        args: fixedToolCall.args,
-        workingDirectory: fixedToolCall.workingDirectory || '.'
-      });
-
-      const toolResult: ToolExecutionResult = {
-        success: result.success,
-        output: result.output,
-        error: result.error,
-        executionTime: result.executionTime
-      };
-
-      toolResults.push(toolResult);
-
-      if (result.success) {
-        const formattedOutput = formatCommandResult(result, toolCall.tool);
-        contextData += `\n\n## ${toolCall.tool} ${toolCall.args.join(' ')}\n${formattedOutput}`;
-      } else {
-        logger.warn(`⚠️ Tool call failed: ${toolCall.tool}`, result.error);
-        contextData += `\n\n## ${toolCall.tool} ${toolCall.args.join(' ')} (FAILED)\n${result.error}`;
-      }
-
-    } catch (error) {
-      logger.error(`❌ Tool execution error:`, error);
-      const toolResult: ToolExecutionResult = {
-        success: false,
-        output: '',
-        error: error instanceof Error ? error.message : String(error),
-        executionTime: 0
-      };
-      toolResults.push(toolResult);
-    }
+  const byName = new Map<string, CodeSearchFile>();
+  for (const file of loadProjectSourceFiles(projectDir)) {
+    byName.set(file.filename, file);
   }
-
-  return {
-    success: toolResults.some(r => r.success),
-    contextData: contextData.trim(),
-    toolResults
-  };
+  for (const file of currentFiles) {
+    byName.set(file.filename, file);
+  }
+  return Array.from(byName.values());
 }
 
 /**
- * Execute tool calls via preview host API
+ * Execute tool calls from context gathering result with the in-process code search tools
  */
-export async function executeToolCallsViaAPI(
+export async function executeToolCalls(
   contextResult: ContextGatheringResult,
   projectId: string,
-  accessToken: string,
-  previewApiBase: string = process.env.PREVIEW_API_BASE || 'https://minidev.fun'
+  files: CodeSearchFile[]
 ): Promise<ContextExecutionResult> {
   if (!contextResult.needsContext || !contextResult.toolCalls?.length) {
     return {
@@ -205,130 +106,84 @@ export async function executeToolCallsViaAPI(
   }
 
   const toolResults: ToolExecutionResult[] = [];
-  let contextData = '';
+  const sections: string[] = [];
 
-  logger.log(`🔧 Executing ${contextResult.toolCalls.length} tool calls via API`);
+  logger.log(`🔧 Executing ${contextResult.toolCalls.length} tool calls for context gathering (project ${projectId}, ${files.length} files)`);
 
   for (const toolCall of contextResult.toolCalls) {
-    try {
-      logger.log(`🔧 Executing via API: ${toolCall.tool} ${toolCall.args.join(' ')}`);
-      
-      const response = await fetch(`${previewApiBase}/previews/${projectId}/execute`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          command: toolCall.tool,
-          args: toolCall.args,
-          workingDirectory: toolCall.workingDirectory || '.'
-        })
-      });
-
-      const result = await response.json();
-
-      const toolResult: ToolExecutionResult = {
-        success: result.success,
-        output: result.output || '',
-        error: result.error,
-        executionTime: result.executionTime || 0
-      };
-
-      toolResults.push(toolResult);
-
-      if (result.success) {
-        const formattedOutput = formatCommandResult({
-          success: true,
-          output: result.output || '',
-          exitCode: 0,
-          executionTime: result.executionTime || 0
-        }, toolCall.tool);
-        contextData += `\n\n## ${toolCall.tool} ${toolCall.args.join(' ')}\n${formattedOutput}`;
-      } else {
-        logger.warn(`⚠️ Tool call failed: ${toolCall.tool}`, result.error);
-        contextData += `\n\n## ${toolCall.tool} ${toolCall.args.join(' ')} (FAILED)\n${result.error}`;
-      }
+    const startTime = Date.now();
+    logger.log(`🔧 Executing: ${toolCall.tool} ${(toolCall.args || []).join(' ')}`);
 
-    } catch (error) {
-      logger.error(`❌ Tool execution error:`, error);
-      const toolResult: ToolExecutionResult = {
-        success: false,
-        output: '',
-        error: error instanceof Error ? error.message : String(error),
-        executionTime: 0
-      };
-      toolResults.push(toolResult);
+    const result = executeCodeSearchTool(toolCall, files);
+    if (!result.success) {
+      logger.warn(`⚠️ Tool call failed: ${toolCall.tool}`, result.error);
     }
+
+    toolResults.push({
+      success: result.success,
+      output: result.success ? JSON.stringify(result.data) : '',
+      error: result.error,
+      executionTime: Date.now() - startTime
+    });
+    sections.push(formatCodeSearchResult(toolCall, result));
   }
 
   return {
     success: toolResults.some(r => r.success),
-    contextData: contextData.trim(),
+    contextData: sections.join('\n\n'),
     toolResults
   };
 }
 
-/**
- * Enhanced context gathering with tool execution
- */
-export async function gatherContextWithTools(
-  userPrompt: string,
-  currentFiles: { filename: string; content: string }[],
-  projectId: string,
-  accessToken: string,
-  callLLM: (systemPrompt: string, userPrompt: string, stageName: string, stageType?: keyof typeof STAGE_MODEL_CONFIG) => Promise<string>,
-  projectDir?: string
-): Promise<{
-  contextResult: ContextGatheringResult;
-  contextData: string;
-  enhancedFiles: { filename: string; content: string }[];
-}> {
-  // First, determine if context is needed
-  const contextPrompt = `USER REQUEST: ${userPrompt}`;
-  const contextResponse = await callLLM(
-    `ROLE: Context Gatherer for Farcaster Miniapp
-
-TASK: Analyze if additional context is needed before processing the user request.
-
-USER REQUEST: ${userPrompt}
-
-CURRENT FILES AVAILABLE:
-${currentFiles.map(f => `- ${f.filename}`).join('\n')}
+export type ContextGatheringStopReason =
+  | 'complete'       // model returned contextComplete (or stopped asking for tools)
+  | 'no_context'     // model decided on the first step that no context is needed
+  | 'max_steps'      // step budget exhausted
+  | 'token_budget'   // next step would exceed the token budget
+  | 'parse_error';   // model response was not valid JSON
+
+export interface ContextGatheringStep {
+  step: number;
+  contextSummary?: string;
+  toolCalls: ContextGatheringResult['toolCalls'];
+  results: Array<{
+    tool: string;
+    args: string[];
+    success: boolean;
+    error?: string;
+    executionTime: number;
+  }>;
+  estimatedTokens: number;
+}
 
-AVAILABLE TOOLS:
-- grep: Search for patterns in files (use simple patterns, avoid | & ; characters)
-- find: Find files by name or type
-- tree: Show directory structure
-- cat: Read file contents
+export interface ContextGatheringTranscript {
+  steps: ContextGatheringStep[];
+  stopReason: ContextGatheringStopReason;
+  maxSteps: number;
+  maxTokens: number;
+  estimatedTokens: number;
+}
 
-SECURITY NOTE: Avoid using | & ; characters in grep patterns. Use separate grep calls instead.
+export interface ContextGatheringOptions {
+  maxSteps?: number;
+  maxTokens?: number; // estimated prompt + response tokens across all steps
+  projectDir?: string;
+}
 
-CRITICAL: Return ONLY valid JSON.
+export const DEFAULT_CONTEXT_MAX_STEPS = parseInt(process.env.CONTEXT_GATHERING_MAX_STEPS || '4', 10);
+export const DEFAULT_CONTEXT_MAX_TOKENS = parseInt(process.env.CONTEXT_GATHERING_MAX_TOKENS || '60000', 10);
+const MAX_TOOL_CALLS_PER_STEP = 3;
 
-OUTPUT FORMAT:
-{
-  "needsContext": boolean,
-  "toolCalls": [{"tool": "grep", "args": ["pattern", "src"], "workingDirectory": "src", "reason": "..."}],
-  "contextSummary": "Brief summary"
-}
+// ~4 chars per token, same estimate the mock provider uses
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
 
-Return ONLY the JSON object.`,
-    contextPrompt,
-    "Context Gatherer",
-    "STAGE_0_CONTEXT_GATHERER"
-  );
-  
-  // Log context gathering response for debugging
-  logStageResponse(projectId, 'stage0-context-gatherer', contextResponse, {
-    userPromptLength: contextPrompt.length,
-    currentFilesCount: currentFiles.length
-  });
-
-  let contextResult: ContextGatheringResult;
+/**
+ * Parse a Stage 0 response, tolerating text around the JSON object
+ */
+export function parseContextGatheringResponse(contextResponse: string): ContextGatheringResult | null {
   try {
     // First try to parse the response directly
-    contextResult = JSON.parse(contextResponse);
+    return JSON.parse(contextResponse);
   } catch (error) {
     logger.error('Failed to parse context gathering result:', error);
     logger.error('Raw response:', contextResponse.substring(0, 500));
@@ -349,53 +204,181 @@ Return ONLY the JSON object.`,
           .replace(/\b/g, '\\b')  // Escape backspaces
           .replace(/\v/g, '\\v'); // Escape vertical tabs
         
-        contextResult = JSON.parse(jsonContent);
-      } else {
-        throw new Error('No valid JSON found in response');
+        return JSON.parse(jsonContent);
       }
+      throw new Error('No valid JSON found in response');
     } catch (fallbackError) {
       logger.error('Fallback parsing also failed:', fallbackError);
-      return {
-        contextResult: { needsContext: false, toolCalls: [] },
-        contextData: '',
-        enhancedFiles: currentFiles
-      };
+      return null;
     }
   }
+}
 
-  if (!contextResult.needsContext) {
-    return {
-      contextResult,
-      contextData: '',
-      enhancedFiles: currentFiles
-    };
-  }
+/**
+ * Multi-step Stage 0: the model sees each step's tool results and can issue
+ * follow-up calls until it signals contextComplete or a budget runs out
+ */
+export async function runContextGatheringLoop(
+  userPrompt: string,
+  currentFiles: { filename: string; content: string }[],
+  projectId: string,
+  callLLM: (systemPrompt: string, userPrompt: string, stageName: string, stageType?: keyof typeof STAGE_MODEL_CONFIG) => Promise<string>,
+  options: ContextGatheringOptions = {}
+): Promise<{
+  contextResult: ContextGatheringResult;
+  contextData: string;
+  transcript: ContextGatheringTranscript;
+}> {
+  const maxSteps = Math.max(1, options.maxSteps ?? DEFAULT_CONTEXT_MAX_STEPS);
+  const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_MAX_TOKENS;
+  const systemPrompt = getStage0ContextGathererPrompt(userPrompt, currentFiles);
+
+  let searchableFiles: CodeSearchFile[] | null = null;
+  const steps: ContextGatheringStep[] = [];
+  const sections: string[] = [];
+  const allToolCalls: ContextGatheringResult['toolCalls'] = [];
+  const seenCalls = new Set<string>();
+  let contextSummary: string | undefined;
+  let contextComplete = false;
+  let stopReason: ContextGatheringStopReason = 'max_steps';
+  let estimatedTokens = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const stepPrompt = step === 1
+      ? `USER REQUEST: ${userPrompt}`
+      : getStage0FollowUpPrompt(userPrompt, sections.join('\n\n'), step, maxSteps);
+    const promptTokens = estimateTokens(systemPrompt) + estimateTokens(stepPrompt);
+
+    if (estimatedTokens + promptTokens > maxTokens) {
+      logger.log(`🪙 Context gathering token budget reached (${estimatedTokens}/${maxTokens}) before step ${step}`);
+      stopReason = 'token_budget';
+      break;
+    }
+
+    const contextResponse = await callLLM(
+      systemPrompt,
+      stepPrompt,
+      step === 1 ? 'Stage 0: Context Gatherer' : `Stage 0: Context Gatherer (step ${step})`,
+      'STAGE_0_CONTEXT_GATHERER'
+    );
+    const stepTokens = promptTokens + estimateTokens(contextResponse);
+    estimatedTokens += stepTokens;
+
+    // Log context gathering response for debugging
+    logStageResponse(projectId, `stage0-context-gatherer-step${step}`, contextResponse, {
+      userPromptLength: stepPrompt.length,
+      currentFilesCount: currentFiles.length
+    });
+
+    const parsed = parseContextGatheringResponse(contextResponse);
+    if (!parsed) {
+      stopReason = 'parse_error';
+      break;
+    }
+
+    contextSummary = parsed.contextSummary || contextSummary;
 
-  // Execute tool calls
-  let executionResult: ContextExecutionResult;
-  
-  if (projectDir) {
-    // Use local tool execution when project directory is available
-    logger.log(`🔧 Using local tool execution with project directory: ${projectDir}`);
-    executionResult = await executeToolCalls(contextResult, projectId, projectDir);
-  } else {
-    // Fallback to API execution when project directory is not available
-    logger.log(`🔧 Using API tool execution (no project directory provided)`);
-    executionResult = await executeToolCallsViaAPI(contextResult, projectId, accessToken);
+    if (step === 1 && !parsed.needsContext) {
+      steps.push({ step, contextSummary: parsed.contextSummary, toolCalls: [], results: [], estimatedTokens: stepTokens });
+      contextComplete = true;
+      stopReason = 'no_context';
+      break;
+    }
+
+    // Drop calls the model already made - their results are in the transcript
+    const toolCalls = (parsed.toolCalls || [])
+      .filter(call => {
+        const key = JSON.stringify([call.tool, call.args, call.workingDirectory]);
+        if (seenCalls.has(key)) return false;
+        seenCalls.add(key);
+        return true;
+      })
+      .slice(0, MAX_TOOL_CALLS_PER_STEP);
+
+    const stepRecord: ContextGatheringStep = { step, contextSummary: parsed.contextSummary, toolCalls, results: [], estimatedTokens: stepTokens };
+    steps.push(stepRecord);
+
+    if (toolCalls.length > 0) {
+      searchableFiles = searchableFiles ?? getSearchableFiles(currentFiles, options.projectDir);
+      const execution = await executeToolCalls({ needsContext: true, toolCalls }, projectId, searchableFiles);
+
+      stepRecord.results = toolCalls.map((call, index) => ({
+        tool: call.tool,
+        args: call.args,
+        success: execution.toolResults[index]?.success ?? false,
+        error: execution.toolResults[index]?.error,
+        executionTime: execution.toolResults[index]?.executionTime ?? 0
+      }));
+      allToolCalls.push(...toolCalls);
+      if (execution.contextData) {
+        sections.push(execution.contextData);
+      }
+    }
+
+    if (parsed.contextComplete || toolCalls.length === 0) {
+      contextComplete = true;
+      stopReason = 'complete';
+      break;
+    }
   }
 
+  logger.log(`🔍 Context gathering stopped after ${steps.length} step(s): ${stopReason} (~${estimatedTokens} tokens, ${allToolCalls.length} tool calls)`);
+
+  return {
+    contextResult: {
+      needsContext: allToolCalls.length > 0,
+      toolCalls: allToolCalls,
+      contextSummary,
+      contextComplete
+    },
+    contextData: sections.join('\n\n'),
+    transcript: {
+      steps,
+      stopReason,
+      maxSteps,
+      maxTokens,
+      estimatedTokens
+    }
+  };
+}
+
+/**
+ * Enhanced context gathering with tool execution
+ */
+export async function gatherContextWithTools(
+  userPrompt: string,
+  currentFiles: { filename: string; content: string }[],
+  projectId: string,
+  callLLM: (systemPrompt: string, userPrompt: string, stageName: string, stageType?: keyof typeof STAGE_MODEL_CONFIG) => Promise<string>,
+  projectDir?: string,
+  options: Omit<ContextGatheringOptions, 'projectDir'> = {}
+): Promise<{
+  contextResult: ContextGatheringResult;
+  contextData: string;
+  enhancedFiles: { filename: string; content: string }[];
+  transcript: ContextGatheringTranscript;
+}> {
+  const { contextResult, contextData, transcript } = await runContextGatheringLoop(
+    userPrompt,
+    currentFiles,
+    projectId,
+    callLLM,
+    { ...options, projectDir }
+  );
+
   // Enhance current files with context data
   const enhancedFiles = [...currentFiles];
-  if (executionResult.contextData) {
+  if (contextData) {
     enhancedFiles.push({
       filename: '_context.md',
-      content: `# Context Gathered\n\n${executionResult.contextData}`
+      content: `# Context Gathered\n\n${contextData}`
     });
   }
 
   return {
     contextResult,
-    contextData: executionResult.contextData,
-    enhancedFiles
+    contextData,
+    enhancedFiles,
+    transcript
   };
 }
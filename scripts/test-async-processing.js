@@ -16,19 +16,19 @@
  *   - Server running on http://localhost:3000
  *   - Database migration completed
  *   - Environment variables set
+ *   - MINIDEV_API_TOKEN: a personal access token with the 'generate' scope
  */
 
 require('dotenv').config();
-const { v4: uuidv4 } = require('uuid');
 
 const API_BASE = process.env.API_BASE || 'http://localhost:3001';
-const TEST_USER_ID = uuidv4();
+const API_TOKEN = process.env.MINIDEV_API_TOKEN;
 const WORKER_TOKEN = process.env.WORKER_AUTH_TOKEN || 'dev-worker-token';
 
 console.log('🧪 Testing Async Processing System\n');
 console.log('Configuration:');
 console.log(`  API Base: ${API_BASE}`);
-console.log(`  Test User ID: ${TEST_USER_ID}`);
+console.log(`  API Token: ${API_TOKEN ? 'Set ✓' : 'Not Set ✗'}`);
 console.log(`  Worker Token: ${WORKER_TOKEN ? 'Set ✓' : 'Not Set ✗'}`);
 console.log('');
 
@@ -66,9 +66,7 @@ async function testJobCreation() {
         const { response, data } = await apiRequest('/api/generate', {
             method: 'POST',
             headers: {
-                'Authorization': `Bearer test-token`,
-                'X-Bypass-Auth': 'true',
-                'X-Test-User-Id': TEST_USER_ID,
+                'Authorization': `Bearer ${API_TOKEN}`,
                 'X-Use-Async-Processing': 'true',
             },
             body: JSON.stringify({
@@ -82,8 +80,7 @@ async function testJobCreation() {
             console.log(`   Status: ${data.status}`);
             console.log(`   Poll URL: ${data.pollUrl}`);
             console.log(`   Estimated Time: ${data.estimatedTime}`);
-            console.log(`   User ID: ${TEST_USER_ID}`);
-            return { jobId: data.jobId, userId: TEST_USER_ID };
+            return { jobId: data.jobId };
         } else {
             console.error('❌ Job creation failed!');
             console.error('   Response:', JSON.stringify(data, null, 2));
@@ -96,7 +93,7 @@ async function testJobCreation() {
 }
 
 // Test 2: Poll job status
-async function testJobPolling(jobId, userId = TEST_USER_ID) {
+async function testJobPolling(jobId) {
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('Test 2: Poll Job Status');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
@@ -109,9 +106,7 @@ async function testJobPolling(jobId, userId = TEST_USER_ID) {
     try {
         const { response, data } = await apiRequest(`/api/jobs/${jobId}`, {
             headers: {
-                'Authorization': `Bearer test-token`,
-                'X-Bypass-Auth': 'true',
-                'X-Test-User-Id': userId,
+                'Authorization': `Bearer ${API_TOKEN}`,
             },
         });
 
@@ -176,7 +171,7 @@ async function testWorkerTrigger(jobId) {
 }
 
 // Test 4: Poll until completion (with timeout)
-async function testPollingUntilComplete(jobId, userId, maxAttempts = 10) {
+async function testPollingUntilComplete(jobId, maxAttempts = 10) {
     console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
     console.log('Test 4: Poll Until Complete');
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
@@ -186,7 +181,7 @@ async function testPollingUntilComplete(jobId, userId, maxAttempts = 10) {
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
         console.log(`   Attempt ${attempt}/${maxAttempts}...`);
 
-        const jobData = await testJobPolling(jobId, userId);
+        const jobData = await testJobPolling(jobId);
 
         if (!jobData) {
             console.error('   ❌ Failed to get job status');
@@ -293,13 +288,13 @@ async function runTests() {
             process.exit(1);
         }
 
-        const { jobId, userId } = jobResult;
+        const { jobId } = jobResult;
 
         // Wait a bit for job to be created
         await wait(2000);
 
         // Test 2: Initial status check
-        await testJobPolling(jobId, userId);
+        await testJobPolling(jobId);
 
         // Test 3: Trigger worker
         await wait(1000);
@@ -309,12 +304,12 @@ async function runTests() {
         // Note: This will take 6+ minutes for real generation
         // For testing, we only poll 10 times (50 seconds)
         await wait(2000);
-        const completed = await testPollingUntilComplete(jobId, userId, 10);
+        const completed = await testPollingUntilComplete(jobId, 10);
 
         if (!completed) {
             console.log('\n⚠️  Job is still processing (expected for real generation)');
             console.log('   To check status manually:');
-            console.log(`   curl -H "Authorization: Bearer test-token" ${API_BASE}/api/jobs/${jobId}`);
+            console.log(`   curl -H "Authorization: Bearer $MINIDEV_API_TOKEN" ${API_BASE}/api/jobs/${jobId}`);
         }
 
         // Test 5: Database verification
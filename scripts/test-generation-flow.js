@@ -4,10 +4,8 @@
  */
 
 const API_BASE = process.env.API_BASE || 'http://localhost:3000';
-const BYPASS_AUTH = process.env.BYPASS_AUTH === 'true';
-
-// Generate a valid UUID v4 for test user
-const TEST_USER_ID = '00000000-0000-0000-0000-000000000001';
+// Personal access token with the 'generate' scope (profile menu → API tokens)
+const API_TOKEN = process.env.MINIDEV_API_TOKEN;
 
 // Test configuration
 const TEST_CONFIG = {
@@ -27,10 +25,8 @@ async function makeRequest(method, endpoint, body = null) {
     'Content-Type': 'application/json',
   };
 
-  // Add auth bypass header if enabled
-  if (BYPASS_AUTH) {
-    headers['X-Bypass-Auth'] = 'true';
-    headers['X-Test-User-Id'] = TEST_USER_ID;
+  if (API_TOKEN) {
+    headers['Authorization'] = `Bearer ${API_TOKEN}`;
   }
 
   const options = {
@@ -241,9 +237,8 @@ async function testStreamingResponse(projectId) {
       'Content-Type': 'application/json',
     };
 
-    if (BYPASS_AUTH) {
-      headers['X-Bypass-Auth'] = 'true';
-      headers['X-Test-User-Id'] = TEST_USER_ID;
+    if (API_TOKEN) {
+      headers['Authorization'] = `Bearer ${API_TOKEN}`;
     }
 
     const response = await fetch(`${API_BASE}/api/generate`, {
@@ -305,7 +300,7 @@ async function runAllTests() {
   console.log('\n🚀 Starting End-to-End Generation Flow Tests');
   console.log('='.repeat(60));
   console.log(`API Base: ${API_BASE}`);
-  console.log(`Auth Bypass: ${BYPASS_AUTH ? 'ENABLED' : 'DISABLED'}`);
+  console.log(`API Token: ${API_TOKEN ? 'Set ✓' : 'Not Set ✗'}`);
   console.log('='.repeat(60));
 
   const results = {
@@ -17,16 +17,24 @@ export interface GeneratedProject {
 interface ProjectStoreState {
   selectedProjectId: string | null;
   currentProject: GeneratedProject | null;
+  activeJobId: string | null; // Async generation job currently running for this session
+  selectedTemplateId: string | null; // Catalog template for the next new project
   setSelectedProjectId: (projectId: string | null) => void;
   setCurrentProject: (project: GeneratedProject | null) => void;
+  setActiveJobId: (jobId: string | null) => void;
+  setSelectedTemplateId: (templateId: string | null) => void;
   resetProjectState: () => void;
 }
 
 export const useProjectStore = create<ProjectStoreState>((set) => ({
   selectedProjectId: null,
   currentProject: null,
+  activeJobId: null,
+  selectedTemplateId: null,
   setSelectedProjectId: (projectId) => set({ selectedProjectId: projectId }),
   setCurrentProject: (project) => set({ currentProject: project }),
-  resetProjectState: () => set({ selectedProjectId: null, currentProject: null }),
+  setActiveJobId: (jobId) => set({ activeJobId: jobId }),
+  setSelectedTemplateId: (templateId) => set({ selectedTemplateId: templateId }),
+  resetProjectState: () => set({ selectedProjectId: null, currentProject: null, activeJobId: null, selectedTemplateId: null }),
 }));
 